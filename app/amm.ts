@@ -17,26 +17,72 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Keypair, PublicKey, Transaction} from '@solana/web3.js';
-import { IAMM, AMMState, IAMMSerializedData, IAMMDeserializeConfig } from './types/amm.interface';
+import {
+  Keypair,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  PublicKey,
+  TokenBalance,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import {
+  IAMM,
+  AMMState,
+  IAMMSerializedData,
+  IAMMDeserializeConfig,
+  ISignedSwap,
+  ISwapInstructions,
+  ISwapResult
+} from './types/amm.interface';
 import { createMemoIx } from './utils/memo';
 import {
   CpAmm,
+  CP_AMM_PROGRAM_ID,
   MAX_SQRT_PRICE,
   MIN_SQRT_PRICE,
   PoolFeesParams,
   PoolState,
   PositionState,
   RemoveAllLiquidityAndClosePositionParams,
+  SwapMode,
   SwapParams,
   getPriceFromSqrtPrice,
+  derivePoolAuthority,
   derivePositionNftAccount
 } from "@meteora-ag/cp-amm-sdk";
 import { IExecutionService } from './types/execution.interface';
 import { BN } from '@coral-xyz/anchor';
-import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync
+} from '@solana/spl-token';
 import { Decimal } from 'decimal.js';
 import { LoggerService } from '@app/services/logger.service';
+import bs58 from 'bs58';
+
+// Anchor discriminators of the CP-AMM swap and swap2 instructions
+const SWAP_DISCRIMINATORS = [
+  Buffer.from([248, 198, 158, 145, 225, 117, 135, 200]),
+  Buffer.from([65, 75, 63, 76, 235, 91, 91, 136]),
+];
+
+// Account positions shared by swap and swap2
+const SWAP_ACCOUNTS = {
+  pool: 1,
+  inputTokenAccount: 2,
+  tokenAVault: 4,
+  tokenBVault: 5,
+  tokenAMint: 6,
+  tokenBMint: 7,
+  payer: 8,
+};
+
+// A transaction confirmed by sendRawTransaction may take a moment to be served by getParsedTransaction
+const FETCH_SWAP_ATTEMPTS = 5;
+const FETCH_SWAP_RETRY_MS = 1000;
 
 /**
  * AMM class implementing automated market maker functionality
@@ -53,6 +99,7 @@ export class AMM implements IAMM {
   public pool?: PublicKey;                      // Pool address (set after initialization)
   public position?: PublicKey;                  // Position account (tracks LP ownership)
   public positionNft?: PublicKey;               // NFT mint representing position ownership
+  public lookupTable?: PublicKey;               // Address lookup table for v0 swap transactions
   public state: AMMState = AMMState.Uninitialized;  // Current operational state
   private executionService: IExecutionService;  // Service for executing blockchain transactions
   private logger: LoggerService;
@@ -303,9 +350,9 @@ export class AMM implements IAMM {
     // Build the pre-signed remove liquidity transaction
     const tx = await this.buildRemoveLiquidityTx();
 
-    // Execute the pre-signed transaction
+    // Execute the pre-signed transaction (the authority is passed so an expired one can be re-signed)
     this.logger.debug('Executing transaction to remove liquidity and close position');
-    const result = await this.executionService.executeTx(tx);
+    const result = await this.executionService.executeTx(tx, this.authority);
 
     if (result.status === 'failed') {
       throw new Error(`Failed to remove liquidity and close position: ${result.error}`);
@@ -321,6 +368,35 @@ export class AMM implements IAMM {
     return result.signature;
   }
 
+  /**
+   * Reconciles local state with the chain after an interrupted liquidity removal
+   * Removing liquidity closes the position account, so a missing account means
+   * an earlier removal landed even though its result was never persisted
+   * @returns True if the AMM is finalized
+   */
+  async syncLiquidityState(): Promise<boolean> {
+    if (this.state === AMMState.Finalized) {
+      return true;
+    }
+
+    if (!this.position) {
+      return false;
+    }
+
+    const positionAccount = await this.executionService.connection.getAccountInfo(this.position);
+    if (positionAccount) {
+      return false;
+    }
+
+    this.logger.info('Position already closed on-chain, marking AMM finalized', {
+      position: this.position.toBase58()
+    });
+    delete this.position;
+    delete this.positionNft;
+    this.state = AMMState.Finalized;
+    return true;
+  }
+
   /**
    * Gets a quote for swapping tokens on the AMM
    * @param isBaseToQuote - Direction of swap (true: base->quote, false: quote->base)
@@ -384,20 +460,81 @@ export class AMM implements IAMM {
   }
 
   /**
-   * Builds a transaction for swapping tokens on the AMM
+   * Gets the input needed to receive an exact output amount
+   * @param isBaseToQuote - Direction of swap (true: base->quote, false: quote->base)
+   * @param amountOut - Amount of output tokens wanted
+   * @param slippageBps - Slippage tolerance in basis points (default: 50 = 0.5%)
+   * @returns Input amount, slippage-bounded maximum input, fees and price impact
+   * @throws Error if pool is finalized or uninitialized
+   */
+  async getQuoteExactOut(
+    isBaseToQuote: boolean,
+    amountOut: BN,
+    slippageBps: number = 50
+  ): Promise<{
+    amountIn: BN;
+    maxAmountIn: BN;
+    totalFee: BN;
+    priceImpact: number;
+  }> {
+    if (this.state === AMMState.Uninitialized || !this.pool) {
+      throw new Error('AMM not initialized');
+    }
+
+    if (this.state === AMMState.Finalized) {
+      throw new Error('AMM is finalized - cannot get quote');
+    }
+
+    const poolState: PoolState = await this.cpAmm.fetchPoolState(this.pool);
+
+    const connection = this.executionService.connection;
+    const currentSlot = await connection.getSlot();
+    const blockTime = await connection.getBlockTime(currentSlot);
+
+    if (!blockTime) {
+      throw new Error('Failed to get block time');
+    }
+
+    // Pools activate by slot or by timestamp, same as getQuote
+    const currentPoint = new BN(poolState.activationType ? blockTime : currentSlot);
+
+    const quote = this.cpAmm.getQuote2({
+      inputTokenMint: isBaseToQuote ? this.baseMint : this.quoteMint,
+      slippage: slippageBps / 10000, // Convert basis points to decimal
+      currentPoint,
+      poolState,
+      tokenADecimal: this.baseDecimals,
+      tokenBDecimal: this.quoteDecimals,
+      hasReferral: false,
+      swapMode: SwapMode.ExactOut,
+      amountOut,
+    });
+
+    return {
+      amountIn: quote.includedFeeInputAmount,
+      maxAmountIn: quote.maximumAmountIn ?? quote.includedFeeInputAmount,
+      totalFee: quote.claimingFee.add(quote.protocolFee).add(quote.compoundingFee).add(quote.referralFee),
+      priceImpact: quote.priceImpact.toNumber()
+    };
+  }
+
+  /**
+   * Builds the instructions for a swap without wrapping them in a transaction
+   * Includes idempotent token account creation, so they can follow other instructions
+   * (e.g. a vault split) that produce the input tokens
    * @param user - User's public key who is swapping tokens
    * @param isBaseToQuote - Direction of swap (true: base->quote, false: quote->base)
    * @param amountIn - Amount of input tokens to swap
    * @param slippageBps - Slippage tolerance in basis points (default: 50 = 0.5%)
-   * @returns Transaction with blockhash and fee payer set, ready for user signature
+   * @returns Swap instructions and the quote they were bounded by
    * @throws Error if pool is finalized or uninitialized
    */
-  async buildSwapTx(
+  async buildSwapInstructions(
     user: PublicKey,
     isBaseToQuote: boolean,
     amountIn: BN,
     slippageBps: number = 50
-  ): Promise<Transaction> {
+  ): Promise<ISwapInstructions> {
     if (this.state === AMMState.Uninitialized || !this.pool) {
       throw new Error('AMM not initialized');
     }
@@ -454,29 +591,78 @@ export class AMM implements IAMM {
     // Build swap transaction
     const swapTx = await this.cpAmm.swap(swapParams);
 
+    return {
+      instructions: swapTx.instructions,
+      swapOutAmount: quote.swapOutAmount,
+      minSwapOutAmount: quote.minSwapOutAmount,
+      priceImpact: quote.priceImpact.toNumber(),
+    };
+  }
+
+  /**
+   * Builds a transaction for swapping tokens on the AMM
+   * Built as a v0 transaction, compiled against the proposal's lookup table when it has one
+   * @param user - User's public key who is swapping tokens
+   * @param isBaseToQuote - Direction of swap (true: base->quote, false: quote->base)
+   * @param amountIn - Amount of input tokens to swap
+   * @param slippageBps - Slippage tolerance in basis points (default: 50 = 0.5%)
+   * @returns Transaction with blockhash and fee payer set, ready for user signature
+   * @throws Error if pool is finalized or uninitialized
+   */
+  async buildSwapTx(
+    user: PublicKey,
+    isBaseToQuote: boolean,
+    amountIn: BN,
+    slippageBps: number = 50
+  ): Promise<VersionedTransaction> {
+    const { instructions } = await this.buildSwapInstructions(user, isBaseToQuote, amountIn, slippageBps);
+
     // Add memo for transaction identification on Solscan
     const swapDirection = isBaseToQuote ? 'base→quote' : 'quote→base';
-    const memoMessage = `%[Swap] ${amountIn} ${swapDirection} | Pool: ${this.pool.toBase58().slice(0, 8)}... | ${user.toBase58()}`;
-    swapTx.add(createMemoIx(memoMessage));
+    const memoMessage = `%[Swap] ${amountIn} ${swapDirection} | Pool: ${this.pool!.toBase58().slice(0, 8)}... | ${user.toBase58()}`;
 
-    // Add blockhash and fee payer so transaction can be signed
-    const { blockhash } = await this.executionService.connection.getLatestBlockhash();
-    swapTx.recentBlockhash = blockhash;
-    swapTx.feePayer = user;
+    const lookupTables = this.lookupTable
+      ? await this.executionService.fetchLookupTables([this.lookupTable])
+      : [];
 
-    // Add compute budget instructions (swap needs high priority)
-    await this.executionService.addComputeBudgetInstructions(swapTx);
+    // Compute budget instructions are added by the execution service (swap needs high priority)
+    return this.executionService.buildVersionedTx(
+      [...instructions, createMemoIx(memoMessage)],
+      user,
+      lookupTables
+    );
+  }
 
-    return swapTx;
+  /**
+   * Addresses every swap on this pool references, for the proposal's lookup table
+   * @returns Pool, vault, mint and program addresses
+   * @throws Error if the pool is not initialized
+   */
+  async getLookupTableAddresses(): Promise<PublicKey[]> {
+    if (!this.pool) {
+      throw new Error('AMM not initialized');
+    }
+
+    const poolState = await this.cpAmm.fetchPoolState(this.pool);
+    return [
+      this.pool,
+      poolState.tokenAVault,
+      poolState.tokenBVault,
+      poolState.tokenAMint,
+      poolState.tokenBMint,
+      derivePoolAuthority(),
+      CP_AMM_PROGRAM_ID,
+      TOKEN_PROGRAM_ID,
+    ];
   }
 
   /**
    * Executes a pre-signed swap transaction
-   * @param tx - Transaction already signed by user
+   * @param tx - Legacy or v0 transaction already signed by user
    * @returns Transaction signature
    * @throws Error if transaction execution fails
    */
-  async executeSwapTx(tx: Transaction): Promise<string> {
+  async executeSwapTx(tx: Transaction | VersionedTransaction): Promise<string> {
     if (this.state === AMMState.Uninitialized) {
       throw new Error('AMM not initialized - cannot execute swap');
     }
@@ -496,6 +682,228 @@ export class AMM implements IAMM {
     return result.signature;
   }
 
+  /**
+   * Reads a confirmed swap against this pool from the chain
+   * Amounts come from the pool vault balance changes, the trader from the swap instruction
+   * @param signature - Signature of a confirmed transaction
+   * @returns The swap as executed on-chain
+   * @throws Error if the transaction is missing, failed, or doesn't contain exactly one swap on this pool
+   */
+  async fetchSwapResult(signature: string): Promise<ISwapResult> {
+    if (!this.pool) {
+      throw new Error('AMM not initialized');
+    }
+
+    const tx = await this.fetchParsedTransaction(signature);
+    if (!tx?.meta) {
+      throw new Error(`Transaction ${signature} not found`);
+    }
+    if (tx.meta.err) {
+      throw new Error(`Transaction ${signature} failed on-chain: ${JSON.stringify(tx.meta.err)}`);
+    }
+
+    // Only top-level swaps on this pool count; with more than one the vault deltas can't be attributed
+    const swaps = tx.transaction.message.instructions.filter(
+      (ix): ix is PartiallyDecodedInstruction =>
+        'data' in ix &&
+        ix.programId.equals(CP_AMM_PROGRAM_ID) &&
+        ix.accounts[SWAP_ACCOUNTS.pool]?.equals(this.pool!) === true &&
+        SWAP_DISCRIMINATORS.some(d => Buffer.from(bs58.decode(ix.data)).subarray(0, 8).equals(d))
+    );
+    if (swaps.length !== 1) {
+      throw new Error(`Expected exactly one swap on pool ${this.pool.toBase58()}, found ${swaps.length}`);
+    }
+
+    const accounts = swaps[0].accounts;
+    if (!accounts[SWAP_ACCOUNTS.tokenAMint].equals(this.baseMint) || !accounts[SWAP_ACCOUNTS.tokenBMint].equals(this.quoteMint)) {
+      throw new Error('Swap token mints do not match this AMM');
+    }
+
+    const baseDelta = this.getTokenBalanceDelta(tx, accounts[SWAP_ACCOUNTS.tokenAVault]);
+    const quoteDelta = this.getTokenBalanceDelta(tx, accounts[SWAP_ACCOUNTS.tokenBVault]);
+
+    let isBaseToQuote: boolean;
+    if (baseDelta.gtn(0) && quoteDelta.ltn(0)) {
+      isBaseToQuote = true;
+    } else if (quoteDelta.gtn(0) && baseDelta.ltn(0)) {
+      isBaseToQuote = false;
+    } else {
+      throw new Error(`Unexpected vault balance changes: base ${baseDelta.toString()}, quote ${quoteDelta.toString()}`);
+    }
+
+    return {
+      trader: accounts[SWAP_ACCOUNTS.payer],
+      isBaseToQuote,
+      amountIn: isBaseToQuote ? baseDelta : quoteDelta,
+      amountOut: isBaseToQuote ? quoteDelta.neg() : baseDelta.neg(),
+    };
+  }
+
+  /**
+   * Decodes the swap in a signed, unsent transaction against this pool
+   * Used to check signed swaps before they are sent and pre-signed orders before they are
+   * stored. v0 transactions may only use the proposal's lookup table, which is resolved to
+   * read the instructions.
+   * @param tx - Legacy or v0 transaction to inspect
+   * @returns Trader, direction and bounds of the swap
+   * @throws Error if the transaction uses another lookup table or doesn't contain exactly one
+   * swap on this pool from the trader's own token accounts
+   */
+  async decodeSwapTx(tx: VersionedTransaction): Promise<ISignedSwap> {
+    if (!this.pool) {
+      throw new Error('AMM not initialized');
+    }
+
+    const tableKeys = tx.message.addressTableLookups.map(lookup => lookup.accountKey);
+    if (tableKeys.some(key => !this.lookupTable?.equals(key))) {
+      throw new Error('Transaction uses a lookup table other than the proposal\'s');
+    }
+    const addressLookupTableAccounts = tableKeys.length > 0
+      ? await this.executionService.fetchLookupTables(tableKeys)
+      : [];
+    const { instructions } = TransactionMessage.decompile(tx.message, { addressLookupTableAccounts });
+
+    // Only the swap instruction is accepted - swap2 can encode exact-out and partial fills
+    const swaps = instructions.filter(ix =>
+      ix.programId.equals(CP_AMM_PROGRAM_ID) &&
+      ix.keys[SWAP_ACCOUNTS.pool]?.pubkey.equals(this.pool!) === true &&
+      SWAP_DISCRIMINATORS.some(d => ix.data.subarray(0, 8).equals(d))
+    );
+    if (swaps.length !== 1 || !swaps[0].data.subarray(0, 8).equals(SWAP_DISCRIMINATORS[0])) {
+      throw new Error(`Expected exactly one swap instruction on pool ${this.pool.toBase58()}`);
+    }
+
+    const keys = swaps[0].keys.map(key => key.pubkey);
+    if (!keys[SWAP_ACCOUNTS.tokenAMint].equals(this.baseMint) || !keys[SWAP_ACCOUNTS.tokenBMint].equals(this.quoteMint)) {
+      throw new Error('Swap token mints do not match this AMM');
+    }
+
+    const trader = keys[SWAP_ACCOUNTS.payer];
+    const inputTokenAccount = keys[SWAP_ACCOUNTS.inputTokenAccount];
+    let isBaseToQuote: boolean;
+    if (inputTokenAccount.equals(getAssociatedTokenAddressSync(this.baseMint, trader))) {
+      isBaseToQuote = true;
+    } else if (inputTokenAccount.equals(getAssociatedTokenAddressSync(this.quoteMint, trader))) {
+      isBaseToQuote = false;
+    } else {
+      throw new Error('Swap input is not one of the trader\'s token accounts for this pool');
+    }
+
+    // Instruction data: discriminator, amount_in (u64), minimum_amount_out (u64)
+    const data = swaps[0].data;
+    return {
+      trader,
+      isBaseToQuote,
+      amountIn: new BN(data.subarray(8, 16), 'le'),
+      minAmountOut: new BN(data.subarray(16, 24), 'le'),
+    };
+  }
+
+  /**
+   * Builds a swap that spends an owner's tokens through a token delegate
+   * The delegate signs and pays fees; output goes to the owner's token account,
+   * which is created if missing
+   * @param owner - Owner of the input and output token accounts
+   * @param delegate - Approved delegate of the owner's input token account
+   * @param isBaseToQuote - Direction of swap (true: base->quote, false: quote->base)
+   * @param amountIn - Amount of input tokens to swap
+   * @param minAmountOut - Minimum output enforced on-chain
+   * @returns Transaction with blockhash and fee payer set, ready for the delegate's signature
+   * @throws Error if pool is finalized or uninitialized
+   */
+  async buildDelegatedSwapTx(
+    owner: PublicKey,
+    delegate: PublicKey,
+    isBaseToQuote: boolean,
+    amountIn: BN,
+    minAmountOut: BN
+  ): Promise<Transaction> {
+    if (this.state === AMMState.Uninitialized || !this.pool) {
+      throw new Error('AMM not initialized');
+    }
+
+    if (this.state === AMMState.Finalized) {
+      throw new Error('AMM is finalized - cannot execute swaps');
+    }
+
+    const poolState: PoolState = await this.cpAmm.fetchPoolState(this.pool);
+    const inputTokenMint = isBaseToQuote ? this.baseMint : this.quoteMint;
+    const outputTokenMint = isBaseToQuote ? this.quoteMint : this.baseMint;
+    const outputTokenAccount = getAssociatedTokenAddressSync(outputTokenMint, owner);
+
+    // cpAmm.swap() makes the token owner sign, so the instruction is built directly
+    // with the delegate as the transfer authority
+    const swapIx = await this.cpAmm._program.methods
+      .swap({ amountIn, minimumAmountOut: minAmountOut })
+      .accountsPartial({
+        poolAuthority: derivePoolAuthority(),
+        pool: this.pool,
+        payer: delegate,
+        inputTokenAccount: getAssociatedTokenAddressSync(inputTokenMint, owner),
+        outputTokenAccount,
+        tokenAVault: poolState.tokenAVault,
+        tokenBVault: poolState.tokenBVault,
+        tokenAMint: poolState.tokenAMint,
+        tokenBMint: poolState.tokenBMint,
+        tokenAProgram: TOKEN_PROGRAM_ID,
+        tokenBProgram: TOKEN_PROGRAM_ID,
+        referralTokenAccount: null,
+      })
+      .instruction();
+
+    const swapTx = new Transaction().add(
+      createAssociatedTokenAccountIdempotentInstruction(delegate, outputTokenAccount, owner, outputTokenMint),
+      swapIx
+    );
+
+    const swapDirection = isBaseToQuote ? 'base→quote' : 'quote→base';
+    const memoMessage = `%[Order] ${amountIn} ${swapDirection} | Pool: ${this.pool.toBase58().slice(0, 8)}... | ${owner.toBase58()}`;
+    swapTx.add(createMemoIx(memoMessage));
+
+    const { blockhash } = await this.executionService.connection.getLatestBlockhash();
+    swapTx.recentBlockhash = blockhash;
+    swapTx.feePayer = delegate;
+
+    await this.executionService.addComputeBudgetInstructions(swapTx);
+
+    return swapTx;
+  }
+
+  /**
+   * Fetches a parsed transaction, retrying while the RPC catches up
+   * @param signature - Transaction signature
+   * @returns Parsed transaction, or null if it never becomes available
+   */
+  private async fetchParsedTransaction(signature: string): Promise<ParsedTransactionWithMeta | null> {
+    const connection = this.executionService.connection;
+    for (let attempt = 1; attempt <= FETCH_SWAP_ATTEMPTS; attempt++) {
+      const tx = await connection.getParsedTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      if (tx) {
+        return tx;
+      }
+      if (attempt < FETCH_SWAP_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, FETCH_SWAP_RETRY_MS));
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Change in a token account's balance over a transaction (post - pre, raw units)
+   * A missing pre or post balance means the account was created or closed, i.e. zero
+   */
+  private getTokenBalanceDelta(tx: ParsedTransactionWithMeta, tokenAccount: PublicKey): BN {
+    const accountIndex = tx.transaction.message.accountKeys.findIndex(key => key.pubkey.equals(tokenAccount));
+    const balanceOf = (balances: TokenBalance[] | null | undefined): BN => {
+      const entry = balances?.find(b => b.accountIndex === accountIndex);
+      return new BN(entry?.uiTokenAmount.amount ?? '0');
+    };
+    return balanceOf(tx.meta?.postTokenBalances).sub(balanceOf(tx.meta?.preTokenBalances));
+  }
+
   /**
    * Serializes the AMM state for persistence
    * @returns Serialized AMM data that can be saved to database
@@ -513,6 +921,7 @@ export class AMM implements IAMM {
       pool: this.pool?.toBase58(),
       position: this.position?.toBase58(),
       positionNft: this.positionNft?.toBase58(),
+      lookupTable: this.lookupTable?.toBase58(),
 
       // Note: We don't serialize authority, cpAmm instance, or services
       // as those are reconstructed during deserialization
@@ -550,6 +959,9 @@ export class AMM implements IAMM {
     if (data.positionNft) {
       amm.positionNft = new PublicKey(data.positionNft);
     }
+    if (data.lookupTable) {
+      amm.lookupTable = new PublicKey(data.lookupTable);
+    }
 
     // The cpAmm instance is already created in the constructor
     // Authority and services are provided through config
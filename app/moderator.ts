@@ -19,8 +19,8 @@
 
 import { Keypair, PublicKey, Transaction, SystemProgram } from '@solana/web3.js';
 import { getAssociatedTokenAddress, createAssociatedTokenAccountIdempotentInstruction, createTransferInstruction, TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, NATIVE_MINT, getAccount, ASSOCIATED_TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import { IModerator, IModeratorConfig, IModeratorInfo, ProposalStatus, ICreateProposalParams } from './types/moderator.interface';
-import { IExecutionConfig, PriorityFeeMode, Commitment } from './types/execution.interface';
+import { IModerator, IModeratorConfig, IModeratorInfo, ProposalStatus, ICreateProposalParams, IWithdrawalCapacity } from './types/moderator.interface';
+import { IBundleConfig, IExecutionConfig, PriorityFeeMode, Commitment } from './types/execution.interface';
 import { IProposal, IProposalConfig } from './types/proposal.interface';
 import { Proposal } from './proposal';
 import { SchedulerService } from './services/scheduler.service';
@@ -29,10 +29,14 @@ import { ExecutionService } from './services/execution.service';
 import { LoggerService } from './services/logger.service';
 import { DammService } from './services/damm.service';
 import { DlmmService } from './services/dlmm.service';
-import { POOL_METADATA } from '../src/config/whitelist';
+import { getPoolMetadata } from '../src/config/whitelist';
 import { normalizeWithdrawConfirmResponse, calculateMarketPriceFromAmounts } from './utils/pool-api.utils';
 import { recordSlashIfApplicable } from './services/slash.service';
-//import { BlockEngineUrl, JitoService } from '@slateos/jito';
+import { IProposalEvent, ProposalLifecycleState } from './types/proposal-lifecycle.interface';
+import { canTransition, getFailureState, inferLifecycleState, isFailureState } from './utils/proposal-lifecycle';
+
+/** Default number of proposals that can run against the same pool at once */
+const DEFAULT_MAX_CONCURRENT_PROPOSALS = 3;
 
 /**
  * Moderator class that manages governance proposals for the protocol
@@ -48,7 +52,8 @@ export class Moderator implements IModerator {
   private dammService: DammService;                        // DAMM pool interaction service
   private dlmmService: DlmmService;                        // DLMM pool interaction service
   private logger: LoggerService;                           // Logger service for this moderator
-  //private jitoService?: JitoService;                       // Jito service @deprecated
+  private operationQueue: Promise<void> = Promise.resolve(); // Serializes proposal creation and deposit-back
+  private finalizing = new Map<number, Promise<[ProposalStatus, number | null]>>(); // Finalizations in progress by proposal ID
 
   /**
    * Creates a new Moderator instance
@@ -78,7 +83,8 @@ export class Moderator implements IModerator {
       commitment: commitment,
       maxRetries: 3,
       skipPreflight: false,
-      priorityFeeMode: PriorityFeeMode.Dynamic
+      priorityFeeMode: PriorityFeeMode.Dynamic,
+      bundle: Moderator.getBundleConfig(config)
     };
 
     this.logger.info('Moderator initialized', {
@@ -89,11 +95,27 @@ export class Moderator implements IModerator {
     this.executionService = new ExecutionService(executionConfig, this.logger);
     this.dammService = new DammService(this.logger.createChild('damm'));
     this.dlmmService = new DlmmService(this.logger.createChild('dlmm'));
+  }
 
-    /** @deprecated */
-    // if (this.config.jitoUuid) {
-    //   this.jitoService = new JitoService(BlockEngineUrl.MAINNET, this.config.jitoUuid);
-    // }
+  /**
+   * Jito bundle settings, enabled by a Jito UUID or a JITO_BLOCK_ENGINE_URL override
+   * (e.g. a local mock block engine)
+   * @param config - Moderator configuration
+   * @returns Bundle config, or undefined to send multi-transaction flows sequentially
+   */
+  private static getBundleConfig(config: IModeratorConfig): IBundleConfig | undefined {
+    const blockEngineUrl = process.env.JITO_BLOCK_ENGINE_URL;
+    if (!config.jitoUuid && !blockEngineUrl) {
+      return undefined;
+    }
+
+    return {
+      blockEngineUrl: blockEngineUrl || 'https://mainnet.block-engine.jito.wtf',
+      uuid: config.jitoUuid,
+      tipLamports: parseInt(process.env.JITO_TIP_LAMPORTS || '10000'),
+      tipAccounts: process.env.JITO_TIP_ACCOUNTS?.split(',').map(account => account.trim()).filter(Boolean),
+      fallbackToSequential: process.env.JITO_FALLBACK_TO_SEQUENTIAL !== 'false'
+    };
   }
 
   /**
@@ -192,13 +214,235 @@ export class Moderator implements IModerator {
     await this.persistenceService.saveProposal(proposal);
   }
 
+  /**
+   * Save only a proposal's TWAP oracle state
+   * Used by the crank job, whose copy may be stale if the proposal was cancelled or
+   * finalized while it cranked
+   * @param proposal - The proposal whose oracle was cranked
+   */
+  async saveTWAPState(proposal: IProposal): Promise<void> {
+    await this.persistenceService.saveTWAPOracleData(proposal.config.id, proposal.twapOracle.serialize());
+  }
+
+  /**
+   * Get a proposal's current lifecycle state
+   * Falls back to the proposal's coarse status for proposals without recorded events
+   * @param id - Proposal ID
+   * @returns Current lifecycle state (Uninitialized if the proposal doesn't exist)
+   */
+  async getLifecycleState(id: number): Promise<ProposalLifecycleState> {
+    const recorded = await this.persistenceService.getLifecycleState(id);
+    if (recorded) {
+      return recorded;
+    }
+
+    const proposal = await this.getProposal(id);
+    return proposal
+      ? inferLifecycleState(proposal.getStatus().status)
+      : ProposalLifecycleState.Uninitialized;
+  }
+
+  /**
+   * Get a proposal's lifecycle history, oldest first
+   * @param id - Proposal ID
+   * @returns Recorded lifecycle events
+   */
+  async getProposalEvents(id: number): Promise<IProposalEvent[]> {
+    return await this.persistenceService.getProposalEvents(id);
+  }
+
+  /**
+   * Moves a proposal to a new lifecycle state and records the transition
+   * The state is checked and the transition recorded in one transaction
+   * Re-entering the current state is a no-op (except for failed sub-states)
+   * @param id - Proposal ID
+   * @param to - Target state
+   * @param details - Step-specific context to record
+   * @throws Error if the transition is not allowed from the current state
+   */
+  private async transitionLifecycle(
+    id: number,
+    to: ProposalLifecycleState,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    const transition = await this.persistenceService.recordLifecycleTransition(id, from => {
+      if (from === to && !isFailureState(to)) {
+        return null;
+      }
+      if (!canTransition(from, to)) {
+        throw new Error(`Proposal #${id}: Invalid lifecycle transition ${from} -> ${to}`);
+      }
+      return { toState: to, details };
+    });
+
+    if (transition) {
+      this.logger.info('Proposal lifecycle transition', { proposalId: id, from: transition.fromState, to });
+    }
+  }
+
+  /**
+   * Moves a proposal into the failed sub-state of the step it was performing
+   * Never throws, so the original error is what callers see
+   * @param id - Proposal ID
+   * @param error - The step's error
+   */
+  private async failLifecycle(id: number, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    try {
+      const transition = await this.persistenceService.recordLifecycleTransition(id, from => {
+        const to = getFailureState(from);
+        return to ? { toState: to, error: message } : null;
+      });
+
+      if (transition) {
+        this.logger.error('Proposal lifecycle step failed', {
+          proposalId: id,
+          from: transition.fromState,
+          to: transition.toState,
+          error: message
+        });
+      }
+    } catch (recordError) {
+      this.logger.error('Failed to record lifecycle failure', {
+        proposalId: id,
+        error: message,
+        recordError: recordError instanceof Error ? recordError.message : String(recordError)
+      });
+    }
+  }
+
+  /**
+   * Runs the post-vault lifecycle steps a proposal hasn't completed yet:
+   * deposit-back (VaultsFinalized/Cancelled → DepositedBack) and slash recording (→ Settled)
+   * @param id - Proposal ID
+   * @param proposal - The finalized or cancelled proposal
+   * @throws Error if a step fails (the failed sub-state is recorded first)
+   */
+  private async settleProposal(id: number, proposal: IProposal): Promise<void> {
+    let state = await this.getLifecycleState(id);
+
+    if (
+      state === ProposalLifecycleState.VaultsFinalized ||
+      state === ProposalLifecycleState.Cancelled ||
+      state === ProposalLifecycleState.DepositBackFailed
+    ) {
+      try {
+        await this.runExclusive(() => this.handleDepositBack(id, proposal));
+      } catch (error) {
+        await this.failLifecycle(id, error);
+        throw error;
+      }
+      await this.transitionLifecycle(id, ProposalLifecycleState.DepositedBack);
+      state = ProposalLifecycleState.DepositedBack;
+    }
+
+    if (
+      state === ProposalLifecycleState.DepositedBack ||
+      state === ProposalLifecycleState.SettlementFailed
+    ) {
+      try {
+        // Record slash if this is a slash proposal
+        await recordSlashIfApplicable(this.id, id, proposal);
+      } catch (error) {
+        await this.failLifecycle(id, error);
+        throw error;
+      }
+      await this.transitionLifecycle(id, ProposalLifecycleState.Settled);
+    }
+  }
+
+  /**
+   * Runs an operation after all previously queued operations have settled
+   * Proposal creation and deposit-back both move tokens through the authority wallet
+   * and allocate proposal IDs, so concurrent proposals must not interleave them
+   * @param operation - The operation to run
+   * @returns The operation's result
+   */
+  private runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.operationQueue.then(operation, operation);
+    this.operationQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  /**
+   * Computes how much liquidity a new proposal may withdraw from a pool
+   * The pool's withdrawalPercentage caps all outstanding withdrawals combined and is
+   * split evenly across maxConcurrentProposals slots. Percentages are summed even though
+   * each withdrawal is taken from the liquidity left by earlier ones, so the cap is conservative.
+   * @param poolAddress - Pool address (DAMM or DLMM)
+   * @returns Withdrawal capacity for the pool
+   * @throws Error if the pool has no metadata configured
+   */
+  async getWithdrawalCapacity(poolAddress: string): Promise<IWithdrawalCapacity> {
+    const poolMetadata = getPoolMetadata(poolAddress);
+    if (!poolMetadata) {
+      throw new Error(`Pool metadata not found for ${poolAddress}`);
+    }
+
+    const maxConcurrentProposals = this.config.maxConcurrentProposals ?? DEFAULT_MAX_CONCURRENT_PROPOSALS;
+    const capPercentage = poolMetadata.withdrawalPercentage;
+    const { activeProposals, outstandingPercentage } =
+      await this.persistenceService.getPoolWithdrawalUsage(poolAddress);
+
+    const availablePercentage = Math.max(0, capPercentage - outstandingPercentage);
+    const sharePercentage = Math.max(1, Math.floor(capPercentage / maxConcurrentProposals));
+    const nextWithdrawalPercentage = activeProposals >= maxConcurrentProposals
+      ? 0
+      : Math.min(sharePercentage, availablePercentage);
+
+    return {
+      poolAddress,
+      maxConcurrentProposals,
+      activeProposals,
+      capPercentage,
+      outstandingPercentage,
+      availablePercentage,
+      nextWithdrawalPercentage,
+    };
+  }
+
   /**
    * Creates a new governance proposal
+   * Several proposals can run at once; each one's spot pool withdrawal must fit the pool's cap.
+   * A withdrawal holds the pool's database lock from the capacity check until it is stored,
+   * so servers sharing the database can't both pass the check
    * @param params - Parameters for creating the proposal including AMM configuration
    * @returns The newly created proposal object
-   * @throws Error if proposal creation fails
+   * @throws Error if proposal creation fails or the withdrawal exceeds the pool's capacity
    */
   async createProposal(params: ICreateProposalParams): Promise<IProposal> {
+    const withdrawal = params.dammWithdrawal;
+    return this.runExclusive(() => withdrawal
+      ? this.persistenceService.withPoolWithdrawalLock(
+          withdrawal.poolAddress,
+          () => this.createProposalExclusive(params)
+        )
+      : this.createProposalExclusive(params)
+    );
+  }
+
+  /**
+   * Creates a new governance proposal (must run through runExclusive, and under the
+   * pool's withdrawal lock when it withdraws liquidity)
+   * @param params - Parameters for creating the proposal including AMM configuration
+   * @returns The newly created proposal object
+   */
+  private async createProposalExclusive(params: ICreateProposalParams): Promise<IProposal> {
+    // Enforce the pool's concurrency and withdrawal cap before touching any liquidity
+    if (params.dammWithdrawal) {
+      const capacity = await this.getWithdrawalCapacity(params.dammWithdrawal.poolAddress);
+      if (capacity.activeProposals >= capacity.maxConcurrentProposals) {
+        throw new Error(
+          `Pool ${capacity.poolAddress} already has ${capacity.activeProposals} active proposals (max ${capacity.maxConcurrentProposals})`
+        );
+      }
+      if (params.dammWithdrawal.withdrawalPercentage > capacity.availablePercentage) {
+        throw new Error(
+          `Withdrawal of ${params.dammWithdrawal.withdrawalPercentage}% exceeds remaining capacity of ${capacity.availablePercentage}% for pool ${capacity.poolAddress}`
+        );
+      }
+    }
+
     const proposalIdCounter = await this.getProposalIdCounter() + 1;
     try {
       this.logger.info('Creating proposal');
@@ -238,6 +482,8 @@ export class Moderator implements IModerator {
             transactionCount: withdrawal.signedTransactions?.length || 1,
           });
 
+          // The pool API co-signs and submits the withdrawal, so it can't go through
+          // executeBundle; a multi-transaction DLMM withdrawal is only as atomic as the API makes it
           // Route to correct confirm endpoint based on pool type
           const apiUrl = process.env.DAMM_API_URL || 'https://api.zcombinator.io';
           const confirmEndpoint = poolType === 'dlmm'
@@ -340,11 +586,13 @@ export class Moderator implements IModerator {
       const proposal = new Proposal(proposalConfig);
 
       // Initialize the proposal
+      await this.transitionLifecycle(proposalIdCounter, ProposalLifecycleState.Initializing);
       await proposal.initialize();
       
       // Save to database FIRST (database is source of truth)
       await this.saveProposal(proposal);
       await this.persistenceService.saveModeratorState(proposalIdCounter, this.config);
+      await this.transitionLifecycle(proposalIdCounter, ProposalLifecycleState.Pending);
 
       // Now store withdrawal metadata (after proposal exists to satisfy FK constraint)
       if (withdrawalMetadata) {
@@ -367,20 +615,20 @@ export class Moderator implements IModerator {
       this.logger.info('Proposal initialized and saved');
       
       // Schedule automatic TWAP cranking (every minute)
-      this.scheduler.scheduleTWAPCranking(this.id, proposalIdCounter, params.twap.minUpdateInterval);
+      await this.scheduler.scheduleTWAPCranking(this.id, proposalIdCounter, params.twap.minUpdateInterval);
 
       // Also schedule price recording for this proposal
-      this.scheduler.schedulePriceRecording(this.id, proposalIdCounter, 5000); // 5 seconds
+      await this.scheduler.schedulePriceRecording(this.id, proposalIdCounter, 5000); // 5 seconds
 
       // Schedule spot price recording if spot pool address is provided
       if (params.spotPoolAddress) {
-        this.scheduler.scheduleSpotPriceRecording(this.id, proposalIdCounter, params.spotPoolAddress, 60000); // 1 minute
+        await this.scheduler.scheduleSpotPriceRecording(this.id, proposalIdCounter, params.spotPoolAddress, 60000); // 1 minute
         this.logger.info('Scheduled spot price recording', { spotPoolAddress: params.spotPoolAddress });
       }
 
       // Schedule automatic finalization 1 second after the proposal's end time
       // This buffer ensures all TWAP data is collected and attempts to avoid race conditions
-      this.scheduler.scheduleProposalFinalization(this.id, proposalIdCounter, proposal.finalizedAt + 1000);
+      await this.scheduler.scheduleProposalFinalization(this.id, proposalIdCounter, proposal.finalizedAt + 1000);
       this.logger.info('Scheduled proposal finalization', { finalizedAt: proposal.finalizedAt });
 
       return proposal;
@@ -388,6 +636,7 @@ export class Moderator implements IModerator {
       this.logger.error('Failed to create proposal', {
         error: error instanceof Error ? error.message : String(error)
       });
+      await this.failLifecycle(proposalIdCounter, error);
       // Increment proposal ID counter even if proposal creation fails
       await this.persistenceService.saveModeratorState(proposalIdCounter + 1, this.config);
       throw error;
@@ -397,12 +646,36 @@ export class Moderator implements IModerator {
   /**
    * Finalizes a proposal after the voting period has ended
    * Determines winning market by highest TWAP
-   * Uses Jito bundles on mainnet if UUID is configured
+   * Every step is recorded as a lifecycle transition; a failed step is recorded as a
+   * failed sub-state and rethrown, and calling this again resumes from that step.
+   * A call made while the same proposal is being finalized waits for that run instead.
    * @param id - The ID of the proposal to finalize
    * @returns Tuple of [status, winningMarketIndex | null]
-   * @throws Error if proposal with given ID doesn't exist
+   * @throws Error if proposal with given ID doesn't exist or a finalization step fails
    */
   async finalizeProposal(id: number): Promise<[ProposalStatus, number | null]> {
+    // The route, the scheduled job and resume can all start finalization; share one run
+    const running = this.finalizing.get(id);
+    if (running) {
+      this.logger.info('Proposal is already being finalized, waiting for that run', { proposalId: id });
+      return running;
+    }
+
+    const run = this.finalizeProposalOnce(id);
+    this.finalizing.set(id, run);
+    try {
+      return await run;
+    } finally {
+      this.finalizing.delete(id);
+    }
+  }
+
+  /**
+   * Runs one finalization of a proposal (must run through finalizeProposal)
+   * @param id - The ID of the proposal to finalize
+   * @returns Tuple of [status, winningMarketIndex | null]
+   */
+  private async finalizeProposalOnce(id: number): Promise<[ProposalStatus, number | null]> {
     // Get proposal from cache or database
     this.logger.info('Finalizing proposal');
     const proposal = await this.getProposal(id);
@@ -410,190 +683,309 @@ export class Moderator implements IModerator {
       throw new Error(`Proposal with ID ${id} does not exist`);
     }
 
-    const [status, winningIndex] = await proposal.finalize();
+    if (proposal.getStatus().status === ProposalStatus.Pending && Date.now() >= proposal.finalizedAt) {
+      await this.transitionLifecycle(id, ProposalLifecycleState.Finalizing);
+    }
+
+    let status: ProposalStatus;
+    let winningIndex: number | null;
+    try {
+      [status, winningIndex] = await proposal.finalize(
+        (state, details) => this.transitionLifecycle(id, state, details)
+      );
+    } catch (error) {
+      // Persist AMMs that were already closed (and anything already redeemed) so a retry skips them
+      await this.saveProposal(proposal);
+      await this.recordReturnedTokens(id, proposal);
+      await this.failLifecycle(id, error);
+      throw error;
+    }
     await this.saveProposal(proposal);
+    await this.recordReturnedTokens(id, proposal);
 
     if (status == ProposalStatus.Finalized) {
       this.logger.info('Proposal finalized', { winningIndex });
+      // Trading is over; the swap lookup table can go
+      await this.scheduler.scheduleLookupTableClose(this.id, id);
       // Wait for RPC to sync after finalization
       this.logger.info('Waiting for RPC to sync after finalization', { proposalId: id });
       await new Promise(resolve => setTimeout(resolve, 2000));
 
-      // Handle deposit-back for proposals with DAMM withdrawals
-      await this.handleDepositBack(id);
+      // Deposit-back for proposals with DAMM withdrawals, then slash recording
+      await this.settleProposal(id, proposal);
+    }
+    return [status, winningIndex];
+  }
+
+  /**
+   * Re-runs the finalization steps a proposal hasn't completed
+   * Finalized proposals resume at deposit-back or settlement; cancelled proposals only
+   * have deposit-back and settlement to resume. Completed steps are skipped.
+   * @param id - The ID of the proposal
+   * @returns The lifecycle state reached
+   * @throws Error if the proposal doesn't exist, hasn't ended yet, or a step fails again
+   */
+  async resumeFinalization(id: number): Promise<ProposalLifecycleState> {
+    const proposal = await this.getProposal(id);
+    if (!proposal) {
+      throw new Error(`Proposal with ID ${id} does not exist`);
+    }
+
+    const status = proposal.getStatus().status;
+    if (status === ProposalStatus.Uninitialized) {
+      throw new Error(`Proposal #${id} was never initialized`);
+    }
+    if (status === ProposalStatus.Pending && Date.now() < proposal.finalizedAt) {
+      throw new Error(`Proposal #${id} has not ended yet`);
+    }
 
-      // Record slash if this is a slash proposal
+    this.logger.info('Resuming proposal finalization', {
+      proposalId: id,
+      status,
+      lifecycleState: await this.getLifecycleState(id)
+    });
+
+    if (status === ProposalStatus.Cancelled) {
+      await this.settleProposal(id, proposal);
+    } else {
+      await this.finalizeProposal(id);
+    }
+
+    return await this.getLifecycleState(id);
+  }
+
+  /**
+   * Cancels a pending proposal (emergency halt)
+   * Stops all scheduled tasks, removes AMM liquidity and leaves the vault active
+   * so users can merge conditional tokens back 1:1. No winner is picked.
+   * A failed deposit-back doesn't fail the cancellation; it is recorded as the
+   * proposal's DepositBackFailed lifecycle state and can be retried with resumeFinalization.
+   * @param id - The ID of the proposal to cancel
+   * @param reason - Why the proposal was cancelled
+   * @returns The resulting proposal status
+   * @throws Error if proposal with given ID doesn't exist or is not pending
+   */
+  async cancelProposal(id: number, reason: string): Promise<ProposalStatus> {
+    this.logger.info('Cancelling proposal', { proposalId: id, reason });
+    const proposal = await this.getProposal(id);
+    if (!proposal) {
+      throw new Error(`Proposal with ID ${id} does not exist`);
+    }
+
+    // Stop cranking, price recording and the scheduled finalization first
+    await this.scheduler.cancelProposalTasks(this.id, id);
+
+    const status = await proposal.cancel(reason);
+    await this.saveProposal(proposal);
+    await this.recordReturnedTokens(id, proposal);
+
+    if (status === ProposalStatus.Cancelled) {
+      await this.transitionLifecycle(id, ProposalLifecycleState.Cancelled, { reason });
+      this.logger.info('Proposal cancelled', { proposalId: id, reason });
+      await this.scheduler.scheduleLookupTableClose(this.id, id);
+      // Wait for RPC to sync after merging conditional tokens
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      // Return any spot pool withdrawal to the pool
       try {
-        await recordSlashIfApplicable(this.id, id, proposal);
-      } catch (slashError) {
-        this.logger.error('Failed to record slash', {
+        await this.settleProposal(id, proposal);
+      } catch (error) {
+        this.logger.error('Failed to settle cancelled proposal', {
           proposalId: id,
-          error: slashError instanceof Error ? slashError.message : String(slashError)
+          error: error instanceof Error ? error.message : String(error)
         });
       }
     }
-    return [status, winningIndex];
+    return status;
+  }
+
+  /**
+   * Records the tokens a proposal's redeem or merge returned to the authority wallet,
+   * which are what its deposit-back may move
+   * @param id - The proposal ID
+   * @param proposal - The proposal that redeemed or merged
+   */
+  private async recordReturnedTokens(id: number, proposal: IProposal): Promise<void> {
+    const returned = proposal.takeReturnedAmounts();
+    if (returned) {
+      await this.persistenceService.addWithdrawalReturn(id, returned.base.toString(), returned.quote.toString());
+    }
   }
 
   /**
    * Handle automatic deposit-back to pool after proposal finalization
-   * Deposits available tokens from authority wallet back to pool (DAMM or DLMM)
+   * Deposits this proposal's tokens from the authority wallet back to pool (DAMM or DLMM)
    * The API handles pool ratio calculation internally
+   * Proposals on the same pool share the authority wallet, so only the amounts this
+   * proposal redeemed or merged back (recorded on its withdrawal row) are transferred;
+   * tokens another proposal redeemed stay in the wallet for its own deposit-back.
+   * Must run through runExclusive so a concurrent proposal creation or deposit-back
+   * can't move tokens through the wallet at the same time.
    * @param proposalId - The ID of the finalized proposal
+   * @param proposal - The finalized or cancelled proposal
+   * @throws Error if any deposit-back step fails
    */
-  private async handleDepositBack(proposalId: number): Promise<void> {
-    try {
-      // Check if proposal has withdrawal metadata
-      const metadata = await this.persistenceService.getWithdrawalMetadata(proposalId);
+  private async handleDepositBack(proposalId: number, proposal: IProposal): Promise<void> {
+    // Check if proposal has withdrawal metadata
+    const metadata = await this.persistenceService.getWithdrawalMetadata(proposalId);
 
-      if (!metadata) {
-        // No withdrawal metadata, skip deposit-back
-        return;
-      }
+    if (!metadata) {
+      // No withdrawal metadata, skip deposit-back
+      return;
+    }
 
-      if (!metadata.needsDepositBack) {
-        // Already deposited back
-        this.logger.info('Proposal already has deposit-back completed', { proposalId });
-        return;
-      }
+    if (!metadata.needsDepositBack) {
+      // Already deposited back
+      this.logger.info('Proposal already has deposit-back completed', { proposalId });
+      return;
+    }
 
-      // Get pool metadata for dynamic decimal lookup and pool type
-      const poolMetadata = POOL_METADATA[metadata.poolAddress];
-      if (!poolMetadata) {
-        throw new Error(`Pool metadata not found for ${metadata.poolAddress}`);
-      }
+    // Get pool metadata for dynamic decimal lookup and pool type
+    const poolMetadata = getPoolMetadata(metadata.poolAddress);
+    if (!poolMetadata) {
+      throw new Error(`Pool metadata not found for ${metadata.poolAddress}`);
+    }
+
+    const poolType = poolMetadata.poolType;
+
+    this.logger.info('Starting deposit-back to pool', {
+      proposalId,
+      originalWithdrawnTokenA: metadata.tokenA,
+      originalWithdrawnTokenB: metadata.tokenB,
+      poolAddress: metadata.poolAddress,
+      poolType
+    });
+
+    // Get authority for this pool
+    const authority = this.getAuthorityForPool(metadata.poolAddress);
 
-      const poolType = poolMetadata.poolType;
+    // Create transaction signer from authority keypair with validation
+    const signTransaction = async (transaction: Transaction) => {
+      // Validate fee payer matches authority wallet
+      if (!transaction.feePayer?.equals(authority.publicKey)) {
+        const error = `Fee payer mismatch: expected ${authority.publicKey.toBase58()}, got ${transaction.feePayer?.toBase58()}`;
+        this.logger.error('Transaction validation failed', { proposalId, error });
+        throw new Error(error);
+      }
 
-      this.logger.info('Starting deposit-back to pool', {
+      this.logger.debug('Transaction validated, signing with authority', {
         proposalId,
-        originalWithdrawnTokenA: metadata.tokenA,
-        originalWithdrawnTokenB: metadata.tokenB,
+        feePayer: transaction.feePayer.toBase58(),
+        authority: authority.publicKey.toBase58(),
         poolAddress: metadata.poolAddress,
         poolType
       });
 
-      // Get authority for this pool
-      const authority = this.getAuthorityForPool(metadata.poolAddress);
-
-      // Create transaction signer from authority keypair with validation
-      const signTransaction = async (transaction: Transaction) => {
-        // Validate fee payer matches authority wallet
-        if (!transaction.feePayer?.equals(authority.publicKey)) {
-          const error = `Fee payer mismatch: expected ${authority.publicKey.toBase58()}, got ${transaction.feePayer?.toBase58()}`;
-          this.logger.error('Transaction validation failed', { proposalId, error });
-          throw new Error(error);
-        }
-
-        this.logger.debug('Transaction validated, signing with authority', {
-          proposalId,
-          feePayer: transaction.feePayer.toBase58(),
-          authority: authority.publicKey.toBase58(),
-          poolAddress: metadata.poolAddress,
-          poolType
-        });
-
-        transaction.partialSign(authority);
-        return transaction;
-      };
+      transaction.partialSign(authority);
+      return transaction;
+    };
 
-      // Step 1: Get LP owner address from pool config
-      let lpOwnerAddress: string;
-      if (poolType === 'dlmm') {
-        const poolConfig = await this.dlmmService.getPoolConfig(metadata.poolAddress);
-        lpOwnerAddress = poolConfig.lpOwnerAddress;
-      } else {
-        const poolConfig = await this.dammService.getPoolConfig(metadata.poolAddress);
-        lpOwnerAddress = poolConfig.lpOwnerAddress;
-      }
+    // Step 1: Get LP owner address from pool config
+    let lpOwnerAddress: string;
+    if (poolType === 'dlmm') {
+      const poolConfig = await this.dlmmService.getPoolConfig(metadata.poolAddress);
+      lpOwnerAddress = poolConfig.lpOwnerAddress;
+    } else {
+      const poolConfig = await this.dammService.getPoolConfig(metadata.poolAddress);
+      lpOwnerAddress = poolConfig.lpOwnerAddress;
+    }
 
-      this.logger.info('Fetched LP owner address', {
-        proposalId,
-        lpOwnerAddress,
-        poolAddress: metadata.poolAddress
-      });
+    this.logger.info('Fetched LP owner address', {
+      proposalId,
+      lpOwnerAddress,
+      poolAddress: metadata.poolAddress
+    });
 
-      // Step 2: Transfer tokens from authority to LP owner
-      const lpOwnerPubkey = new PublicKey(lpOwnerAddress);
-      const tokenAMint = new PublicKey(poolMetadata.baseMint);
-      const tokenBMint = new PublicKey(poolMetadata.quoteMint);
-
-      await this.transferTokensToLpOwner(
-        authority,
-        lpOwnerPubkey,
-        tokenAMint,
-        tokenBMint,
-        proposalId
-      );
+    // Step 2: Transfer tokens from authority to LP owner
+    const lpOwnerPubkey = new PublicKey(lpOwnerAddress);
+    const tokenAMint = new PublicKey(poolMetadata.baseMint);
+    const tokenBMint = new PublicKey(poolMetadata.quoteMint);
+
+    // Withdrawals recorded before returns were tracked fall back to the amounts split into the vault
+    const returnedTokenA = BigInt(metadata.returnedTokenA ?? proposal.config.ammConfig.initialBaseAmount.toString());
+    const returnedTokenB = BigInt(metadata.returnedTokenB ?? proposal.config.ammConfig.initialQuoteAmount.toString());
+
+    const transferred = await this.transferTokensToLpOwner(
+      authority,
+      lpOwnerPubkey,
+      tokenAMint,
+      tokenBMint,
+      returnedTokenA,
+      returnedTokenB,
+      proposalId
+    );
+
+    // Transferred tokens are no longer owed, so a retry after a later step fails doesn't move them twice
+    await this.persistenceService.setWithdrawalReturn(
+      proposalId,
+      (returnedTokenA - transferred.tokenA).toString(),
+      (returnedTokenB - transferred.tokenB).toString()
+    );
 
-      // Step 3: Call cleanup swap and deposit (swap → deposit 0,0)
-      this.logger.info('Attempting cleanup swap and deposit', {
-        proposalId,
-        poolAddress: metadata.poolAddress,
-        poolType
-      });
+    // Step 3: Call cleanup swap and deposit (swap → deposit 0,0)
+    // These are submitted by the pool API, not executeBundle (the transfer above is one transaction)
+    this.logger.info('Attempting cleanup swap and deposit', {
+      proposalId,
+      poolAddress: metadata.poolAddress,
+      poolType
+    });
 
-      let confirmedAmounts: { tokenA: string; tokenB: string };
-      let depositSignature: string;
+    let confirmedAmounts: { tokenA: string; tokenB: string };
+    let depositSignature: string;
 
-      if (poolType === 'dlmm') {
-        const depositResult = await this.dlmmService.cleanupSwapAndDeposit(
-          metadata.poolAddress,
-          signTransaction
-        );
-        if (depositResult) {
-          confirmedAmounts = {
-            tokenA: depositResult.deposited.tokenX,
-            tokenB: depositResult.deposited.tokenY
-          };
-          depositSignature = depositResult.signatures[0];
-        } else {
-          confirmedAmounts = { tokenA: '0', tokenB: '0' };
-          depositSignature = 'no-deposit-needed';
-        }
+    if (poolType === 'dlmm') {
+      const depositResult = await this.dlmmService.cleanupSwapAndDeposit(
+        metadata.poolAddress,
+        signTransaction
+      );
+      if (depositResult) {
+        confirmedAmounts = {
+          tokenA: depositResult.deposited.tokenX,
+          tokenB: depositResult.deposited.tokenY
+        };
+        depositSignature = depositResult.signatures[0];
       } else {
-        const depositResult = await this.dammService.cleanupSwapAndDeposit(
-          metadata.poolAddress,
-          signTransaction
-        );
-        if (depositResult) {
-          confirmedAmounts = {
-            tokenA: depositResult.deposited.tokenA,
-            tokenB: depositResult.deposited.tokenB
-          };
-          depositSignature = depositResult.signature;
-        } else {
-          confirmedAmounts = { tokenA: '0', tokenB: '0' };
-          depositSignature = 'no-deposit-needed';
-        }
+        confirmedAmounts = { tokenA: '0', tokenB: '0' };
+        depositSignature = 'no-deposit-needed';
       }
-
-      // Mark as deposited in database
-      await this.persistenceService.markWithdrawalDeposited(
-        proposalId,
-        depositSignature,
-        confirmedAmounts.tokenA,
-        confirmedAmounts.tokenB
+    } else {
+      const depositResult = await this.dammService.cleanupSwapAndDeposit(
+        metadata.poolAddress,
+        signTransaction
       );
-
-      this.logger.info('Deposit-back completed successfully', {
-        proposalId,
-        depositSignature,
-        poolType,
-        confirmedDeposit: confirmedAmounts
-      });
-    } catch (error) {
-      // Log error but don't fail the finalization
-      this.logger.error('Failed to complete deposit-back', {
-        proposalId,
-        error: error instanceof Error ? error.message : String(error)
-      });
+      if (depositResult) {
+        confirmedAmounts = {
+          tokenA: depositResult.deposited.tokenA,
+          tokenB: depositResult.deposited.tokenB
+        };
+        depositSignature = depositResult.signature;
+      } else {
+        confirmedAmounts = { tokenA: '0', tokenB: '0' };
+        depositSignature = 'no-deposit-needed';
+      }
     }
+
+    // Mark as deposited in database
+    await this.persistenceService.markWithdrawalDeposited(
+      proposalId,
+      depositSignature,
+      confirmedAmounts.tokenA,
+      confirmedAmounts.tokenB
+    );
+
+    this.logger.info('Deposit-back completed successfully', {
+      proposalId,
+      depositSignature,
+      poolType,
+      confirmedDeposit: confirmedAmounts
+    });
   }
 
   /**
-   * Transfers tokens from authority to LP owner wallet
-   * Fetches actual wallet balances and transfers the full amount
+   * Transfers a proposal's tokens from authority to LP owner wallet
+   * Transfers the proposal's returned amounts, capped at the wallet's actual balances
+   * (less the SOL fee reserve), so other proposals' tokens are left in place
+   * @returns Amounts transferred (zero when authority and LP owner are the same wallet)
    * Creates ATAs if needed and handles native SOL transfers properly
    *
    * IMPORTANT: When tokenA or tokenB is native SOL (NATIVE_MINT), the withdrawal
@@ -606,13 +998,15 @@ export class Moderator implements IModerator {
     lpOwner: PublicKey,
     tokenAMint: PublicKey,
     tokenBMint: PublicKey,
+    maxTokenA: bigint,
+    maxTokenB: bigint,
     proposalId: number
-  ): Promise<void> {
+  ): Promise<{ tokenA: bigint; tokenB: bigint }> {
     // Skip transfer if authority and LP owner are the same address
     // This happens when the pool's LP owner and manager wallet are configured to be the same
     if (authority.publicKey.equals(lpOwner)) {
       this.logger.info('Authority and LP owner are same address, skipping transfer', { proposalId });
-      return;
+      return { tokenA: 0n, tokenB: 0n };
     }
 
     const isTokenANativeSOL = tokenAMint.equals(NATIVE_MINT);
@@ -666,8 +1060,14 @@ export class Moderator implements IModerator {
       }
     }
 
-    this.logger.info('Transferring tokens to LP owner (actual balances)', {
+    // Never move more than this proposal returned to the wallet
+    if (tokenAAmount > maxTokenA) tokenAAmount = maxTokenA;
+    if (tokenBAmount > maxTokenB) tokenBAmount = maxTokenB;
+
+    this.logger.info('Transferring proposal tokens to LP owner', {
       proposalId,
+      maxTokenA: maxTokenA.toString(),
+      maxTokenB: maxTokenB.toString(),
       lpOwner: lpOwner.toBase58(),
       tokenAMint: tokenAMint.toBase58(),
       tokenBMint: tokenBMint.toBase58(),
@@ -680,7 +1080,7 @@ export class Moderator implements IModerator {
     // Check if there's anything to transfer
     if (tokenAAmount === 0n && tokenBAmount === 0n) {
       this.logger.info('No tokens to transfer from authority wallet', { proposalId });
-      return;
+      return { tokenA: 0n, tokenB: 0n };
     }
 
     const transaction = new Transaction();
@@ -784,5 +1184,6 @@ export class Moderator implements IModerator {
       isTokenANativeSOL,
       isTokenBNativeSOL
     });
+    return { tokenA: tokenAAmount, tokenB: tokenBAmount };
   }
 }
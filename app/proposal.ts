@@ -17,27 +17,46 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { PublicKey } from "@solana/web3.js";
+import { PublicKey, Transaction, TransactionInstruction, TransactionMessage, VersionedTransaction } from "@solana/web3.js";
 import {
+  IBasketLeg,
+  IBasketPosition,
+  IBasketTrade,
   IProposal,
   IProposalConfig,
   IProposalSerializedData,
   IProposalDeserializeConfig,
   IProposalStatusInfo,
+  IProposalCancellation,
+  IProposalReturnedAmounts,
+  IRouteLeg,
+  IRouteQuote,
+  IRouteSwapLeg,
+  IRouteVaultLeg,
 } from "./types/proposal.interface";
 import { IAMM } from "./types/amm.interface";
 import { ITWAPOracle } from "./types/twap-oracle.interface";
 import { ProposalStatus } from "./types/moderator.interface";
+import { ExecutionStatus } from "./types/execution.interface";
+import {
+  ProposalLifecycleListener,
+  ProposalLifecycleState,
+} from "./types/proposal-lifecycle.interface";
 import { TWAPOracle } from "./twap-oracle";
 import { AMM } from "./amm";
 import { AnchorProvider, BN, Wallet } from "@coral-xyz/anchor";
 import { LoggerService } from "./services/logger.service";
+import { loadSpotQuoter, SpotQuoter } from "./utils/spot-quote";
+import { getPoolMetadata } from "../src/config/whitelist";
 import {
   MAX_OPTIONS,
   VaultClient,
   VaultType,
 } from "@zcomb/vault-sdk";
 
+// Solana packet limit (1232 bytes) less room for the compute budget instructions added after sizing
+const MAX_BASKET_TX_SIZE = 1232 - 100;
+
 /**
  * Proposal class representing a governance proposal in the protocol
  * Handles initialization, finalization, and execution of proposals
@@ -50,6 +69,8 @@ export class Proposal {
   public readonly finalizedAt: number;
 
   private _status: ProposalStatus = ProposalStatus.Uninitialized;
+  private _cancellation: IProposalCancellation | null = null;
+  private _returned: IProposalReturnedAmounts | null = null; // Not yet taken by takeReturnedAmounts
   private logger: LoggerService;
   private provider: AnchorProvider;
   private vaultClient: VaultClient;
@@ -60,18 +81,24 @@ export class Proposal {
    * @returns Status info with winning market details (null if not finalized)
    */
   getStatus(): IProposalStatusInfo {
-    // Fetch current winning index (null if uninitialized, otherwise tracks current leader)
-    if (this._status === ProposalStatus.Uninitialized) {
+    // Fetch current winning index (null if uninitialized or cancelled, otherwise tracks current leader)
+    if (
+      this._status === ProposalStatus.Uninitialized ||
+      this._status === ProposalStatus.Cancelled
+    ) {
       return {
         status: this._status,
         winningMarketIndex: null,
         winningMarketLabel: null,
         winningBaseConditionalMint: null,
         winningQuoteConditionalMint: null,
+        resolution: null,
+        cancellation: this._cancellation,
       };
     }
 
-    const winningIndex = this.twapOracle.fetchHighestTWAPIndex();
+    const resolution = this.twapOracle.resolveOutcome();
+    const winningIndex = resolution.winningIndex;
 
     return {
       status: this._status,
@@ -87,6 +114,8 @@ export class Proposal {
         VaultType.Quote,
         winningIndex
       )[0],
+      resolution,
+      cancellation: null,
     };
   }
 
@@ -234,11 +263,68 @@ export class Proposal {
     // Set AMMs in TWAP oracle so it can track prices
     this.twapOracle.setAMMs(this.AMMs);
 
+    await this.createLookupTable(vaultPda, [...baseCondMints, ...quoteCondMints]);
+
     // Update status to Pending now that everything is initialized
     this._status = ProposalStatus.Pending;
     this.logger.info("Proposal initialized and set to pending");
   }
 
+  /**
+   * Creates the proposal's address lookup table (vault, mints, pools) so swaps
+   * can be sent as compact v0 transactions
+   * Not required for trading - on failure swaps are built without the table
+   * @param vaultPda - The proposal's vault PDA
+   * @param conditionalMints - Conditional base and quote mints
+   */
+  private async createLookupTable(vaultPda: PublicKey, conditionalMints: PublicKey[]): Promise<void> {
+    try {
+      const ammAddresses = await Promise.all(this.AMMs.map(amm => amm.getLookupTableAddresses()));
+      const lookupTable = await this.config.executionService.createLookupTable(this.config.authority, [
+        vaultPda,
+        this.config.baseMint,
+        this.config.quoteMint,
+        ...conditionalMints,
+        ...ammAddresses.flat()
+      ]);
+      for (const amm of this.AMMs) {
+        amm.lookupTable = lookupTable;
+      }
+    } catch (error) {
+      this.logger.warn("Failed to create lookup table, swaps will not use one", {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Deactivates and later closes the proposal's address lookup table, returning its rent
+   * Swaps are over once the proposal is finalized or cancelled, so nothing uses it anymore
+   * @returns True once the table is closed (or the proposal never had one)
+   * @throws Error if the proposal is still pending, or a transaction fails
+   */
+  async releaseLookupTable(): Promise<boolean> {
+    if (this._status === ProposalStatus.Uninitialized || this._status === ProposalStatus.Pending) {
+      throw new Error(
+        `Proposal #${this.config.id}: Lookup table is still in use until the proposal is finalized or cancelled`
+      );
+    }
+
+    const lookupTable = this.AMMs.find(amm => amm.lookupTable)?.lookupTable;
+    if (!lookupTable) {
+      return true;
+    }
+
+    const closed = await this.config.executionService.releaseLookupTable(this.config.authority, lookupTable);
+    if (closed) {
+      for (const amm of this.AMMs) {
+        amm.lookupTable = undefined;
+      }
+      this.logger.info("Lookup table closed", { lookupTable: lookupTable.toBase58() });
+    }
+    return closed;
+  }
+
   /**
    * Returns all AMMs for the proposal
    * @returns Array of AMM instances
@@ -258,9 +344,13 @@ export class Proposal {
    * Finalizes the proposal based on time
    * Currently assumes all proposals pass for simplicity
    * Also finalizes the AMMs and vaults accordingly
+   * Each step checks on-chain state first, so a failed attempt can be retried and only
+   * re-runs what didn't finish. Status only moves to Finalized once every step succeeded.
+   * @param onStep - Notified after liquidity removal and vault finalization (optional)
    * @returns Tuple of [status, winningMarketIndex | null]
+   * @throws Error if any AMM still holds liquidity, or vault finalization or redemption fails
    */
-  async finalize(): Promise<[ProposalStatus, number | null]> {
+  async finalize(onStep?: ProposalLifecycleListener): Promise<[ProposalStatus, number | null]> {
     this.logger.info("Finalizing proposal");
     if (this._status === ProposalStatus.Uninitialized) {
       throw new Error(
@@ -268,6 +358,12 @@ export class Proposal {
       );
     }
 
+    // Cancelled proposals have no winner and nothing left to finalize
+    if (this._status === ProposalStatus.Cancelled) {
+      this.logger.info("Proposal is cancelled, skipping finalization");
+      return [ProposalStatus.Cancelled, null];
+    }
+
     // Still pending if before finalization time
     if (Date.now() < this.finalizedAt) {
       return [ProposalStatus.Pending, null];
@@ -282,78 +378,623 @@ export class Proposal {
       this.logger.info("Cranking TWAP");
       await this.twapOracle.crankTWAP();
 
-      this._status = ProposalStatus.Finalized;
-
       // Remove liquidity from AMMs before finalizing vaults
-      for (let i = 0; i < this.config.markets; i++) {
-        try {
-          if (!this.AMMs[i].isFinalized) {
-            this.logger.info(`Removing liquidity from AMM ${i}`);
-            await this.AMMs[i].removeLiquidity();
-          }
-        } catch (error) {
-          this.logger.error("Error removing liquidity from AMM", {
-            ammIndex: i,
-            error,
-          });
-        }
+      await this.removeAMMLiquidity();
+      const openMarkets = this.AMMs
+        .map((amm, index) => (amm.isFinalized ? null : index))
+        .filter((index): index is number => index !== null);
+      if (openMarkets.length > 0) {
+        throw new Error(
+          `Proposal #${this.config.id}: Failed to remove liquidity from AMMs ${openMarkets.join(", ")}`
+        );
       }
+      await onStep?.(ProposalLifecycleState.LiquidityRemoved);
 
       // Determine the winning conditional mint
-      winningIndex = this.twapOracle.fetchHighestTWAPIndex();
+      const resolution = this.twapOracle.resolveOutcome();
+      winningIndex = resolution.winningIndex;
+      this.logger.info("Resolved proposal outcome", {
+        mode: resolution.mode,
+        winningIndex,
+        winningTwap: resolution.winningTwap.toString(),
+        statusQuoTwap: resolution.statusQuoTwap.toString(),
+        leadingChallengerIndex: resolution.leadingChallengerIndex,
+        marginBps: resolution.marginBps,
+        requiredMarginBps: resolution.requiredMarginBps,
+      });
 
-      const [vaultPDA] = this.vaultClient.deriveVaultPDA(
-        this.config.authority.publicKey,
-        this.config.moderatorId,
-        this.config.id
+      const vaultPDA = this.deriveVaultPDA(VaultType.Base);
+
+      // Finalize the vault (skipped if an earlier attempt already did) and redeem the
+      // authority's winning conditional tokens back to regular tokens. Finalization and
+      // both redemptions are sent together - one bundle when bundles are configured - so
+      // the vault can't end up finalized with the authority's winnings left unredeemed.
+      const finalization = await this.buildFinalizeVaultTx(vaultPDA, winningIndex);
+      winningIndex = finalization.winningIndex;
+
+      const transactions: Transaction[] = finalization.transaction ? [finalization.transaction] : [];
+      const redeemed: IProposalReturnedAmounts = { base: new BN(0), quote: new BN(0) };
+      for (const vaultType of [VaultType.Base, VaultType.Quote]) {
+        const redeem = await this.buildRedeemWinningsTx(vaultPDA, vaultType, winningIndex);
+        if (redeem) {
+          transactions.push(redeem.transaction);
+          redeemed[vaultType === VaultType.Base ? "base" : "quote"] = redeem.amount;
+        }
+      }
+      if (transactions.length > 0) {
+        const result = await this.config.executionService.executeBundle(transactions, this.config.authority);
+        if (result.status === ExecutionStatus.Failed) {
+          throw new Error(`Proposal #${this.config.id}: Failed to finalize vault and redeem winning tokens: ${result.error}`);
+        }
+        // Winning conditional tokens redeem 1:1 for the underlying
+        this.addReturned(redeemed);
+      }
+
+      // Every on-chain step is done - only now does the proposal count as finalized
+      this._status = ProposalStatus.Finalized;
+      await onStep?.(ProposalLifecycleState.VaultsFinalized, { winningIndex });
+    }
+
+    this.logger.info("Proposal finalization returned", {
+      status: this._status,
+      winningIndex,
+    });
+    return [this._status, winningIndex];
+  }
+
+  /**
+   * Cancels the proposal without picking a winner
+   * Removes liquidity from all AMMs and merges the authority's conditional tokens
+   * back into regular tokens. The vault is left active (never finalized), so users
+   * can merge their conditional tokens back 1:1 at any time.
+   * @param reason - Why the proposal was cancelled
+   * @returns The resulting proposal status
+   * @throws Error if the proposal is not pending
+   */
+  async cancel(reason: string): Promise<ProposalStatus> {
+    this.logger.info("Cancelling proposal", { reason });
+    if (this._status === ProposalStatus.Cancelled) {
+      return this._status;
+    }
+
+    if (this._status !== ProposalStatus.Pending) {
+      throw new Error(
+        `Proposal #${this.config.id}: Cannot cancel proposal with status ${this._status}`
       );
+    }
+
+    this._status = ProposalStatus.Cancelled;
+    this._cancellation = { reason, cancelledAt: Date.now() };
 
-      // Finalize both vaults
-      this.logger.info("Finalizing vaults");
-      await this.vaultClient
-        .finalize(this.config.authority.publicKey, vaultPDA, winningIndex)
-        .rpc();
+    // Pull liquidity so no further trading happens on the conditional markets
+    await this.removeAMMLiquidity();
 
-      // Redeem authority's winning tokens after finalization
-      // This converts winning conditional tokens back to regular tokens
+    // Merge the authority's conditional tokens (returned from the AMMs) back to regular tokens
+    const vaultPDA = this.deriveVaultPDA(VaultType.Base);
+    for (const vaultType of [VaultType.Base, VaultType.Quote]) {
+      const vaultName = vaultType === VaultType.Base ? "base" : "quote";
       try {
-        this.logger.info("Redeem winning tokens transaction for base vault");
+        const { condBalances } = await this.vaultClient.fetchUserBalances(
+          vaultPDA,
+          this.config.authority.publicKey,
+          vaultType
+        );
+
+        // A merge burns one of each conditional token, so the smallest balance bounds it
+        const mergeable = condBalances
+          .map((balance: BN | number) => new BN(balance.toString()))
+          .reduce((min: BN, balance: BN) => BN.min(min, balance));
+
+        if (mergeable.isZero()) {
+          continue;
+        }
+
+        this.logger.info(`Merging conditional tokens for ${vaultName} vault`, {
+          amount: mergeable.toString(),
+        });
         await (
-          await this.vaultClient.redeemWinnings(
+          await this.vaultClient.withdraw(
             this.config.authority.publicKey,
             vaultPDA,
-            VaultType.Base
+            vaultType,
+            mergeable
           )
         ).rpc();
+        this.addReturned(
+          vaultType === VaultType.Base
+            ? { base: mergeable, quote: new BN(0) }
+            : { base: new BN(0), quote: mergeable }
+        );
       } catch (error) {
-        this.logger.warn("Error redeeming base vault winning tokens", {
-          vaultType: "base",
+        this.logger.warn(`Error merging ${vaultName} vault conditional tokens`, {
+          vaultType: vaultName,
           error,
         });
       }
+    }
+
+    this.logger.info("Proposal cancelled", { reason });
+    return this._status;
+  }
+
+  /**
+   * Takes the underlying tokens redeemed or merged back to the authority since the last call
+   * @returns Base and quote amounts, or null if nothing was returned
+   */
+  takeReturnedAmounts(): IProposalReturnedAmounts | null {
+    const returned = this._returned;
+    this._returned = null;
+    return returned;
+  }
 
+  private addReturned(amounts: IProposalReturnedAmounts): void {
+    this._returned = {
+      base: (this._returned?.base ?? new BN(0)).add(amounts.base),
+      quote: (this._returned?.quote ?? new BN(0)).add(amounts.quote),
+    };
+  }
+
+  /**
+   * Builds the vault finalization with the winning index unless it is already finalized on-chain
+   * @param vaultPDA - The proposal's vault PDA
+   * @param winningIndex - Winning market index from the TWAP resolution
+   * @returns Finalize transaction (null if already finalized) and the winning index it uses
+   */
+  private async buildFinalizeVaultTx(
+    vaultPDA: PublicKey,
+    winningIndex: number
+  ): Promise<{ transaction: Transaction | null; winningIndex: number }> {
+    const vault = await this.vaultClient.fetchVault(vaultPDA);
+
+    // State is an Anchor decoded enum like { active: {} } or { finalized: {} }
+    const stateKey = Object.keys(vault.state ?? {})[0];
+    if (stateKey === "finalized") {
+      const finalizedIndex = typeof vault.winningIdx === "number" ? vault.winningIdx : winningIndex;
+      if (finalizedIndex !== winningIndex) {
+        this.logger.warn("Vault was finalized with a different winner than the TWAP resolution", {
+          onChainWinningIndex: finalizedIndex,
+          resolvedWinningIndex: winningIndex,
+        });
+      }
+      this.logger.info("Vault already finalized, skipping", { winningIndex: finalizedIndex });
+      return { transaction: null, winningIndex: finalizedIndex };
+    }
+
+    this.logger.info("Finalize vault transaction", { winningIndex });
+    const transaction: Transaction = await this.vaultClient
+      .finalize(this.config.authority.publicKey, vaultPDA, winningIndex)
+      .transaction();
+    return { transaction, winningIndex };
+  }
+
+  /**
+   * Builds the redemption of the authority's winning conditional tokens
+   * @param vaultPDA - The proposal's vault PDA (finalized on-chain before this transaction runs)
+   * @param vaultType - Base or quote vault
+   * @param winningIndex - Winning market index
+   * @returns Redeem transaction and the amount it redeems, or null if there are no winning tokens left
+   */
+  private async buildRedeemWinningsTx(
+    vaultPDA: PublicKey,
+    vaultType: VaultType,
+    winningIndex: number
+  ): Promise<{ transaction: Transaction; amount: BN } | null> {
+    const vaultName = vaultType === VaultType.Base ? "base" : "quote";
+    const { condBalances } = await this.vaultClient.fetchUserBalances(
+      vaultPDA,
+      this.config.authority.publicKey,
+      vaultType
+    );
+
+    const winningBalance = new BN((condBalances[winningIndex] ?? 0).toString());
+    if (winningBalance.isZero()) {
+      this.logger.info(`No winning tokens left to redeem for ${vaultName} vault`);
+      return null;
+    }
+
+    this.logger.info(`Redeem winning tokens transaction for ${vaultName} vault`, {
+      amount: winningBalance.toString(),
+    });
+    const transaction = await (
+      await this.vaultClient.redeemWinnings(
+        this.config.authority.publicKey,
+        vaultPDA,
+        vaultType
+      )
+    ).transaction();
+    return { transaction, amount: winningBalance };
+  }
+
+  /**
+   * Removes liquidity from every AMM that is still trading
+   * AMMs whose position was already closed on-chain are marked finalized without a new transaction
+   * Errors are logged per AMM so one failing pool doesn't block the rest
+   */
+  private async removeAMMLiquidity(): Promise<void> {
+    for (let i = 0; i < this.config.markets; i++) {
       try {
-        this.logger.info("Redeem winning tokens transaction for quote vault");
-        await (
-          await this.vaultClient.redeemWinnings(
-            this.config.authority.publicKey,
-            vaultPDA,
-            VaultType.Quote
-          )
-        ).rpc();
+        if (!(await this.AMMs[i].syncLiquidityState())) {
+          this.logger.info(`Removing liquidity from AMM ${i}`);
+          await this.AMMs[i].removeLiquidity();
+        }
       } catch (error) {
-        this.logger.warn("Error redeeming quote vault winning tokens", {
-          vaultType: "quote",
+        this.logger.error("Error removing liquidity from AMM", {
+          ammIndex: i,
           error,
         });
       }
     }
+  }
 
-    this.logger.info("Proposal finalization returned", {
-      status: this._status,
-      winningIndex,
+  /**
+   * Builds a basket trade backing one market against all others
+   * Splits quote through the vault and buys the chosen market's base with it; if base is
+   * supplied, splits it too and sells it on every other market. Every leg goes into one
+   * v0 transaction compiled against the proposal's lookup table, so the basket lands
+   * entirely or not at all; each swap is bounded by its own minimum out.
+   * @param user - User's public key (fee payer and signer)
+   * @param market - Market index to back
+   * @param quoteAmount - Quote tokens to split and spend on the chosen market
+   * @param baseAmount - Base tokens to split and sell on the other markets (0 to skip)
+   * @param slippageBps - Slippage tolerance per swap in basis points
+   * @returns Unsigned transaction and a quote covering every leg
+   * @throws Error if the proposal is not pending, the market is invalid, both amounts are zero,
+   * or the basket doesn't fit in one transaction
+   */
+  async buildBasketTx(
+    user: PublicKey,
+    market: number,
+    quoteAmount: BN,
+    baseAmount: BN,
+    slippageBps: number = 50
+  ): Promise<IBasketTrade> {
+    if (this._status !== ProposalStatus.Pending) {
+      throw new Error(`Proposal #${this.config.id}: Cannot trade proposal with status ${this._status}`);
+    }
+    if (!Number.isInteger(market) || market < 0 || market >= this.AMMs.length) {
+      throw new Error(`Invalid market index. Must be 0-${this.AMMs.length - 1}`);
+    }
+    if (quoteAmount.isZero() && baseAmount.isZero()) {
+      throw new Error("Basket needs a quote or base amount");
+    }
+
+    const vaultPDA = this.deriveVaultPDA(VaultType.Base);
+    const legs: { leg: IBasketLeg; instructions: TransactionInstruction[] }[] = [];
+    const positions: IBasketPosition[] = this.AMMs.map((_, i) => ({
+      market: i,
+      expectedBase: new BN(0),
+      minBase: new BN(0),
+      expectedQuote: new BN(0),
+      minQuote: new BN(0),
+    }));
+
+    // Splits credit every market with the full amount
+    const addDeposit = async (vaultType: VaultType, amount: BN) => {
+      const depositTx: Transaction = await (
+        await this.vaultClient.deposit(user, vaultPDA, vaultType, amount)
+      ).transaction();
+      legs.push({ leg: { type: "deposit", vaultType, amount }, instructions: depositTx.instructions });
+      for (const position of positions) {
+        if (vaultType === VaultType.Base) {
+          position.expectedBase = position.expectedBase.add(amount);
+          position.minBase = position.minBase.add(amount);
+        } else {
+          position.expectedQuote = position.expectedQuote.add(amount);
+          position.minQuote = position.minQuote.add(amount);
+        }
+      }
+    };
+
+    // Swaps spend the input side of one market and credit its output side
+    const addSwap = async (i: number, isBaseToQuote: boolean, amountIn: BN) => {
+      const swap = await this.AMMs[i].buildSwapInstructions(user, isBaseToQuote, amountIn, slippageBps);
+      legs.push({
+        leg: {
+          type: "swap",
+          market: i,
+          isBaseToQuote,
+          amountIn,
+          expectedAmountOut: swap.swapOutAmount,
+          minAmountOut: swap.minSwapOutAmount,
+          priceImpact: swap.priceImpact,
+        },
+        instructions: swap.instructions,
+      });
+      const position = positions[i];
+      if (isBaseToQuote) {
+        position.expectedBase = position.expectedBase.sub(amountIn);
+        position.minBase = position.minBase.sub(amountIn);
+        position.expectedQuote = position.expectedQuote.add(swap.swapOutAmount);
+        position.minQuote = position.minQuote.add(swap.minSwapOutAmount);
+      } else {
+        position.expectedQuote = position.expectedQuote.sub(amountIn);
+        position.minQuote = position.minQuote.sub(amountIn);
+        position.expectedBase = position.expectedBase.add(swap.swapOutAmount);
+        position.minBase = position.minBase.add(swap.minSwapOutAmount);
+      }
+    };
+
+    if (!quoteAmount.isZero()) {
+      await addDeposit(VaultType.Quote, quoteAmount);
+      await addSwap(market, false, quoteAmount);
+    }
+    if (!baseAmount.isZero()) {
+      await addDeposit(VaultType.Base, baseAmount);
+      for (let i = 0; i < this.AMMs.length; i++) {
+        if (i !== market) {
+          await addSwap(i, true, baseAmount);
+        }
+      }
+    }
+
+    // All legs share one transaction: a split whose swaps failed would strand conditional tokens
+    const { blockhash } = await this.config.executionService.connection.getLatestBlockhash();
+    const lookupTable = this.AMMs[market].lookupTable;
+    const lookupTables = lookupTable
+      ? await this.config.executionService.fetchLookupTables([lookupTable])
+      : [];
+    const instructions = legs.flatMap(({ instructions }) => instructions);
+    let size: number;
+    try {
+      const message = new TransactionMessage({ payerKey: user, recentBlockhash: blockhash, instructions })
+        .compileToV0Message(lookupTables);
+      size = new VersionedTransaction(message).serialize().length;
+    } catch {
+      size = Infinity; // web3.js throws once the transaction exceeds the packet size
+    }
+    if (size > MAX_BASKET_TX_SIZE) {
+      throw new Error(
+        `Basket with ${legs.length} legs does not fit in one transaction` +
+        (lookupTables.length === 0 ? " (proposal has no lookup table)" : "") +
+        (baseAmount.isZero() ? "" : "; try without baseAmount")
+      );
+    }
+
+    const transaction = await this.config.executionService.buildVersionedTx(instructions, user, lookupTables, blockhash);
+
+    this.logger.info("Built basket trade", {
+      market,
+      quoteAmount: quoteAmount.toString(),
+      baseAmount: baseAmount.toString(),
+      legs: legs.length,
+      size,
     });
-    return [this._status, winningIndex];
+
+    return {
+      transaction,
+      quote: {
+        market,
+        quoteAmount,
+        baseAmount,
+        slippageBps,
+        legs: legs.map(({ leg }) => leg),
+        positions,
+      },
+    };
+  }
+
+  /**
+   * Finds the best route from an underlying token to a target position
+   * Candidates send 0%, 25%, 50%, 75% or 100% of the input through the spot pool (if the
+   * proposal has a registered one for its mints) and the rest through the conditional markets;
+   * the one with the largest output after fees wins, pure routes on ties.
+   * With a market, the conditional part is split through the vault and swapped on that market
+   * only, and spot output is split into that market's conditional tokens.
+   * Without one, merging needs the same amount out of every market, so the shallowest market
+   * sets the output and deeper markets only spend what they need to match it.
+   * @param isBaseToQuote - Direction (true: base->quote, false: quote->base)
+   * @param amountIn - Underlying input tokens
+   * @param market - Market whose conditional output is wanted, or null for the underlying token
+   * @param slippageBps - Slippage tolerance per swap in basis points
+   * @returns Route quote with every leg's expected output, fees and price impact
+   * @throws Error if the proposal is not pending, the market is invalid, or the amount is zero
+   */
+  async quoteRoute(
+    isBaseToQuote: boolean,
+    amountIn: BN,
+    market: number | null,
+    slippageBps: number = 50
+  ): Promise<IRouteQuote> {
+    if (this._status !== ProposalStatus.Pending) {
+      throw new Error(`Proposal #${this.config.id}: Cannot trade proposal with status ${this._status}`);
+    }
+    if (market !== null && (!Number.isInteger(market) || market < 0 || market >= this.AMMs.length)) {
+      throw new Error(`Invalid market index. Must be 0-${this.AMMs.length - 1}`);
+    }
+    if (amountIn.isZero()) {
+      throw new Error("Route needs a non-zero amount");
+    }
+
+    // A spot pool that can't be quoted just leaves the conditional-only route
+    let spot: { pool: string; quote: SpotQuoter } | null = null;
+    const spotPool = this.config.spotPoolAddress ? getPoolMetadata(this.config.spotPoolAddress) : undefined;
+    if (spotPool && spotPool.baseMint === this.config.baseMint.toBase58() && spotPool.quoteMint === this.config.quoteMint.toBase58()) {
+      try {
+        const quote = await loadSpotQuoter(this.config.executionService.connection, spotPool, isBaseToQuote);
+        spot = { pool: spotPool.poolAddress, quote };
+      } catch (error) {
+        this.logger.warn("Failed to load spot pool for route quote", {
+          pool: spotPool.poolAddress,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    // Quarters of the input sent through the spot pool; pure routes first so they win ties
+    const spotQuarters = spot ? [0, 4, 1, 2, 3] : [0];
+    const candidates = await Promise.allSettled(
+      spotQuarters.map(quarters =>
+        this.quoteRouteCandidate(isBaseToQuote, amountIn, amountIn.muln(quarters).divn(4), market, slippageBps, spot)
+      )
+    );
+
+    let best: IRouteQuote | null = null;
+    for (const candidate of candidates) {
+      if (candidate.status === "fulfilled" && (!best || candidate.value.expectedAmountOut.gt(best.expectedAmountOut))) {
+        best = candidate.value;
+      }
+    }
+    if (!best) {
+      throw (candidates[0] as PromiseRejectedResult).reason;
+    }
+    return best;
+  }
+
+  /**
+   * Quotes one route candidate: part of the input through the spot pool, the rest through the markets
+   * @param spotIn - Underlying input swapped on the spot pool (needs a spot pool if non-zero)
+   * @param spot - Spot pool and its quoter
+   */
+  private async quoteRouteCandidate(
+    isBaseToQuote: boolean,
+    amountIn: BN,
+    spotIn: BN,
+    market: number | null,
+    slippageBps: number,
+    spot: { pool: string; quote: SpotQuoter } | null
+  ): Promise<IRouteQuote> {
+    const legs: IRouteLeg[] = [];
+    let expectedAmountOut = new BN(0);
+    let minAmountOut = new BN(0);
+    let unspent = this.AMMs.map(() => new BN(0));
+
+    if (!spotIn.isZero()) {
+      const quote = spot!.quote(spotIn, slippageBps);
+      if (quote.amountOut.isZero()) {
+        throw new Error("Amount too small to route through the spot pool");
+      }
+      legs.push({
+        type: "spot",
+        pool: spot!.pool,
+        isBaseToQuote,
+        amountIn: spotIn,
+        expectedAmountOut: quote.amountOut,
+        minAmountOut: quote.minAmountOut,
+        fee: quote.fee,
+        priceImpact: quote.priceImpact,
+      });
+      if (market !== null) {
+        legs.push({
+          type: "split",
+          vaultType: isBaseToQuote ? VaultType.Quote : VaultType.Base,
+          amount: quote.amountOut,
+          minAmount: quote.minAmountOut,
+        });
+      }
+      expectedAmountOut = expectedAmountOut.add(quote.amountOut);
+      minAmountOut = minAmountOut.add(quote.minAmountOut);
+    }
+
+    const conditionalIn = amountIn.sub(spotIn);
+    if (!conditionalIn.isZero()) {
+      const conditional = await this.quoteConditionalRoute(isBaseToQuote, conditionalIn, market, slippageBps);
+      legs.push(...conditional.legs);
+      expectedAmountOut = expectedAmountOut.add(conditional.expectedAmountOut);
+      minAmountOut = minAmountOut.add(conditional.minAmountOut);
+      unspent = conditional.unspent;
+    }
+
+    return {
+      market,
+      isBaseToQuote,
+      amountIn,
+      expectedAmountOut,
+      minAmountOut,
+      slippageBps,
+      legs,
+      unspent,
+    };
+  }
+
+  /**
+   * Quotes the conditional part of a route: split, swap on the target market (or on every
+   * market), and merge when the underlying token is wanted
+   */
+  private async quoteConditionalRoute(
+    isBaseToQuote: boolean,
+    amountIn: BN,
+    market: number | null,
+    slippageBps: number
+  ): Promise<{ legs: IRouteLeg[]; expectedAmountOut: BN; minAmountOut: BN; unspent: BN[] }> {
+    const split: IRouteVaultLeg = {
+      type: "split",
+      vaultType: isBaseToQuote ? VaultType.Base : VaultType.Quote,
+      amount: amountIn,
+      minAmount: amountIn,
+    };
+    const unspent = this.AMMs.map(() => amountIn);
+    const toSwapLeg = (
+      i: number,
+      legIn: BN,
+      quote: { swapOutAmount: BN; minSwapOutAmount: BN; totalFee: BN; priceImpact: number }
+    ): IRouteSwapLeg => ({
+      type: "swap",
+      market: i,
+      isBaseToQuote,
+      amountIn: legIn,
+      expectedAmountOut: quote.swapOutAmount,
+      minAmountOut: quote.minSwapOutAmount,
+      fee: quote.totalFee,
+      priceImpact: quote.priceImpact,
+    });
+
+    let swaps: IRouteSwapLeg[];
+    if (market !== null) {
+      swaps = [toSwapLeg(market, amountIn, await this.AMMs[market].getQuote(isBaseToQuote, amountIn, slippageBps))];
+    } else {
+      const quotes = await Promise.all(
+        this.AMMs.map(amm => amm.getQuote(isBaseToQuote, amountIn, slippageBps))
+      );
+      const bottleneck = quotes.reduce(
+        (min, quote, i) => (quote.swapOutAmount.lt(quotes[min].swapOutAmount) ? i : min),
+        0
+      );
+      const target = quotes[bottleneck].swapOutAmount;
+      if (target.isZero()) {
+        throw new Error("Amount too small to route through every market");
+      }
+
+      const slippageFactor = 10000 - Math.min(Math.round(slippageBps), 10000);
+      swaps = await Promise.all(
+        this.AMMs.map(async (amm, i) => {
+          if (i === bottleneck) {
+            return toSwapLeg(i, amountIn, quotes[i]);
+          }
+          const exactOut = await amm.getQuoteExactOut(isBaseToQuote, target, slippageBps);
+          if (exactOut.amountIn.gte(amountIn)) {
+            return toSwapLeg(i, amountIn, quotes[i]);
+          }
+          return toSwapLeg(i, exactOut.amountIn, {
+            swapOutAmount: target,
+            minSwapOutAmount: target.muln(slippageFactor).divn(10000),
+            totalFee: exactOut.totalFee,
+            priceImpact: exactOut.priceImpact,
+          });
+        })
+      );
+    }
+
+    for (const swap of swaps) {
+      unspent[swap.market] = amountIn.sub(swap.amountIn);
+    }
+    const expectedAmountOut = swaps
+      .map(swap => swap.expectedAmountOut)
+      .reduce((min, amount) => BN.min(min, amount));
+    const minAmountOut = swaps
+      .map(swap => swap.minAmountOut)
+      .reduce((min, amount) => BN.min(min, amount));
+
+    const legs: IRouteLeg[] = [split, ...swaps];
+    if (market === null) {
+      legs.push({
+        type: "merge",
+        vaultType: isBaseToQuote ? VaultType.Quote : VaultType.Base,
+        amount: expectedAmountOut,
+        minAmount: minAmountOut,
+      });
+    }
+
+    return { legs, expectedAmountOut, minAmountOut, unspent };
   }
 
   /**
@@ -396,6 +1037,9 @@ export class Proposal {
       // Serialize components using their individual serialize methods
       AMMData: this.AMMs.map((amm) => amm.serialize()),
       twapOracleData: this.twapOracle.serialize(),
+
+      // Cancellation details
+      cancellation: this._cancellation ?? undefined,
     };
   }
 
@@ -441,6 +1085,7 @@ export class Proposal {
 
     // Restore the status
     proposal._status = data.status;
+    proposal._cancellation = data.cancellation ?? null;
 
     // Only deserialize components if the proposal isn't in Uninitialized state
     if (data.status !== ProposalStatus.Uninitialized) {
@@ -0,0 +1,312 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as crypto from 'crypto';
+import bs58 from 'bs58';
+import { Pool } from 'pg';
+import { getPool } from '../utils/database';
+import { LoggerService } from './logger.service';
+import {
+  ApiKeyScope,
+  IApiKey,
+  IIssuedApiKey,
+  IWalletSession,
+  IIssuedWalletSession,
+} from '../types/auth.interface';
+
+/** Prefix on issued API keys so leaked keys are easy to recognise */
+const API_KEY_PREFIX = 'qmk_';
+/** Prefix on issued wallet session tokens */
+const SESSION_TOKEN_PREFIX = 'qms_';
+/** Number of key characters stored in clear for identification */
+const KEY_PREFIX_LENGTH = 12;
+/** How long a wallet session lasts */
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+/** How long a used signature nonce is remembered (must exceed the message timestamp window) */
+const NONCE_RETENTION_MS = 15 * 60 * 1000;
+
+/**
+ * Hashes a key or session token for storage and lookup
+ * Keys are 32 random bytes, so a fast hash is sufficient
+ */
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * Generates a random secret with the given prefix
+ */
+function generateSecret(prefix: string): string {
+  return prefix + bs58.encode(crypto.randomBytes(32));
+}
+
+/**
+ * Converts a nullable timestamp column to milliseconds
+ */
+function toMillis(value: Date | string | null): number | null {
+  return value ? new Date(value).getTime() : null;
+}
+
+/**
+ * Issues and verifies API keys (qm_api_keys) and wallet sessions (qm_wallet_sessions)
+ * Only SHA-256 hashes of keys and session tokens are stored
+ */
+export class AuthService {
+  private static instance: AuthService | null = null;
+  private pool: Pool;
+  private logger: LoggerService;
+
+  private constructor() {
+    this.pool = getPool();
+    this.logger = new LoggerService('api').createChild('auth-service');
+  }
+
+  public static getInstance(): AuthService {
+    if (!AuthService.instance) {
+      AuthService.instance = new AuthService();
+    }
+    return AuthService.instance;
+  }
+
+  /**
+   * Issue a new API key
+   * @param name - Human-readable label
+   * @param scopes - Scopes granted to the key
+   * @param expiresAt - Expiry in milliseconds (null = never)
+   * @param rotatedFromId - Key this one replaces (optional)
+   * @returns The plaintext key (shown once) and its stored record
+   */
+  async createApiKey(
+    name: string,
+    scopes: ApiKeyScope[],
+    expiresAt: number | null,
+    rotatedFromId: number | null = null
+  ): Promise<IIssuedApiKey> {
+    const key = generateSecret(API_KEY_PREFIX);
+    const result = await this.pool.query(
+      `INSERT INTO qm_api_keys (name, key_prefix, key_hash, scopes, expires_at, rotated_from_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        name,
+        key.slice(0, KEY_PREFIX_LENGTH),
+        hashSecret(key),
+        scopes,
+        expiresAt !== null ? new Date(expiresAt) : null,
+        rotatedFromId
+      ]
+    );
+
+    const apiKey = this.rowToApiKey(result.rows[0]);
+    this.logger.info('API key created', {
+      id: apiKey.id,
+      name,
+      scopes,
+      rotatedFromId
+    });
+    return { key, apiKey };
+  }
+
+  /**
+   * Verify an API key and record its use
+   * @param key - Plaintext key from the request
+   * @returns The key record, or null if unknown, revoked or expired
+   */
+  async authenticateApiKey(key: string): Promise<IApiKey | null> {
+    const result = await this.pool.query(
+      `UPDATE qm_api_keys
+       SET last_used_at = NOW()
+       WHERE key_hash = $1
+         AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > NOW())
+       RETURNING *`,
+      [hashSecret(key)]
+    );
+
+    return result.rows.length > 0 ? this.rowToApiKey(result.rows[0]) : null;
+  }
+
+  /**
+   * List all API keys, newest first
+   * @returns API key records (without hashes)
+   */
+  async listApiKeys(): Promise<IApiKey[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM qm_api_keys ORDER BY id DESC'
+    );
+    return result.rows.map(row => this.rowToApiKey(row));
+  }
+
+  /**
+   * Revoke an API key immediately
+   * @param id - Key ID
+   * @returns True if an active key was revoked
+   */
+  async revokeApiKey(id: number): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE qm_api_keys SET revoked_at = NOW()
+       WHERE id = $1 AND revoked_at IS NULL`,
+      [id]
+    );
+
+    const revoked = (result.rowCount ?? 0) > 0;
+    if (revoked) {
+      this.logger.info('API key revoked', { id });
+    }
+    return revoked;
+  }
+
+  /**
+   * Rotate an API key: issue a replacement with the same name, scopes and expiry,
+   * and let the old key keep working for a grace period
+   * @param id - Key ID to rotate
+   * @param gracePeriodMs - How long the old key stays valid (0 = expire now)
+   * @returns The replacement key, or null if the key doesn't exist, is revoked or has expired
+   */
+  async rotateApiKey(id: number, gracePeriodMs: number): Promise<IIssuedApiKey | null> {
+    // The CTE captures the original expiry so the replacement keeps it
+    const result = await this.pool.query(
+      `WITH previous AS (
+         SELECT id, expires_at AS original_expires_at
+         FROM qm_api_keys
+         WHERE id = $1
+           AND revoked_at IS NULL
+           AND (expires_at IS NULL OR expires_at > NOW())
+         FOR UPDATE
+       )
+       UPDATE qm_api_keys k
+       SET expires_at = LEAST(
+         COALESCE(k.expires_at, 'infinity'::timestamptz),
+         NOW() + $2::integer * INTERVAL '1 millisecond'
+       )
+       FROM previous
+       WHERE k.id = previous.id
+       RETURNING k.*, previous.original_expires_at`,
+      [id, gracePeriodMs]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    const previous = this.rowToApiKey(row);
+    this.logger.info('API key rotated', {
+      id,
+      oldKeyExpiresAt: previous.expiresAt
+    });
+
+    return this.createApiKey(previous.name, previous.scopes, toMillis(row.original_expires_at), id);
+  }
+
+  /**
+   * Consume a signature nonce so a signed message can't be replayed
+   * @param nonce - Nonce from the signed message
+   * @param wallet - Wallet that signed it
+   * @returns True if the nonce was unused
+   */
+  async consumeNonce(nonce: string, wallet: string): Promise<boolean> {
+    // Forget nonces older than any message that could still pass the timestamp check
+    await this.pool.query(
+      `DELETE FROM qm_auth_nonces WHERE created_at < NOW() - $1::integer * INTERVAL '1 millisecond'`,
+      [NONCE_RETENTION_MS]
+    );
+
+    const result = await this.pool.query(
+      `INSERT INTO qm_auth_nonces (nonce, wallet)
+       VALUES ($1, $2)
+       ON CONFLICT (nonce) DO NOTHING`,
+      [nonce, wallet]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Create a session for a wallet whose signed message has already been verified
+   * @param wallet - Wallet address
+   * @returns The plaintext session token (shown once) and its stored record
+   */
+  async createWalletSession(wallet: string): Promise<IIssuedWalletSession> {
+    const token = generateSecret(SESSION_TOKEN_PREFIX);
+    const result = await this.pool.query(
+      `INSERT INTO qm_wallet_sessions (wallet, token_hash, expires_at)
+       VALUES ($1, $2, $3)
+       RETURNING id, wallet, expires_at, created_at`,
+      [wallet, hashSecret(token), new Date(Date.now() + SESSION_TTL_MS)]
+    );
+
+    const session = this.rowToWalletSession(result.rows[0]);
+    this.logger.info('Wallet session created', { wallet, sessionId: session.id });
+    return { token, session };
+  }
+
+  /**
+   * Verify a wallet session token and record its use
+   * @param token - Plaintext session token
+   * @returns The session, or null if unknown, revoked or expired
+   */
+  async authenticateWalletSession(token: string): Promise<IWalletSession | null> {
+    const result = await this.pool.query(
+      `UPDATE qm_wallet_sessions
+       SET last_used_at = NOW()
+       WHERE token_hash = $1
+         AND revoked_at IS NULL
+         AND expires_at > NOW()
+       RETURNING id, wallet, expires_at, created_at`,
+      [hashSecret(token)]
+    );
+
+    return result.rows.length > 0 ? this.rowToWalletSession(result.rows[0]) : null;
+  }
+
+  /**
+   * Revoke a wallet session
+   * @param id - Session ID
+   */
+  async revokeWalletSession(id: number): Promise<void> {
+    await this.pool.query(
+      `UPDATE qm_wallet_sessions SET revoked_at = NOW()
+       WHERE id = $1 AND revoked_at IS NULL`,
+      [id]
+    );
+  }
+
+  private rowToApiKey(row: any): IApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      keyPrefix: row.key_prefix,
+      scopes: row.scopes,
+      expiresAt: toMillis(row.expires_at),
+      revokedAt: toMillis(row.revoked_at),
+      lastUsedAt: toMillis(row.last_used_at),
+      rotatedFromId: row.rotated_from_id,
+      createdAt: new Date(row.created_at).getTime(),
+    };
+  }
+
+  private rowToWalletSession(row: any): IWalletSession {
+    return {
+      id: row.id,
+      wallet: row.wallet,
+      expiresAt: new Date(row.expires_at).getTime(),
+      createdAt: new Date(row.created_at).getTime(),
+    };
+  }
+}
@@ -0,0 +1,134 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import { ExecutionService } from './execution.service';
+import { LoggerService } from './logger.service';
+import { RpcPool } from './rpc-pool.service';
+import { TransactionTrackerService } from './transaction-tracker.service';
+import { ExecutionStatus } from '../types/execution.interface';
+import { ITrackedTransaction, TrackedTransactionStatus } from '../types/transaction-tracker.interface';
+
+const blockhash = () => Keypair.generate().publicKey.toBase58();
+
+describe('ExecutionService.executeTx rebuilds', () => {
+  let service: ExecutionService;
+  let submit: ReturnType<typeof vi.fn>;
+  let outcomes: TrackedTransactionStatus[];
+  let blockhashes: string[];
+  const payer = Keypair.generate();
+
+  beforeEach(() => {
+    blockhashes = [blockhash(), blockhash(), blockhash(), blockhash()];
+    let issued = 0;
+    const connection = {
+      getLatestBlockhash: vi.fn(async () => ({ blockhash: blockhashes[issued], lastValidBlockHeight: 100 + issued++ })),
+    };
+    vi.spyOn(RpcPool, 'getInstance').mockReturnValue({
+      addEndpoint: vi.fn(),
+      getConnection: () => connection,
+    } as unknown as RpcPool);
+
+    outcomes = [];
+    let sent = 0;
+    submit = vi.fn(async (): Promise<ITrackedTransaction> => {
+      const status = outcomes[sent] ?? TrackedTransactionStatus.Confirmed;
+      return {
+        signature: `sig-${++sent}`,
+        status,
+        lastValidBlockHeight: 0,
+        broadcasts: 1,
+        rebuiltFrom: null,
+        durableNonce: null,
+        confirmedSlot: null,
+        error: status === TrackedTransactionStatus.Expired ? 'Blockhash expired before the transaction landed' : null,
+      };
+    });
+    vi.spyOn(TransactionTrackerService, 'getInstance')
+      .mockReturnValue({ submit } as unknown as TransactionTrackerService);
+
+    service = new ExecutionService({ rpcEndpoint: 'https://rpc.example.com' }, new LoggerService('test'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const transfer = () => new Transaction().add(SystemProgram.transfer({
+    fromPubkey: payer.publicKey,
+    toPubkey: Keypair.generate().publicKey,
+    lamports: 1,
+  }));
+
+  /** Blockhash, last valid height and rebuiltFrom of each submission */
+  const submissions = () => submit.mock.calls.map(([, raw, lastValidBlockHeight, , , rebuiltFrom]) => ({
+    blockhash: Transaction.from(raw).recentBlockhash,
+    lastValidBlockHeight,
+    rebuiltFrom,
+  }));
+
+  it('re-signs an expired transaction with a fresh blockhash and links it to the one it replaces', async () => {
+    outcomes = [TrackedTransactionStatus.Expired, TrackedTransactionStatus.Confirmed];
+
+    const result = await service.executeTx(transfer(), payer);
+
+    expect(result).toMatchObject({ status: ExecutionStatus.Success, signature: 'sig-2' });
+    expect(submissions()).toEqual([
+      { blockhash: blockhashes[0], lastValidBlockHeight: 100, rebuiltFrom: null },
+      { blockhash: blockhashes[1], lastValidBlockHeight: 101, rebuiltFrom: 'sig-1' },
+    ]);
+    expect(Transaction.from(submit.mock.calls[1][1]).verifySignatures()).toBe(true);
+  });
+
+  it('gives up after the maximum number of rebuilds', async () => {
+    outcomes = Array(4).fill(TrackedTransactionStatus.Expired);
+
+    const result = await service.executeTx(transfer(), payer);
+
+    expect(submit).toHaveBeenCalledTimes(3);
+    expect(result).toMatchObject({
+      status: ExecutionStatus.Failed,
+      signature: 'sig-3',
+      error: 'Blockhash expired before the transaction landed'
+    });
+  });
+
+  it('does not rebuild a transaction signed by someone it cannot sign for', async () => {
+    outcomes = [TrackedTransactionStatus.Expired];
+    const tx = transfer();
+    tx.recentBlockhash = blockhashes[0];
+    tx.feePayer = payer.publicKey;
+    tx.sign(payer);
+
+    const result = await service.executeTx(tx);
+
+    expect(submit).toHaveBeenCalledOnce();
+    expect(result.status).toBe(ExecutionStatus.Failed);
+  });
+
+  it('does not rebuild transactions that landed', async () => {
+    outcomes = [TrackedTransactionStatus.Failed];
+
+    const result = await service.executeTx(transfer(), payer);
+
+    expect(submit).toHaveBeenCalledOnce();
+    expect(result.status).toBe(ExecutionStatus.Failed);
+  });
+});
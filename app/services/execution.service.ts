@@ -23,7 +23,12 @@ import {
   Transaction,
   ComputeBudgetProgram,
   TransactionInstruction,
-  PublicKey
+  PublicKey,
+  SystemProgram,
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  TransactionMessage,
+  VersionedTransaction
 } from '@solana/web3.js';
 import * as fs from 'fs';
 import bs58 from 'bs58';
@@ -34,9 +39,90 @@ import {
   ExecutionStatus,
   IExecutionLog,
   PriorityFeeMode,
-  Commitment
+  Commitment,
+  BundleMode,
+  BundleStatus,
+  IBundleConfig,
+  IBundleResult
 } from '../types/execution.interface';
 import { LoggerService } from './logger.service';
+import { RpcPool } from './rpc-pool.service';
+import { PriorityFeeService } from './priority-fee.service';
+import { TransactionTrackerService } from './transaction-tracker.service';
+import { TrackedTransactionStatus } from '../types/transaction-tracker.interface';
+import { getDurableNonce } from '../utils/durable-nonce';
+
+/** Jito accepts at most 5 transactions per bundle; one is used for the tip */
+const MAX_BUNDLE_TRANSACTIONS = 4;
+/** Bundles whose status is kept for getBundleStatus */
+const MAX_TRACKED_BUNDLES = 100;
+/** Times an expired transaction is re-signed with a fresh blockhash */
+const MAX_REBUILDS = 2;
+/** Address lookup tables hold at most 256 addresses */
+const MAX_LOOKUP_TABLE_ADDRESSES = 256;
+/** Addresses added per extend transaction (keeps it under the packet size) */
+const LOOKUP_TABLE_EXTEND_CHUNK = 20;
+/** A deactivated lookup table can be closed once its deactivation slot leaves the slot hashes */
+const LOOKUP_TABLE_COOLDOWN_SLOTS = 513n;
+/** How long a fee from the oracle identifies transactions priced by it (covers user signing) */
+const ORACLE_FEE_TTL_MS = 5 * 60 * 1000;
+/** ComputeBudget instruction index of SetComputeUnitPrice */
+const SET_COMPUTE_UNIT_PRICE_INSTRUCTION = 3;
+
+/**
+ * Read the compute unit price a transaction pays
+ * @param transaction - Legacy or v0 transaction
+ * @returns Price in microlamports per compute unit, or null if it sets none
+ */
+function getComputeUnitPrice(transaction: Transaction | VersionedTransaction): number | null {
+  const instructions = transaction instanceof VersionedTransaction
+    ? transaction.message.compiledInstructions.map(ix => ({
+        programId: transaction.message.staticAccountKeys[ix.programIdIndex],
+        data: Buffer.from(ix.data)
+      }))
+    : transaction.instructions;
+
+  const setPrice = instructions.find(ix =>
+    ix.programId?.equals(ComputeBudgetProgram.programId) &&
+    ix.data.length >= 9 &&
+    ix.data[0] === SET_COMPUTE_UNIT_PRICE_INSTRUCTION
+  );
+  return setPrice ? Number(setPrice.data.readBigUInt64LE(1)) : null;
+}
+
+/**
+ * Whether an expired transaction can be re-signed with a fresh blockhash: every required
+ * signer must be one of ours, and durable-nonce transactions (which don't expire) are left alone
+ * @param transaction - Expired transaction
+ * @param signers - Keypairs available to sign it
+ * @returns True if the transaction can be rebuilt
+ */
+function canRebuild(transaction: Transaction | VersionedTransaction, signers: Keypair[]): boolean {
+  const requiredSigners = transaction instanceof VersionedTransaction
+    ? transaction.message.staticAccountKeys.slice(0, transaction.message.header.numRequiredSignatures)
+    : transaction.signatures.map(s => s.publicKey);
+
+  return signers.length > 0 &&
+    getDurableNonce(transaction) === null &&
+    requiredSigners.every(key => signers.some(signer => signer.publicKey.equals(key)));
+}
+
+/**
+ * Replace a transaction's blockhash and sign it again
+ * @param transaction - Transaction to re-sign (every required signer must be given)
+ * @param blockhash - Fresh blockhash
+ * @param signers - All required signers
+ */
+function resign(transaction: Transaction | VersionedTransaction, blockhash: string, signers: Keypair[]): void {
+  if (transaction instanceof VersionedTransaction) {
+    transaction.message.recentBlockhash = blockhash;
+    transaction.signatures = transaction.signatures.map(() => new Uint8Array(64));
+    transaction.sign(signers);
+  } else {
+    transaction.recentBlockhash = blockhash;
+    transaction.sign(...signers);
+  }
+}
 
 /**
  * Service for handling Solana transaction execution
@@ -46,6 +132,10 @@ export class ExecutionService implements IExecutionService {
   readonly connection: Connection;
   public config: IExecutionConfig;
   private logger: LoggerService;
+  private bundles = new Map<string, IBundleResult>();  // Recent bundles by ID, oldest first
+  private tipAccounts?: PublicKey[];                    // Cached Jito tip accounts
+  private lookupTables = new Map<string, AddressLookupTableAccount>(); // Fetched lookup tables by address
+  private oracleFees = new Map<number, number>();       // Fees handed out by the oracle -> when
 
   constructor(config: IExecutionConfig, logger: LoggerService) {
     this.config = {
@@ -56,11 +146,10 @@ export class ExecutionService implements IExecutionService {
       priorityFeeMode: config.priorityFeeMode || PriorityFeeMode.Medium,
       maxPriorityFeeLamports: config.maxPriorityFeeLamports ?? 25000
     };
-    // Use provided connection or create a new one
-    this.connection = new Connection(
-      this.config.rpcEndpoint,
-      this.config.commitment
-    );
+    // The configured endpoint joins the shared pool
+    const rpcPool = RpcPool.getInstance();
+    rpcPool.addEndpoint(this.config.rpcEndpoint);
+    this.connection = rpcPool.getConnection(this.config.commitment);
     this.logger = logger;
   }
 
@@ -102,34 +191,17 @@ export class ExecutionService implements IExecutionService {
       return 0;
     }
 
-    // For dynamic mode, always fetch from network
+    // For dynamic mode, use the priority fee oracle's rolling percentiles for these accounts
     if (mode === PriorityFeeMode.Dynamic) {
       try {
-        // Get recent prioritization fees for the accounts
-        const recentFees = await this.connection.getRecentPrioritizationFees({
-          lockedWritableAccounts: accountKeys
-        });
-
-        if (!recentFees || recentFees.length === 0) {
-          // Fallback to medium if no data available
-          return 5000;
-        }
-
-        // Sort fees and get 75th percentile
-        const fees = recentFees
-          .map((f: any) => f.prioritizationFee)
-          .filter((f: number) => f > 0)
-          .sort((a: number, b: number) => a - b);
-
-        if (fees.length === 0) {
-          return 5000; // Default to medium
-        }
-
-        const percentileIndex = Math.floor(fees.length * 0.75);
-        const suggestedFee = fees[percentileIndex];
+        const priorityFees = PriorityFeeService.getInstance();
+        priorityFees.trackAccounts(accountKeys);
+        const estimate = await priorityFees.getEstimate(accountKeys);
 
         // Cap at max configured fee
-        return Math.min(suggestedFee, this.config.maxPriorityFeeLamports || 25000);
+        const fee = Math.min(estimate.microLamports, this.config.maxPriorityFeeLamports || 25000);
+        this.rememberOracleFee(fee);
+        return fee;
       } catch (error) {
         this.logger.warn('Failed to get dynamic priority fee, using medium', { error });
         return 5000; // Default to medium
@@ -184,20 +256,60 @@ export class ExecutionService implements IExecutionService {
   }
 
   /**
-   * Add compute budget instructions to the beginning of a transaction
-   * MUST be called before signing the transaction
-   * @param transaction - Transaction to add compute budget to
-   * @returns Promise that resolves when instructions are added
+   * Simulate a v0 message to get compute units used
+   * @param instructions - Instructions of the message
+   * @param payer - Fee payer
+   * @param lookupTables - Lookup tables the message is compiled against
+   * @returns Estimated compute units needed
    */
-  async addComputeBudgetInstructions(
-    transaction: Transaction
-  ): Promise<void> {
+  private async estimateVersionedComputeUnits(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    lookupTables: AddressLookupTableAccount[]
+  ): Promise<number> {
+    try {
+      // The blockhash is replaced by the RPC, it only has to be well-formed
+      const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: PublicKey.default.toBase58(),
+        instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: 1400000 }), ...instructions]
+      }).compileToV0Message(lookupTables);
+
+      const simulation = await this.connection.simulateTransaction(new VersionedTransaction(message), {
+        sigVerify: false,
+        replaceRecentBlockhash: true
+      });
+
+      if (simulation.value.err) {
+        this.logger.warn('Simulation failed, using default compute units', { error: simulation.value.err });
+        return 200000;
+      }
+
+      const unitsConsumed = simulation.value.unitsConsumed || 200000;
+      // Add 20% buffer for safety
+      return Math.min(Math.ceil(unitsConsumed * 1.2), 1400000);
+    } catch (error) {
+      this.logger.warn('Failed to estimate compute units, using default', { error });
+      return 200000;
+    }
+  }
+
+  /**
+   * Build compute budget instructions for a set of instructions
+   * @param instructions - Instructions the budget is for
+   * @param estimate - Simulates the instructions when no compute unit limit is configured
+   * @returns Compute unit limit and price instructions (empty when priority fees are off)
+   */
+  private async getComputeBudgetInstructions(
+    instructions: TransactionInstruction[],
+    estimate: () => Promise<number>
+  ): Promise<TransactionInstruction[]> {
     if (this.config.priorityFeeMode === PriorityFeeMode.None) {
-      return;
+      return [];
     }
 
     // Get account keys that will be written to
-    const accountKeys = transaction.instructions
+    const accountKeys = instructions
       .flatMap(ix => ix.keys)
       .filter(key => key.isWritable)
       .map(key => key.pubkey);
@@ -209,8 +321,7 @@ export class ExecutionService implements IExecutionService {
     );
 
     // Get compute units needed
-    const computeUnits = this.config.computeUnitLimit ||
-      await this.estimateComputeUnits(transaction);
+    const computeUnits = this.config.computeUnitLimit || await estimate();
 
     // Create compute budget instructions
     const computeBudgetInstructions: TransactionInstruction[] = [];
@@ -231,9 +342,6 @@ export class ExecutionService implements IExecutionService {
       );
     }
 
-    // Add compute budget instructions to the beginning of the transaction
-    transaction.instructions.unshift(...computeBudgetInstructions);
-
     // Log the compute budget settings
     this.logger.debug('Compute budget settings', {
       computeUnits,
@@ -241,17 +349,207 @@ export class ExecutionService implements IExecutionService {
       mode: this.config.priorityFeeMode,
       totalFeeLamports: Math.ceil((computeUnits * priorityFee) / 1000000)
     });
+
+    return computeBudgetInstructions;
+  }
+
+  /**
+   * Add compute budget instructions to the beginning of a transaction
+   * MUST be called before signing the transaction
+   * @param transaction - Transaction to add compute budget to
+   * @returns Promise that resolves when instructions are added
+   */
+  async addComputeBudgetInstructions(
+    transaction: Transaction
+  ): Promise<void> {
+    const computeBudgetInstructions = await this.getComputeBudgetInstructions(
+      transaction.instructions,
+      () => this.estimateComputeUnits(transaction)
+    );
+
+    // Add compute budget instructions to the beginning of the transaction
+    transaction.instructions.unshift(...computeBudgetInstructions);
+  }
+
+  /**
+   * Build an unsigned v0 transaction, with compute budget instructions prepended
+   * Accounts found in the lookup tables are referenced by index, so the transaction
+   * can touch more accounts than a legacy one
+   * @param instructions - Instructions in execution order
+   * @param payer - Fee payer
+   * @param lookupTables - Lookup tables to compile against (optional)
+   * @param recentBlockhash - Blockhash to use (default: latest)
+   * @returns Transaction ready for signing
+   */
+  async buildVersionedTx(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    lookupTables: AddressLookupTableAccount[] = [],
+    recentBlockhash?: string
+  ): Promise<VersionedTransaction> {
+    const computeBudgetInstructions = await this.getComputeBudgetInstructions(
+      instructions,
+      () => this.estimateVersionedComputeUnits(instructions, payer, lookupTables)
+    );
+
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: recentBlockhash ?? (await this.connection.getLatestBlockhash()).blockhash,
+      instructions: [...computeBudgetInstructions, ...instructions]
+    }).compileToV0Message(lookupTables);
+
+    return new VersionedTransaction(message);
+  }
+
+  /**
+   * Create an address lookup table owned by the authority and fill it
+   * @param authority - Table authority and fee payer
+   * @param addresses - Addresses to store
+   * @returns Lookup table address
+   * @throws Error if a transaction fails
+   */
+  async createLookupTable(authority: Keypair, addresses: PublicKey[]): Promise<PublicKey> {
+    // The derivation slot must be recent and known to the cluster's slot hashes
+    const recentSlot = await this.connection.getSlot(Commitment.Finalized);
+    const [createIx, lookupTable] = AddressLookupTableProgram.createLookupTable({
+      authority: authority.publicKey,
+      payer: authority.publicKey,
+      recentSlot
+    });
+
+    const result = await this.executeTx(new Transaction().add(createIx), authority);
+    if (result.status === ExecutionStatus.Failed) {
+      throw new Error(`Failed to create lookup table: ${result.error}`);
+    }
+
+    await this.extendLookupTable(authority, lookupTable, addresses);
+    this.logger.info('Lookup table created', {
+      lookupTable: lookupTable.toBase58(),
+      addresses: addresses.length
+    });
+    return lookupTable;
+  }
+
+  /**
+   * Add addresses to a lookup table, skipping ones it already holds
+   * New entries can be used from the next slot on
+   * @param authority - Table authority and fee payer
+   * @param lookupTable - Lookup table address
+   * @param addresses - Addresses to add
+   * @throws Error if the table doesn't exist, is full, or a transaction fails
+   */
+  async extendLookupTable(authority: Keypair, lookupTable: PublicKey, addresses: PublicKey[]): Promise<void> {
+    const { value: table } = await this.connection.getAddressLookupTable(lookupTable);
+    const existing = new Set((table?.state.addresses ?? []).map(address => address.toBase58()));
+    const missing = Array.from(new Set(addresses.map(address => address.toBase58())))
+      .filter(address => !existing.has(address))
+      .map(address => new PublicKey(address));
+
+    if (existing.size + missing.length > MAX_LOOKUP_TABLE_ADDRESSES) {
+      throw new Error(`Lookup table ${lookupTable.toBase58()} can't hold ${missing.length} more addresses`);
+    }
+
+    for (let i = 0; i < missing.length; i += LOOKUP_TABLE_EXTEND_CHUNK) {
+      const extendIx = AddressLookupTableProgram.extendLookupTable({
+        lookupTable,
+        authority: authority.publicKey,
+        payer: authority.publicKey,
+        addresses: missing.slice(i, i + LOOKUP_TABLE_EXTEND_CHUNK)
+      });
+      const result = await this.executeTx(new Transaction().add(extendIx), authority);
+      if (result.status === ExecutionStatus.Failed) {
+        throw new Error(`Failed to extend lookup table: ${result.error}`);
+      }
+    }
+
+    // Drop the cached copy so the new addresses are used
+    this.lookupTables.delete(lookupTable.toBase58());
+  }
+
+  /**
+   * Move a lookup table towards closing, returning its rent to the authority
+   * An active table is deactivated; a deactivated table can only be closed once its
+   * deactivation slot has left the slot hashes (~513 slots), so call again later
+   * @param authority - Table authority, receives the rent
+   * @param lookupTable - Lookup table address
+   * @returns True once the table is closed (or doesn't exist)
+   * @throws Error if a transaction fails
+   */
+  async releaseLookupTable(authority: Keypair, lookupTable: PublicKey): Promise<boolean> {
+    // Transactions must stop using the table before it goes away
+    this.lookupTables.delete(lookupTable.toBase58());
+
+    const { value: table } = await this.connection.getAddressLookupTable(lookupTable);
+    if (!table) {
+      return true;
+    }
+
+    if (table.isActive()) {
+      const deactivateIx = AddressLookupTableProgram.deactivateLookupTable({
+        lookupTable,
+        authority: authority.publicKey
+      });
+      const result = await this.executeTx(new Transaction().add(deactivateIx), authority);
+      if (result.status === ExecutionStatus.Failed) {
+        throw new Error(`Failed to deactivate lookup table: ${result.error}`);
+      }
+      this.logger.info('Lookup table deactivated', { lookupTable: lookupTable.toBase58() });
+      return false;
+    }
+
+    const currentSlot = await this.connection.getSlot();
+    if (BigInt(currentSlot) <= table.state.deactivationSlot + LOOKUP_TABLE_COOLDOWN_SLOTS) {
+      return false;
+    }
+
+    const closeIx = AddressLookupTableProgram.closeLookupTable({
+      lookupTable,
+      authority: authority.publicKey,
+      recipient: authority.publicKey
+    });
+    const result = await this.executeTx(new Transaction().add(closeIx), authority);
+    if (result.status === ExecutionStatus.Failed) {
+      throw new Error(`Failed to close lookup table: ${result.error}`);
+    }
+    this.logger.info('Lookup table closed', { lookupTable: lookupTable.toBase58() });
+    return true;
+  }
+
+  /**
+   * Fetch lookup tables for compiling v0 messages, cached after the first fetch
+   * Tables that don't exist (e.g. closed) are skipped
+   * @param addresses - Lookup table addresses
+   * @returns Lookup table accounts
+   */
+  async fetchLookupTables(addresses: PublicKey[]): Promise<AddressLookupTableAccount[]> {
+    const tables: AddressLookupTableAccount[] = [];
+    for (const address of addresses) {
+      let table = this.lookupTables.get(address.toBase58());
+      if (!table) {
+        const { value } = await this.connection.getAddressLookupTable(address);
+        if (!value) {
+          this.logger.warn('Lookup table not found, skipping', { lookupTable: address.toBase58() });
+          continue;
+        }
+        table = value;
+        this.lookupTables.set(address.toBase58(), table);
+      }
+      tables.push(table);
+    }
+    return tables;
   }
 
   /**
    * Execute a transaction on Solana
-   * @param transaction - Transaction to execute
+   * Rebroadcasts until confirmed or expired; expired transactions are re-signed with a
+   * fresh blockhash when every required signer is given (up to MAX_REBUILDS times)
+   * @param transaction - Legacy or v0 transaction to execute (v0 messages already carry their blockhash)
    * @param signer - Optional keypair to sign the transaction (if not already signed)
    * @param additionalSigners - Additional keypairs that need to sign the transaction
    * @returns Execution result with signature and status
    */
   async executeTx(
-    transaction: Transaction,
+    transaction: Transaction | VersionedTransaction,
     signer?: Keypair,
     additionalSigners: Keypair[] = []
   ): Promise<IExecutionResult> {
@@ -262,55 +560,86 @@ export class ExecutionService implements IExecutionService {
       const { blockhash, lastValidBlockHeight } =
         await this.connection.getLatestBlockhash(this.config.commitment);
 
-      // Only set blockhash if not already set (for pre-signed transactions)
-      if (!transaction.recentBlockhash) {
-        transaction.recentBlockhash = blockhash;
-      }
+      if (transaction instanceof VersionedTransaction) {
+        // v0 messages are compiled with their blockhash and fee payer - only signing is left
+        const signers = signer ? [signer, ...additionalSigners] : additionalSigners;
+        if (signers.length > 0) {
+          transaction.sign(signers);
+        }
+      } else {
+        // Only set blockhash if not already set (for pre-signed transactions)
+        if (!transaction.recentBlockhash) {
+          transaction.recentBlockhash = blockhash;
+        }
 
-      // Only set fee payer if not already set and signer is provided
-      if (!transaction.feePayer && signer) {
-        transaction.feePayer = signer.publicKey;
-      }
+        // Only set fee payer if not already set and signer is provided
+        if (!transaction.feePayer && signer) {
+          transaction.feePayer = signer.publicKey;
+        }
 
-      // Only sign if signer is provided
-      if (signer) {
-        transaction.partialSign(signer);
-      }
+        // Only sign if signer is provided
+        if (signer) {
+          transaction.partialSign(signer);
+        }
 
-      // Sign with additional signers if provided
-      for (const additionalSigner of additionalSigners) {
-        transaction.partialSign(additionalSigner);
+        // Sign with additional signers if provided
+        for (const additionalSigner of additionalSigners) {
+          transaction.partialSign(additionalSigner);
+        }
       }
 
-      // Send the fully signed transaction
-      signature = await this.connection.sendRawTransaction(
+      // Send and rebroadcast until confirmed or expired; the outcome is kept in qm_transactions
+      const tracker = TransactionTrackerService.getInstance();
+      const oraclePriced = this.isOraclePriced(transaction);
+      const sendOptions = {
+        skipPreflight: this.config.skipPreflight ?? false,
+        maxRetries: this.config.maxRetries ?? 3
+      };
+      // Durable-nonce transactions are tracked until their nonce moves, not by block height
+      let tracked = await tracker.submit(
+        this.connection,
         transaction.serialize(),
-        {
-          skipPreflight: this.config.skipPreflight ?? false,
-          maxRetries: this.config.maxRetries ?? 3
-        }
+        lastValidBlockHeight,
+        this.config.commitment!,
+        sendOptions,
+        null,
+        getDurableNonce(transaction)
       );
+      signature = tracked.signature;
+      this.recordFeeOutcome(oraclePriced, tracked.status);
 
-      // Wait for confirmation using modern blockhash-based strategy
-      // This properly handles blockhash expiration instead of potentially hanging
-      const confirmationResult = await this.connection.confirmTransaction(
-        {
+      // An expired transaction can't land anymore, so re-signing it can't double-execute
+      const signers = signer ? [signer, ...additionalSigners] : additionalSigners;
+      for (
+        let rebuild = 1;
+        tracked.status === TrackedTransactionStatus.Expired && rebuild <= MAX_REBUILDS && canRebuild(transaction, signers);
+        rebuild++
+      ) {
+        this.logger.warn('Transaction expired, rebuilding with a fresh blockhash', {
           signature,
-          blockhash,
-          lastValidBlockHeight
-        },
-        this.config.commitment
-      );
-
-      // Check if transaction failed on-chain
-      if (confirmationResult.value.err) {
-        const errorMessage = JSON.stringify(confirmationResult.value.err);
+          rebuild
+        });
+        const fresh = await this.connection.getLatestBlockhash(this.config.commitment);
+        resign(transaction, fresh.blockhash, signers);
+        tracked = await tracker.submit(
+          this.connection,
+          transaction.serialize(),
+          fresh.lastValidBlockHeight,
+          this.config.commitment!,
+          sendOptions,
+          signature
+        );
+        signature = tracked.signature;
+        this.recordFeeOutcome(oraclePriced, tracked.status);
+      }
 
+      // Check if transaction failed on-chain or never landed
+      if (tracked.status !== TrackedTransactionStatus.Confirmed) {
         const result: IExecutionResult = {
           signature,
           status: ExecutionStatus.Failed,
           timestamp: Date.now(),
-          error: `Transaction failed on-chain: ${errorMessage}`
+          error: tracked.error ?? `Transaction ${tracked.status}`
         };
 
         this.logExecution({
@@ -361,6 +690,325 @@ export class ExecutionService implements IExecutionService {
     }
   }
 
+  /**
+   * Execute transactions that must land together
+   * With bundle config they are sent as one Jito bundle followed by a tip transaction,
+   * so either all of them land or none do. Without it, or when the bundle doesn't land
+   * and fallbackToSequential isn't disabled, they are sent one at a time and the first
+   * failure stops the rest. Used for vault finalization plus redemption; transactions the
+   * pool API submits itself (withdrawals, deposit-back swap/deposit) can't be bundled here.
+   * @param transactions - Transactions in execution order (at most 4 in bundle mode)
+   * @param signer - Optional keypair to sign every transaction (required to pay the bundle tip)
+   * @param additionalSigners - Additional keypairs that sign every transaction
+   * @returns Bundle result with per-transaction signatures
+   * @throws Error if there are no transactions
+   */
+  async executeBundle(
+    transactions: Transaction[],
+    signer?: Keypair,
+    additionalSigners: Keypair[] = []
+  ): Promise<IBundleResult> {
+    if (transactions.length === 0) {
+      throw new Error('No transactions to execute');
+    }
+
+    const bundleConfig = this.config.bundle;
+    if (!bundleConfig) {
+      return this.executeSequential(transactions, signer, additionalSigners);
+    }
+
+    let result: IBundleResult;
+    try {
+      result = await this.sendBundle(transactions, bundleConfig, signer, additionalSigners);
+    } catch (error) {
+      result = {
+        bundleId: null,
+        mode: BundleMode.Bundle,
+        status: ExecutionStatus.Failed,
+        signatures: [],
+        results: [],
+        timestamp: Date.now(),
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    if (result.status === ExecutionStatus.Success || bundleConfig.fallbackToSequential === false) {
+      return result;
+    }
+
+    // A bundle that timed out may still land. Re-sending is safe either way: the
+    // sequential sends reuse the same signed transactions, which can only land once.
+    if (result.signatures.length > 0 && await this.allLanded(result.signatures)) {
+      return this.trackBundle({
+        ...result,
+        status: ExecutionStatus.Success,
+        bundleStatus: BundleStatus.Landed,
+        timestamp: Date.now(),
+        error: undefined
+      });
+    }
+
+    this.logger.warn('Bundle did not land, falling back to sequential sends', {
+      bundleId: result.bundleId,
+      bundleStatus: result.bundleStatus,
+      error: result.error,
+      transactionCount: transactions.length
+    });
+
+    const sequential = await this.executeSequential(transactions, signer, additionalSigners);
+    return this.trackBundle({
+      ...sequential,
+      bundleId: result.bundleId,
+      bundleStatus: result.bundleStatus
+    });
+  }
+
+  /**
+   * Get the last known status of a bundle sent by this service
+   * @param bundleId - Bundle ID returned by the block engine
+   * @returns Bundle result, or undefined if the bundle isn't tracked
+   */
+  getBundleStatus(bundleId: string): IBundleResult | undefined {
+    return this.bundles.get(bundleId);
+  }
+
+  /**
+   * Send transactions one at a time, stopping at the first failure
+   */
+  private async executeSequential(
+    transactions: Transaction[],
+    signer: Keypair | undefined,
+    additionalSigners: Keypair[]
+  ): Promise<IBundleResult> {
+    const results: IExecutionResult[] = [];
+    for (const transaction of transactions) {
+      const result = await this.executeTx(transaction, signer, additionalSigners);
+      results.push(result);
+      if (result.status === ExecutionStatus.Failed) {
+        break;
+      }
+    }
+
+    const failed = results.find(result => result.status === ExecutionStatus.Failed);
+    return {
+      bundleId: null,
+      mode: BundleMode.Sequential,
+      status: failed ? ExecutionStatus.Failed : ExecutionStatus.Success,
+      signatures: results.map(result => result.signature),
+      results,
+      timestamp: Date.now(),
+      ...(failed && {
+        error: `Transaction ${results.length} of ${transactions.length} failed: ${failed.error}`
+      })
+    };
+  }
+
+  /**
+   * Sign the transactions, append a tip transaction and submit them as a Jito bundle
+   * @returns Bundle result once the bundle lands, fails or stops being tracked
+   * @throws Error if the bundle can't be built or the block engine rejects it
+   */
+  private async sendBundle(
+    transactions: Transaction[],
+    bundleConfig: IBundleConfig,
+    signer: Keypair | undefined,
+    additionalSigners: Keypair[]
+  ): Promise<IBundleResult> {
+    if (!signer) {
+      throw new Error('Bundle mode needs a signer to pay the tip');
+    }
+    if (transactions.length > MAX_BUNDLE_TRANSACTIONS) {
+      throw new Error(`Bundles hold at most ${MAX_BUNDLE_TRANSACTIONS} transactions, got ${transactions.length}`);
+    }
+
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash(this.config.commitment);
+
+    const tipTx = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: signer.publicKey,
+        toPubkey: await this.getTipAccount(bundleConfig),
+        lamports: bundleConfig.tipLamports
+      })
+    );
+
+    // Same rules as executeTx: keep blockhashes and fee payers of pre-built transactions
+    for (const transaction of [...transactions, tipTx]) {
+      if (!transaction.recentBlockhash) {
+        transaction.recentBlockhash = blockhash;
+      }
+      if (!transaction.feePayer) {
+        transaction.feePayer = signer.publicKey;
+      }
+      transaction.partialSign(signer);
+    }
+    for (const transaction of transactions) {
+      for (const additionalSigner of additionalSigners) {
+        transaction.partialSign(additionalSigner);
+      }
+    }
+
+    const signatures = transactions.map(transaction => bs58.encode(transaction.signature!));
+    const bundleId = await this.callBlockEngine<string>(bundleConfig, 'sendBundle', [
+      [...transactions, tipTx].map(transaction => transaction.serialize().toString('base64')),
+      { encoding: 'base64' }
+    ]);
+
+    this.trackBundle({
+      bundleId,
+      mode: BundleMode.Bundle,
+      status: ExecutionStatus.Pending,
+      bundleStatus: BundleStatus.Pending,
+      signatures,
+      results: [],
+      timestamp: Date.now()
+    });
+
+    const bundleStatus = await this.waitForBundle(bundleId, lastValidBlockHeight, bundleConfig);
+    const landed = bundleStatus === BundleStatus.Landed;
+    return this.trackBundle({
+      bundleId,
+      mode: BundleMode.Bundle,
+      status: landed ? ExecutionStatus.Success : ExecutionStatus.Failed,
+      bundleStatus,
+      signatures,
+      results: [],
+      timestamp: Date.now(),
+      ...(!landed && { error: `Bundle ${bundleId} did not land: ${bundleStatus}` })
+    });
+  }
+
+  /**
+   * Poll the block engine until the bundle lands, fails, or its blockhash expires
+   * The block engine may not know a bundle for a moment after accepting it, so
+   * Invalid only counts once the blockhash can no longer land
+   */
+  private async waitForBundle(
+    bundleId: string,
+    lastValidBlockHeight: number,
+    bundleConfig: IBundleConfig
+  ): Promise<BundleStatus> {
+    const pollIntervalMs = bundleConfig.statusPollIntervalMs ?? 1000;
+    const deadline = Date.now() + (bundleConfig.statusTimeoutMs ?? 30000);
+
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+
+      let status: string | undefined;
+      try {
+        const statuses = await this.callBlockEngine<{ value: { bundle_id: string; status: string }[] }>(
+          bundleConfig,
+          'getInflightBundleStatuses',
+          [[bundleId]]
+        );
+        status = statuses?.value?.[0]?.status;
+      } catch (error) {
+        this.logger.warn('Failed to fetch bundle status', {
+          bundleId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      if (status === 'Landed') {
+        return BundleStatus.Landed;
+      }
+      if (status === 'Failed') {
+        return BundleStatus.Failed;
+      }
+      if (await this.connection.getBlockHeight(this.config.commitment) > lastValidBlockHeight) {
+        return status === 'Invalid' ? BundleStatus.Invalid : BundleStatus.Failed;
+      }
+    }
+
+    return BundleStatus.Timeout;
+  }
+
+  /**
+   * Whether every signature has landed without error
+   */
+  private async allLanded(signatures: string[]): Promise<boolean> {
+    try {
+      const { value } = await this.connection.getSignatureStatuses(signatures);
+      return value.every(status => status !== null && !status.err);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Pick a random Jito tip account, spreading tips to avoid write-lock contention
+   */
+  private async getTipAccount(bundleConfig: IBundleConfig): Promise<PublicKey> {
+    if (!this.tipAccounts) {
+      const accounts = bundleConfig.tipAccounts?.length
+        ? bundleConfig.tipAccounts
+        : await this.callBlockEngine<string[]>(bundleConfig, 'getTipAccounts', []);
+      if (!accounts || accounts.length === 0) {
+        throw new Error('Block engine returned no tip accounts');
+      }
+      this.tipAccounts = accounts.map(account => new PublicKey(account));
+    }
+    return this.tipAccounts[Math.floor(Math.random() * this.tipAccounts.length)];
+  }
+
+  /**
+   * Call a block engine JSON-RPC method on the bundles endpoint
+   * @throws Error if the request fails or the block engine returns an error
+   */
+  private async callBlockEngine<T>(bundleConfig: IBundleConfig, method: string, params: unknown[]): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (bundleConfig.uuid) {
+      headers['x-jito-auth'] = bundleConfig.uuid;
+    }
+
+    const response = await fetch(`${bundleConfig.blockEngineUrl.replace(/\/+$/, '')}/api/v1/bundles`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+    });
+    if (!response.ok) {
+      throw new Error(`Block engine ${method} failed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.json() as { result?: T; error?: { message?: string } };
+    if (body.error) {
+      throw new Error(`Block engine ${method} failed: ${body.error.message ?? JSON.stringify(body.error)}`);
+    }
+    return body.result as T;
+  }
+
+  /**
+   * Remember a bundle's latest status and log the change
+   * @returns The same result, for chaining
+   */
+  private trackBundle(result: IBundleResult): IBundleResult {
+    if (!result.bundleId) {
+      return result;
+    }
+
+    // Re-insert so the map stays ordered by last update
+    this.bundles.delete(result.bundleId);
+    this.bundles.set(result.bundleId, result);
+    if (this.bundles.size > MAX_TRACKED_BUNDLES) {
+      this.bundles.delete(this.bundles.keys().next().value!);
+    }
+
+    const metadata = {
+      bundleId: result.bundleId,
+      mode: result.mode,
+      status: result.status,
+      bundleStatus: result.bundleStatus,
+      signatures: result.signatures,
+      error: result.error
+    };
+    if (result.status === ExecutionStatus.Failed) {
+      this.logger.error('Bundle execution failed', metadata);
+    } else {
+      this.logger.info('Bundle status update', metadata);
+    }
+    return result;
+  }
+
   /**
    * Get Solscan link for a transaction
    * @param signature - Transaction signature
@@ -370,6 +1018,40 @@ export class ExecutionService implements IExecutionService {
     return `https://solscan.io/tx/${signature}`;
   }
 
+  /**
+   * Remember a compute unit price the oracle produced, so transactions paying it are reported
+   * @param microLamports - Price handed out
+   */
+  private rememberOracleFee(microLamports: number): void {
+    const now = Date.now();
+    for (const [fee, issuedAt] of this.oracleFees) {
+      if (now - issuedAt > ORACLE_FEE_TTL_MS) this.oracleFees.delete(fee);
+    }
+    this.oracleFees.set(microLamports, now);
+  }
+
+  /**
+   * Whether a transaction pays a compute unit price recently produced by the oracle
+   * Transactions priced elsewhere (presets, fallbacks, clients) say nothing about the oracle
+   */
+  private isOraclePriced(transaction: Transaction | VersionedTransaction): boolean {
+    const price = getComputeUnitPrice(transaction);
+    const issuedAt = price !== null ? this.oracleFees.get(price) : undefined;
+    return issuedAt !== undefined && Date.now() - issuedAt <= ORACLE_FEE_TTL_MS;
+  }
+
+  /**
+   * Report whether a submission landed, so the fee oracle can tune its percentile
+   * Called once per submission: an expired send counts as dropped even if a rebuild lands
+   * @param oraclePriced - Whether the transaction's fee came from the oracle
+   * @param status - Final status of the submission
+   */
+  private recordFeeOutcome(oraclePriced: boolean, status: TrackedTransactionStatus): void {
+    if (oraclePriced) {
+      PriorityFeeService.getInstance().recordOutcome(status !== TrackedTransactionStatus.Expired);
+    }
+  }
+
   /**
    * Log execution event in structured JSON format
    * @param log - Execution log data
@@ -94,6 +94,7 @@ export class HistoryService {
   /**
    * Records a trade transaction to the database
    * Captures swap details including user, amounts, and execution price
+   * A trade whose signature is already recorded is ignored
    * @param data - Trade history data excluding auto-generated fields
    * @param data.moderatorId - ID of the moderator
    * @param data.proposalId - Global proposal ID
@@ -114,6 +115,7 @@ export class HistoryService {
         moderator_id, proposal_id, market, user_address, is_base_to_quote,
         amount_in, amount_out, price, tx_signature
       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (tx_signature) DO NOTHING
     `;
 
     await pool.query(query, [
@@ -177,6 +179,54 @@ export class HistoryService {
     }));
   }
 
+  /**
+   * Retrieves raw price history for a proposal's conditional markets
+   * Excludes spot prices (market -1); used to replay TWAPs offline
+   * @param moderatorId - ID of the moderator
+   * @param proposalId - Global proposal ID
+   * @param from - Optional start date filter
+   * @param to - Optional end date filter
+   * @returns Array of price history records ordered by timestamp ascending
+   * @throws Error if database query fails
+   */
+  static async getPriceHistory(
+    moderatorId: number,
+    proposalId: number,
+    from?: Date,
+    to?: Date
+  ): Promise<IPriceHistory[]> {
+    const pool = getPool();
+
+    let query = `
+      SELECT * FROM qm_price_history
+      WHERE moderator_id = $1 AND proposal_id = $2 AND market >= 0
+    `;
+    const params: (number | Date)[] = [moderatorId, proposalId];
+
+    if (from) {
+      params.push(from);
+      query += ` AND timestamp >= $${params.length}`;
+    }
+
+    if (to) {
+      params.push(to);
+      query += ` AND timestamp <= $${params.length}`;
+    }
+
+    query += ' ORDER BY timestamp ASC, id ASC';
+
+    const result = await pool.query(query, params);
+
+    return result.rows.map(row => ({
+      id: row.id,
+      timestamp: row.timestamp,
+      moderatorId: row.moderator_id,
+      proposalId: row.proposal_id,
+      market: row.market,
+      price: new Decimal(row.price),
+    }));
+  }
+
   /**
    * Retrieves trade history for a proposal
    * Returns individual swap transactions with user attribution
@@ -592,19 +642,24 @@ export class HistoryService {
 
   /**
    * Records a trade for a futarchy proposal
+   * Trades already recorded for the same transaction and event index are skipped
+   * @returns True if the trade was inserted
    */
-  static async recordCmbTrade(data: Omit<ICmbTradeHistory, 'id' | 'timestamp'>): Promise<void> {
+  static async recordCmbTrade(
+    data: Omit<ICmbTradeHistory, 'id' | 'timestamp'> & { timestamp?: Date }
+  ): Promise<boolean> {
     const pool = getPool();
 
     const query = `
       INSERT INTO cmb_trade_history (
         proposal_pda, market, trader, is_base_to_quote,
-        amount_in, amount_out, fee_amount, tx_signature,
-        price, market_cap_usd
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        amount_in, amount_out, fee_amount, tx_signature, event_index,
+        price, market_cap_usd, timestamp
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, COALESCE($12, NOW()))
+      ON CONFLICT (tx_signature, event_index) WHERE tx_signature IS NOT NULL DO NOTHING
     `;
 
-    await pool.query(query, [
+    const result = await pool.query(query, [
       data.proposalPda,
       data.market,
       data.trader,
@@ -613,9 +668,12 @@ export class HistoryService {
       data.amountOut.toString(),
       data.feeAmount?.toString() || null,
       data.txSignature || null,
+      data.eventIndex ?? null,
       data.price?.toString() || null,
       data.marketCapUsd?.toString() || null,
+      data.timestamp ?? null,
     ]);
+    return (result.rowCount ?? 0) > 0;
   }
 
   /**
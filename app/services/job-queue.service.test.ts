@@ -0,0 +1,190 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { JobQueueService } from './job-queue.service';
+import { LoggerService } from './logger.service';
+import { IJob, JobRunResult, JobStatus } from '../types/job-queue.interface';
+import { ScheduledTaskType } from '../types/scheduler.interface';
+
+const query = vi.fn();
+vi.mock('../utils/database', () => ({ getPool: () => ({ query }) }));
+
+const CONFIG = {
+  pollIntervalMs: 1000,
+  leaseMs: 60000,
+  maxConcurrency: 2,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 5000,
+  defaultMaxAttempts: 3,
+};
+
+/** A qm_jobs row as returned by the claim query */
+function jobRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    job_key: 'finalize-1-7',
+    type: ScheduledTaskType.ProposalFinalize,
+    moderator_id: 1,
+    proposal_id: 7,
+    payload: {},
+    status: JobStatus.Running,
+    interval_ms: null,
+    run_at: new Date(),
+    attempts: 1,
+    max_attempts: 3,
+    last_error: null,
+    locked_by: 'worker',
+    lease_expires_at: new Date(),
+    last_run_at: new Date(),
+    completed_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+/** Statements run against qm_jobs, as [sql, params] */
+const statements = () => query.mock.calls as [string, unknown[]][];
+const updatesAfterClaim = () => statements().filter(([sql]) => !sql.includes('SKIP LOCKED'));
+
+describe('JobQueueService', () => {
+  let queue: JobQueueService;
+  let claimed: ReturnType<typeof jobRow>[];
+
+  beforeEach(() => {
+    query.mockReset();
+    claimed = [];
+    query.mockImplementation(async (sql: string) => {
+      const rows = sql.includes('SKIP LOCKED') ? claimed.splice(0) : [];
+      return { rows, rowCount: rows.length || 1 };
+    });
+    queue = new JobQueueService(new LoggerService('test'), CONFIG);
+  });
+
+  /** Claims due jobs once and waits for their handlers to be recorded */
+  async function pollWith(handler: (job: IJob) => Promise<JobRunResult>) {
+    queue.start(handler);
+    queue.stop();
+    await queue['poll']();
+    await vi.waitFor(() => expect(queue['inFlight']).toBe(0));
+  }
+
+  it('claims due and lease-expired jobs with SKIP LOCKED and leases them to this worker', async () => {
+    claimed = [jobRow()];
+    const handler = vi.fn(async () => JobRunResult.Done);
+    await pollWith(handler);
+
+    const [sql, params] = statements()[0];
+    expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+    expect(sql).toContain('status = $1 AND lease_expires_at < NOW()');
+    expect(params).toEqual([JobStatus.Running, queue['workerId'], CONFIG.leaseMs, JobStatus.Pending, CONFIG.maxConcurrency]);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 1, jobKey: 'finalize-1-7' }));
+  });
+
+  it('only claims up to the free concurrency', async () => {
+    queue['inFlight'] = 1;
+    queue.start(async () => JobRunResult.Done);
+    queue.stop();
+    await queue['poll']();
+    expect(statements()[0][1][4]).toBe(1);
+
+    query.mockClear();
+    queue['inFlight'] = CONFIG.maxConcurrency;
+    await queue['poll']();
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('completes one-time jobs only while this worker still holds them', async () => {
+    claimed = [jobRow()];
+    await pollWith(async () => JobRunResult.Done);
+
+    const [sql, params] = updatesAfterClaim()[0];
+    expect(sql).toContain('completed_at = NOW()');
+    expect(sql).toContain('locked_by = $2 AND status = $4');
+    expect(params).toEqual([1, queue['workerId'], JobStatus.Completed, JobStatus.Running]);
+  });
+
+  it('reschedules periodic jobs one interval later', async () => {
+    claimed = [jobRow({ interval_ms: 5000 })];
+    await pollWith(async () => JobRunResult.Continue);
+
+    const [sql, params] = updatesAfterClaim()[0];
+    expect(sql).toContain('attempts = 0');
+    expect(params).toEqual([1, queue['workerId'], JobStatus.Pending, 5000, JobStatus.Running]);
+  });
+
+  it('retries failures with exponential backoff capped at the max delay', async () => {
+    claimed = [
+      jobRow({ id: 1, attempts: 1, max_attempts: 10 }),
+      jobRow({ id: 2, attempts: 2, max_attempts: 10 }),
+    ];
+    await pollWith(async () => {
+      throw new Error('rpc down');
+    });
+    claimed = [jobRow({ id: 3, attempts: 5, max_attempts: 10 })];
+    await pollWith(async () => {
+      throw new Error('rpc down');
+    });
+
+    const delays = Object.fromEntries(updatesAfterClaim().map(([, params]) => [params[0], params[4]]));
+    expect(delays).toEqual({ 1: 1000, 2: 2000, 3: CONFIG.retryMaxDelayMs });
+    for (const [, params] of updatesAfterClaim()) {
+      expect(params[2]).toBe(JobStatus.Pending);
+      expect(params[3]).toBe('rpc down');
+    }
+  });
+
+  it('dead-letters a job on its last attempt', async () => {
+    claimed = [jobRow({ attempts: 3, max_attempts: 3 })];
+    await pollWith(async () => {
+      throw new Error('still failing');
+    });
+
+    const [sql, params] = updatesAfterClaim()[0];
+    expect(sql).not.toContain('run_at');
+    expect(params).toEqual([1, queue['workerId'], JobStatus.Dead, 'still failing', JobStatus.Running]);
+  });
+
+  it('keeps dead jobs dead when the same key is enqueued again', async () => {
+    query.mockResolvedValue({ rows: [], rowCount: 0 });
+    const scheduled = await queue.enqueue({
+      jobKey: 'finalize-1-7',
+      type: ScheduledTaskType.ProposalFinalize,
+      moderatorId: 1,
+      proposalId: 7,
+      runAt: Date.now(),
+    });
+
+    const [sql, params] = statements()[0];
+    expect(sql).toContain('WHERE qm_jobs.status IN ($10, $11)');
+    expect(params.slice(9)).toEqual([JobStatus.Completed, JobStatus.Cancelled]);
+    expect(scheduled).toBe(false);
+  });
+
+  it('only moves dead or cancelled jobs back to pending on retry', async () => {
+    query.mockResolvedValue({ rows: [jobRow({ status: JobStatus.Pending })], rowCount: 1 });
+    const job = await queue.retry(1);
+
+    const [sql, params] = statements()[0];
+    expect(sql).toContain('status IN ($3, $4)');
+    expect(params).toEqual([1, JobStatus.Pending, JobStatus.Dead, JobStatus.Cancelled]);
+    expect(job?.status).toBe(JobStatus.Pending);
+  });
+});
@@ -0,0 +1,448 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { getPool } from '../utils/database';
+import { LoggerService } from './logger.service';
+import {
+  IJob,
+  IJobFilter,
+  IJobSummary,
+  IJobQueueConfig,
+  IEnqueueJobParams,
+  JobHandler,
+  JobRunResult,
+  JobStatus,
+} from '../types/job-queue.interface';
+import { ScheduledTaskType } from '../types/scheduler.interface';
+
+const DEFAULT_CONFIG: IJobQueueConfig = {
+  pollIntervalMs: 1000,
+  leaseMs: 5 * 60 * 1000,
+  maxConcurrency: 10,
+  retryBaseDelayMs: 5000,
+  retryMaxDelayMs: 10 * 60 * 1000,
+  defaultMaxAttempts: 5,
+};
+
+/**
+ * Postgres-backed job queue
+ * Jobs live in qm_jobs and are claimed with leases (FOR UPDATE SKIP LOCKED), so
+ * several API instances can share the queue and a crashed worker's jobs are
+ * picked up again once its lease expires. Failures retry with exponential backoff
+ * and are dead-lettered after maxAttempts.
+ */
+export class JobQueueService {
+  private readonly config: IJobQueueConfig;
+  private readonly workerId: string;
+  private logger: LoggerService;
+  private handler: JobHandler | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private inFlight = 0;
+
+  constructor(logger: LoggerService, config: Partial<IJobQueueConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.workerId = `${hostname()}-${process.pid}-${randomBytes(4).toString('hex')}`;
+    this.logger = logger;
+  }
+
+  /**
+   * Adds a job unless one with the same key is already active or dead-lettered
+   * Completed or cancelled jobs with the same key are replaced. Dead jobs are left
+   * alone so re-scheduling (e.g. recovery on restart) can't retry them forever;
+   * they only run again through an explicit retry().
+   * @param params - Job parameters
+   * @returns true if the job was inserted or replaced
+   */
+  async enqueue(params: IEnqueueJobParams): Promise<boolean> {
+    const result = await getPool().query(
+      `INSERT INTO qm_jobs (
+        job_key, type, moderator_id, proposal_id, payload,
+        status, interval_ms, run_at, max_attempts
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (job_key) DO UPDATE SET
+        payload = EXCLUDED.payload,
+        status = EXCLUDED.status,
+        interval_ms = EXCLUDED.interval_ms,
+        run_at = EXCLUDED.run_at,
+        max_attempts = EXCLUDED.max_attempts,
+        attempts = 0,
+        last_error = NULL,
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        completed_at = NULL,
+        updated_at = NOW()
+      WHERE qm_jobs.status IN ($10, $11)`,
+      [
+        params.jobKey,
+        params.type,
+        params.moderatorId,
+        params.proposalId,
+        JSON.stringify(params.payload ?? {}),
+        JobStatus.Pending,
+        params.intervalMs ?? null,
+        new Date(params.runAt),
+        params.maxAttempts ?? this.config.defaultMaxAttempts,
+        JobStatus.Completed,
+        JobStatus.Cancelled,
+      ]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Cancels a pending or running job by key
+   * A running handler finishes, but its result is discarded
+   * @param jobKey - The job key
+   */
+  async cancel(jobKey: string): Promise<void> {
+    await getPool().query(
+      `UPDATE qm_jobs
+       SET status = $2, locked_by = NULL, lease_expires_at = NULL, updated_at = NOW()
+       WHERE job_key = $1 AND status IN ($3, $4)`,
+      [jobKey, JobStatus.Cancelled, JobStatus.Pending, JobStatus.Running]
+    );
+  }
+
+  /**
+   * Cancels all pending or running jobs for a proposal
+   * @param moderatorId - The moderator ID that owns the proposal
+   * @param proposalId - The proposal ID
+   */
+  async cancelProposalJobs(moderatorId: number, proposalId: number): Promise<void> {
+    await getPool().query(
+      `UPDATE qm_jobs
+       SET status = $3, locked_by = NULL, lease_expires_at = NULL, updated_at = NOW()
+       WHERE moderator_id = $1 AND proposal_id = $2 AND status IN ($4, $5)`,
+      [moderatorId, proposalId, JobStatus.Cancelled, JobStatus.Pending, JobStatus.Running]
+    );
+  }
+
+  /**
+   * Moves a dead or cancelled job back to pending so it runs immediately
+   * @param id - The job ID
+   * @returns The updated job, or null if the job doesn't exist or isn't retryable
+   */
+  async retry(id: number): Promise<IJob | null> {
+    const result = await getPool().query(
+      `UPDATE qm_jobs
+       SET status = $2, attempts = 0, run_at = NOW(), last_error = NULL,
+           completed_at = NULL, updated_at = NOW()
+       WHERE id = $1 AND status IN ($3, $4)
+       RETURNING *`,
+      [id, JobStatus.Pending, JobStatus.Dead, JobStatus.Cancelled]
+    );
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Gets a job by ID
+   * @param id - The job ID
+   * @returns The job or null if not found
+   */
+  async getJob(id: number): Promise<IJob | null> {
+    const result = await getPool().query('SELECT * FROM qm_jobs WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Lists jobs, most recently updated first
+   * @param filter - Optional filters
+   * @returns Matching jobs
+   */
+  async listJobs(filter: IJobFilter = {}): Promise<IJob[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (filter.type) {
+      params.push(filter.type);
+      conditions.push(`type = $${params.length}`);
+    }
+    if (filter.moderatorId !== undefined) {
+      params.push(filter.moderatorId);
+      conditions.push(`moderator_id = $${params.length}`);
+    }
+    if (filter.proposalId !== undefined) {
+      params.push(filter.proposalId);
+      conditions.push(`proposal_id = $${params.length}`);
+    }
+
+    params.push(filter.limit ?? 100);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await getPool().query(
+      `SELECT * FROM qm_jobs ${where} ORDER BY updated_at DESC LIMIT $${params.length}`,
+      params
+    );
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  /**
+   * Counts jobs by type and status
+   * @returns Job counts
+   */
+  async getSummary(): Promise<IJobSummary[]> {
+    const result = await getPool().query(
+      `SELECT type, status, COUNT(*) as count FROM qm_jobs GROUP BY type, status ORDER BY type, status`
+    );
+    return result.rows.map(row => ({
+      type: row.type,
+      status: row.status,
+      count: parseInt(row.count, 10),
+    }));
+  }
+
+  /**
+   * Starts polling for due jobs
+   * @param handler - Runs each leased job
+   */
+  start(handler: JobHandler): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.handler = handler;
+    this.pollTimer = setInterval(() => {
+      this.poll().catch(error => {
+        this.logger.error('Job queue poll failed', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }, this.config.pollIntervalMs);
+
+    this.logger.info('Job queue worker started', {
+      workerId: this.workerId,
+      pollIntervalMs: this.config.pollIntervalMs,
+      maxConcurrency: this.config.maxConcurrency
+    });
+  }
+
+  /**
+   * Stops polling; jobs already running finish and keep their results
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      this.logger.info('Job queue worker stopped', { workerId: this.workerId });
+    }
+  }
+
+  /**
+   * Claims due jobs (and jobs whose lease expired) up to the free concurrency
+   */
+  private async poll(): Promise<void> {
+    if (this.polling || !this.handler) {
+      return;
+    }
+
+    const capacity = this.config.maxConcurrency - this.inFlight;
+    if (capacity <= 0) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      const result = await getPool().query(
+        `UPDATE qm_jobs
+         SET status = $1,
+             locked_by = $2,
+             lease_expires_at = NOW() + ($3::integer * INTERVAL '1 millisecond'),
+             attempts = attempts + 1,
+             last_run_at = NOW(),
+             updated_at = NOW()
+         WHERE id IN (
+           SELECT id FROM qm_jobs
+           WHERE (status = $4 AND run_at <= NOW())
+              OR (status = $1 AND lease_expires_at < NOW())
+           ORDER BY run_at
+           LIMIT $5
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [JobStatus.Running, this.workerId, this.config.leaseMs, JobStatus.Pending, capacity]
+      );
+
+      for (const row of result.rows) {
+        const job = this.mapRow(row);
+        this.inFlight++;
+        this.run(job).finally(() => {
+          this.inFlight--;
+        });
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Runs a leased job, renewing its lease until the handler settles
+   * @param job - The leased job
+   */
+  private async run(job: IJob): Promise<void> {
+    const heartbeat = setInterval(() => {
+      this.renewLease(job.id).catch(error => {
+        this.logger.warn('Failed to renew job lease', {
+          jobKey: job.jobKey,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }, Math.max(1000, Math.floor(this.config.leaseMs / 3)));
+
+    try {
+      const runResult = await this.handler!(job);
+      await this.succeed(job, runResult);
+    } catch (error) {
+      await this.fail(job, error).catch(failError => {
+        this.logger.error('Failed to record job failure', {
+          jobKey: job.jobKey,
+          error: failError instanceof Error ? failError.message : String(failError)
+        });
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Extends the lease on a job this worker holds
+   * @param id - The job ID
+   */
+  private async renewLease(id: number): Promise<void> {
+    await getPool().query(
+      `UPDATE qm_jobs
+       SET lease_expires_at = NOW() + ($3::integer * INTERVAL '1 millisecond')
+       WHERE id = $1 AND locked_by = $2 AND status = $4`,
+      [id, this.workerId, this.config.leaseMs, JobStatus.Running]
+    );
+  }
+
+  /**
+   * Records a successful run
+   * Periodic jobs are rescheduled one interval later unless the handler reported Done
+   * Updates only apply while this worker still holds the job (it may have been cancelled)
+   * @param job - The job that ran
+   * @param runResult - The handler's result
+   */
+  private async succeed(job: IJob, runResult: JobRunResult): Promise<void> {
+    if (job.intervalMs !== null && runResult === JobRunResult.Continue) {
+      await getPool().query(
+        `UPDATE qm_jobs
+         SET status = $3, attempts = 0, last_error = NULL,
+             run_at = NOW() + ($4::integer * INTERVAL '1 millisecond'),
+             locked_by = NULL, lease_expires_at = NULL, updated_at = NOW()
+         WHERE id = $1 AND locked_by = $2 AND status = $5`,
+        [job.id, this.workerId, JobStatus.Pending, job.intervalMs, JobStatus.Running]
+      );
+      return;
+    }
+
+    await getPool().query(
+      `UPDATE qm_jobs
+       SET status = $3, last_error = NULL, completed_at = NOW(),
+           locked_by = NULL, lease_expires_at = NULL, updated_at = NOW()
+       WHERE id = $1 AND locked_by = $2 AND status = $4`,
+      [job.id, this.workerId, JobStatus.Completed, JobStatus.Running]
+    );
+    this.logger.info('Job completed', { jobKey: job.jobKey, type: job.type });
+  }
+
+  /**
+   * Records a failed run, retrying with exponential backoff or dead-lettering
+   * @param job - The job that failed
+   * @param error - The error thrown by the handler
+   */
+  private async fail(job: IJob, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts >= job.maxAttempts) {
+      await getPool().query(
+        `UPDATE qm_jobs
+         SET status = $3, last_error = $4,
+             locked_by = NULL, lease_expires_at = NULL, updated_at = NOW()
+         WHERE id = $1 AND locked_by = $2 AND status = $5`,
+        [job.id, this.workerId, JobStatus.Dead, message, JobStatus.Running]
+      );
+      this.logger.error('Job dead-lettered after max attempts', {
+        jobKey: job.jobKey,
+        type: job.type,
+        attempts: job.attempts,
+        error: message
+      });
+      return;
+    }
+
+    const delayMs = Math.min(
+      this.config.retryMaxDelayMs,
+      this.config.retryBaseDelayMs * Math.pow(2, job.attempts - 1)
+    );
+
+    await getPool().query(
+      `UPDATE qm_jobs
+       SET status = $3, last_error = $4,
+           run_at = NOW() + ($5::integer * INTERVAL '1 millisecond'),
+           locked_by = NULL, lease_expires_at = NULL, updated_at = NOW()
+       WHERE id = $1 AND locked_by = $2 AND status = $6`,
+      [job.id, this.workerId, JobStatus.Pending, message, delayMs, JobStatus.Running]
+    );
+    this.logger.warn('Job failed, retrying with backoff', {
+      jobKey: job.jobKey,
+      type: job.type,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      delayMs,
+      error: message
+    });
+  }
+
+  /**
+   * Maps a qm_jobs row to an IJob
+   * @param row - Database row
+   * @returns The job
+   */
+  private mapRow(row: any): IJob {
+    const toMillis = (value: Date | null): number | null => value ? new Date(value).getTime() : null;
+    return {
+      id: row.id,
+      jobKey: row.job_key,
+      type: row.type as ScheduledTaskType,
+      moderatorId: row.moderator_id,
+      proposalId: row.proposal_id,
+      payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : (row.payload ?? {}),
+      status: row.status as JobStatus,
+      intervalMs: row.interval_ms,
+      runAt: new Date(row.run_at).getTime(),
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      lastError: row.last_error,
+      lockedBy: row.locked_by,
+      leaseExpiresAt: toMillis(row.lease_expires_at),
+      lastRunAt: toMillis(row.last_run_at),
+      completedAt: toMillis(row.completed_at),
+      createdAt: new Date(row.created_at).getTime(),
+      updatedAt: new Date(row.updated_at).getTime(),
+    };
+  }
+}
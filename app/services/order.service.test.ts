@@ -0,0 +1,85 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Decimal } from 'decimal.js';
+import { isOrderTriggered } from './order.service';
+import { IOrder, OrderExecutionMode, OrderStatus, OrderType } from '../types/order.interface';
+
+function order(orderType: OrderType, isBaseToQuote: boolean, triggerPrice: string): IOrder {
+  return {
+    id: 1,
+    moderatorId: 1,
+    proposalId: 7,
+    market: 0,
+    wallet: 'wallet',
+    orderType,
+    executionMode: OrderExecutionMode.Delegate,
+    isBaseToQuote,
+    amountIn: '1000',
+    minAmountOut: '900',
+    triggerPrice: new Decimal(triggerPrice),
+    status: OrderStatus.Open,
+    attempts: 0,
+    txSignature: null,
+    error: null,
+    expiresAt: Date.now() + 60000,
+    filledAt: null,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+}
+
+const fires = (o: IOrder, price: string) => isOrderTriggered(o, new Decimal(price));
+
+describe('isOrderTriggered', () => {
+  it('fires limit buys at or below the trigger', () => {
+    const buy = order(OrderType.Limit, false, '1.5');
+    expect(fires(buy, '1.4')).toBe(true);
+    expect(fires(buy, '1.5')).toBe(true);
+    expect(fires(buy, '1.6')).toBe(false);
+  });
+
+  it('fires limit sells at or above the trigger', () => {
+    const sell = order(OrderType.Limit, true, '1.5');
+    expect(fires(sell, '1.6')).toBe(true);
+    expect(fires(sell, '1.5')).toBe(true);
+    expect(fires(sell, '1.4')).toBe(false);
+  });
+
+  it('fires stop sells at or below the trigger', () => {
+    const stopLoss = order(OrderType.Stop, true, '1.5');
+    expect(fires(stopLoss, '1.4')).toBe(true);
+    expect(fires(stopLoss, '1.5')).toBe(true);
+    expect(fires(stopLoss, '1.6')).toBe(false);
+  });
+
+  it('fires stop buys at or above the trigger', () => {
+    const breakout = order(OrderType.Stop, false, '1.5');
+    expect(fires(breakout, '1.6')).toBe(true);
+    expect(fires(breakout, '1.5')).toBe(true);
+    expect(fires(breakout, '1.4')).toBe(false);
+  });
+
+  it('compares prices exactly rather than as floats', () => {
+    const buy = order(OrderType.Limit, false, '0.3');
+    expect(fires(buy, '0.30000000000000001')).toBe(false);
+    expect(fires(buy, new Decimal('0.1').plus('0.2').toString())).toBe(true);
+  });
+});
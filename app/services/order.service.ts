@@ -0,0 +1,663 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Connection, Keypair, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import {
+  TokenAccountNotFoundError,
+  createApproveInstruction,
+  getAccount,
+  getAssociatedTokenAddressSync
+} from '@solana/spl-token';
+import { BN } from '@coral-xyz/anchor';
+import bs58 from 'bs58';
+import { Decimal } from 'decimal.js';
+import { Pool } from 'pg';
+import nacl from 'tweetnacl';
+import { getPool } from '../utils/database';
+import { getDurableNonce } from '../utils/durable-nonce';
+import { ExecutionService } from './execution.service';
+import { HistoryService } from './history.service';
+import { LoggerService } from './logger.service';
+import { RpcPool } from './rpc-pool.service';
+import { IAMM } from '../types/amm.interface';
+import {
+  INewOrder,
+  IOrder,
+  OrderExecutionMode,
+  OrderType,
+} from '../types/order.interface';
+
+/** Sends that may fail before an order is given up on */
+const MAX_ORDER_ATTEMPTS = 3;
+/** Executing orders untouched for this long are reconciled (longer than a send is tracked) */
+const STUCK_ORDER_MS = 5 * 60 * 1000;
+
+/**
+ * Whether an order fires at a price
+ * Limit buys and stop sells fire at or below the trigger, limit sells and stop buys at or above it
+ * @param order - Open order
+ * @param price - Current market price (quote per base)
+ * @returns True if the order should be executed
+ */
+export function isOrderTriggered(order: IOrder, price: Decimal): boolean {
+  const firesBelow = (order.orderType === OrderType.Limit) !== order.isBaseToQuote;
+  return firesBelow ? price.lte(order.triggerPrice) : price.gte(order.triggerPrice);
+}
+
+/**
+ * Stores limit and stop orders (qm_orders) and executes them when the price crosses
+ * The scheduler hands every recorded market price to processPrice. Durable-nonce orders
+ * are broadcast as signed by the user; delegate orders are swapped by the keeper wallet
+ * (ORDER_KEEPER_PRIVATE_KEY) from the user's token accounts. Orders left executing by a
+ * crash are reconciled against their transaction signature.
+ */
+export class OrderService {
+  private static instance: OrderService | null = null;
+  private pool: Pool;
+  private connection: Connection;
+  private keeper: Keypair | null | undefined;
+  private logger: LoggerService;
+
+  private constructor() {
+    this.pool = getPool();
+    this.connection = RpcPool.getInstance().getConnection();
+    this.logger = new LoggerService('api').createChild('orders');
+  }
+
+  public static getInstance(): OrderService {
+    if (!OrderService.instance) {
+      OrderService.instance = new OrderService();
+    }
+    return OrderService.instance;
+  }
+
+  /**
+   * Keeper wallet that executes delegate orders
+   * @returns The keeper keypair, or null if ORDER_KEEPER_PRIVATE_KEY is not set
+   */
+  getKeeper(): Keypair | null {
+    if (this.keeper === undefined) {
+      const key = process.env.ORDER_KEEPER_PRIVATE_KEY;
+      this.keeper = key ? ExecutionService.loadKeypair(key) : null;
+    }
+    return this.keeper;
+  }
+
+  /**
+   * Store a new open order
+   * @param order - Order to place (already validated)
+   * @returns The stored order
+   */
+  async createOrder(order: INewOrder): Promise<IOrder> {
+    const result = await this.pool.query(
+      `INSERT INTO qm_orders (
+         moderator_id, proposal_id, market, wallet, order_type, execution_mode,
+         is_base_to_quote, amount_in, min_amount_out, trigger_price, signed_transaction, expires_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING *`,
+      [
+        order.moderatorId,
+        order.proposalId,
+        order.market,
+        order.wallet,
+        order.orderType,
+        order.executionMode,
+        order.isBaseToQuote,
+        order.amountIn,
+        order.minAmountOut,
+        order.triggerPrice.toString(),
+        order.signedTransaction,
+        new Date(order.expiresAt)
+      ]
+    );
+
+    const created = this.rowToOrder(result.rows[0]);
+    this.logger.info('Order placed', {
+      id: created.id,
+      moderatorId: created.moderatorId,
+      proposalId: created.proposalId,
+      market: created.market,
+      wallet: created.wallet,
+      orderType: created.orderType,
+      executionMode: created.executionMode,
+      triggerPrice: created.triggerPrice.toString()
+    });
+    return created;
+  }
+
+  /**
+   * List a wallet's orders on a proposal, newest first
+   * @param moderatorId - The moderator ID
+   * @param proposalId - The proposal ID
+   * @param wallet - Order owner
+   * @returns Orders in any status
+   */
+  async listOrders(moderatorId: number, proposalId: number, wallet: string): Promise<IOrder[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM qm_orders
+       WHERE moderator_id = $1 AND proposal_id = $2 AND wallet = $3
+       ORDER BY id DESC`,
+      [moderatorId, proposalId, wallet]
+    );
+    return result.rows.map(row => this.rowToOrder(row));
+  }
+
+  /**
+   * Cancel an open order
+   * A durable-nonce transaction stays valid on-chain until its nonce is advanced;
+   * cancelling only stops the keeper from sending it
+   * @param moderatorId - The moderator ID
+   * @param proposalId - The proposal ID
+   * @param orderId - Order ID
+   * @param wallet - Wallet that must own the order
+   * @returns The cancelled order, or null if no open order matched
+   */
+  async cancelOrder(moderatorId: number, proposalId: number, orderId: number, wallet: string): Promise<IOrder | null> {
+    const result = await this.pool.query(
+      `UPDATE qm_orders SET status = 'cancelled'
+       WHERE id = $1 AND moderator_id = $2 AND proposal_id = $3 AND wallet = $4 AND status = 'open'
+       RETURNING *`,
+      [orderId, moderatorId, proposalId, wallet]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    this.logger.info('Order cancelled', { id: orderId, wallet });
+    return this.rowToOrder(result.rows[0]);
+  }
+
+  /**
+   * Expire every open order on a proposal
+   * Called when the proposal stops trading (ended, finalized or cancelled)
+   * @param moderatorId - The moderator ID
+   * @param proposalId - The proposal ID
+   * @returns Number of orders expired
+   */
+  async expireOrders(moderatorId: number, proposalId: number): Promise<number> {
+    // Executing orders are settled by reconcileOrders, not expired
+    const result = await this.pool.query(
+      `UPDATE qm_orders SET status = 'expired'
+       WHERE moderator_id = $1 AND proposal_id = $2 AND status = 'open'`,
+      [moderatorId, proposalId]
+    );
+
+    const expired = result.rowCount ?? 0;
+    if (expired > 0) {
+      this.logger.info('Orders expired', { moderatorId, proposalId, expired });
+    }
+    return expired;
+  }
+
+  /**
+   * Count a market's orders that are being sent (or were left executing by a crash)
+   * @param moderatorId - The moderator ID
+   * @param proposalId - The proposal ID
+   * @param market - Market index
+   * @returns Number of executing orders
+   */
+  async countExecutingOrders(moderatorId: number, proposalId: number, market: number): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*)::int AS count FROM qm_orders
+       WHERE moderator_id = $1 AND proposal_id = $2 AND market = $3 AND status = 'executing'`,
+      [moderatorId, proposalId, market]
+    );
+    return result.rows[0].count;
+  }
+
+  /**
+   * Total input committed by a wallet's open delegate orders in one market and direction
+   * A token account has a single delegate allowance, so it must cover all of them
+   * @param moderatorId - The moderator ID
+   * @param proposalId - The proposal ID
+   * @param market - Market index
+   * @param wallet - Order owner
+   * @param isBaseToQuote - Direction (selects the input token account)
+   * @returns Sum of raw input amounts
+   */
+  async getDelegatedAmount(
+    moderatorId: number,
+    proposalId: number,
+    market: number,
+    wallet: string,
+    isBaseToQuote: boolean
+  ): Promise<BN> {
+    const result = await this.pool.query(
+      `SELECT COALESCE(SUM(amount_in), 0)::text AS total FROM qm_orders
+       WHERE moderator_id = $1 AND proposal_id = $2 AND market = $3 AND wallet = $4
+         AND is_base_to_quote = $5 AND execution_mode = 'delegate'
+         AND status IN ('open', 'executing')`,
+      [moderatorId, proposalId, market, wallet, isBaseToQuote]
+    );
+    return new BN(result.rows[0].total);
+  }
+
+  /**
+   * Check that the keeper may spend an amount from an owner's token account
+   * @param owner - Token account owner
+   * @param mint - Input token mint
+   * @param amount - Raw amount the keeper needs to spend
+   * @returns Null if the delegation covers the amount, otherwise the reason it doesn't
+   */
+  async checkDelegation(owner: PublicKey, mint: PublicKey, amount: BN): Promise<string | null> {
+    const keeper = this.getKeeper();
+    if (!keeper) {
+      return 'Delegate orders are not enabled';
+    }
+
+    try {
+      const account = await getAccount(this.connection, getAssociatedTokenAddressSync(mint, owner));
+      if (!account.delegate?.equals(keeper.publicKey)) {
+        return 'Keeper is not the delegate of the input token account';
+      }
+      if (new BN(account.delegatedAmount.toString()).lt(amount)) {
+        return `Delegated amount ${account.delegatedAmount} is below ${amount.toString()}`;
+      }
+      if (new BN(account.amount.toString()).lt(amount)) {
+        return `Token balance ${account.amount} is below ${amount.toString()}`;
+      }
+      return null;
+    } catch (error) {
+      if (error instanceof TokenAccountNotFoundError) {
+        return 'Input token account not found';
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Build a transaction approving the keeper to spend from an owner's token account
+   * Approving replaces any earlier allowance on the account
+   * @param owner - Token account owner (signs and pays)
+   * @param mint - Input token mint
+   * @param amount - Raw allowance
+   * @returns Transaction with blockhash and fee payer set, ready for the owner's signature
+   * @throws Error if delegate orders are not enabled
+   */
+  async buildApprovalTx(owner: PublicKey, mint: PublicKey, amount: BN): Promise<Transaction> {
+    const keeper = this.getKeeper();
+    if (!keeper) {
+      throw new Error('Delegate orders are not enabled');
+    }
+
+    const tx = new Transaction().add(
+      createApproveInstruction(
+        getAssociatedTokenAddressSync(mint, owner),
+        keeper.publicKey,
+        owner,
+        BigInt(amount.toString())
+      )
+    );
+    const { blockhash } = await this.connection.getLatestBlockhash();
+    tx.recentBlockhash = blockhash;
+    tx.feePayer = owner;
+    return tx;
+  }
+
+  /**
+   * Check that a durable-nonce order transaction can still be sent later
+   * The first instruction must advance a nonce account whose current nonce is the
+   * transaction's blockhash, and every signature must be present and valid
+   * @param tx - Signed legacy or v0 transaction from the user
+   * @throws Error describing why the transaction can't be used
+   */
+  async verifyDurableNonceTx(tx: VersionedTransaction): Promise<void> {
+    const durableNonce = getDurableNonce(tx);
+    if (!durableNonce) {
+      throw new Error('First instruction must advance a durable nonce');
+    }
+
+    const message = tx.message.serialize();
+    const signers = tx.message.staticAccountKeys.slice(0, tx.message.header.numRequiredSignatures);
+    const fullySigned = signers.every((signer, i) =>
+      tx.signatures[i] !== undefined && nacl.sign.detached.verify(message, tx.signatures[i], signer.toBytes())
+    );
+    if (!fullySigned) {
+      throw new Error('Transaction must be fully signed');
+    }
+
+    const nonce = await this.connection.getNonce(durableNonce.nonceAccount);
+    if (!nonce || nonce.nonce !== durableNonce.nonce) {
+      throw new Error('Transaction blockhash does not match the current nonce');
+    }
+  }
+
+  /**
+   * Minimum output for a swap priced at a given price
+   * @param amm - Market the swap runs on
+   * @param isBaseToQuote - Direction of swap
+   * @param amountIn - Raw input amount
+   * @param price - Price to value the input at (quote per base)
+   * @param slippageBps - Tolerance below that value in basis points
+   * @returns Raw minimum output, rounded down
+   */
+  getMinAmountOut(amm: IAMM, isBaseToQuote: boolean, amountIn: BN, price: Decimal, slippageBps: number): BN {
+    const input = new Decimal(amountIn.toString());
+    const expected = isBaseToQuote
+      ? input.div(Math.pow(10, amm.baseDecimals)).mul(price).mul(Math.pow(10, amm.quoteDecimals))
+      : input.div(Math.pow(10, amm.quoteDecimals)).div(price).mul(Math.pow(10, amm.baseDecimals));
+    return new BN(expected.mul(10000 - slippageBps).div(10000).floor().toFixed(0));
+  }
+
+  /**
+   * Settle orders on a market that have been executing for longer than any send takes
+   * (the process sending them stopped). An order whose swap landed is filled; one whose
+   * swap can't land anymore, or was never sent, goes back to the book; a durable-nonce
+   * order whose nonce was advanced by another transaction fails.
+   * @param moderatorId - The moderator ID
+   * @param proposalId - The proposal ID
+   * @param market - Market index
+   * @param amm - The market's AMM
+   * @returns Number of orders settled
+   */
+  async reconcileOrders(moderatorId: number, proposalId: number, market: number, amm: IAMM): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT * FROM qm_orders
+       WHERE moderator_id = $1 AND proposal_id = $2 AND market = $3
+         AND status = 'executing' AND updated_at < $4
+       ORDER BY id`,
+      [moderatorId, proposalId, market, new Date(Date.now() - STUCK_ORDER_MS)]
+    );
+
+    for (const row of result.rows) {
+      const order = this.rowToOrder(row);
+      if (!order.txSignature) {
+        await this.retryOrder(order, 'Interrupted before the swap was sent', true);
+        continue;
+      }
+
+      const { value: [status] } = await this.connection.getSignatureStatuses([order.txSignature], {
+        searchTransactionHistory: true
+      });
+      if (status && !status.err) {
+        await this.fillOrder(order, amm, order.txSignature);
+        continue;
+      }
+
+      const durableNonce = row.signed_transaction
+        ? getDurableNonce(VersionedTransaction.deserialize(Buffer.from(row.signed_transaction, 'base64')))
+        : null;
+      if (status) {
+        // A failed durable-nonce transaction still advances the nonce, so it can't be resent
+        await this.retryOrder(order, `Swap failed on-chain: ${JSON.stringify(status.err)}`, !durableNonce);
+      } else if (durableNonce) {
+        const nonce = await this.connection.getNonce(durableNonce.nonceAccount);
+        if (nonce?.nonce === durableNonce.nonce) {
+          await this.retryOrder(order, 'Interrupted before the swap landed', true);
+        } else {
+          await this.failOrder(order, 'Nonce advanced before the swap landed');
+        }
+      } else {
+        // The keeper's blockhash expired long ago
+        await this.retryOrder(order, 'Interrupted before the swap landed', true);
+      }
+    }
+
+    if (result.rows.length > 0) {
+      this.logger.info('Reconciled executing orders', {
+        moderatorId,
+        proposalId,
+        market,
+        settled: result.rows.length
+      });
+    }
+    return result.rows.length;
+  }
+
+  /**
+   * Execute the orders on a market that a newly recorded price triggers
+   * Orders run one at a time; each swap is still bounded by its own minimum output.
+   * Orders stuck executing on the market are reconciled first.
+   * @param moderatorId - The moderator ID
+   * @param proposalId - The proposal ID
+   * @param market - Market index
+   * @param amm - The market's AMM
+   * @param price - Recorded price (quote per base)
+   */
+  async processPrice(
+    moderatorId: number,
+    proposalId: number,
+    market: number,
+    amm: IAMM,
+    price: Decimal
+  ): Promise<void> {
+    try {
+      await this.reconcileOrders(moderatorId, proposalId, market, amm);
+    } catch (error) {
+      this.logger.warn('Failed to reconcile executing orders', {
+        moderatorId,
+        proposalId,
+        market,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM qm_orders
+       WHERE moderator_id = $1 AND proposal_id = $2 AND market = $3
+         AND status = 'open' AND expires_at > NOW()
+       ORDER BY id`,
+      [moderatorId, proposalId, market]
+    );
+
+    const triggered = result.rows
+      .map(row => this.rowToOrder(row))
+      .filter(order => isOrderTriggered(order, price));
+
+    for (const order of triggered) {
+      // Claim the order so a cancellation or another instance can't race the send
+      const claimed = await this.pool.query(
+        `UPDATE qm_orders SET status = 'executing'
+         WHERE id = $1 AND status = 'open'
+         RETURNING signed_transaction`,
+        [order.id]
+      );
+      if (claimed.rows.length === 0) {
+        continue;
+      }
+
+      this.logger.info('Order triggered', {
+        id: order.id,
+        proposalId,
+        market,
+        orderType: order.orderType,
+        triggerPrice: order.triggerPrice.toString(),
+        price: price.toString()
+      });
+
+      await this.executeOrder(order, claimed.rows[0].signed_transaction, amm);
+    }
+  }
+
+  /**
+   * Send a claimed order's swap and record the outcome
+   * @param order - Order in the executing state
+   * @param signedTransaction - Base64 transaction for durable-nonce orders
+   * @param amm - The order's market
+   */
+  private async executeOrder(order: IOrder, signedTransaction: string | null, amm: IAMM): Promise<void> {
+    let tx: Transaction | VersionedTransaction;
+    try {
+      if (order.executionMode === OrderExecutionMode.DurableNonce) {
+        tx = VersionedTransaction.deserialize(Buffer.from(signedTransaction!, 'base64'));
+      } else {
+        const amountIn = new BN(order.amountIn);
+        const owner = new PublicKey(order.wallet);
+        const problem = await this.checkDelegation(owner, order.isBaseToQuote ? amm.baseMint : amm.quoteMint, amountIn);
+        if (problem) {
+          await this.failOrder(order, problem);
+          return;
+        }
+
+        const keeper = this.getKeeper()!;
+        const delegatedTx = await amm.buildDelegatedSwapTx(
+          owner,
+          keeper.publicKey,
+          order.isBaseToQuote,
+          amountIn,
+          new BN(order.minAmountOut)
+        );
+        delegatedTx.partialSign(keeper);
+        tx = delegatedTx;
+      }
+    } catch (error) {
+      await this.retryOrder(order, error instanceof Error ? error.message : String(error), true);
+      return;
+    }
+
+    // Recorded before sending so a crash mid-send can be reconciled against the chain
+    const firstSignature = tx instanceof VersionedTransaction ? tx.signatures[0] : tx.signature;
+    await this.pool.query(
+      `UPDATE qm_orders SET tx_signature = $2 WHERE id = $1`,
+      [order.id, firstSignature ? bs58.encode(firstSignature) : null]
+    );
+
+    let signature: string;
+    try {
+      signature = await amm.executeSwapTx(tx);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // A durable-nonce transaction can only land once - if the nonce moved it is spent
+      let retryable = true;
+      const durableNonce = getDurableNonce(tx);
+      if (durableNonce) {
+        const nonce = await this.connection.getNonce(durableNonce.nonceAccount).catch(() => null);
+        retryable = nonce?.nonce === durableNonce.nonce;
+      }
+      await this.retryOrder(order, message, retryable);
+      return;
+    }
+
+    await this.fillOrder(order, amm, signature);
+  }
+
+  private async fillOrder(order: IOrder, amm: IAMM, signature: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE qm_orders SET status = 'filled', tx_signature = $2, error = NULL, filled_at = NOW()
+       WHERE id = $1`,
+      [order.id, signature]
+    );
+    this.logger.info('Order filled', { id: order.id, signature });
+
+    await this.recordFill(order, amm, signature);
+  }
+
+  /**
+   * Record a filled order in the trade history, using the amounts read from the chain
+   * @param order - Filled order
+   * @param amm - The order's market
+   * @param signature - Swap transaction signature
+   */
+  private async recordFill(order: IOrder, amm: IAMM, signature: string): Promise<void> {
+    try {
+      const swapResult = await amm.fetchSwapResult(signature);
+
+      const inputDecimals = swapResult.isBaseToQuote ? amm.baseDecimals : amm.quoteDecimals;
+      const outputDecimals = swapResult.isBaseToQuote ? amm.quoteDecimals : amm.baseDecimals;
+      const amountInDecimal = new Decimal(swapResult.amountIn.toString()).div(Math.pow(10, inputDecimals));
+      const amountOutDecimal = new Decimal(swapResult.amountOut.toString()).div(Math.pow(10, outputDecimals));
+
+      let price: Decimal;
+      try {
+        price = await amm.fetchPrice();
+      } catch {
+        price = swapResult.isBaseToQuote
+          ? amountOutDecimal.div(amountInDecimal)
+          : amountInDecimal.div(amountOutDecimal);
+      }
+
+      // Delegate swaps are paid for by the keeper, so the trade is attributed to the order owner
+      await HistoryService.recordTrade({
+        moderatorId: order.moderatorId,
+        proposalId: order.proposalId,
+        market: order.market,
+        userAddress: order.wallet,
+        isBaseToQuote: swapResult.isBaseToQuote,
+        amountIn: amountInDecimal,
+        amountOut: amountOutDecimal,
+        price,
+        txSignature: signature,
+      });
+    } catch (error) {
+      this.logger.error('Failed to record order fill, trade not recorded', {
+        id: order.id,
+        signature,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Return an order whose send failed to the book, or fail it once out of attempts
+   * @param order - Order in the executing state
+   * @param error - Why the send failed
+   * @param retryable - False if the swap can never be sent again
+   */
+  private async retryOrder(order: IOrder, error: string, retryable: boolean): Promise<void> {
+    if (!retryable || order.attempts + 1 >= MAX_ORDER_ATTEMPTS) {
+      await this.failOrder(order, error);
+      return;
+    }
+
+    await this.pool.query(
+      `UPDATE qm_orders SET status = 'open', attempts = attempts + 1, error = $2
+       WHERE id = $1`,
+      [order.id, error]
+    );
+    this.logger.warn('Order send failed, will retry', {
+      id: order.id,
+      attempt: order.attempts + 1,
+      error
+    });
+  }
+
+  private async failOrder(order: IOrder, error: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE qm_orders SET status = 'failed', attempts = attempts + 1, error = $2
+       WHERE id = $1`,
+      [order.id, error]
+    );
+    this.logger.error('Order failed', { id: order.id, error });
+  }
+
+  private rowToOrder(row: any): IOrder {
+    return {
+      id: row.id,
+      moderatorId: row.moderator_id,
+      proposalId: row.proposal_id,
+      market: row.market,
+      wallet: row.wallet,
+      orderType: row.order_type,
+      executionMode: row.execution_mode,
+      isBaseToQuote: row.is_base_to_quote,
+      amountIn: row.amount_in,
+      minAmountOut: row.min_amount_out,
+      triggerPrice: new Decimal(row.trigger_price),
+      status: row.status,
+      attempts: row.attempts,
+      txSignature: row.tx_signature,
+      error: row.error,
+      expiresAt: new Date(row.expires_at).getTime(),
+      filledAt: row.filled_at ? new Date(row.filled_at).getTime() : null,
+      createdAt: new Date(row.created_at).getTime(),
+      updatedAt: new Date(row.updated_at).getTime(),
+    };
+  }
+}
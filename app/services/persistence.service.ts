@@ -20,15 +20,19 @@
 import { getPool } from '../utils/database';
 import { IPersistenceService, IProposalDB, IModeratorStateDB } from '../types/persistence.interface';
 import { IProposal, IProposalSerializedData } from '../types/proposal.interface';
-import { IModeratorConfig } from '../types/moderator.interface';
+import { IModeratorConfig, ProposalStatus } from '../types/moderator.interface';
 import { Proposal } from '../proposal';
 import { PublicKey } from '@solana/web3.js';
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { ExecutionService } from './execution.service';
 import { LoggerService } from './logger.service';
 import { Commitment } from '@app/types/execution.interface';
+import { ITWAPConfig, ITWAPOracleSerializedData } from '../types/twap-oracle.interface';
 import { decryptKeypair, encryptKeypair } from '../utils/crypto';
 import { loadPoolAuthorities } from './router.service';
+import { resolveTWAPOutcome } from '../twap-oracle';
+import { IProposalEvent, IProposalTransition, ProposalLifecycleState } from '../types/proposal-lifecycle.interface';
+import { inferLifecycleState } from '../utils/proposal-lifecycle';
 
 /**
  * Service for persisting and loading state from PostgreSQL database
@@ -91,13 +95,16 @@ export class PersistenceService implements IPersistenceService {
           amm_config, twap_config,
           amm_data,
           twap_oracle_data,
-          spot_pool_address, total_supply
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+          spot_pool_address, total_supply,
+          cancellation_reason, cancelled_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)
         ON CONFLICT (moderator_id, proposal_id) DO UPDATE SET
           status = EXCLUDED.status,
           amm_data = EXCLUDED.amm_data,
           twap_oracle_data = EXCLUDED.twap_oracle_data,
           twap_config = EXCLUDED.twap_config,
+          cancellation_reason = EXCLUDED.cancellation_reason,
+          cancelled_at = EXCLUDED.cancelled_at,
           updated_at = NOW()
       `;
 
@@ -121,7 +128,9 @@ export class PersistenceService implements IPersistenceService {
         JSON.stringify(serializedData.AMMData),
         JSON.stringify(serializedData.twapOracleData),
         serializedData.spotPoolAddress || null,
-        serializedData.totalSupply
+        serializedData.totalSupply,
+        serializedData.cancellation?.reason ?? null,
+        serializedData.cancellation ? new Date(serializedData.cancellation.cancelledAt) : null
       ]);
     } catch (error) {
       this.logger.error('Failed to save proposal', {
@@ -133,6 +142,31 @@ export class PersistenceService implements IPersistenceService {
     }
   }
 
+  /**
+   * Save only a proposal's TWAP oracle data
+   * Unlike saveProposal this never writes status, so a concurrent cancel or
+   * finalize isn't overwritten by a stale copy
+   * @param proposalId - The proposal ID
+   * @param twapOracleData - Serialized TWAP oracle state
+   */
+  async saveTWAPOracleData(proposalId: number, twapOracleData: ITWAPOracleSerializedData): Promise<void> {
+    try {
+      await this.pool.query(
+        `UPDATE qm_proposals
+         SET twap_oracle_data = $1, updated_at = NOW()
+         WHERE moderator_id = $2 AND proposal_id = $3`,
+        [JSON.stringify(twapOracleData), this.moderatorId, proposalId]
+      );
+    } catch (error) {
+      this.logger.error('Failed to save TWAP oracle data', {
+        proposalId,
+        moderatorId: this.moderatorId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
   /**
    * Load a proposal from the database by proposal_id
    * @param proposalId - The proposal ID
@@ -265,13 +299,14 @@ export class PersistenceService implements IPersistenceService {
     passThresholdBps: number;
     spotPoolAddress?: string;
     totalSupply?: number;
+    cancellationReason?: string;
   }>> {
     try {
       // Query proposals with latest TWAP data for finalized proposals
       const result = await this.pool.query<IProposalDB & { twaps?: string[] }>(
         `SELECT p.id, p.proposal_id, p.title, p.description, p.status, p.created_at, p.finalized_at,
                 p.base_decimals, p.quote_decimals, p.markets, p.market_labels, p.twap_config,
-                p.spot_pool_address, p.total_supply,
+                p.spot_pool_address, p.total_supply, p.cancellation_reason,
                 (SELECT twaps FROM qm_twap_history t
                  WHERE t.moderator_id = p.moderator_id AND t.proposal_id = p.proposal_id
                  ORDER BY t.timestamp DESC LIMIT 1) as twaps
@@ -282,11 +317,12 @@ export class PersistenceService implements IPersistenceService {
       );
 
       return result.rows.map(row => {
-        // Parse TWAP config to get passThresholdBps
+        // Parse TWAP config to get passThresholdBps and resolution mode
         let passThresholdBps = 5000; // default
+        let twapConfig: ITWAPConfig | undefined;
         if (row.twap_config) {
-          const twapConfig = typeof row.twap_config === 'string'
-            ? JSON.parse(row.twap_config)
+          twapConfig = typeof row.twap_config === 'string'
+            ? JSON.parse(row.twap_config) as ITWAPConfig
             : row.twap_config;
           passThresholdBps = twapConfig.passThresholdBps ?? 5000;
         }
@@ -295,10 +331,9 @@ export class PersistenceService implements IPersistenceService {
         let winningMarketIndex: number | undefined;
         let winningMarketLabel: string | undefined;
         if (row.status === 'Finalized' && row.twaps && row.twaps.length > 0) {
-          // Find the market with the highest TWAP
-          const twapValues = row.twaps.map(t => parseFloat(t));
-          const maxTwap = Math.max(...twapValues);
-          winningMarketIndex = twapValues.indexOf(maxTwap);
+          // Resolve with the same rules the oracle used at finalization
+          const resolution = resolveTWAPOutcome(row.twaps, passThresholdBps, twapConfig?.resolutionMode);
+          winningMarketIndex = resolution.winningIndex;
           winningMarketLabel = row.market_labels?.[winningMarketIndex];
         }
 
@@ -318,6 +353,7 @@ export class PersistenceService implements IPersistenceService {
           passThresholdBps,
           spotPoolAddress: row.spot_pool_address,
           totalSupply: row.total_supply,
+          cancellationReason: row.cancellation_reason ?? undefined,
         };
       });
     } catch (error) {
@@ -351,6 +387,7 @@ export class PersistenceService implements IPersistenceService {
         defaultAuthority: encryptKeypair(config.defaultAuthority, encryptionKey),
         rpcUrl: config.rpcEndpoint,
         dammWithdrawalPercentage: config.dammWithdrawalPercentage,
+        maxConcurrentProposals: config.maxConcurrentProposals,
       };
 
       const query = `
@@ -412,6 +449,7 @@ export class PersistenceService implements IPersistenceService {
         defaultAuthority: decryptKeypair(authorityData, encryptionKey),
         rpcEndpoint: row.config.rpcUrl,
         dammWithdrawalPercentage: row.config.dammWithdrawalPercentage,
+        maxConcurrentProposals: row.config.maxConcurrentProposals,
         poolAuthorities,
       };
 
@@ -507,6 +545,10 @@ export class PersistenceService implements IPersistenceService {
         twapOracleData: typeof row.twap_oracle_data === 'string'
           ? JSON.parse(row.twap_oracle_data)
           : row.twap_oracle_data,
+
+        cancellation: row.cancelled_at
+          ? { reason: row.cancellation_reason || '', cancelledAt: new Date(row.cancelled_at).getTime() }
+          : undefined,
       };
 
       // Use the Proposal.deserialize method
@@ -556,8 +598,9 @@ export class PersistenceService implements IPersistenceService {
           moderator_id, proposal_id,
           withdrawal_request_id, withdrawal_signature,
           withdrawal_percentage, withdrawn_token_a, withdrawn_token_b,
-          spot_price, needs_deposit_back, pool_address
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          spot_price, needs_deposit_back, pool_address,
+          returned_token_a, returned_token_b
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, '0', '0')
         ON CONFLICT (moderator_id, proposal_id) DO UPDATE SET
           withdrawal_request_id = EXCLUDED.withdrawal_request_id,
           withdrawal_signature = EXCLUDED.withdrawal_signature,
@@ -621,6 +664,8 @@ export class PersistenceService implements IPersistenceService {
     depositSignature: string | null;
     depositedAt: Date | null;
     poolAddress: string;
+    returnedTokenA: string | null;  // Raw units; null for withdrawals recorded before returns were tracked
+    returnedTokenB: string | null;
   } | null> {
     try {
       const result = await this.pool.query(
@@ -628,7 +673,7 @@ export class PersistenceService implements IPersistenceService {
           withdrawal_request_id, withdrawal_signature,
           withdrawal_percentage, withdrawn_token_a, withdrawn_token_b,
           spot_price, needs_deposit_back, deposit_signature, deposited_at,
-          pool_address
+          pool_address, returned_token_a, returned_token_b
          FROM qm_proposal_withdrawals
          WHERE moderator_id = $1 AND proposal_id = $2`,
         [this.moderatorId, proposalId]
@@ -649,7 +694,9 @@ export class PersistenceService implements IPersistenceService {
         needsDepositBack: row.needs_deposit_back,
         depositSignature: row.deposit_signature,
         depositedAt: row.deposited_at ? new Date(row.deposited_at) : null,
-        poolAddress: row.pool_address
+        poolAddress: row.pool_address,
+        returnedTokenA: row.returned_token_a,
+        returnedTokenB: row.returned_token_b
       };
     } catch (error) {
       this.logger.error('Failed to get withdrawal metadata', {
@@ -661,6 +708,108 @@ export class PersistenceService implements IPersistenceService {
     }
   }
 
+  /**
+   * Add tokens a proposal redeemed or merged back to the authority wallet
+   * Deposit-back transfers only these amounts, so concurrent proposals on the
+   * same authority don't take each other's tokens
+   * @param proposalId - The proposal ID
+   * @param tokenA - Base token amount returned (raw units)
+   * @param tokenB - Quote token amount returned (raw units)
+   */
+  async addWithdrawalReturn(proposalId: number, tokenA: string, tokenB: string): Promise<void> {
+    try {
+      await this.pool.query(
+        `UPDATE qm_proposal_withdrawals
+         SET returned_token_a = (COALESCE(returned_token_a, '0')::NUMERIC + $1::NUMERIC)::TEXT,
+             returned_token_b = (COALESCE(returned_token_b, '0')::NUMERIC + $2::NUMERIC)::TEXT,
+             updated_at = NOW()
+         WHERE moderator_id = $3 AND proposal_id = $4`,
+        [tokenA, tokenB, this.moderatorId, proposalId]
+      );
+    } catch (error) {
+      this.logger.error('Failed to record returned withdrawal tokens', {
+        moderatorId: this.moderatorId,
+        proposalId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Set the tokens a proposal still owes to deposit-back (after some were transferred)
+   * @param proposalId - The proposal ID
+   * @param tokenA - Base token amount still owed (raw units)
+   * @param tokenB - Quote token amount still owed (raw units)
+   */
+  async setWithdrawalReturn(proposalId: number, tokenA: string, tokenB: string): Promise<void> {
+    try {
+      await this.pool.query(
+        `UPDATE qm_proposal_withdrawals
+         SET returned_token_a = $1, returned_token_b = $2, updated_at = NOW()
+         WHERE moderator_id = $3 AND proposal_id = $4`,
+        [tokenA, tokenB, this.moderatorId, proposalId]
+      );
+    } catch (error) {
+      this.logger.error('Failed to update returned withdrawal tokens', {
+        moderatorId: this.moderatorId,
+        proposalId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get how much of a pool's liquidity this moderator's proposals are using
+   * Outstanding withdrawals include finalized proposals whose deposit-back hasn't completed
+   * @param poolAddress - Pool address (DAMM or DLMM)
+   * @returns Pending proposal count and sum of outstanding withdrawal percentages
+   */
+  async getPoolWithdrawalUsage(poolAddress: string): Promise<{
+    activeProposals: number;
+    outstandingPercentage: number;
+  }> {
+    try {
+      const result = await this.pool.query(
+        `SELECT
+          (SELECT COUNT(*) FROM qm_proposals
+           WHERE moderator_id = $1 AND spot_pool_address = $2 AND status = $3) as active_proposals,
+          (SELECT COALESCE(SUM(withdrawal_percentage), 0) FROM qm_proposal_withdrawals
+           WHERE moderator_id = $1 AND pool_address = $2 AND needs_deposit_back = true) as outstanding_percentage`,
+        [this.moderatorId, poolAddress, ProposalStatus.Pending]
+      );
+
+      const row = result.rows[0];
+      return {
+        activeProposals: parseInt(row.active_proposals, 10),
+        outstandingPercentage: parseInt(row.outstanding_percentage, 10),
+      };
+    } catch (error) {
+      this.logger.error('Failed to get pool withdrawal usage', {
+        moderatorId: this.moderatorId,
+        poolAddress,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Run an operation while holding a pool's withdrawal lock
+   * The lock is a transaction-level advisory lock, so proposal creation in another
+   * process waits until this one has read the pool's usage and stored its withdrawal
+   * @param poolAddress - Pool address (DAMM or DLMM)
+   * @param operation - Operation to run under the lock
+   * @returns The operation's result
+   */
+  async withPoolWithdrawalLock<T>(poolAddress: string, operation: () => Promise<T>): Promise<T> {
+    return this.withTransaction(async client => {
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext('qm_pool_withdrawal:' || $1))`, [poolAddress]);
+      return operation();
+    });
+  }
+
   /**
    * Mark withdrawal as deposited back
    * @param proposalId - The proposal ID
@@ -703,4 +852,136 @@ export class PersistenceService implements IPersistenceService {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get a proposal's current lifecycle state (the target of its latest event)
+   * @param proposalId - The proposal ID
+   * @returns Latest lifecycle state, or null if no events were recorded
+   */
+  async getLifecycleState(proposalId: number): Promise<ProposalLifecycleState | null> {
+    try {
+      const result = await this.pool.query<{ to_state: ProposalLifecycleState }>(
+        `SELECT to_state FROM qm_proposal_events
+         WHERE moderator_id = $1 AND proposal_id = $2
+         ORDER BY id DESC
+         LIMIT 1`,
+        [this.moderatorId, proposalId]
+      );
+
+      return result.rows.length > 0 ? result.rows[0].to_state : null;
+    } catch (error) {
+      this.logger.error('Failed to get lifecycle state', {
+        moderatorId: this.moderatorId,
+        proposalId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a lifecycle transition decided from the proposal's current state
+   * The proposal row is locked (SELECT ... FOR UPDATE) while the state is read and the
+   * event inserted, so concurrent transitions of one proposal are applied one at a time.
+   * Proposals without recorded events start from the state their status implies.
+   * @param proposalId - The proposal ID
+   * @param decide - Returns the transition to record from the current state, or null to
+   *                 record nothing; throwing aborts without recording
+   * @returns The states moved between, or null if nothing was recorded
+   */
+  async recordLifecycleTransition(
+    proposalId: number,
+    decide: (current: ProposalLifecycleState) => IProposalTransition | null
+  ): Promise<{ fromState: ProposalLifecycleState; toState: ProposalLifecycleState } | null> {
+    return this.withTransaction(async client => {
+      const proposal = await client.query<{ status: ProposalStatus }>(
+        `SELECT status FROM qm_proposals
+         WHERE moderator_id = $1 AND proposal_id = $2
+         FOR UPDATE`,
+        [this.moderatorId, proposalId]
+      );
+      const recorded = await client.query<{ to_state: ProposalLifecycleState }>(
+        `SELECT to_state FROM qm_proposal_events
+         WHERE moderator_id = $1 AND proposal_id = $2
+         ORDER BY id DESC
+         LIMIT 1`,
+        [this.moderatorId, proposalId]
+      );
+
+      const current = recorded.rows[0]?.to_state ?? (
+        proposal.rows.length > 0
+          ? inferLifecycleState(proposal.rows[0].status)
+          : ProposalLifecycleState.Uninitialized
+      );
+      const transition = decide(current);
+      if (!transition) {
+        return null;
+      }
+
+      await client.query(
+        `INSERT INTO qm_proposal_events (
+          moderator_id, proposal_id, from_state, to_state, error, details
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          this.moderatorId,
+          proposalId,
+          current,
+          transition.toState,
+          transition.error ?? null,
+          transition.details ? JSON.stringify(transition.details) : null
+        ]
+      );
+      return { fromState: current, toState: transition.toState };
+    });
+  }
+
+  /**
+   * Get a proposal's lifecycle history, oldest first
+   * @param proposalId - The proposal ID
+   * @returns Recorded lifecycle events
+   */
+  async getProposalEvents(proposalId: number): Promise<IProposalEvent[]> {
+    try {
+      const result = await this.pool.query(
+        `SELECT id, moderator_id, proposal_id, from_state, to_state, error, details, created_at
+         FROM qm_proposal_events
+         WHERE moderator_id = $1 AND proposal_id = $2
+         ORDER BY id ASC`,
+        [this.moderatorId, proposalId]
+      );
+
+      return result.rows.map(row => ({
+        id: row.id,
+        moderatorId: row.moderator_id,
+        proposalId: row.proposal_id,
+        fromState: row.from_state,
+        toState: row.to_state,
+        error: row.error,
+        details: row.details,
+        createdAt: new Date(row.created_at).getTime()
+      }));
+    } catch (error) {
+      this.logger.error('Failed to get proposal events', {
+        moderatorId: this.moderatorId,
+        proposalId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  private async withTransaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,413 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { getPool } from '../utils/database';
+import { LoggerService } from './logger.service';
+import { PoolMetadata } from '../../src/config/pools';
+import { IPoolAuditEntry, IPoolAuditFilter, PoolAuditAction } from '../types/pool-registry.interface';
+
+/** How often other instances' changes are picked up */
+const DEFAULT_REFRESH_INTERVAL_MS = 60_000;
+
+/**
+ * In-memory view of the pool registry (qm_pools and qm_pool_whitelist)
+ * Reads are synchronous against the last loaded snapshot; writes go to the database,
+ * are recorded in qm_pool_audit_log and refresh the snapshot immediately.
+ * Other instances pick changes up on their next periodic refresh.
+ */
+export class PoolRegistryService {
+  private static instance: PoolRegistryService | null = null;
+  private pool: Pool;
+  private logger: LoggerService;
+  private metadata: Record<string, PoolMetadata> = {};
+  private whitelist: Record<string, string[]> = {};
+  private listeners: Array<() => void> = [];
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    this.pool = getPool();
+    this.logger = new LoggerService('pool-registry');
+  }
+
+  public static getInstance(): PoolRegistryService {
+    if (!PoolRegistryService.instance) {
+      PoolRegistryService.instance = new PoolRegistryService();
+    }
+    return PoolRegistryService.instance;
+  }
+
+  /**
+   * Reload pools and whitelists from the database and notify listeners
+   */
+  async refresh(): Promise<void> {
+    const [poolsResult, walletsResult] = await Promise.all([
+      this.pool.query('SELECT * FROM qm_pools ORDER BY moderator_id, ticker'),
+      this.pool.query('SELECT pool_address, wallet FROM qm_pool_whitelist ORDER BY created_at, wallet'),
+    ]);
+
+    const metadata: Record<string, PoolMetadata> = {};
+    for (const row of poolsResult.rows) {
+      metadata[row.pool_address] = this.rowToMetadata(row);
+    }
+
+    const whitelist: Record<string, string[]> = {};
+    for (const row of walletsResult.rows) {
+      (whitelist[row.pool_address] ??= []).push(row.wallet);
+    }
+
+    this.metadata = metadata;
+    this.whitelist = whitelist;
+    this.logger.debug('Pool registry refreshed', {
+      pools: poolsResult.rows.length,
+      whitelistedWallets: walletsResult.rows.length
+    });
+
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        this.logger.error('Pool registry listener failed', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  /**
+   * Periodically refresh so changes made through other instances are picked up
+   * @param intervalMs - Refresh interval
+   */
+  start(intervalMs: number = DEFAULT_REFRESH_INTERVAL_MS): void {
+    if (this.refreshTimer) {
+      return;
+    }
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(error => {
+        this.logger.error('Failed to refresh pool registry', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }, intervalMs);
+    this.refreshTimer.unref();
+  }
+
+  /**
+   * Stop periodic refreshes
+   */
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Register a callback to run after every refresh
+   * @param listener - Callback
+   */
+  onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Get metadata for a pool
+   * @param poolAddress - Pool address
+   * @returns Pool metadata, or undefined if the pool isn't registered
+   */
+  getPoolMetadata(poolAddress: string): PoolMetadata | undefined {
+    return this.metadata[poolAddress];
+  }
+
+  /**
+   * Get metadata for every registered pool
+   */
+  getAllPools(): PoolMetadata[] {
+    return Object.values(this.metadata);
+  }
+
+  /**
+   * Map of upper-case ticker to pool address (used for MANAGER_PRIVATE_KEY_<TICKER> lookups)
+   */
+  getTickerToPool(): Record<string, string> {
+    return Object.fromEntries(
+      Object.values(this.metadata).map(meta => [meta.ticker.toUpperCase(), meta.poolAddress])
+    );
+  }
+
+  /**
+   * Map of pool address to upper-case ticker
+   */
+  getPoolToTicker(): Record<string, string> {
+    return Object.fromEntries(
+      Object.values(this.metadata).map(meta => [meta.poolAddress, meta.ticker.toUpperCase()])
+    );
+  }
+
+  /**
+   * Map of pool address to whitelisted wallets
+   */
+  getWhitelist(): Record<string, string[]> {
+    return this.whitelist;
+  }
+
+  /**
+   * Get the wallets whitelisted for a pool
+   * @param poolAddress - Pool address
+   */
+  getWhitelistedWallets(poolAddress: string): string[] {
+    return this.whitelist[poolAddress] ?? [];
+  }
+
+  /**
+   * Create or replace a pool's metadata
+   * @param metadata - Full pool metadata
+   * @param actor - Who made the change
+   * @returns The stored metadata
+   */
+  async upsertPool(metadata: PoolMetadata, actor: string): Promise<PoolMetadata> {
+    const stored = await this.withTransaction(async client => {
+      const existing = await client.query(
+        'SELECT * FROM qm_pools WHERE pool_address = $1 FOR UPDATE',
+        [metadata.poolAddress]
+      );
+      const before = existing.rows.length > 0 ? this.rowToMetadata(existing.rows[0]) : null;
+
+      const result = await client.query(
+        `INSERT INTO qm_pools (
+          pool_address, ticker, base_mint, quote_mint, base_decimals, quote_decimals,
+          moderator_id, pool_type, withdrawal_percentage, icon, min_token_balance
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        ON CONFLICT (pool_address) DO UPDATE SET
+          ticker = EXCLUDED.ticker,
+          base_mint = EXCLUDED.base_mint,
+          quote_mint = EXCLUDED.quote_mint,
+          base_decimals = EXCLUDED.base_decimals,
+          quote_decimals = EXCLUDED.quote_decimals,
+          moderator_id = EXCLUDED.moderator_id,
+          pool_type = EXCLUDED.pool_type,
+          withdrawal_percentage = EXCLUDED.withdrawal_percentage,
+          icon = EXCLUDED.icon,
+          min_token_balance = EXCLUDED.min_token_balance,
+          updated_at = NOW()
+        RETURNING *`,
+        [
+          metadata.poolAddress,
+          metadata.ticker,
+          metadata.baseMint,
+          metadata.quoteMint,
+          metadata.baseDecimals,
+          metadata.quoteDecimals,
+          metadata.moderatorId,
+          metadata.poolType,
+          metadata.withdrawalPercentage,
+          metadata.icon ?? null,
+          metadata.minTokenBalance ?? null
+        ]
+      );
+      const after = this.rowToMetadata(result.rows[0]);
+
+      await this.recordAudit(client, {
+        action: before ? PoolAuditAction.PoolUpdated : PoolAuditAction.PoolCreated,
+        poolAddress: metadata.poolAddress,
+        actor,
+        before,
+        after
+      });
+      return after;
+    });
+
+    await this.refresh();
+    return stored;
+  }
+
+  /**
+   * Delete a pool and its whitelist
+   * @param poolAddress - Pool address
+   * @param actor - Who made the change
+   * @returns True if the pool existed
+   */
+  async deletePool(poolAddress: string, actor: string): Promise<boolean> {
+    const deleted = await this.withTransaction(async client => {
+      const result = await client.query(
+        'DELETE FROM qm_pools WHERE pool_address = $1 RETURNING *',
+        [poolAddress]
+      );
+      if (result.rows.length === 0) {
+        return false;
+      }
+
+      await this.recordAudit(client, {
+        action: PoolAuditAction.PoolDeleted,
+        poolAddress,
+        actor,
+        before: this.rowToMetadata(result.rows[0])
+      });
+      return true;
+    });
+
+    if (deleted) {
+      await this.refresh();
+    }
+    return deleted;
+  }
+
+  /**
+   * Whitelist a wallet for a pool
+   * @param poolAddress - Pool address (must be registered)
+   * @param wallet - Wallet address
+   * @param actor - Who made the change
+   * @returns True if the wallet was added, false if it was already whitelisted
+   */
+  async addWhitelistedWallet(poolAddress: string, wallet: string, actor: string): Promise<boolean> {
+    const added = await this.withTransaction(async client => {
+      const result = await client.query(
+        `INSERT INTO qm_pool_whitelist (pool_address, wallet)
+         VALUES ($1, $2)
+         ON CONFLICT (pool_address, wallet) DO NOTHING`,
+        [poolAddress, wallet]
+      );
+      if ((result.rowCount ?? 0) === 0) {
+        return false;
+      }
+
+      await this.recordAudit(client, { action: PoolAuditAction.WalletAdded, poolAddress, wallet, actor });
+      return true;
+    });
+
+    if (added) {
+      await this.refresh();
+    }
+    return added;
+  }
+
+  /**
+   * Remove a wallet from a pool's whitelist
+   * @param poolAddress - Pool address
+   * @param wallet - Wallet address
+   * @param actor - Who made the change
+   * @returns True if the wallet was whitelisted
+   */
+  async removeWhitelistedWallet(poolAddress: string, wallet: string, actor: string): Promise<boolean> {
+    const removed = await this.withTransaction(async client => {
+      const result = await client.query(
+        'DELETE FROM qm_pool_whitelist WHERE pool_address = $1 AND wallet = $2',
+        [poolAddress, wallet]
+      );
+      if ((result.rowCount ?? 0) === 0) {
+        return false;
+      }
+
+      await this.recordAudit(client, { action: PoolAuditAction.WalletRemoved, poolAddress, wallet, actor });
+      return true;
+    });
+
+    if (removed) {
+      await this.refresh();
+    }
+    return removed;
+  }
+
+  /**
+   * Read the audit log, newest first
+   * @param filter - Optional pool filter and limit (default 100)
+   */
+  async getAuditLog(filter: IPoolAuditFilter = {}): Promise<IPoolAuditEntry[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM qm_pool_audit_log
+       WHERE ($1::varchar IS NULL OR pool_address = $1)
+       ORDER BY id DESC
+       LIMIT $2`,
+      [filter.poolAddress ?? null, filter.limit ?? 100]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      action: row.action,
+      poolAddress: row.pool_address,
+      wallet: row.wallet,
+      actor: row.actor,
+      before: row.before,
+      after: row.after,
+      createdAt: new Date(row.created_at).getTime(),
+    }));
+  }
+
+  private async recordAudit(
+    client: PoolClient,
+    entry: {
+      action: PoolAuditAction;
+      poolAddress: string;
+      actor: string;
+      wallet?: string;
+      before?: PoolMetadata | null;
+      after?: PoolMetadata | null;
+    }
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO qm_pool_audit_log (action, pool_address, wallet, actor, before, after)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        entry.action,
+        entry.poolAddress,
+        entry.wallet ?? null,
+        entry.actor,
+        entry.before ? JSON.stringify(entry.before) : null,
+        entry.after ? JSON.stringify(entry.after) : null
+      ]
+    );
+    this.logger.info('Pool registry changed', {
+      action: entry.action,
+      poolAddress: entry.poolAddress,
+      wallet: entry.wallet,
+      actor: entry.actor
+    });
+  }
+
+  private async withTransaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private rowToMetadata(row: any): PoolMetadata {
+    return {
+      poolAddress: row.pool_address,
+      ticker: row.ticker,
+      baseMint: row.base_mint,
+      quoteMint: row.quote_mint,
+      baseDecimals: row.base_decimals,
+      quoteDecimals: row.quote_decimals,
+      moderatorId: row.moderator_id,
+      poolType: row.pool_type,
+      withdrawalPercentage: row.withdrawal_percentage,
+      ...(row.icon !== null && { icon: row.icon }),
+      ...(row.min_token_balance !== null && { minTokenBalance: Number(row.min_token_balance) }),
+    };
+  }
+}
@@ -0,0 +1,294 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { LoggerService } from './logger.service';
+import { RpcPool } from './rpc-pool.service';
+import { PoolRegistryService } from './pool-registry.service';
+import { IPriorityFeeEstimate, IPriorityFeePercentiles } from '../types/priority-fee.interface';
+
+/** How often tracked accounts are sampled */
+const DEFAULT_SAMPLE_INTERVAL_MS = 10_000;
+/** Fees older than this many slots (~2 minutes) are dropped */
+const SAMPLE_WINDOW_SLOTS = 300;
+/** Accounts sampled per round, most used first */
+const MAX_SAMPLED_ACCOUNTS = 20;
+/** Accounts not used for this long stop being tracked (spot pools are always tracked) */
+const ACCOUNT_IDLE_MS = 60 * 60 * 1000;
+/** Used when no non-zero fees have been seen (same as PriorityFeeMode.Medium) */
+const FALLBACK_FEE = 5000;
+
+// Auto-tuning: the recommended percentile moves in steps between these bounds
+const DEFAULT_PERCENTILE = 75;
+const MIN_PERCENTILE = 50;
+const MAX_PERCENTILE = 95;
+const PERCENTILE_STEP = 5;
+/** Outcomes kept for the landing rate */
+const OUTCOME_WINDOW = 50;
+/** Outcomes needed before the percentile is raised */
+const MIN_OUTCOMES = 10;
+/** Below this landing rate the percentile is raised */
+const TARGET_LANDING_RATE = 0.9;
+/** At or above this landing rate over a full window the percentile is lowered */
+const RELAX_LANDING_RATE = 0.98;
+
+interface ITrackedAccount {
+  uses: number;
+  lastUsedAt: number;
+  samples: Map<number, number>;                 // Slot -> prioritization fee
+}
+
+/**
+ * Returns the value at a percentile of sorted values
+ */
+function percentileOf(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  return sorted[Math.min(Math.floor(sorted.length * percentile / 100), sorted.length - 1)];
+}
+
+/**
+ * Background priority fee oracle
+ * Samples getRecentPrioritizationFees for the writable accounts transactions use most
+ * (conditional pools and vaults as they are traded, spot pools from the registry), keeps
+ * a rolling window of fees per account and recommends a compute unit price at a percentile
+ * that is raised when dynamic-fee transactions stop landing and lowered when they all land.
+ */
+export class PriorityFeeService {
+  private static instance: PriorityFeeService | null = null;
+  private connection: Connection;
+  private logger: LoggerService;
+  private accounts = new Map<string, ITrackedAccount>();
+  private clusterSamples = new Map<number, number>();   // Fees without account filter
+  private percentile = DEFAULT_PERCENTILE;
+  private outcomes: boolean[] = [];
+  private sampleTimer: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    this.connection = RpcPool.getInstance().getConnection();
+    this.logger = new LoggerService('api').createChild('priority-fees');
+  }
+
+  public static getInstance(): PriorityFeeService {
+    if (!PriorityFeeService.instance) {
+      PriorityFeeService.instance = new PriorityFeeService();
+    }
+    return PriorityFeeService.instance;
+  }
+
+  /**
+   * Periodically sample the most used accounts
+   * @param intervalMs - Sample interval
+   */
+  start(intervalMs: number = DEFAULT_SAMPLE_INTERVAL_MS): void {
+    if (this.sampleTimer) {
+      return;
+    }
+    this.sampleTimer = setInterval(() => {
+      this.sample().catch(error => {
+        this.logger.error('Failed to sample priority fees', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }, intervalMs);
+    this.sampleTimer.unref();
+  }
+
+  /**
+   * Stop periodic sampling
+   */
+  stop(): void {
+    if (this.sampleTimer) {
+      clearInterval(this.sampleTimer);
+      this.sampleTimer = null;
+    }
+  }
+
+  /**
+   * Count a use of writable accounts so the most used ones are sampled
+   * @param accounts - Writable accounts of a transaction
+   */
+  trackAccounts(accounts: PublicKey[]): void {
+    const now = Date.now();
+    for (const account of new Set(accounts.map(a => a.toBase58()))) {
+      const tracked = this.accounts.get(account);
+      if (tracked) {
+        tracked.uses++;
+        tracked.lastUsedAt = now;
+      } else {
+        this.accounts.set(account, { uses: 1, lastUsedAt: now, samples: new Map() });
+      }
+    }
+  }
+
+  /**
+   * Recommend a compute unit price for a transaction writing to the given accounts
+   * The most contended account sets the price. Only tracked accounts are considered
+   * (call trackAccounts first for the server's own transactions), so estimates for
+   * arbitrary callers never grow the tracked set. Tracked accounts without samples yet
+   * are sampled on demand; with no account data the cluster-wide fees are used.
+   * @param accounts - Writable accounts (empty for a cluster-wide estimate)
+   * @returns Estimate at the current auto-tuned percentile
+   */
+  async getEstimate(accounts: PublicKey[]): Promise<IPriorityFeeEstimate> {
+    const keys = Array.from(new Set(accounts.map(a => a.toBase58())))
+      .filter(key => this.accounts.has(key));
+
+    const unsampled = keys.filter(key => this.accounts.get(key)!.samples.size === 0);
+    await Promise.all(unsampled.slice(0, MAX_SAMPLED_ACCOUNTS).map(key => this.sampleAccount(key)));
+
+    let fees: number[] = [];
+    let best = -1;
+    for (const key of keys) {
+      const accountFees = this.nonZeroFees(this.accounts.get(key)!.samples);
+      const value = percentileOf(accountFees, this.percentile);
+      if (accountFees.length > 0 && value > best) {
+        best = value;
+        fees = accountFees;
+      }
+    }
+
+    if (fees.length === 0) {
+      if (this.clusterSamples.size === 0) {
+        await this.sampleAccount(null);
+      }
+      fees = this.nonZeroFees(this.clusterSamples);
+    }
+
+    const percentiles: IPriorityFeePercentiles = {
+      p25: percentileOf(fees, 25),
+      p50: percentileOf(fees, 50),
+      p75: percentileOf(fees, 75),
+      p90: percentileOf(fees, 90),
+      p99: percentileOf(fees, 99),
+    };
+
+    return {
+      microLamports: fees.length > 0 ? percentileOf(fees, this.percentile) : FALLBACK_FEE,
+      percentile: this.percentile,
+      percentiles,
+      samples: fees.length,
+      accounts: keys,
+      landingRate: this.getLandingRate(),
+    };
+  }
+
+  /**
+   * Record whether a transaction sent with a recommended fee landed, and re-tune the percentile
+   * Transactions that landed but failed on-chain count as landed
+   * @param landed - Whether the transaction was included in a block
+   */
+  recordOutcome(landed: boolean): void {
+    this.outcomes.push(landed);
+    if (this.outcomes.length > OUTCOME_WINDOW) {
+      this.outcomes.shift();
+    }
+
+    const landingRate = this.getLandingRate()!;
+    let percentile = this.percentile;
+    if (this.outcomes.length >= MIN_OUTCOMES && landingRate < TARGET_LANDING_RATE) {
+      percentile = Math.min(this.percentile + PERCENTILE_STEP, MAX_PERCENTILE);
+    } else if (this.outcomes.length === OUTCOME_WINDOW && landingRate >= RELAX_LANDING_RATE) {
+      percentile = Math.max(this.percentile - PERCENTILE_STEP, MIN_PERCENTILE);
+    }
+
+    if (percentile !== this.percentile) {
+      this.logger.info('Priority fee percentile re-tuned', {
+        from: this.percentile,
+        to: percentile,
+        landingRate
+      });
+      this.percentile = percentile;
+      // Judge the new percentile on its own outcomes
+      this.outcomes = [];
+    }
+  }
+
+  /**
+   * Sample the cluster and the most used accounts, dropping idle accounts
+   */
+  private async sample(): Promise<void> {
+    const now = Date.now();
+    const spotPools = new Set(PoolRegistryService.getInstance().getAllPools().map(pool => pool.poolAddress));
+    for (const pool of spotPools) {
+      if (!this.accounts.has(pool)) {
+        this.accounts.set(pool, { uses: 0, lastUsedAt: now, samples: new Map() });
+      }
+    }
+    for (const [key, tracked] of this.accounts) {
+      if (!spotPools.has(key) && now - tracked.lastUsedAt > ACCOUNT_IDLE_MS) {
+        this.accounts.delete(key);
+      }
+    }
+
+    const mostUsed = Array.from(this.accounts.entries())
+      .sort(([, a], [, b]) => b.uses - a.uses)
+      .slice(0, MAX_SAMPLED_ACCOUNTS)
+      .map(([key]) => key);
+
+    await this.sampleAccount(null);
+    for (const key of mostUsed) {
+      await this.sampleAccount(key);
+    }
+  }
+
+  /**
+   * Fetch recent fees for an account (or the whole cluster) into its rolling window
+   * @param key - Account address, or null for cluster-wide fees
+   */
+  private async sampleAccount(key: string | null): Promise<void> {
+    try {
+      const recentFees = await this.connection.getRecentPrioritizationFees(
+        key ? { lockedWritableAccounts: [new PublicKey(key)] } : undefined
+      );
+      const samples = key ? this.accounts.get(key)?.samples : this.clusterSamples;
+      if (!samples || recentFees.length === 0) {
+        return;
+      }
+
+      let latestSlot = 0;
+      for (const fee of recentFees) {
+        samples.set(fee.slot, fee.prioritizationFee);
+        latestSlot = Math.max(latestSlot, fee.slot);
+      }
+      for (const slot of samples.keys()) {
+        if (slot < latestSlot - SAMPLE_WINDOW_SLOTS) {
+          samples.delete(slot);
+        }
+      }
+    } catch (error) {
+      this.logger.warn('Failed to fetch recent prioritization fees', {
+        account: key,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private nonZeroFees(samples: Map<number, number>): number[] {
+    return Array.from(samples.values()).filter(fee => fee > 0).sort((a, b) => a - b);
+  }
+
+  private getLandingRate(): number | null {
+    if (this.outcomes.length === 0) {
+      return null;
+    }
+    return this.outcomes.filter(Boolean).length / this.outcomes.length;
+  }
+}
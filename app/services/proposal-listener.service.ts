@@ -21,6 +21,7 @@ import { Connection, PublicKey, Keypair } from '@solana/web3.js';
 import { AnchorProvider, Wallet } from '@coral-xyz/anchor';
 import { futarchy } from '@zcomb/programs-sdk';
 import { LoggerService } from './logger.service';
+import { RpcPool } from './rpc-pool.service';
 import { HistoryService } from './history.service';
 import { Decimal } from 'decimal.js';
 
@@ -104,7 +105,8 @@ export class ProposalListenerService {
     };
 
     this.logger = new LoggerService('proposal-listener');
-    this.connection = new Connection(config.rpcUrl, 'confirmed');
+    RpcPool.getInstance().addEndpoint(config.rpcUrl);
+    this.connection = RpcPool.getInstance().getConnection();
 
     const wallet = new Wallet(config.serviceWallet);
     this.provider = new AnchorProvider(this.connection, wallet, { commitment: 'confirmed' });
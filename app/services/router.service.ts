@@ -27,7 +27,7 @@ import { LoggerService } from './logger.service';
 import { getPool } from '../utils/database';
 
 import bs58 from 'bs58';
-import { POOL_CONFIG } from '../../src/config/pools';
+import { PoolRegistryService } from './pool-registry.service';
 
 /**
  * Load per-pool manager keypairs from base58 private key environment variables
@@ -37,6 +37,8 @@ import { POOL_CONFIG } from '../../src/config/pools';
  * - MANAGER_PRIVATE_KEY_OOGWAY - Base58-encoded private key for oogway pool manager
  * - MANAGER_PRIVATE_KEY_SURF - Base58-encoded private key for SURF pool manager
  *
+ * Tickers come from the pool registry (qm_pools), upper-cased.
+ *
  * The manager wallet:
  * - Receives withdrawn DAMM liquidity (same as MANAGER_WALLET_* in zcombinator)
  * - Is the mint authority for conditional tokens (pass/fail)
@@ -48,7 +50,7 @@ import { POOL_CONFIG } from '../../src/config/pools';
 export function loadPoolAuthorities(logger: LoggerService): Map<string, Keypair> | undefined {
   const poolAuthorities = new Map<string, Keypair>();
 
-  for (const [ticker, poolAddress] of Object.entries(POOL_CONFIG.tickerToPool)) {
+  for (const [ticker, poolAddress] of Object.entries(PoolRegistryService.getInstance().getTickerToPool())) {
     const envVarName = `MANAGER_PRIVATE_KEY_${ticker}`;
     const privateKeyBase58 = process.env[envVarName];
 
@@ -85,6 +87,9 @@ export class RouterService implements IRouterService {
 
   private constructor() {
     this.logger = new LoggerService('router');
+
+    // Pools added or renamed through the admin API need their manager keypairs picked up
+    PoolRegistryService.getInstance().onChange(() => this.reloadPoolAuthorities());
   }
 
   /**
@@ -232,7 +237,8 @@ export class RouterService implements IRouterService {
 
   /**
    * Recovers pending proposals after server restart for all moderators
-   * Finalizes overdue proposals and reschedules tasks for active ones
+   * Scheduled tasks are persisted as jobs, so this only fills in jobs that are missing
+   * (e.g. proposals created before the job queue existed). Safe to run on every instance.
    */
   public async recoverPendingProposals(): Promise<void> {
     this.logger.info('Starting recovery of pending proposals for all moderators...');
@@ -251,6 +257,8 @@ export class RouterService implements IRouterService {
 
   /**
    * Recovers pending proposals for a specific moderator
+   * Enqueueing is idempotent - jobs that are already pending or running are left alone,
+   * and dead-lettered jobs stay dead until retried via POST /api/jobs/:id/retry
    * @param moderator - The moderator instance
    */
   private async recoverModeratorProposals(moderator: Moderator): Promise<void> {
@@ -265,7 +273,7 @@ export class RouterService implements IRouterService {
       const proposals = await persistenceService.loadAllProposals();
 
       let recoveredCount = 0;
-      let finalizedCount = 0;
+      let overdueCount = 0;
       let rescheduledCount = 0;
 
       for (const proposal of proposals) {
@@ -274,32 +282,27 @@ export class RouterService implements IRouterService {
         let status = proposal.getStatus()
         if (status.status === ProposalStatus.Pending) {
           if (now >= proposal.finalizedAt) {
-            // Proposal should have been finalized
-            this.logger.info(`Finalizing overdue proposal #${proposal.config.id} for moderator ${moderatorId}`);
-            try {
-              await moderator.finalizeProposal(proposal.config.id);
-              finalizedCount++;
-            } catch (error) {
-              this.logger.error(`Failed to finalize overdue proposal #${proposal.config.id}:`, error);
-            }
+            // Proposal should have been finalized - make sure a finalization job is due now
+            this.logger.info(`Ensuring finalization job for overdue proposal #${proposal.config.id} for moderator ${moderatorId}`);
+            await scheduler.scheduleProposalFinalization(moderatorId, proposal.config.id, now);
+            overdueCount++;
           } else {
-            // Proposal is still active, reschedule tasks
-            this.logger.info(`Rescheduling tasks for active proposal #${proposal.config.id} for moderator ${moderatorId}`);
+            // Proposal is still active, ensure its tasks exist
+            this.logger.info(`Ensuring tasks for active proposal #${proposal.config.id} for moderator ${moderatorId}`);
 
             // Schedule price recording (every 5 seconds)
-            scheduler.schedulePriceRecording(moderatorId, proposal.config.id, 5000);
+            await scheduler.schedulePriceRecording(moderatorId, proposal.config.id, 5000);
 
             // Schedule TWAP cranking (default 1 minute interval)
-            scheduler.scheduleTWAPCranking(moderatorId, proposal.config.id, 60000);
+            await scheduler.scheduleTWAPCranking(moderatorId, proposal.config.id, 60000);
 
             // Schedule spot price recording if spot pool address exists
             if (proposal.config.spotPoolAddress) {
-              scheduler.scheduleSpotPriceRecording(moderatorId, proposal.config.id, proposal.config.spotPoolAddress, 60000);
-              this.logger.info(`Scheduled spot price recording for proposal #${proposal.config.id}`);
+              await scheduler.scheduleSpotPriceRecording(moderatorId, proposal.config.id, proposal.config.spotPoolAddress, 60000);
             }
 
             // Schedule finalization 1 second after the proposal's end time
-            scheduler.scheduleProposalFinalization(moderatorId, proposal.config.id, proposal.finalizedAt + 1000);
+            await scheduler.scheduleProposalFinalization(moderatorId, proposal.config.id, proposal.finalizedAt + 1000);
 
             rescheduledCount++;
           }
@@ -309,7 +312,7 @@ export class RouterService implements IRouterService {
 
       if (recoveredCount > 0) {
         this.logger.info(`Recovery complete for moderator ${moderatorId}: ${recoveredCount} pending proposals processed`, {
-          finalizedCount,
+          overdueCount,
           rescheduledCount
         });
       } else {
@@ -338,6 +341,15 @@ export class RouterService implements IRouterService {
     return this.moderators;
   }
 
+  /**
+   * Reload per-pool manager keypairs for all loaded moderators from the current pool registry
+   */
+  private reloadPoolAuthorities(): void {
+    for (const moderator of this.moderators.values()) {
+      moderator.config.poolAuthorities = loadPoolAuthorities(this.logger);
+    }
+  }
+
   /**
    * Refresh the router service by reloading all moderators from database
    * This will clear the current moderators and reload them fresh
@@ -0,0 +1,130 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RpcPool } from './rpc-pool.service';
+
+const A = 'https://rpc-a.example.com';
+const B = 'https://rpc-b.example.com';
+const C = 'https://rpc-c.example.com';
+
+/** Fresh pool built from SOLANA_RPC_URLS */
+function createPool(urls: string[]): RpcPool {
+  vi.stubEnv('SOLANA_RPC_URLS', urls.join(','));
+  vi.stubEnv('SOLANA_RPC_URL', '');
+  vi.stubEnv('HELIUS_API_KEY', '');
+  (RpcPool as unknown as { instance: RpcPool | null }).instance = null;
+  return RpcPool.getInstance();
+}
+
+const rpc = (method: string) => ({ method: 'POST', body: JSON.stringify({ jsonrpc: '2.0', id: 1, method }) });
+
+describe('RpcPool', () => {
+  let status: Record<string, number>;
+  let slots: Record<string, number>;
+  let calls: string[];
+
+  beforeEach(() => {
+    status = {};
+    slots = {};
+    calls = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: { body: string }) => {
+      calls.push(url);
+      const { method } = JSON.parse(init.body);
+      const result = method === 'getSlot' ? slots[url] ?? 100 : 'ok';
+      return new Response(JSON.stringify({ jsonrpc: '2.0', id: 1, result }), { status: status[url] ?? 200 });
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects endpoints on another cluster and ignores invalid or duplicate ones', () => {
+    const pool = createPool([A]);
+    expect(() => pool.addEndpoint('https://api.devnet.solana.com')).toThrow(/devnet/);
+    pool.addEndpoint('ws://not-http');
+    pool.addEndpoint(B, 0);
+    pool.addEndpoint(A);
+    expect(pool.getHealth().map(endpoint => endpoint.host)).toEqual(['rpc-a.example.com']);
+  });
+
+  it('keeps sending requests to the same endpoint while it is healthy', async () => {
+    const pool = createPool([A, B, C]);
+    for (let i = 0; i < 20; i++) {
+      await pool['fetch']('', rpc('getLatestBlockhash'));
+    }
+    expect(new Set(calls).size).toBe(1);
+  });
+
+  it('fails over on 5xx and stays on the new endpoint', async () => {
+    const pool = createPool([A, B]);
+    await pool['fetch']('', rpc('getSlot'));
+    const first = calls[0];
+    const other = first === A ? B : A;
+    status[first] = 503;
+
+    calls = [];
+    const response = await pool['fetch']('', rpc('sendTransaction'));
+    expect(response.status).toBe(200);
+    expect(calls).toEqual([first, other]);
+
+    delete status[first];
+    calls = [];
+    await pool['fetch']('', rpc('getSignatureStatuses'));
+    expect(calls).toEqual([other]);
+  });
+
+  it('cools an endpoint down after repeated errors', async () => {
+    const pool = createPool([A, B]);
+    status[A] = 500;
+    for (let i = 0; i < 3; i++) {
+      await pool['checkHealth']();
+    }
+    const a = pool.getHealth().find(endpoint => endpoint.host === 'rpc-a.example.com')!;
+    expect(a.healthy).toBe(false);
+    expect(a.cooldownUntil).toBeGreaterThan(Date.now());
+  });
+
+  it('moves off an endpoint that falls behind', async () => {
+    const pool = createPool([A, B]);
+    await pool['fetch']('', rpc('getSlot'));
+    const first = calls[0];
+    const other = first === A ? B : A;
+
+    slots[first] = 100;
+    slots[other] = 200;
+    await pool['checkHealth']();
+    expect(pool.getHealth().find(endpoint => first.includes(endpoint.host))!.slotLag).toBe(100);
+
+    calls = [];
+    await pool['fetch']('', rpc('getLatestBlockhash'));
+    expect(calls).toEqual([other]);
+  });
+
+  it('returns the last error response when every endpoint fails', async () => {
+    const pool = createPool([A, B]);
+    status[A] = 429;
+    status[B] = 429;
+    const response = await pool['fetch']('', rpc('getSlot'));
+    expect(response.status).toBe(429);
+    expect(calls.sort()).toEqual([A, B]);
+  });
+});
@@ -0,0 +1,408 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Commitment, Connection } from '@solana/web3.js';
+import { LoggerService } from './logger.service';
+import { IRpcEndpointConfig, IRpcEndpointHealth } from '../types/rpc-pool.interface';
+
+type FetchFn = typeof globalThis.fetch;
+type FetchResponse = Awaited<ReturnType<FetchFn>>;
+
+/** Used when no endpoint is configured */
+const DEFAULT_RPC_URL = 'https://api.mainnet-beta.solana.com';
+/** How often every endpoint's slot and latency are checked */
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 10_000;
+/** Endpoints further behind the most advanced one are skipped */
+const MAX_SLOT_LAG = 50;
+/** Consecutive errors before an endpoint is put in cooldown */
+const MAX_CONSECUTIVE_ERRORS = 3;
+const ERROR_COOLDOWN_MS = 30_000;
+const REQUEST_TIMEOUT_MS = 30_000;
+const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+/** Floor for the latency used in weighting, so one fast response doesn't take all traffic */
+const MIN_WEIGHTING_LATENCY_MS = 50;
+/** Weight of the newest sample in the latency moving average */
+const LATENCY_SMOOTHING = 0.2;
+/** Methods that scan large parts of the chain; these are spaced out across the pool */
+const HEAVY_METHODS = new Set(['getProgramAccounts', 'getTokenLargestAccounts', 'getLargestAccounts']);
+const HEAVY_REQUESTS_PER_SECOND = 4;
+
+interface IRpcEndpoint extends IRpcEndpointConfig {
+  latencyMs: number | null;
+  slot: number | null;
+  consecutiveErrors: number;
+  cooldownUntil: number | null;
+}
+
+/**
+ * Reads endpoints from the environment
+ * SOLANA_RPC_URLS is a comma-separated list of url|weight (weight defaults to 1);
+ * SOLANA_RPC_URL and HELIUS_API_KEY are added as weight-1 endpoints
+ */
+function endpointsFromEnv(): IRpcEndpointConfig[] {
+  const endpoints: IRpcEndpointConfig[] = (process.env.SOLANA_RPC_URLS ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const [url, weight] = entry.split('|');
+      return { url: url.trim(), weight: weight ? Number(weight) : 1 };
+    });
+
+  if (process.env.SOLANA_RPC_URL) {
+    endpoints.push({ url: process.env.SOLANA_RPC_URL, weight: 1 });
+  }
+  if (process.env.HELIUS_API_KEY) {
+    endpoints.push({ url: `https://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`, weight: 1 });
+  }
+  return endpoints;
+}
+
+/**
+ * The host of an endpoint, for logs (URLs may contain API keys)
+ */
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid-url';
+  }
+}
+
+/**
+ * Same cluster check as getNetworkFromConnection
+ */
+function isDevnet(url: string): boolean {
+  return url.includes('devnet');
+}
+
+/**
+ * Methods called by a JSON-RPC request body (single or batch)
+ */
+function methodsOf(body: unknown): string[] {
+  if (typeof body !== 'string') {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(body);
+    return (Array.isArray(parsed) ? parsed : [parsed]).map(request => request?.method).filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Shared pool of weighted RPC endpoints
+ * Every Connection handed out routes its HTTP requests through the pool. Requests stay pinned
+ * to one healthy endpoint, so a blockhash, the send that uses it and the status checks that
+ * follow all see the same node; the pin moves (weighted by configured weight and measured
+ * latency) only when that endpoint fails or falls behind. Failover to the next endpoint
+ * happens on network errors, timeouts, 429s and 5xxs. Heavy scans don't depend on chain
+ * position, so they are spread across all healthy endpoints instead.
+ * A periodic health check tracks slot lag.
+ * WebSocket subscriptions use the highest-weight endpoint and don't fail over.
+ */
+export class RpcPool {
+  private static instance: RpcPool | null = null;
+  private endpoints: IRpcEndpoint[] = [];
+  private connections = new Map<string, Connection>();  // By commitment
+  private logger: LoggerService;
+  private healthTimer: NodeJS.Timeout | null = null;
+  private nextHeavyRequestAt = 0;
+  private pinned: IRpcEndpoint | null = null;           // Endpoint serving everything but heavy scans
+
+  private constructor(endpoints: IRpcEndpointConfig[]) {
+    this.logger = new LoggerService('rpc-pool');
+    for (const endpoint of endpoints) {
+      this.addEndpoint(endpoint.url, endpoint.weight);
+    }
+    if (this.endpoints.length === 0) {
+      this.addEndpoint(DEFAULT_RPC_URL);
+    }
+  }
+
+  public static getInstance(): RpcPool {
+    if (!RpcPool.instance) {
+      RpcPool.instance = new RpcPool(endpointsFromEnv());
+    }
+    return RpcPool.instance;
+  }
+
+  /**
+   * Add an endpoint (ignored if the URL is already in the pool)
+   * @param url - RPC URL
+   * @param weight - Relative share of requests (default: 1)
+   * @throws Error if the endpoint serves a different cluster than the pool
+   */
+  addEndpoint(url: string, weight: number = 1): void {
+    if (this.endpoints.some(endpoint => endpoint.url === url)) {
+      return;
+    }
+    if (!/^https?:\/\//.test(url) || !(weight > 0)) {
+      this.logger.warn('Ignoring invalid RPC endpoint', { host: hostOf(url), weight });
+      return;
+    }
+    // Requests are spread across endpoints, so they must all serve the same cluster;
+    // dropping the endpoint would silently send its caller's transactions to the other one
+    if (this.endpoints.length > 0 && isDevnet(url) !== isDevnet(this.endpoints[0].url)) {
+      const cluster = (devnet: boolean) => devnet ? 'devnet' : 'mainnet';
+      throw new Error(
+        `RPC endpoint ${hostOf(url)} is on ${cluster(isDevnet(url))} ` +
+        `but the pool serves ${cluster(isDevnet(this.endpoints[0].url))}`
+      );
+    }
+    this.endpoints.push({ url, weight, latencyMs: null, slot: null, consecutiveErrors: 0, cooldownUntil: null });
+    this.logger.info('RPC endpoint added', { host: hostOf(url), weight });
+  }
+
+  /**
+   * Get a Connection backed by the pool
+   * @param commitment - Default commitment of the connection (default: confirmed)
+   * @returns Shared connection for the commitment level
+   */
+  getConnection(commitment: Commitment = 'confirmed'): Connection {
+    let connection = this.connections.get(commitment);
+    if (!connection) {
+      const primary = this.endpoints.reduce((best, endpoint) => endpoint.weight > best.weight ? endpoint : best);
+      connection = new Connection(primary.url, {
+        commitment,
+        fetch: this.fetch,
+        // Requests can go to any endpoint, so no per-URL keep-alive agent
+        httpAgent: false,
+      });
+      this.connections.set(commitment, connection);
+    }
+    return connection;
+  }
+
+  /**
+   * Current health of every endpoint
+   * @returns Endpoint health, in configuration order
+   */
+  getHealth(): IRpcEndpointHealth[] {
+    const now = Date.now();
+    const maxSlot = this.getMaxSlot();
+    return this.endpoints.map(endpoint => ({
+      host: hostOf(endpoint.url),
+      weight: endpoint.weight,
+      healthy: this.isHealthy(endpoint, now, maxSlot),
+      latencyMs: endpoint.latencyMs,
+      slot: endpoint.slot,
+      slotLag: endpoint.slot !== null && maxSlot !== null ? maxSlot - endpoint.slot : null,
+      consecutiveErrors: endpoint.consecutiveErrors,
+      cooldownUntil: endpoint.cooldownUntil,
+    }));
+  }
+
+  /**
+   * Periodically check every endpoint's slot and latency
+   * @param intervalMs - Health check interval
+   */
+  start(intervalMs: number = DEFAULT_HEALTH_CHECK_INTERVAL_MS): void {
+    if (this.healthTimer) {
+      return;
+    }
+    this.healthTimer = setInterval(() => {
+      this.checkHealth().catch(error => {
+        this.logger.error('RPC health check failed', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }, intervalMs);
+    this.healthTimer.unref();
+  }
+
+  /**
+   * Stop periodic health checks
+   */
+  stop(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  /**
+   * fetch used by pooled connections: sends to the pinned endpoint (heavy scans to any
+   * healthy one) and fails over
+   * The URL web3.js passes is ignored; only the request itself is forwarded
+   */
+  private fetch: FetchFn = async (_input, init) => {
+    const heavy = methodsOf(init?.body).some(method => HEAVY_METHODS.has(method));
+    if (heavy) {
+      await this.waitForHeavySlot();
+    }
+
+    const tried = new Set<IRpcEndpoint>();
+    let lastResponse: FetchResponse | null = null;
+    let lastError: unknown = null;
+    const next = () => heavy ? this.select(tried) : this.selectPinned(tried);
+
+    for (let endpoint = next(); endpoint; endpoint = next()) {
+      tried.add(endpoint);
+      const started = Date.now();
+      try {
+        const response = await fetch(endpoint.url, {
+          ...init,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+        });
+        if (response.status === 429 || response.status >= 500) {
+          this.recordError(endpoint, `HTTP ${response.status}`);
+          lastResponse = response;
+          continue;
+        }
+        this.recordSuccess(endpoint, Date.now() - started);
+        return response;
+      } catch (error) {
+        this.recordError(endpoint, error instanceof Error ? error.message : String(error));
+        lastError = error;
+      }
+    }
+
+    // Every endpoint failed: hand web3.js the last HTTP response (it retries 429s) or the error
+    if (lastResponse) {
+      return lastResponse;
+    }
+    throw lastError ?? new Error('No RPC endpoint available');
+  };
+
+  /**
+   * The pinned endpoint while it is healthy and not tried yet; otherwise pin a new one
+   */
+  private selectPinned(tried: Set<IRpcEndpoint>): IRpcEndpoint | null {
+    const pinned = this.pinned;
+    if (pinned && !tried.has(pinned) && this.isHealthy(pinned, Date.now(), this.getMaxSlot())) {
+      return pinned;
+    }
+
+    const endpoint = this.select(tried);
+    if (endpoint && endpoint !== pinned) {
+      this.pinned = endpoint;
+      if (pinned) {
+        this.logger.info('RPC traffic moved to another endpoint', {
+          from: hostOf(pinned.url),
+          to: hostOf(endpoint.url)
+        });
+      }
+    }
+    return endpoint;
+  }
+
+  /**
+   * Pick an endpoint not tried yet: weighted random among healthy ones,
+   * otherwise the one with the fewest consecutive errors
+   */
+  private select(tried: Set<IRpcEndpoint>): IRpcEndpoint | null {
+    const now = Date.now();
+    const maxSlot = this.getMaxSlot();
+    const untried = this.endpoints.filter(endpoint => !tried.has(endpoint));
+    const healthy = untried.filter(endpoint => this.isHealthy(endpoint, now, maxSlot));
+
+    if (healthy.length === 0) {
+      return untried.sort((a, b) => a.consecutiveErrors - b.consecutiveErrors)[0] ?? null;
+    }
+
+    const weights = healthy.map(endpoint =>
+      endpoint.weight / Math.max(endpoint.latencyMs ?? MIN_WEIGHTING_LATENCY_MS, MIN_WEIGHTING_LATENCY_MS)
+    );
+    let target = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+    for (let i = 0; i < healthy.length; i++) {
+      target -= weights[i];
+      if (target <= 0) {
+        return healthy[i];
+      }
+    }
+    return healthy[healthy.length - 1];
+  }
+
+  private isHealthy(endpoint: IRpcEndpoint, now: number, maxSlot: number | null): boolean {
+    if (endpoint.cooldownUntil !== null && endpoint.cooldownUntil > now) {
+      return false;
+    }
+    return endpoint.slot === null || maxSlot === null || maxSlot - endpoint.slot <= MAX_SLOT_LAG;
+  }
+
+  private getMaxSlot(): number | null {
+    const slots = this.endpoints.map(endpoint => endpoint.slot).filter((slot): slot is number => slot !== null);
+    return slots.length > 0 ? Math.max(...slots) : null;
+  }
+
+  private recordSuccess(endpoint: IRpcEndpoint, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs + LATENCY_SMOOTHING * (latencyMs - endpoint.latencyMs);
+    if (endpoint.cooldownUntil !== null) {
+      this.logger.info('RPC endpoint recovered', { host: hostOf(endpoint.url) });
+    }
+    endpoint.consecutiveErrors = 0;
+    endpoint.cooldownUntil = null;
+  }
+
+  private recordError(endpoint: IRpcEndpoint, error: string): void {
+    endpoint.consecutiveErrors++;
+    if (endpoint.consecutiveErrors >= MAX_CONSECUTIVE_ERRORS && endpoint.cooldownUntil === null) {
+      this.logger.warn('RPC endpoint failing, cooling down', {
+        host: hostOf(endpoint.url),
+        consecutiveErrors: endpoint.consecutiveErrors,
+        error
+      });
+    }
+    if (endpoint.consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+      endpoint.cooldownUntil = Date.now() + ERROR_COOLDOWN_MS;
+    }
+  }
+
+  /**
+   * Space heavy requests out so scans don't trip provider rate limits
+   */
+  private async waitForHeavySlot(): Promise<void> {
+    const now = Date.now();
+    const slotAt = Math.max(now, this.nextHeavyRequestAt);
+    this.nextHeavyRequestAt = slotAt + 1000 / HEAVY_REQUESTS_PER_SECOND;
+    if (slotAt > now) {
+      await new Promise(resolve => setTimeout(resolve, slotAt - now));
+    }
+  }
+
+  /**
+   * Fetch every endpoint's slot, recording latency or errors
+   * Endpoints in cooldown are checked too, so they recover without live traffic
+   */
+  private async checkHealth(): Promise<void> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      const started = Date.now();
+      try {
+        const response = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getSlot', params: [{ commitment: 'confirmed' }] }),
+          signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS)
+        });
+        const json = await response.json() as { result?: number; error?: { message: string } };
+        if (!response.ok || typeof json.result !== 'number') {
+          throw new Error(json.error?.message ?? `HTTP ${response.status}`);
+        }
+        endpoint.slot = json.result;
+        this.recordSuccess(endpoint, Date.now() - started);
+      } catch (error) {
+        this.recordError(endpoint, error instanceof Error ? error.message : String(error));
+      }
+    }));
+  }
+}
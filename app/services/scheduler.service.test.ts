@@ -0,0 +1,97 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SchedulerService } from './scheduler.service';
+import { OrderService } from './order.service';
+import { IJob, JobRunResult, JobStatus } from '../types/job-queue.interface';
+import { ScheduledTaskType } from '../types/scheduler.interface';
+
+const query = vi.fn();
+vi.mock('../utils/database', () => ({ getPool: () => ({ query }) }));
+// Pool SDKs are only used for spot prices; their ESM builds don't load under vitest
+vi.mock('@meteora-ag/dlmm', () => ({ default: {} }));
+
+function job(type: ScheduledTaskType): IJob {
+  return {
+    id: 1,
+    jobKey: `${type}-1-7`,
+    type,
+    moderatorId: 1,
+    proposalId: 7,
+    payload: {},
+    status: JobStatus.Running,
+    intervalMs: 60000,
+    runAt: Date.now(),
+    attempts: 1,
+    maxAttempts: 20,
+    lastError: null,
+    lockedBy: 'worker',
+    leaseExpiresAt: Date.now() + 60000,
+    lastRunAt: Date.now(),
+    completedAt: null,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+}
+
+describe('SchedulerService.cancelProposalTasks', () => {
+  let scheduler: SchedulerService;
+  let expireOrders: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    query.mockReset();
+    query.mockResolvedValue({ rows: [], rowCount: 3 });
+    expireOrders = vi.fn(async () => 0);
+    vi.spyOn(OrderService, 'getInstance').mockReturnValue({ expireOrders } as unknown as OrderService);
+    scheduler = SchedulerService.getInstance();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("cancels the proposal's pending and running jobs and expires its open orders", async () => {
+    await scheduler.cancelProposalTasks(1, 7);
+
+    expect(query).toHaveBeenCalledOnce();
+    const [sql, params] = query.mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain('WHERE moderator_id = $1 AND proposal_id = $2 AND status IN ($4, $5)');
+    expect(params).toEqual([1, 7, JobStatus.Cancelled, JobStatus.Pending, JobStatus.Running]);
+    expect(expireOrders).toHaveBeenCalledWith(1, 7);
+  });
+
+  it('leaves orders open if the jobs could not be cancelled', async () => {
+    query.mockRejectedValue(new Error('database down'));
+
+    await expect(scheduler.cancelProposalTasks(1, 7)).rejects.toThrow('database down');
+    expect(expireOrders).not.toHaveBeenCalled();
+  });
+
+  it("cancels a proposal's tasks when its moderator no longer exists", async () => {
+    vi.spyOn(scheduler as unknown as { getRouter: () => unknown }, 'getRouter')
+      .mockReturnValue({ getModerator: () => undefined });
+
+    for (const type of [ScheduledTaskType.TWAPCrank, ScheduledTaskType.PriceRecord, ScheduledTaskType.ProposalFinalize]) {
+      expireOrders.mockClear();
+      await expect(scheduler['runJob'](job(type))).resolves.toBe(JobRunResult.Done);
+      expect(expireOrders).toHaveBeenCalledWith(1, 7);
+    }
+  });
+});
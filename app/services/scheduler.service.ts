@@ -17,29 +17,46 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { ISchedulerService, IScheduledTask, ScheduledTaskType } from '../types/scheduler.interface';
+import { ISchedulerService, ScheduledTaskType } from '../types/scheduler.interface';
+import { IJob, JobRunResult, JobStatus } from '../types/job-queue.interface';
 import { IRouterService } from '../types/router.interface';
 import { HistoryService } from './history.service';
+import { JobQueueService } from './job-queue.service';
 import { LoggerService } from './logger.service';
+import { RpcPool } from './rpc-pool.service';
+import { OrderService } from './order.service';
 import { SolPriceService } from './sol-price.service';
 import { AMMState } from '../types/amm.interface';
+import { ProposalStatus } from '../types/moderator.interface';
 import { Decimal } from 'decimal.js';
-import { Connection, PublicKey } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import { CpAmm, getPriceFromSqrtPrice, getTokenDecimals } from '@meteora-ag/cp-amm-sdk';
 import DLMM from '@meteora-ag/dlmm';
-import { POOL_METADATA } from '../../src/config/pools';
+import { getPoolMetadata } from '../../src/config/whitelist';
+
+/** Consecutive failures before a periodic job is dead-lettered */
+const PERIODIC_MAX_ATTEMPTS = 20;
+
+/** Failures before a finalization job is dead-lettered (backoff spreads these over ~30 minutes) */
+const FINALIZE_MAX_ATTEMPTS = 10;
+
+/** How often a released lookup table is checked until its deactivation has cooled down (~513 slots) */
+const LOOKUP_TABLE_CLOSE_INTERVAL_MS = 60000;
 
 /**
  * Scheduler service for managing automatic TWAP cranking and proposal finalization
  * Handles periodic tasks for active proposals across multiple moderators
+ * Tasks are persisted as jobs in qm_jobs, so they survive restarts and can be
+ * shared between API instances
  */
 export class SchedulerService implements ISchedulerService {
-  private tasks: Map<string, IScheduledTask> = new Map();
+  public readonly jobQueue: JobQueueService;
   private static instance: SchedulerService;
   private logger: LoggerService;
 
   private constructor() {
     this.logger = new LoggerService('router').createChild('scheduler');
+    this.jobQueue = new JobQueueService(this.logger.createChild('jobs'));
   }
 
   /**
@@ -62,35 +79,63 @@ export class SchedulerService implements ISchedulerService {
     return RouterService.getInstance();
   }
 
+  /**
+   * Starts running due jobs in this process
+   */
+  start(): void {
+    this.jobQueue.start(job => this.runJob(job));
+  }
+
+  /**
+   * Dispatches a leased job to its task handler
+   * @param job - The leased job
+   * @returns Whether a periodic job should keep running
+   */
+  private async runJob(job: IJob): Promise<JobRunResult> {
+    switch (job.type) {
+      case ScheduledTaskType.TWAPCrank:
+        return this.crankTWAPForProposal(job.moderatorId, job.proposalId);
+      case ScheduledTaskType.PriceRecord:
+        return this.recordPricesForProposal(job.moderatorId, job.proposalId);
+      case ScheduledTaskType.SpotPriceRecord:
+        return this.recordSpotPriceForProposal(
+          job.moderatorId,
+          job.proposalId,
+          job.payload.spotPoolAddress as string
+        );
+      case ScheduledTaskType.ProposalFinalize:
+        return this.finalizeProposal(job.moderatorId, job.proposalId);
+      case ScheduledTaskType.LookupTableClose:
+        return this.closeLookupTable(job.moderatorId, job.proposalId);
+      default:
+        throw new Error(`Unknown job type: ${job.type}`);
+    }
+  }
+
   /**
    * Schedules automatic TWAP cranking for a proposal
    * @param moderatorId - The moderator ID that owns the proposal
    * @param proposalId - The proposal ID to crank TWAP for
    * @param intervalMs - Interval between cranks in milliseconds (default: 60000 = 1 minute)
    */
-  scheduleTWAPCranking(moderatorId: number, proposalId: number, intervalMs: number = 60000): void {
+  async scheduleTWAPCranking(moderatorId: number, proposalId: number, intervalMs: number = 60000): Promise<void> {
     const taskId = `twap-${moderatorId}-${proposalId}`;
 
-    if (this.tasks.has(taskId)) {
-      this.logger.debug(`TWAP cranking already scheduled for moderator #${moderatorId} proposal #${proposalId}`);
-      return;
-    }
-
-    const task: IScheduledTask = {
-      id: taskId,
+    const scheduled = await this.jobQueue.enqueue({
+      jobKey: taskId,
       type: ScheduledTaskType.TWAPCrank,
       moderatorId,
       proposalId,
-      interval: intervalMs,
-      nextRunTime: Date.now() + intervalMs
-    };
+      intervalMs,
+      runAt: Date.now() + intervalMs,
+      maxAttempts: PERIODIC_MAX_ATTEMPTS
+    });
 
-    // Start the periodic task
-    task.timer = setInterval(async () => {
-      await this.crankTWAPForProposal(moderatorId, proposalId);
-    }, intervalMs);
+    if (!scheduled) {
+      this.logger.debug(`TWAP cranking already scheduled for moderator #${moderatorId} proposal #${proposalId}`);
+      return;
+    }
 
-    this.tasks.set(taskId, task);
     this.logger.info('Scheduled TWAP cranking', {
       moderatorId,
       proposalId,
@@ -105,29 +150,24 @@ export class SchedulerService implements ISchedulerService {
    * @param proposalId - The proposal ID to record prices for
    * @param intervalMs - Interval between recordings in milliseconds (default: 60000 = 1 minute)
    */
-  schedulePriceRecording(moderatorId: number, proposalId: number, intervalMs: number = 60000): void {
+  async schedulePriceRecording(moderatorId: number, proposalId: number, intervalMs: number = 60000): Promise<void> {
     const taskId = `price-${moderatorId}-${proposalId}`;
 
-    if (this.tasks.has(taskId)) {
-      this.logger.info(`Price recording already scheduled for moderator #${moderatorId} proposal #${proposalId}`);
-      return;
-    }
-
-    const task: IScheduledTask = {
-      id: taskId,
+    const scheduled = await this.jobQueue.enqueue({
+      jobKey: taskId,
       type: ScheduledTaskType.PriceRecord,
       moderatorId,
       proposalId,
-      interval: intervalMs,
-      nextRunTime: Date.now() + intervalMs
-    };
+      intervalMs,
+      runAt: Date.now() + intervalMs,
+      maxAttempts: PERIODIC_MAX_ATTEMPTS
+    });
 
-    // Start the periodic task
-    task.timer = setInterval(async () => {
-      await this.recordPricesForProposal(moderatorId, proposalId);
-    }, intervalMs);
+    if (!scheduled) {
+      this.logger.info(`Price recording already scheduled for moderator #${moderatorId} proposal #${proposalId}`);
+      return;
+    }
 
-    this.tasks.set(taskId, task);
     this.logger.info('Scheduled price recording', {
       moderatorId,
       proposalId,
@@ -138,34 +178,31 @@ export class SchedulerService implements ISchedulerService {
 
   /**
    * Schedules automatic spot price recording for a proposal
+   * The first recording runs immediately instead of waiting for the first interval
    * @param moderatorId - The moderator ID that owns the proposal
    * @param proposalId - The proposal ID to record spot prices for
    * @param spotPoolAddress - The Meteora pool address for the spot market
    * @param intervalMs - Interval between recordings in milliseconds (default: 60000 = 1 minute)
    */
-  scheduleSpotPriceRecording(moderatorId: number, proposalId: number, spotPoolAddress: string, intervalMs: number = 60000): void {
+  async scheduleSpotPriceRecording(moderatorId: number, proposalId: number, spotPoolAddress: string, intervalMs: number = 60000): Promise<void> {
     const taskId = `spot-${moderatorId}-${proposalId}`;
 
-    if (this.tasks.has(taskId)) {
-      this.logger.info(`Spot price recording already scheduled for moderator #${moderatorId} proposal #${proposalId}`);
-      return;
-    }
-
-    const task: IScheduledTask = {
-      id: taskId,
+    const scheduled = await this.jobQueue.enqueue({
+      jobKey: taskId,
       type: ScheduledTaskType.SpotPriceRecord,
       moderatorId,
       proposalId,
-      interval: intervalMs,
-      nextRunTime: Date.now() + intervalMs
-    };
+      payload: { spotPoolAddress },
+      intervalMs,
+      runAt: Date.now(),
+      maxAttempts: PERIODIC_MAX_ATTEMPTS
+    });
 
-    // Start the periodic task
-    task.timer = setInterval(async () => {
-      await this.recordSpotPriceForProposal(moderatorId, proposalId, spotPoolAddress);
-    }, intervalMs);
+    if (!scheduled) {
+      this.logger.info(`Spot price recording already scheduled for moderator #${moderatorId} proposal #${proposalId}`);
+      return;
+    }
 
-    this.tasks.set(taskId, task);
     this.logger.info('Scheduled spot price recording', {
       moderatorId,
       proposalId,
@@ -173,53 +210,37 @@ export class SchedulerService implements ISchedulerService {
       spotPoolAddress,
       taskId
     });
-
-    // Run immediately instead of waiting for first interval
-    this.recordSpotPriceForProposal(moderatorId, proposalId, spotPoolAddress);
   }
 
   /**
    * Schedules automatic finalization for a proposal
+   * A finalizeAt in the past makes the job due immediately
    * @param moderatorId - The moderator ID that owns the proposal
    * @param proposalId - The proposal ID to finalize
    * @param finalizeAt - Timestamp when to finalize the proposal
    */
-  scheduleProposalFinalization(moderatorId: number, proposalId: number, finalizeAt: number): void {
+  async scheduleProposalFinalization(moderatorId: number, proposalId: number, finalizeAt: number): Promise<void> {
     const taskId = `finalize-${moderatorId}-${proposalId}`;
 
-    if (this.tasks.has(taskId)) {
-      this.logger.info(`Finalization already scheduled for moderator #${moderatorId} proposal #${proposalId}`);
-      return;
-    }
-
-    const delayMs = finalizeAt - Date.now();
-
-    if (delayMs <= 0) {
-      // Should finalize immediately
-      this.finalizeProposal(moderatorId, proposalId);
-      return;
-    }
-
-    const task: IScheduledTask = {
-      id: taskId,
+    const scheduled = await this.jobQueue.enqueue({
+      jobKey: taskId,
       type: ScheduledTaskType.ProposalFinalize,
       moderatorId,
       proposalId,
-      nextRunTime: finalizeAt
-    };
+      runAt: finalizeAt,
+      maxAttempts: FINALIZE_MAX_ATTEMPTS
+    });
 
-    // Schedule one-time finalization
-    task.timer = setTimeout(async () => {
-      await this.finalizeProposal(moderatorId, proposalId);
-      this.tasks.delete(taskId);
-    }, delayMs);
+    if (!scheduled) {
+      this.logger.info(`Finalization already scheduled for moderator #${moderatorId} proposal #${proposalId}`);
+      return;
+    }
 
-    this.tasks.set(taskId, task);
     this.logger.info('Scheduled proposal finalization', {
       moderatorId,
       proposalId,
       finalizeAt: new Date(finalizeAt).toISOString(),
-      delayMs,
+      delayMs: Math.max(0, finalizeAt - Date.now()),
       taskId
     });
   }
@@ -228,44 +249,32 @@ export class SchedulerService implements ISchedulerService {
    * Cranks TWAP for a specific proposal
    * @param moderatorId - The moderator ID that owns the proposal
    * @param proposalId - The proposal ID
+   * @returns Done once the proposal has ended
+   * @throws Error if the proposal can't be loaded (retried with backoff)
    */
-  private async crankTWAPForProposal(moderatorId: number, proposalId: number): Promise<void> {
+  private async crankTWAPForProposal(moderatorId: number, proposalId: number): Promise<JobRunResult> {
     const router = this.getRouter();
     const moderator = router.getModerator(moderatorId);
 
     if (!moderator) {
       this.logger.error('Moderator not found, cancelling tasks', { moderatorId, proposalId });
-      this.cancelProposalTasks(moderatorId, proposalId);
-      return;
+      await this.cancelProposalTasks(moderatorId, proposalId);
+      return JobRunResult.Done;
     }
 
-    let proposal;
-    try {
-      proposal = await moderator.getProposal(proposalId);
-    } catch (error) {
-      this.logger.error('Failed to load proposal for TWAP cranking', {
-        moderatorId,
-        proposalId,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      this.cancelProposalTasks(moderatorId, proposalId);
-      return; // Gracefully exit instead of throwing
-    }
+    const proposal = await moderator.getProposal(proposalId);
 
     if (!proposal) {
       this.logger.warn('Proposal not found, cancelling tasks', { moderatorId, proposalId });
-      this.cancelProposalTasks(moderatorId, proposalId);
-      return; // Gracefully exit instead of throwing
+      await this.cancelProposalTasks(moderatorId, proposalId);
+      return JobRunResult.Done;
     }
 
-    // Check if proposal has ended
+    // Check if proposal has ended (or was cancelled)
     const now = Date.now();
-    if (now >= proposal.finalizedAt) {
+    if (now >= proposal.finalizedAt || proposal.getStatus().status !== ProposalStatus.Pending) {
       this.logger.info(`Proposal #${proposalId} from moderator #${moderatorId} has ended, stopping TWAP cranking`);
-      this.cancelTask(`twap-${moderatorId}-${proposalId}`);
-      this.cancelTask(`price-${moderatorId}-${proposalId}`);
-      this.cancelTask(`spot-${moderatorId}-${proposalId}`);
-      return;
+      return JobRunResult.Done;
     }
 
     // Get the TWAP oracle and crank it
@@ -283,10 +292,11 @@ export class SchedulerService implements ISchedulerService {
       aggregations: twapData.aggregations.map(a => new Decimal(a.toString())),
     });
     
-    // Save updated proposal state to database
-    await moderator.saveProposal(proposal);
+    // Save only the oracle - a cancel or finalize may have changed status while this job cranked
+    await moderator.saveTWAPState(proposal);
     
     // Database is now the source of truth - no cache to invalidate
+    return JobRunResult.Continue;
   }
   
   /**
@@ -294,39 +304,46 @@ export class SchedulerService implements ISchedulerService {
    * Stores prices in SOL - WebSocket enriches with market cap USD for clients
    * @param moderatorId - The moderator ID that owns the proposal
    * @param proposalId - The proposal ID
+   * @returns Done once the proposal has ended
+   * @throws Error if the proposal can't be loaded (retried with backoff)
    */
-  private async recordPricesForProposal(moderatorId: number, proposalId: number): Promise<void> {
+  private async recordPricesForProposal(moderatorId: number, proposalId: number): Promise<JobRunResult> {
     const router = this.getRouter();
     const moderator = router.getModerator(moderatorId);
 
     if (!moderator) {
       this.logger.error(`Moderator #${moderatorId} not found, cancelling tasks for proposal #${proposalId}`);
-      this.cancelProposalTasks(moderatorId, proposalId);
-      return;
+      await this.cancelProposalTasks(moderatorId, proposalId);
+      return JobRunResult.Done;
     }
 
-    let proposal;
-    try {
-      proposal = await moderator.getProposal(proposalId);
-    } catch (error) {
-      this.logger.error(`Failed to load proposal #${proposalId} from moderator #${moderatorId} for price recording:`, error);
-      this.cancelProposalTasks(moderatorId, proposalId);
-      return; // Gracefully exit instead of throwing
-    }
+    const proposal = await moderator.getProposal(proposalId);
 
     if (!proposal) {
       this.logger.warn(`Proposal #${proposalId} not found in moderator #${moderatorId}, cancelling tasks`);
-      this.cancelProposalTasks(moderatorId, proposalId);
-      return; // Gracefully exit instead of throwing
+      await this.cancelProposalTasks(moderatorId, proposalId);
+      return JobRunResult.Done;
     }
 
-    // Check if proposal has ended
+    // Check if proposal has ended (or was cancelled)
     const now = Date.now();
-    if (now >= proposal.finalizedAt) {
+    if (now >= proposal.finalizedAt || proposal.getStatus().status !== ProposalStatus.Pending) {
+      const orders = OrderService.getInstance();
+      const amms = proposal.getAMMs();
+      let executing = 0;
+      for (let marketIndex = 0; marketIndex < amms.length; marketIndex++) {
+        await orders.reconcileOrders(moderatorId, proposalId, marketIndex, amms[marketIndex]);
+        executing += await orders.countExecutingOrders(moderatorId, proposalId, marketIndex);
+      }
+      await orders.expireOrders(moderatorId, proposalId);
+
+      // Keep running until orders a crash left executing have been reconciled
+      if (executing > 0) {
+        this.logger.info(`Proposal #${proposalId} from moderator #${moderatorId} has ended, waiting for ${executing} executing orders`);
+        return JobRunResult.Continue;
+      }
       this.logger.info(`Proposal #${proposalId} from moderator #${moderatorId} has ended, stopping price recording`);
-      this.cancelTask(`price-${moderatorId}-${proposalId}`);
-      this.cancelTask(`spot-${moderatorId}-${proposalId}`);
-      return;
+      return JobRunResult.Done;
     }
 
     const amms = proposal.getAMMs();
@@ -336,8 +353,9 @@ export class SchedulerService implements ISchedulerService {
       const amm = amms[marketIndex];
 
       if (amm && amm.state === AMMState.Trading) {
+        let price: Decimal;
         try {
-          const price = await amm.fetchPrice();
+          price = await amm.fetchPrice();
           await HistoryService.recordPrice({
             moderatorId,
             proposalId,
@@ -347,11 +365,20 @@ export class SchedulerService implements ISchedulerService {
         } catch (error) {
           this.logger.error(`Failed to record market ${marketIndex} price for proposal #${proposalId}:`, error);
           // Continue to next market even if this one fails
+          continue;
+        }
+
+        // Execute limit and stop orders the new price triggers
+        try {
+          await OrderService.getInstance().processPrice(moderatorId, proposalId, marketIndex, amm, price);
+        } catch (error) {
+          this.logger.error(`Failed to process market ${marketIndex} orders for proposal #${proposalId}:`, error);
         }
       }
     }
 
     this.logger.info(`Recorded prices for proposal #${proposalId}`);
+    return JobRunResult.Continue;
   }
 
   /**
@@ -360,51 +387,39 @@ export class SchedulerService implements ISchedulerService {
    * @param moderatorId - The moderator ID that owns the proposal
    * @param proposalId - The proposal ID
    * @param spotPoolAddress - The Meteora pool address
+   * @returns Done once the proposal has ended
+   * @throws Error if the proposal can't be loaded (retried with backoff)
    */
-  private async recordSpotPriceForProposal(moderatorId: number, proposalId: number, spotPoolAddress: string): Promise<void> {
+  private async recordSpotPriceForProposal(moderatorId: number, proposalId: number, spotPoolAddress: string): Promise<JobRunResult> {
     const router = this.getRouter();
     const moderator = router.getModerator(moderatorId);
 
     if (!moderator) {
       this.logger.error(`Moderator #${moderatorId} not found, cancelling spot price tasks for proposal #${proposalId}`);
-      this.cancelTask(`spot-${moderatorId}-${proposalId}`);
-      return;
+      return JobRunResult.Done;
     }
 
-    let proposal;
-    try {
-      proposal = await moderator.getProposal(proposalId);
-    } catch (error) {
-      this.logger.error(`Failed to load proposal #${proposalId} from moderator #${moderatorId} for spot price recording:`, error);
-      this.cancelTask(`spot-${moderatorId}-${proposalId}`);
-      return;
-    }
+    const proposal = await moderator.getProposal(proposalId);
 
     if (!proposal) {
       this.logger.warn(`Proposal #${proposalId} not found in moderator #${moderatorId}, cancelling spot price recording`);
-      this.cancelTask(`spot-${moderatorId}-${proposalId}`);
-      return;
+      return JobRunResult.Done;
     }
 
-    // Check if proposal has ended
+    // Check if proposal has ended (or was cancelled)
     const now = Date.now();
-    if (now >= proposal.finalizedAt) {
+    if (now >= proposal.finalizedAt || proposal.getStatus().status !== ProposalStatus.Pending) {
       this.logger.info(`Proposal #${proposalId} from moderator #${moderatorId} has ended, stopping spot price recording`);
-      this.cancelTask(`spot-${moderatorId}-${proposalId}`);
-      return;
+      return JobRunResult.Done;
     }
 
     try {
-      // Get Solana connection
-      const connection = new Connection(
-        process.env.SOLANA_RPC_URL || 'https://api.devnet.solana.com',
-        'confirmed'
-      );
+      const connection = RpcPool.getInstance().getConnection();
 
       const poolPubkey = new PublicKey(spotPoolAddress);
 
       // Detect pool type from metadata (DLMM vs CP-AMM)
-      const poolMetadata = POOL_METADATA[spotPoolAddress];
+      const poolMetadata = getPoolMetadata(spotPoolAddress);
       const poolType = poolMetadata?.poolType || 'damm';
 
       let spotPriceInSol: number;
@@ -460,73 +475,103 @@ export class SchedulerService implements ISchedulerService {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined
       });
-      // Don't cancel task on individual failures - might be transient network issues
+      // Don't fail the job on individual failures - might be transient network issues
     }
+    return JobRunResult.Continue;
   }
 
   /**
    * Finalizes a proposal
+   * Errors propagate so the job queue retries with backoff (and dead-letters after max attempts)
    * @param moderatorId - The moderator ID that owns the proposal
    * @param proposalId - The proposal ID
+   * @returns Done once the proposal is finalized or cancelled
+   * @throws Error if finalization fails or the proposal hasn't ended yet
    */
-  private async finalizeProposal(moderatorId: number, proposalId: number): Promise<void> {
+  private async finalizeProposal(moderatorId: number, proposalId: number): Promise<JobRunResult> {
     const router = this.getRouter();
     const moderator = router.getModerator(moderatorId);
 
     if (!moderator) {
       this.logger.error(`Moderator #${moderatorId} not found, cannot finalize proposal #${proposalId}`);
-      this.cancelProposalTasks(moderatorId, proposalId);
-      return;
+      await this.cancelProposalTasks(moderatorId, proposalId);
+      return JobRunResult.Done;
     }
 
     this.logger.info('Auto-finalizing proposal', { moderatorId, proposalId });
-    try {
-      const status = await moderator.finalizeProposal(proposalId);
-      this.logger.info('Proposal finalized successfully', {
-        moderatorId,
-        proposalId,
-        status
-      });
-    } catch (error) {
-      this.logger.error('Failed to finalize proposal', {
-        moderatorId,
-        proposalId,
-        error: error instanceof Error ? error.message : String(error)
-      });
+    const [status] = await moderator.finalizeProposal(proposalId);
+    if (status === ProposalStatus.Pending) {
+      throw new Error(`Proposal #${proposalId} is still pending after its end time`);
     }
 
-    // Cancel all tasks for this proposal regardless of finalization success
-    this.cancelProposalTasks(moderatorId, proposalId);
+    this.logger.info('Proposal finalized successfully', {
+      moderatorId,
+      proposalId,
+      status
+    });
+
+    // Stop any periodic tasks still running for this proposal. Price recording stops
+    // itself once the proposal's executing orders are reconciled.
+    await this.cancelTask(`twap-${moderatorId}-${proposalId}`);
+    await this.cancelTask(`spot-${moderatorId}-${proposalId}`);
+    await OrderService.getInstance().expireOrders(moderatorId, proposalId);
+    return JobRunResult.Done;
   }
 
   /**
-   * Helper to check if a task type uses setInterval (periodic) or setTimeout (one-time)
-   * @param type - The task type to check
-   * @returns true if the task is periodic (uses setInterval)
+   * Schedules closing a finished proposal's address lookup table
+   * The first run deactivates the table; later runs close it once deactivation has cooled down
+   * @param moderatorId - The moderator ID that owns the proposal
+   * @param proposalId - The proposal ID
    */
-  private isPeriodicTask(type: ScheduledTaskType): boolean {
-    return type === ScheduledTaskType.TWAPCrank ||
-           type === ScheduledTaskType.PriceRecord ||
-           type === ScheduledTaskType.SpotPriceRecord;
+  async scheduleLookupTableClose(moderatorId: number, proposalId: number): Promise<void> {
+    const taskId = `lut-${moderatorId}-${proposalId}`;
+
+    const scheduled = await this.jobQueue.enqueue({
+      jobKey: taskId,
+      type: ScheduledTaskType.LookupTableClose,
+      moderatorId,
+      proposalId,
+      intervalMs: LOOKUP_TABLE_CLOSE_INTERVAL_MS,
+      runAt: Date.now(),
+      maxAttempts: PERIODIC_MAX_ATTEMPTS
+    });
+
+    if (scheduled) {
+      this.logger.info('Scheduled lookup table close', { moderatorId, proposalId, taskId });
+    }
+  }
+
+  /**
+   * Deactivates, then closes, a finished proposal's address lookup table
+   * @param moderatorId - The moderator ID that owns the proposal
+   * @param proposalId - The proposal ID
+   * @returns Done once the table is closed
+   */
+  private async closeLookupTable(moderatorId: number, proposalId: number): Promise<JobRunResult> {
+    const moderator = this.getRouter().getModerator(moderatorId);
+    const proposal = await moderator?.getProposal(proposalId);
+    if (!moderator || !proposal) {
+      this.logger.warn('Proposal not found, not closing its lookup table', { moderatorId, proposalId });
+      return JobRunResult.Done;
+    }
+
+    if (!(await proposal.releaseLookupTable())) {
+      return JobRunResult.Continue;
+    }
+
+    // Persist the AMMs without the closed table
+    await moderator.saveProposal(proposal);
+    return JobRunResult.Done;
   }
 
   /**
    * Cancels a scheduled task
    * @param taskId - The task ID to cancel
    */
-  cancelTask(taskId: string): void {
-    const task = this.tasks.get(taskId);
-    if (task) {
-      if (task.timer) {
-        if (this.isPeriodicTask(task.type)) {
-          clearInterval(task.timer);
-        } else {
-          clearTimeout(task.timer);
-        }
-      }
-      this.tasks.delete(taskId);
-      this.logger.debug('Task cancelled', { taskId, type: task.type });
-    }
+  async cancelTask(taskId: string): Promise<void> {
+    await this.jobQueue.cancel(taskId);
+    this.logger.debug('Task cancelled', { taskId });
   }
 
   /**
@@ -534,41 +579,35 @@ export class SchedulerService implements ISchedulerService {
    * @param moderatorId - The moderator ID that owns the proposal
    * @param proposalId - The proposal ID
    */
-  cancelProposalTasks(moderatorId: number, proposalId: number): void {
-    this.cancelTask(`twap-${moderatorId}-${proposalId}`);
-    this.cancelTask(`price-${moderatorId}-${proposalId}`);
-    this.cancelTask(`spot-${moderatorId}-${proposalId}`);
-    this.cancelTask(`finalize-${moderatorId}-${proposalId}`);
+  async cancelProposalTasks(moderatorId: number, proposalId: number): Promise<void> {
+    await this.jobQueue.cancelProposalJobs(moderatorId, proposalId);
+    await OrderService.getInstance().expireOrders(moderatorId, proposalId);
+    this.logger.debug('Proposal tasks cancelled', { moderatorId, proposalId });
   }
 
   /**
-   * Stops all scheduled tasks
+   * Stops running jobs in this process
+   * Jobs stay in the database and are picked up on the next start (or by another instance)
    */
   stopAll(): void {
-    for (const [_, task] of this.tasks.entries()) {
-      if (task.timer) {
-        if (this.isPeriodicTask(task.type)) {
-          clearInterval(task.timer);
-        } else {
-          clearTimeout(task.timer);
-        }
-      }
-    }
-    const taskCount = this.tasks.size;
-    this.tasks.clear();
-    this.logger.info('All scheduled tasks stopped', { taskCount });
+    this.jobQueue.stop();
+    this.logger.info('Scheduler stopped');
   }
 
   /**
-   * Gets information about all active tasks
+   * Gets information about all pending and running tasks
    */
-  getActiveTasks(): Array<{id: string; type: string; moderatorId: number; proposalId: number; nextRunTime: number}> {
-    return Array.from(this.tasks.values()).map(task => ({
-      id: task.id,
-      type: task.type,
-      moderatorId: task.moderatorId,
-      proposalId: task.proposalId,
-      nextRunTime: task.nextRunTime
+  async getActiveTasks(): Promise<Array<{id: string; type: string; moderatorId: number; proposalId: number; nextRunTime: number}>> {
+    const [pending, running] = await Promise.all([
+      this.jobQueue.listJobs({ status: JobStatus.Pending, limit: 1000 }),
+      this.jobQueue.listJobs({ status: JobStatus.Running, limit: 1000 }),
+    ]);
+    return [...pending, ...running].map(job => ({
+      id: job.jobKey,
+      type: job.type,
+      moderatorId: job.moderatorId,
+      proposalId: job.proposalId,
+      nextRunTime: job.runAt
     }));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,397 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  AccountInfo,
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  MessageAccountKeys,
+  PublicKey,
+  SystemProgram,
+  VersionedMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID
+} from '@solana/spl-token';
+import { CP_AMM_PROGRAM_ID, CpAmmIdl } from '@meteora-ag/cp-amm-sdk';
+import { LoggerService } from './logger.service';
+import { RpcPool } from './rpc-pool.service';
+import {
+  ISimulatedBalanceChange,
+  ISimulationError,
+  ISimulationResult
+} from '../types/simulation.interface';
+
+/** Base fee charged per signature */
+const LAMPORTS_PER_SIGNATURE = 5000;
+/** Compute units granted per instruction when the transaction sets no limit */
+const DEFAULT_INSTRUCTION_COMPUTE_UNITS = 200000;
+const MAX_COMPUTE_UNITS = 1400000;
+/** Accounts per getMultipleAccountsInfo call */
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+/** Account type byte of Token-2022 accounts with extensions */
+const TOKEN_ACCOUNT_TYPE = 2;
+
+// Anchor logs "Error Code: <name>. Error Number: <n>. Error Message: <message>."
+const ANCHOR_ERROR_LOG = /Error Code: (\w+)\. Error Number: \d+\. Error Message: (.+?)\.?$/;
+
+// SPL Token program errors, by custom error code
+const TOKEN_ERRORS: Record<number, [string, string]> = {
+  0: ['NotRentExempt', 'Account is not rent exempt'],
+  1: ['InsufficientFunds', 'Insufficient token balance'],
+  2: ['InvalidMint', 'Invalid token mint'],
+  3: ['MintMismatch', 'Token account is for a different mint'],
+  4: ['OwnerMismatch', 'Token account is owned by another wallet'],
+  6: ['AlreadyInUse', 'Token account is already initialized'],
+  9: ['UninitializedState', 'Token account is not initialized'],
+  17: ['AccountFrozen', 'Token account is frozen'],
+};
+
+// System program errors, by custom error code
+const SYSTEM_ERRORS: Record<number, [string, string]> = {
+  0: ['AccountAlreadyInUse', 'Account already exists'],
+  1: ['ResultWithNegativeLamports', 'Insufficient SOL balance'],
+};
+
+// Clearer wording for errors users commonly hit, by error name
+const ERROR_MESSAGES: Record<string, string> = {
+  ExceededSlippage: 'Slippage exceeded: the price moved beyond your slippage tolerance',
+  PoolDisabled: 'Pool is disabled: the market is no longer trading',
+  InsufficientLiquidity: 'Not enough liquidity in the pool for this trade',
+  AmountIsZero: 'Amount must be greater than zero',
+  InsufficientFundsForFee: 'Not enough SOL to pay the transaction fee',
+  AccountNotFound: 'Fee payer has no SOL balance',
+  BlockhashNotFound: 'Transaction has expired, build it again',
+  AlreadyProcessed: 'Transaction has already been sent',
+};
+
+/**
+ * Splits an error name into words, e.g. "InvalidAccountData" -> "Invalid account data"
+ */
+function humanize(name: string): string {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Decodes a token account, or returns null if the account isn't one
+ */
+function decodeTokenAccount(info: AccountInfo<Buffer> | null): ReturnType<typeof AccountLayout.decode> | null {
+  if (!info || info.data.length < ACCOUNT_SIZE) {
+    return null;
+  }
+  if (!info.owner.equals(TOKEN_PROGRAM_ID) && !info.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+    return null;
+  }
+  // Token-2022 mints with extensions can be as long as token accounts
+  if (info.data.length > ACCOUNT_SIZE && info.data[ACCOUNT_SIZE] !== TOKEN_ACCOUNT_TYPE) {
+    return null;
+  }
+  return AccountLayout.decode(info.data.subarray(0, ACCOUNT_SIZE));
+}
+
+/**
+ * Fee the transaction would pay: signature fees plus the priority fee of its compute budget
+ * @param message - Transaction message
+ * @param accountKeys - Resolved account keys of the message
+ * @returns Fee in lamports
+ */
+function estimateFee(message: VersionedMessage, accountKeys: MessageAccountKeys): number {
+  let unitLimit: number | null = null;
+  let unitPrice = BigInt(0);
+  let otherInstructions = 0;
+
+  for (const ix of message.compiledInstructions) {
+    const data = Buffer.from(ix.data);
+    if (!accountKeys.get(ix.programIdIndex)?.equals(ComputeBudgetProgram.programId)) {
+      otherInstructions++;
+    } else if (data[0] === 2) {
+      unitLimit = data.readUInt32LE(1);
+    } else if (data[0] === 3) {
+      unitPrice = data.readBigUInt64LE(1);
+    }
+  }
+
+  const units = unitLimit ?? Math.min(otherInstructions * DEFAULT_INSTRUCTION_COMPUTE_UNITS, MAX_COMPUTE_UNITS);
+  const priorityFee = (BigInt(units) * unitPrice + BigInt(999999)) / BigInt(1000000);
+  return message.header.numRequiredSignatures * LAMPORTS_PER_SIGNATURE + Number(priorityFee);
+}
+
+/**
+ * Simulates built transactions and reports what they would do for their signer
+ * Lets users see balance changes, fees and decoded errors before signing
+ */
+export class SimulationService {
+  private static instance: SimulationService | null = null;
+  private connection: Connection;
+  private logger: LoggerService;
+
+  private constructor() {
+    this.connection = RpcPool.getInstance().getConnection();
+    this.logger = new LoggerService('api').createChild('simulation');
+  }
+
+  public static getInstance(): SimulationService {
+    if (!SimulationService.instance) {
+      SimulationService.instance = new SimulationService();
+    }
+    return SimulationService.instance;
+  }
+
+  /**
+   * Simulate a transaction without requiring signatures
+   * The blockhash is replaced, so expired transactions can still be previewed.
+   * Balances before the transaction are read at the latest slot, not the simulated one.
+   * @param transaction - Legacy or v0 transaction (signed or not)
+   * @param signer - Wallet to report balances for (default: fee payer)
+   * @returns Balance changes, fee, compute units, logs and decoded error
+   * @throws Error if a lookup table of the transaction doesn't exist
+   */
+  async simulate(transaction: VersionedTransaction, signer?: PublicKey): Promise<ISimulationResult> {
+    const message = transaction.message;
+    const wallet = signer ?? message.staticAccountKeys[0];
+    const accountKeys = message.getAccountKeys({
+      addressLookupTableAccounts: await this.fetchLookupTables(message)
+    });
+
+    // Only writable accounts can change; token accounts are kept if the signer owns them now
+    // or may own them afterwards (accounts that don't exist yet, e.g. created ATAs)
+    const writable: PublicKey[] = [];
+    for (let i = 0; i < accountKeys.length; i++) {
+      const key = accountKeys.get(i)!;
+      if (message.isAccountWritable(i) && !key.equals(wallet)) {
+        writable.push(key);
+      }
+    }
+    const candidates = [wallet, ...writable];
+    const candidateInfos = await this.getAccounts(candidates);
+    const tracked: PublicKey[] = [];
+    const preInfos: (AccountInfo<Buffer> | null)[] = [];
+    candidates.forEach((key, i) => {
+      const info = candidateInfos[i];
+      if (i === 0 || info === null || decodeTokenAccount(info)?.owner.equals(wallet)) {
+        tracked.push(key);
+        preInfos.push(info);
+      }
+    });
+
+    const { value } = await this.connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: {
+        encoding: 'base64',
+        addresses: tracked.map(key => key.toBase58())
+      }
+    });
+
+    const logs = value.logs ?? [];
+    const postInfos: (AccountInfo<Buffer> | null)[] = (value.accounts ?? []).map(account => account && {
+      ...account,
+      owner: new PublicKey(account.owner),
+      data: Buffer.from(account.data[0], 'base64')
+    });
+
+    const error = value.err ? this.decodeError(value.err, logs, message, accountKeys) : null;
+    const balanceChanges = error ? [] : await this.getBalanceChanges(wallet, tracked, preInfos, postInfos);
+
+    this.logger.debug('Simulated transaction', {
+      signer: wallet.toBase58(),
+      success: !error,
+      error: error?.code,
+      computeUnits: value.unitsConsumed
+    });
+
+    return {
+      success: !error,
+      signer: wallet.toBase58(),
+      error,
+      feeLamports: estimateFee(message, accountKeys),
+      computeUnits: value.unitsConsumed ?? null,
+      balanceChanges,
+      logs,
+    };
+  }
+
+  /**
+   * Fetches the lookup tables a v0 message references
+   * @throws Error if a table doesn't exist
+   */
+  private async fetchLookupTables(message: VersionedMessage): Promise<AddressLookupTableAccount[]> {
+    return Promise.all(message.addressTableLookups.map(async lookup => {
+      const { value } = await this.connection.getAddressLookupTable(lookup.accountKey);
+      if (!value) {
+        throw new Error(`Lookup table ${lookup.accountKey.toBase58()} not found`);
+      }
+      return value;
+    }));
+  }
+
+  /**
+   * Fetches accounts in batches
+   */
+  private async getAccounts(keys: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]> {
+    const infos: (AccountInfo<Buffer> | null)[] = [];
+    for (let i = 0; i < keys.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+      infos.push(...await this.connection.getMultipleAccountsInfo(keys.slice(i, i + MAX_ACCOUNTS_PER_REQUEST)));
+    }
+    return infos;
+  }
+
+  /**
+   * Compares the signer's SOL and token balances before and after the simulation
+   * @param wallet - Signer
+   * @param keys - Signer followed by candidate token accounts
+   * @param preInfos - Accounts before the transaction
+   * @param postInfos - Accounts after the simulated transaction
+   * @returns Balances that changed
+   */
+  private async getBalanceChanges(
+    wallet: PublicKey,
+    keys: PublicKey[],
+    preInfos: (AccountInfo<Buffer> | null)[],
+    postInfos: (AccountInfo<Buffer> | null)[]
+  ): Promise<ISimulatedBalanceChange[]> {
+    const changes: ISimulatedBalanceChange[] = [];
+
+    const preLamports = BigInt(preInfos[0]?.lamports ?? 0);
+    const postLamports = BigInt(postInfos[0]?.lamports ?? 0);
+    if (preLamports !== postLamports) {
+      changes.push({
+        account: wallet.toBase58(),
+        mint: null,
+        decimals: 9,
+        preAmount: preLamports.toString(),
+        postAmount: postLamports.toString(),
+        change: (postLamports - preLamports).toString(),
+      });
+    }
+
+    const tokenChanges: { account: PublicKey; mint: PublicKey; pre: bigint; post: bigint }[] = [];
+    for (let i = 1; i < keys.length; i++) {
+      const pre = decodeTokenAccount(preInfos[i] ?? null);
+      const post = decodeTokenAccount(postInfos[i] ?? null);
+      const owned = (pre ?? post)?.owner.equals(wallet);
+      const mint = (pre ?? post)?.mint;
+      const preAmount = pre?.amount ?? BigInt(0);
+      const postAmount = post?.amount ?? BigInt(0);
+      if (owned && mint && preAmount !== postAmount) {
+        tokenChanges.push({ account: keys[i], mint, pre: preAmount, post: postAmount });
+      }
+    }
+
+    const mintInfos = await this.getAccounts(tokenChanges.map(change => change.mint));
+    tokenChanges.forEach((change, i) => {
+      const mintData = mintInfos[i]?.data;
+      changes.push({
+        account: change.account.toBase58(),
+        mint: change.mint.toBase58(),
+        decimals: mintData ? MintLayout.decode(mintData.subarray(0, MintLayout.span)).decimals : 0,
+        preAmount: change.pre.toString(),
+        postAmount: change.post.toString(),
+        change: (change.post - change.pre).toString(),
+      });
+    });
+
+    return changes;
+  }
+
+  /**
+   * Turns a simulation error into a program error name and a readable message
+   * Anchor programs (e.g. the vault) log their error name and message; otherwise
+   * custom codes are looked up for the CP-AMM, token and system programs
+   * @param err - Error returned by the RPC
+   * @param logs - Simulation logs
+   * @param message - Simulated message
+   * @param accountKeys - Resolved account keys of the message
+   * @returns Decoded error
+   */
+  private decodeError(
+    err: unknown,
+    logs: string[],
+    message: VersionedMessage,
+    accountKeys: MessageAccountKeys
+  ): ISimulationError {
+    if (typeof err === 'string') {
+      return {
+        code: err,
+        message: ERROR_MESSAGES[err] ?? humanize(err),
+        instructionIndex: null,
+        programId: null,
+      };
+    }
+
+    const instructionError = (err as { InstructionError?: [number, unknown] }).InstructionError;
+    if (!instructionError) {
+      return {
+        code: JSON.stringify(err),
+        message: 'Transaction failed',
+        instructionIndex: null,
+        programId: null,
+      };
+    }
+
+    const [instructionIndex, detail] = instructionError;
+    const programIndex = message.compiledInstructions[instructionIndex]?.programIdIndex;
+    const programId = programIndex !== undefined ? accountKeys.get(programIndex) ?? null : null;
+    const decoded = (code: string, fallback: string): ISimulationError => ({
+      code,
+      message: ERROR_MESSAGES[code] ?? fallback,
+      instructionIndex,
+      programId: programId?.toBase58() ?? null,
+    });
+
+    if (typeof detail === 'string') {
+      return decoded(detail, humanize(detail));
+    }
+
+    const custom = (detail as { Custom?: number }).Custom;
+    if (custom === undefined) {
+      return decoded(JSON.stringify(detail), 'Instruction failed');
+    }
+
+    // The last Anchor error log belongs to the failing program
+    for (let i = logs.length - 1; i >= 0; i--) {
+      const match = ANCHOR_ERROR_LOG.exec(logs[i]);
+      if (match) {
+        return decoded(match[1], match[2]);
+      }
+    }
+
+    if (programId?.equals(CP_AMM_PROGRAM_ID)) {
+      const idlError = CpAmmIdl.errors.find(e => e.code === custom);
+      if (idlError) {
+        return decoded(idlError.name, idlError.msg);
+      }
+    }
+    const known = programId?.equals(TOKEN_PROGRAM_ID) || programId?.equals(TOKEN_2022_PROGRAM_ID)
+      ? TOKEN_ERRORS[custom]
+      : programId?.equals(SystemProgram.programId) ? SYSTEM_ERRORS[custom] : undefined;
+    if (known) {
+      return decoded(known[0], known[1]);
+    }
+
+    return decoded(`Custom(${custom})`, `Program error ${custom}`);
+  }
+}
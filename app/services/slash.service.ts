@@ -17,10 +17,11 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Connection, PublicKey } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
 import { getPool } from '../utils/database';
 import { LoggerService } from './logger.service';
+import { RpcPool } from './rpc-pool.service';
 import { initStakingVaultService, StakingVaultService } from './staking-vault.service';
 
 // Staking vault constants
@@ -28,11 +29,7 @@ const STAKING_PROGRAM_ID = new PublicKey("47rZ1jgK7zU6XAgffAfXkDX1JkiiRi4HRPByto
 
 const logger = new LoggerService('slash-service');
 
-// Initialize Solana connection
-const rpcUrl = process.env.HELIUS_API_KEY
-  ? `https://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`
-  : process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
-const connection = new Connection(rpcUrl, 'confirmed');
+const connection = RpcPool.getInstance().getConnection();
 
 // Initialize staking vault service for slash execution
 let stakingVaultService: StakingVaultService | null = null;
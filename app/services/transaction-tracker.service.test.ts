@@ -0,0 +1,181 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Connection, Keypair, SignatureStatus } from '@solana/web3.js';
+import { TransactionTrackerService } from './transaction-tracker.service';
+import { RpcPool } from './rpc-pool.service';
+import { Commitment } from '../types/execution.interface';
+import { TrackedTransactionStatus } from '../types/transaction-tracker.interface';
+
+const query = vi.fn();
+vi.mock('../utils/database', () => ({ getPool: () => ({ query }) }));
+
+const RAW = Buffer.from([1, 2, 3]);
+const LAST_VALID = 1000;
+
+/** Connection whose signature status and block height each test scripts */
+function mockConnection() {
+  return {
+    sendRawTransaction: vi.fn(async () => 'sig-1'),
+    getSignatureStatuses: vi.fn(async (_signatures: string[]) => ({ value: [null as SignatureStatus | null] })),
+    getBlockHeight: vi.fn(async () => LAST_VALID - 10),
+    getNonce: vi.fn(async () => ({ nonce: 'nonce-1' })),
+  };
+}
+
+const landed = (confirmationStatus: SignatureStatus['confirmationStatus'], err: unknown = null): SignatureStatus =>
+  ({ slot: 42, confirmations: 1, err, confirmationStatus } as SignatureStatus);
+
+describe('TransactionTrackerService', () => {
+  let connection: ReturnType<typeof mockConnection>;
+  let tracker: TransactionTrackerService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    query.mockReset();
+    query.mockResolvedValue({ rows: [], rowCount: 1 });
+    connection = mockConnection();
+    vi.spyOn(RpcPool, 'getInstance').mockReturnValue({ getConnection: () => connection } as unknown as RpcPool);
+    (TransactionTrackerService as unknown as { instance: TransactionTrackerService | null }).instance = null;
+    tracker = TransactionTrackerService.getInstance();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  /** Submits and lets the rebroadcast loop run to completion */
+  async function submit(nonce: { nonce: string } | null = null) {
+    const result = tracker.submit(
+      connection as unknown as Connection,
+      RAW,
+      LAST_VALID,
+      Commitment.Confirmed,
+      {},
+      null,
+      nonce && { nonceAccount: Keypair.generate().publicKey, nonce: nonce.nonce }
+    );
+    await vi.runAllTimersAsync();
+    return result;
+  }
+
+  it('rebroadcasts until the transaction confirms', async () => {
+    connection.getSignatureStatuses
+      .mockResolvedValueOnce({ value: [null] })
+      .mockResolvedValueOnce({ value: [landed('processed')] })
+      .mockResolvedValueOnce({ value: [landed('confirmed')] });
+
+    const tracked = await submit();
+
+    expect(tracked).toMatchObject({ status: TrackedTransactionStatus.Confirmed, broadcasts: 2, confirmedSlot: 42 });
+    expect(connection.sendRawTransaction).toHaveBeenLastCalledWith(RAW, { skipPreflight: true, maxRetries: 0 });
+    const [sql, params] = query.mock.calls.at(-1) as [string, unknown[]];
+    expect(sql).toContain('UPDATE qm_transactions');
+    expect(params).toEqual(['sig-1', TrackedTransactionStatus.Confirmed, 2, 42, null]);
+  });
+
+  it('records transactions that land with an error as failed', async () => {
+    connection.getSignatureStatuses.mockResolvedValue({ value: [landed('confirmed', { InstructionError: [0, 'Custom'] })] });
+
+    const tracked = await submit();
+
+    expect(tracked.status).toBe(TrackedTransactionStatus.Failed);
+    expect(tracked.error).toContain('InstructionError');
+  });
+
+  it('expires once the block height passes the last valid height', async () => {
+    connection.getBlockHeight.mockResolvedValue(LAST_VALID + 1);
+
+    const tracked = await submit();
+
+    expect(tracked).toMatchObject({
+      status: TrackedTransactionStatus.Expired,
+      broadcasts: 1,
+      error: 'Blockhash expired before the transaction landed'
+    });
+    expect(connection.getSignatureStatuses).toHaveBeenLastCalledWith(['sig-1'], { searchTransactionHistory: true });
+  });
+
+  it('does not expire a transaction that landed just before its blockhash ran out', async () => {
+    connection.getBlockHeight.mockResolvedValue(LAST_VALID + 1);
+    connection.getSignatureStatuses
+      .mockResolvedValueOnce({ value: [null] })
+      .mockResolvedValueOnce({ value: [landed('confirmed')] });
+
+    const tracked = await submit();
+
+    expect(tracked.status).toBe(TrackedTransactionStatus.Confirmed);
+  });
+
+  it('expires durable-nonce transactions once the nonce has moved, whatever the block height', async () => {
+    connection.getBlockHeight.mockResolvedValue(LAST_VALID + 1000);
+    connection.getNonce
+      .mockResolvedValueOnce({ nonce: 'nonce-1' })
+      .mockResolvedValueOnce({ nonce: 'nonce-2' });
+
+    const tracked = await submit({ nonce: 'nonce-1' });
+
+    expect(tracked).toMatchObject({
+      status: TrackedTransactionStatus.Expired,
+      broadcasts: 2,
+      error: 'Nonce advanced before the transaction landed'
+    });
+    expect(connection.getBlockHeight).not.toHaveBeenCalled();
+  });
+
+  it('gives up when the outcome cannot be read before the deadline', async () => {
+    connection.getSignatureStatuses.mockRejectedValue(new Error('rpc down'));
+
+    const result = tracker.submit(connection as unknown as Connection, RAW, LAST_VALID, Commitment.Confirmed);
+    const assertion = expect(result).rejects.toThrow('was not confirmed within 180s');
+    await vi.runAllTimersAsync();
+    await assertion;
+  });
+
+  it('settles pending transactions left by a restart', async () => {
+    query.mockResolvedValueOnce({
+      rows: ['landed', 'expired', 'unknown'].map(signature => ({
+        signature,
+        status: 'pending',
+        last_valid_block_height: signature === 'unknown' ? String(LAST_VALID + 100) : String(LAST_VALID),
+        broadcasts: 1,
+        rebuilt_from: null,
+        nonce_account: null,
+        nonce: null,
+        confirmed_slot: null,
+        error: null,
+      }))
+    });
+    connection.getBlockHeight.mockResolvedValue(LAST_VALID + 1);
+    connection.getSignatureStatuses.mockImplementation(async ([signature]: string[]) => ({
+      value: [signature === 'landed' ? landed('finalized') : null]
+    }));
+
+    const settled = await tracker.reconcilePending();
+
+    expect(settled).toBe(2);
+    const updates = query.mock.calls.slice(1).map(([, params]) => (params as unknown[]).slice(0, 2));
+    expect(updates).toEqual([
+      ['landed', TrackedTransactionStatus.Confirmed],
+      ['expired', TrackedTransactionStatus.Expired],
+    ]);
+  });
+});
@@ -0,0 +1,296 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Connection, PublicKey, SendOptions, SignatureStatus } from '@solana/web3.js';
+import { getPool } from '../utils/database';
+import { LoggerService } from './logger.service';
+import { RpcPool } from './rpc-pool.service';
+import { Commitment } from '../types/execution.interface';
+import { IDurableNonce, ITrackedTransaction, TrackedTransactionStatus } from '../types/transaction-tracker.interface';
+
+/** How often an unconfirmed transaction is checked and resent */
+const REBROADCAST_INTERVAL_MS = 2000;
+/** Give up waiting after this long even if the chain can't be read (blockhashes live ~90s) */
+const MAX_TRACKING_MS = 3 * 60 * 1000;
+
+const COMMITMENT_RANK: Record<string, number> = {
+  [Commitment.Processed]: 0,
+  [Commitment.Confirmed]: 1,
+  [Commitment.Finalized]: 2,
+};
+
+/**
+ * Whether a signature status has reached the commitment level
+ */
+function hasReached(status: SignatureStatus, commitment: Commitment): boolean {
+  return COMMITMENT_RANK[status.confirmationStatus ?? Commitment.Processed] >= COMMITMENT_RANK[commitment];
+}
+
+/**
+ * Tracks submitted transactions until they confirm or their blockhash expires
+ * Durable-nonce transactions don't expire by block height; they count as expired once
+ * their nonce has been advanced without them landing.
+ * Unconfirmed transactions are resent every couple of seconds, and every outcome is
+ * kept in qm_transactions. Persistence is best-effort: without a database the
+ * tracker still confirms and rebroadcasts.
+ */
+export class TransactionTrackerService {
+  private static instance: TransactionTrackerService | null = null;
+  private connection: Connection;               // For reconciling after a restart
+  private logger: LoggerService;
+
+  private constructor() {
+    this.connection = RpcPool.getInstance().getConnection();
+    this.logger = new LoggerService('api').createChild('transaction-tracker');
+  }
+
+  public static getInstance(): TransactionTrackerService {
+    if (!TransactionTrackerService.instance) {
+      TransactionTrackerService.instance = new TransactionTrackerService();
+    }
+    return TransactionTrackerService.instance;
+  }
+
+  /**
+   * Send a signed transaction and rebroadcast it until it confirms or expires
+   * @param connection - Connection to send through
+   * @param rawTransaction - Serialized signed transaction
+   * @param lastValidBlockHeight - Last block height the transaction's blockhash is valid for
+   * @param commitment - Commitment level that counts as confirmed
+   * @param sendOptions - Options for the first send (rebroadcasts skip preflight)
+   * @param rebuiltFrom - Signature of the expired transaction this one replaces (optional)
+   * @param durableNonce - Nonce the transaction was signed with, if it uses one (lastValidBlockHeight is then ignored)
+   * @returns The tracked outcome (never Pending)
+   * @throws Error if the first send is rejected (e.g. preflight failure) or the outcome can't be determined in time
+   */
+  async submit(
+    connection: Connection,
+    rawTransaction: Buffer | Uint8Array,
+    lastValidBlockHeight: number,
+    commitment: Commitment,
+    sendOptions: SendOptions = {},
+    rebuiltFrom: string | null = null,
+    durableNonce: IDurableNonce | null = null
+  ): Promise<ITrackedTransaction> {
+    const signature = await connection.sendRawTransaction(rawTransaction, sendOptions);
+    const tracked: ITrackedTransaction = {
+      signature,
+      status: TrackedTransactionStatus.Pending,
+      lastValidBlockHeight,
+      broadcasts: 1,
+      rebuiltFrom,
+      durableNonce,
+      confirmedSlot: null,
+      error: null,
+    };
+    await this.insert(tracked);
+
+    const deadline = Date.now() + MAX_TRACKING_MS;
+    while (tracked.status === TrackedTransactionStatus.Pending) {
+      if (Date.now() > deadline) {
+        await this.update(tracked);
+        throw new Error(`Transaction ${signature} was not confirmed within ${MAX_TRACKING_MS / 1000}s`);
+      }
+      await new Promise(resolve => setTimeout(resolve, REBROADCAST_INTERVAL_MS));
+
+      try {
+        await this.poll(connection, tracked, rawTransaction, commitment);
+      } catch (error) {
+        // RPC hiccups don't decide the outcome; keep polling until the deadline
+        this.logger.warn('Failed to check transaction status', {
+          signature,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    await this.update(tracked);
+    if (tracked.status === TrackedTransactionStatus.Expired || tracked.broadcasts > 1) {
+      this.logger.info('Transaction tracking finished', {
+        signature,
+        status: tracked.status,
+        broadcasts: tracked.broadcasts
+      });
+    }
+    return tracked;
+  }
+
+  /**
+   * Settle transactions left pending by a restart: confirmed, failed or expired
+   * @returns Number of transactions settled
+   */
+  async reconcilePending(): Promise<number> {
+    const result = await getPool().query(
+      `SELECT * FROM qm_transactions WHERE status = 'pending' ORDER BY created_at`
+    );
+    if (result.rows.length === 0) {
+      return 0;
+    }
+
+    const blockHeight = await this.connection.getBlockHeight(Commitment.Finalized);
+    let settled = 0;
+    for (const row of result.rows) {
+      const tracked = this.rowToTransaction(row);
+      const { value: [status] } = await this.connection.getSignatureStatuses([tracked.signature], {
+        searchTransactionHistory: true
+      });
+
+      if (status) {
+        this.settle(tracked, status);
+      } else if (await this.hasExpired(this.connection, tracked, blockHeight, Commitment.Finalized)) {
+        this.expire(tracked);
+      } else {
+        continue;
+      }
+      await this.update(tracked);
+      settled++;
+    }
+
+    this.logger.info('Reconciled pending transactions', {
+      pending: result.rows.length,
+      settled
+    });
+    return settled;
+  }
+
+  /**
+   * Check a pending transaction once: settle it, expire it, or resend it
+   */
+  private async poll(
+    connection: Connection,
+    tracked: ITrackedTransaction,
+    rawTransaction: Buffer | Uint8Array,
+    commitment: Commitment
+  ): Promise<void> {
+    const { value: [status] } = await connection.getSignatureStatuses([tracked.signature]);
+    if (status) {
+      // Landed; wait for the commitment level without resending
+      if (hasReached(status, commitment)) {
+        this.settle(tracked, status);
+      }
+      return;
+    }
+
+    const blockHeight = tracked.durableNonce ? null : await connection.getBlockHeight(commitment);
+    if (await this.hasExpired(connection, tracked, blockHeight, commitment)) {
+      // One last look in case it landed since the previous check
+      const { value: [finalStatus] } = await connection.getSignatureStatuses([tracked.signature], {
+        searchTransactionHistory: true
+      });
+      if (!finalStatus) {
+        this.expire(tracked);
+      } else if (hasReached(finalStatus, commitment)) {
+        this.settle(tracked, finalStatus);
+      }
+      return;
+    }
+
+    await connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 });
+    tracked.broadcasts++;
+  }
+
+  /**
+   * Whether an unlanded transaction can no longer land
+   * Blockhash transactions expire past their last valid block height; durable-nonce
+   * transactions once the nonce account holds a different nonce
+   * @param blockHeight - Current block height (unused for durable-nonce transactions)
+   */
+  private async hasExpired(
+    connection: Connection,
+    tracked: ITrackedTransaction,
+    blockHeight: number | null,
+    commitment: Commitment
+  ): Promise<boolean> {
+    if (tracked.durableNonce) {
+      const current = await connection.getNonce(tracked.durableNonce.nonceAccount, commitment);
+      return current?.nonce !== tracked.durableNonce.nonce;
+    }
+    return blockHeight !== null && blockHeight > tracked.lastValidBlockHeight;
+  }
+
+  private expire(tracked: ITrackedTransaction): void {
+    tracked.status = TrackedTransactionStatus.Expired;
+    tracked.error = tracked.durableNonce
+      ? 'Nonce advanced before the transaction landed'
+      : 'Blockhash expired before the transaction landed';
+  }
+
+  private settle(tracked: ITrackedTransaction, status: SignatureStatus): void {
+    tracked.status = status.err ? TrackedTransactionStatus.Failed : TrackedTransactionStatus.Confirmed;
+    tracked.error = status.err ? `Transaction failed on-chain: ${JSON.stringify(status.err)}` : null;
+    tracked.confirmedSlot = status.slot;
+  }
+
+  private async insert(tracked: ITrackedTransaction): Promise<void> {
+    try {
+      await getPool().query(
+        `INSERT INTO qm_transactions (
+           signature, status, last_valid_block_height, broadcasts, rebuilt_from, nonce_account, nonce
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (signature) DO NOTHING`,
+        [
+          tracked.signature,
+          tracked.status,
+          tracked.lastValidBlockHeight,
+          tracked.broadcasts,
+          tracked.rebuiltFrom,
+          tracked.durableNonce?.nonceAccount.toBase58() ?? null,
+          tracked.durableNonce?.nonce ?? null
+        ]
+      );
+    } catch (error) {
+      this.logger.warn('Failed to record submitted transaction', {
+        signature: tracked.signature,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async update(tracked: ITrackedTransaction): Promise<void> {
+    try {
+      await getPool().query(
+        `UPDATE qm_transactions
+         SET status = $2, broadcasts = $3, confirmed_slot = $4, error = $5
+         WHERE signature = $1`,
+        [tracked.signature, tracked.status, tracked.broadcasts, tracked.confirmedSlot, tracked.error]
+      );
+    } catch (error) {
+      this.logger.warn('Failed to record transaction outcome', {
+        signature: tracked.signature,
+        status: tracked.status,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private rowToTransaction(row: any): ITrackedTransaction {
+    return {
+      signature: row.signature,
+      status: row.status as TrackedTransactionStatus,
+      lastValidBlockHeight: Number(row.last_valid_block_height),
+      broadcasts: row.broadcasts,
+      rebuiltFrom: row.rebuilt_from,
+      durableNonce: row.nonce_account
+        ? { nonceAccount: new PublicKey(row.nonce_account), nonce: row.nonce }
+        : null,
+      confirmedSlot: row.confirmed_slot !== null ? Number(row.confirmed_slot) : null,
+      error: row.error,
+    };
+  }
+}
@@ -17,9 +17,81 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { ITWAPOracle, ITWAPConfig, ITWAPOracleSerializedData } from './types/twap-oracle.interface';
-import { IAMM } from './types/amm.interface';
+import {
+  ITWAPOracle,
+  ITWAPConfig,
+  ITWAPOracleSerializedData,
+  ITWAPResolution,
+  TWAPResolutionMode,
+  ITWAPClampConfig,
+  ITWAPClampStats,
+  ITWAPPriceSource,
+  TWAPClock,
+} from './types/twap-oracle.interface';
 import { Decimal } from 'decimal.js';
+import { createTWAPClampStrategy, resolveClampConfig, TWAPClampStrategy } from './utils/twap-clamp';
+
+/**
+ * Resolves a winning market from a set of TWAPs
+ * Shared by the oracle and by read-only endpoints that only have raw TWAP values
+ * @param twaps - TWAP per market (index 0 is the status quo market)
+ * @param passThresholdBps - Margin in basis points a challenger must beat status quo by
+ * @param mode - Resolution mode (defaults to Highest)
+ * @returns Resolution with winning index and margin details
+ */
+export function resolveTWAPOutcome(
+  twaps: Decimal.Value[],
+  passThresholdBps: number,
+  mode: TWAPResolutionMode = TWAPResolutionMode.Highest
+): ITWAPResolution {
+  if (twaps.length === 0) {
+    throw new Error('Cannot resolve outcome without TWAPs');
+  }
+
+  const values = twaps.map(twap => new Decimal(twap));
+  const statusQuoTwap = values[0];
+
+  // Highest non-default market; ties keep the lower index
+  let leadingChallengerIndex: number | null = null;
+  for (let i = 1; i < values.length; i++) {
+    if (leadingChallengerIndex === null || values[i].gt(values[leadingChallengerIndex])) {
+      leadingChallengerIndex = i;
+    }
+  }
+
+  const marginBps = leadingChallengerIndex !== null && statusQuoTwap.gt(0)
+    ? values[leadingChallengerIndex].sub(statusQuoTwap).div(statusQuoTwap).mul(10000).toNumber()
+    : null;
+
+  let winningIndex: number;
+  let requiredMarginBps: number;
+
+  if (mode === TWAPResolutionMode.StatusQuoThreshold) {
+    requiredMarginBps = passThresholdBps;
+    const requiredTwap = statusQuoTwap.mul(new Decimal(10000).add(passThresholdBps)).div(10000);
+    winningIndex = leadingChallengerIndex !== null && values[leadingChallengerIndex].gt(requiredTwap)
+      ? leadingChallengerIndex
+      : 0;
+  } else {
+    requiredMarginBps = 0;
+    winningIndex = 0;
+    for (let i = 1; i < values.length; i++) {
+      if (values[i].gt(values[winningIndex])) {
+        winningIndex = i;
+      }
+    }
+  }
+
+  return {
+    mode,
+    winningIndex,
+    winningTwap: values[winningIndex],
+    leadingChallengerIndex,
+    statusQuoTwap,
+    marginBps,
+    requiredMarginBps,
+  };
+}
 
 
 /**
@@ -33,6 +105,8 @@ export class TWAPOracle implements ITWAPOracle {
   public readonly twapStartDelay: number;
   public readonly passThresholdBps: number;
   public readonly minUpdateInterval: number;
+  public readonly resolutionMode: TWAPResolutionMode;
+  public readonly clamp: ITWAPClampConfig | null;
   public readonly createdAt: number;
   public readonly finalizedAt: number;
   public readonly markets: number;
@@ -40,7 +114,10 @@ export class TWAPOracle implements ITWAPOracle {
   private _observations: Decimal[];
   private _aggregations: Decimal[];
   private _lastUpdateTime: number;
-  private _AMMs: IAMM[] | null = null;
+  private _clampStats: ITWAPClampStats[];
+  private _clampStrategy: TWAPClampStrategy;
+  private _clock: TWAPClock;
+  private _AMMs: ITWAPPriceSource[] | null = null;
 
   /**
    * Creates a new TWAP Oracle instance
@@ -49,13 +126,15 @@ export class TWAPOracle implements ITWAPOracle {
    * @param markets - Number of markets
    * @param createdAt - Proposal creation timestamp
    * @param finalizedAt - Proposal finalization timestamp
+   * @param clock - Time source in milliseconds (defaults to Date.now)
    */
   constructor(
     proposalId: number,
     config: ITWAPConfig,
     markets: number,
     createdAt: number,
-    finalizedAt: number
+    finalizedAt: number,
+    clock: TWAPClock = Date.now
   ) {
     this.proposalId = proposalId;
     this.initialTwapValue = config.initialTwapValue;
@@ -63,22 +142,34 @@ export class TWAPOracle implements ITWAPOracle {
     this.twapStartDelay = config.twapStartDelay;
     this.passThresholdBps = config.passThresholdBps;
     this.minUpdateInterval = config.minUpdateInterval;
+    this.resolutionMode = config.resolutionMode ?? TWAPResolutionMode.Highest;
+    this.clamp = resolveClampConfig(config.clamp, config.twapMaxObservationChangePerUpdate);
+    this._clampStrategy = createTWAPClampStrategy(this.clamp);
     this.createdAt = createdAt;
     this.finalizedAt = finalizedAt;
     this.markets = markets;
+    this._clock = clock;
 
     // Initialize observations and aggregations with the initial value
     this._observations = Array(markets).fill(config.initialTwapValue);
     this._aggregations = Array(markets).fill(null).map(() => new Decimal(0));
     this._lastUpdateTime = createdAt;
+    this._clampStats = Array(markets).fill(null).map(() => TWAPOracle.emptyClampStats());
+  }
+
+  /**
+   * Creates an empty clamp stats record
+   */
+  private static emptyClampStats(): ITWAPClampStats {
+    return { updates: 0, clamped: 0, lastClampedAt: null, maxSuppressedBps: 0 };
   }
 
   /**
    * Sets the AMMs for the oracle to track
    * Should be in-order of the markets
-   * @param AMMs - Array of AMM instances
+   * @param AMMs - Array of AMM instances (or other price sources)
    */
-  setAMMs(AMMs: IAMM[]): void {
+  setAMMs(AMMs: ITWAPPriceSource[]): void {
     if (this._AMMs) {
       throw new Error('AMMs have already been set');
     }
@@ -91,10 +182,10 @@ export class TWAPOracle implements ITWAPOracle {
   /**
    * Updates the TWAP aggregations based on current AMM prices
    * Respects start delay and finalization time
-   * Limited by twapMaxObservationChangePerUpdate per call
+   * Observation movement is limited by the clamp strategy per call
    */
   async crankTWAP(): Promise<void> {
-    const currentTime = Date.now();
+    const currentTime = this._clock();
     
     // Check if we're after finalization
     if (currentTime >= this.finalizedAt) {
@@ -115,23 +206,23 @@ export class TWAPOracle implements ITWAPOracle {
       this._AMMs.map(amm => amm.fetchPrice())
     );
 
-    // Update observations with optional clamping to max change
-    const maxChange = this.twapMaxObservationChangePerUpdate;
-    
-    if (maxChange === null) {
-      // No max change - set observations directly to prices
-      this._observations = prices.map(price => new Decimal(price));
-    } else {
-      // Update observations with clamping
-      for (let i = 0; i < this.markets; i++) {
-        if (prices[i] > this._observations[i]) {
-          const maxObservation = this._observations[i].add(maxChange);
-          this._observations[i] = Decimal.min(prices[i], maxObservation);
-        } else {
-          const minObservation = Decimal.max(0, this._observations[i].sub(maxChange));
-          this._observations[i] = Decimal.max(prices[i], minObservation);
+    // Update observations through the clamp strategy, recording how often it fires
+    for (let i = 0; i < this.markets; i++) {
+      const price = new Decimal(prices[i]);
+      const observation = this._clampStrategy(new Decimal(this._observations[i]), price);
+      const stats = this._clampStats[i];
+      stats.updates++;
+
+      if (!observation.eq(price)) {
+        stats.clamped++;
+        stats.lastClampedAt = currentTime;
+        if (price.gt(0)) {
+          const suppressedBps = price.sub(observation).abs().div(price).mul(10000).toNumber();
+          stats.maxSuppressedBps = Math.max(stats.maxSuppressedBps, suppressedBps);
         }
       }
+
+      this._observations[i] = observation;
     }
 
     // Update aggregations if we're past the start delay
@@ -152,6 +243,14 @@ export class TWAPOracle implements ITWAPOracle {
     this._lastUpdateTime = currentTime;
   }
 
+  /**
+   * Gets per-market clamp statistics
+   * @returns Array of clamp stats (one per market)
+   */
+  getClampStats(): ITWAPClampStats[] {
+    return this._clampStats.map(stats => ({ ...stats }));
+  }
+
   /**
    * @returns Object containing TWAPs and aggregations
    * @throws Error if AMMs are not set or no time has passed
@@ -165,7 +264,7 @@ export class TWAPOracle implements ITWAPOracle {
     }
 
     const twapStartTime = this.createdAt + this.twapStartDelay;
-    const currentTime = Math.min(Date.now(), this.finalizedAt);
+    const currentTime = Math.min(this._clock(), this.finalizedAt);
 
     // Calculate time passed since TWAP started
     if (currentTime <= twapStartTime) {
@@ -208,6 +307,21 @@ export class TWAPOracle implements ITWAPOracle {
     return twaps.indexOf(twaps.reduce((max, twap) => twap.gt(max) ? twap : max, twaps[0]));
   }
 
+  /**
+   * Resolves the winning market according to the configured resolution mode
+   * In StatusQuoThreshold mode a challenger must beat market 0 by passThresholdBps
+   * @returns Resolution with winning index and margin details
+   * @throws Error if AMMs are not set
+   */
+  resolveOutcome(): ITWAPResolution {
+    if (!this._AMMs) {
+      throw new Error('AMMs not set - call setAMMs first');
+    }
+
+    const { twaps } = this.fetchTWAPs();
+    return resolveTWAPOutcome(twaps, this.passThresholdBps, this.resolutionMode);
+  }
+
   /**
    * Serializes the TWAP oracle state for persistence
    * @returns Serialized TWAP oracle data that can be saved to database
@@ -221,6 +335,8 @@ export class TWAPOracle implements ITWAPOracle {
       twapStartDelay: this.twapStartDelay,
       passThresholdBps: this.passThresholdBps,
       minUpdateInterval: this.minUpdateInterval,
+      resolutionMode: this.resolutionMode,
+      clamp: this.clamp,
       createdAt: this.createdAt,
       finalizedAt: this.finalizedAt,
 
@@ -228,6 +344,7 @@ export class TWAPOracle implements ITWAPOracle {
       observations: this._observations,
       aggregations: this._aggregations,
       lastUpdateTime: this._lastUpdateTime,
+      clampStats: this.getClampStats(),
 
       // Markets
       markets: this.markets,
@@ -239,17 +356,20 @@ export class TWAPOracle implements ITWAPOracle {
   /**
    * Deserializes TWAP oracle data and restores the oracle state
    * @param data - Serialized TWAP oracle data from database
+   * @param clock - Time source in milliseconds (defaults to Date.now)
    * @returns Restored TWAP oracle instance
    * @note AMMs must be set using setAMMs() after deserialization
    */
-  static deserialize(data: ITWAPOracleSerializedData): TWAPOracle {
+  static deserialize(data: ITWAPOracleSerializedData, clock: TWAPClock = Date.now): TWAPOracle {
     // Create configuration from serialized data
     const twapConfig: ITWAPConfig = {
       initialTwapValue: data.initialTwapValue,
       twapMaxObservationChangePerUpdate: data.twapMaxObservationChangePerUpdate,
       twapStartDelay: data.twapStartDelay,
       passThresholdBps: data.passThresholdBps,
-      minUpdateInterval: data.minUpdateInterval
+      minUpdateInterval: data.minUpdateInterval,
+      resolutionMode: data.resolutionMode,
+      clamp: data.clamp,
     };
 
     // Create a new TWAPOracle instance with the configuration
@@ -258,7 +378,8 @@ export class TWAPOracle implements ITWAPOracle {
       twapConfig,
       data.markets,
       data.createdAt,
-      data.finalizedAt
+      data.finalizedAt,
+      clock
     );
 
     // Restore the internal state
@@ -266,6 +387,9 @@ export class TWAPOracle implements ITWAPOracle {
     oracle._observations = data.observations.map((obs: any) => new Decimal(obs));
     oracle._aggregations = data.aggregations.map((agg: any) => new Decimal(agg));
     oracle._lastUpdateTime = data.lastUpdateTime;
+    if (data.clampStats) {
+      oracle._clampStats = data.clampStats.map(stats => ({ ...stats }));
+    }
 
     // AMMs will be set via setAMMs() method after deserialization
     // since they are references to external objects
@@ -18,7 +18,7 @@
  */
 
 import { BN } from "@coral-xyz/anchor";
-import { Keypair, PublicKey, Transaction } from "@solana/web3.js";
+import { Keypair, PublicKey, Transaction, TransactionInstruction, VersionedTransaction } from "@solana/web3.js";
 import { Decimal } from "decimal.js";
 import { IExecutionService } from './execution.interface';
 import { LoggerService } from '@app/services/logger.service';
@@ -46,6 +46,7 @@ export interface IAMM {
   pool?: PublicKey;                   // Pool address (set after initialization)
   position?: PublicKey;               // Position account address
   positionNft?: PublicKey;            // Position NFT mint address
+  lookupTable?: PublicKey;            // Address lookup table for v0 swap transactions
 
   /**
    * Builds a transaction for initializing the AMM pool with initial liquidity
@@ -99,6 +100,13 @@ export interface IAMM {
    * @throws Error if already finalized or pool uninitialized
    */
   removeLiquidity(): Promise<string>;
+
+  /**
+   * Reconciles local state with the chain after an interrupted liquidity removal
+   * Marks the AMM finalized if its position account no longer exists on-chain
+   * @returns True if the AMM is finalized
+   */
+  syncLiquidityState(): Promise<boolean>;
   
   /**
    * Gets a quote for swapping tokens on the AMM
@@ -121,6 +129,41 @@ export interface IAMM {
     priceImpact: number;
   }>;
   
+  /**
+   * Gets the input needed to receive an exact output amount
+   * @param isBaseToQuote - Direction of swap (true: base->quote, false: quote->base)
+   * @param amountOut - Amount of output tokens wanted
+   * @param slippageBps - Slippage tolerance in basis points (default: 50 = 0.5%)
+   * @returns Input amount, slippage-bounded maximum input, fees and price impact
+   * @throws Error if pool is finalized or uninitialized
+   */
+  getQuoteExactOut(
+    isBaseToQuote: boolean,
+    amountOut: BN,
+    slippageBps?: number
+  ): Promise<{
+    amountIn: BN;
+    maxAmountIn: BN;
+    totalFee: BN;
+    priceImpact: number;
+  }>;
+
+  /**
+   * Builds the instructions for a swap without wrapping them in a transaction
+   * @param user - User's public key who is swapping tokens
+   * @param isBaseToQuote - Direction of swap (true: base->quote, false: quote->base)
+   * @param amountIn - Amount of input tokens to swap
+   * @param slippageBps - Slippage tolerance in basis points (default: 50 = 0.5%)
+   * @returns Swap instructions and the quote they were bounded by
+   * @throws Error if pool is finalized or uninitialized
+   */
+  buildSwapInstructions(
+    user: PublicKey,
+    isBaseToQuote: boolean,
+    amountIn: BN,
+    slippageBps?: number
+  ): Promise<ISwapInstructions>;
+
   /**
    * Builds a transaction for swapping tokens on the AMM
    * @param user - User's public key who is swapping tokens
@@ -135,15 +178,58 @@ export interface IAMM {
     isBaseToQuote: boolean,
     amountIn: BN,
     slippageBps?: number
-  ): Promise<Transaction>;
+  ): Promise<VersionedTransaction>;
+
+  /**
+   * Addresses every swap on this pool references, for the proposal's lookup table
+   * @returns Pool, vault, mint and program addresses
+   * @throws Error if the pool is not initialized
+   */
+  getLookupTableAddresses(): Promise<PublicKey[]>;
   
   /**
    * Executes a pre-signed swap transaction
-   * @param tx - Transaction already signed by user
+   * @param tx - Legacy or v0 transaction already signed by user
    * @returns Transaction signature
    * @throws Error if transaction execution fails
    */
-  executeSwapTx(tx: Transaction): Promise<string>;
+  executeSwapTx(tx: Transaction | VersionedTransaction): Promise<string>;
+
+  /**
+   * Reads a confirmed swap against this pool from the chain
+   * Amounts come from the pool vault balance changes, the trader from the swap instruction
+   * @param signature - Signature of a confirmed transaction
+   * @returns The swap as executed on-chain
+   * @throws Error if the transaction is missing, failed, or doesn't contain exactly one swap on this pool
+   */
+  fetchSwapResult(signature: string): Promise<ISwapResult>;
+
+  /**
+   * Decodes the swap in a signed, unsent transaction against this pool
+   * @param tx - Legacy or v0 transaction to inspect (v0 may only use the proposal's lookup table)
+   * @returns Trader, direction and bounds of the swap
+   * @throws Error if the transaction uses another lookup table or doesn't contain exactly one
+   * swap on this pool from the trader's own token accounts
+   */
+  decodeSwapTx(tx: VersionedTransaction): Promise<ISignedSwap>;
+
+  /**
+   * Builds a swap that spends an owner's tokens through a token delegate
+   * @param owner - Owner of the input and output token accounts
+   * @param delegate - Approved delegate of the owner's input token account
+   * @param isBaseToQuote - Direction of swap (true: base->quote, false: quote->base)
+   * @param amountIn - Amount of input tokens to swap
+   * @param minAmountOut - Minimum output enforced on-chain
+   * @returns Transaction with blockhash and fee payer set, ready for the delegate's signature
+   * @throws Error if pool is finalized or uninitialized
+   */
+  buildDelegatedSwapTx(
+    owner: PublicKey,
+    delegate: PublicKey,
+    isBaseToQuote: boolean,
+    amountIn: BN,
+    minAmountOut: BN
+  ): Promise<Transaction>;
 
   /**
    * Serializes the AMM state for persistence
@@ -152,6 +238,36 @@ export interface IAMM {
   serialize(): IAMMSerializedData;
 }
 
+/**
+ * Swap instructions with the quote that bounds them (raw token amounts)
+ */
+export interface ISwapInstructions {
+  instructions: TransactionInstruction[];
+  swapOutAmount: BN;                  // Expected output
+  minSwapOutAmount: BN;               // Output enforced on-chain after slippage
+  priceImpact: number;
+}
+
+/**
+ * A swap as executed on-chain (raw token amounts)
+ */
+export interface ISwapResult {
+  trader: PublicKey;                  // Payer of the swap instruction
+  isBaseToQuote: boolean;             // Direction, from which vault received tokens
+  amountIn: BN;                       // Tokens received by the input vault
+  amountOut: BN;                      // Tokens paid out by the output vault
+}
+
+/**
+ * A swap in a signed transaction that hasn't been sent (raw token amounts)
+ */
+export interface ISignedSwap {
+  trader: PublicKey;                  // Payer of the swap instruction, owner of its input account
+  isBaseToQuote: boolean;             // Direction, from the input token account
+  amountIn: BN;                       // Exact input amount
+  minAmountOut: BN;                   // Output enforced on-chain
+}
+
 /**
  * Serialized AMM data structure for persistence
  */
@@ -167,6 +283,7 @@ export interface IAMMSerializedData {
   pool?: string;
   position?: string;
   positionNft?: string;
+  lookupTable?: string;               // Address lookup table for v0 swaps
 }
 
 /**
@@ -0,0 +1,77 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Permissions that can be granted to an API key
+ */
+export enum ApiKeyScope {
+  CreateProposal = 'create-proposal',           // Create proposals
+  Finalize = 'finalize',                        // Finalize and resume proposals
+  ModeratorAdmin = 'moderator-admin',           // Moderators, jobs, cancellation, key management
+}
+
+/**
+ * An API key as stored in qm_api_keys (the plaintext key is never stored)
+ */
+export interface IApiKey {
+  id: number;
+  name: string;
+  keyPrefix: string;                            // First characters of the key, for identification
+  scopes: ApiKeyScope[];
+  expiresAt: number | null;                     // Null = never expires
+  revokedAt: number | null;
+  lastUsedAt: number | null;
+  rotatedFromId: number | null;                 // Key this one replaced
+  createdAt: number;
+}
+
+/**
+ * A newly issued API key - the plaintext key is only returned here
+ */
+export interface IIssuedApiKey {
+  key: string;
+  apiKey: IApiKey;
+}
+
+/**
+ * The credential a request was authenticated with
+ */
+export interface IAuthenticatedKey {
+  id: number | null;                            // Null for the API_KEY environment key
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * A wallet session created from a signed Solana message
+ */
+export interface IWalletSession {
+  id: number;
+  wallet: string;
+  expiresAt: number;
+  createdAt: number;
+}
+
+/**
+ * A newly issued wallet session - the plaintext token is only returned here
+ */
+export interface IIssuedWalletSession {
+  token: string;
+  session: IWalletSession;
+}
@@ -17,7 +17,15 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Transaction, Keypair, Connection } from '@solana/web3.js';
+import {
+  Transaction,
+  Keypair,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  VersionedTransaction,
+  AddressLookupTableAccount
+} from '@solana/web3.js';
 
 /**
  * Interface for Execution Service
@@ -32,14 +40,14 @@ export interface IExecutionService {
   config: IExecutionConfig; // Configuration for the service
 
   /**
-   * Executes a transaction on Solana
-   * @param transaction - Transaction to execute
+   * Executes a transaction on Solana, rebroadcasting it until it confirms or expires
+   * @param transaction - Legacy or v0 transaction to execute (v0 messages already carry their blockhash)
    * @param signer - Optional keypair to sign the transaction (if not already signed)
    * @param additionalSigners - Additional keypairs that need to sign the transaction
    * @returns Execution result with signature and status
    */
   executeTx(
-    transaction: Transaction,
+    transaction: Transaction | VersionedTransaction,
     signer?: Keypair,
     additionalSigners?: Keypair[]
   ): Promise<IExecutionResult>;
@@ -51,6 +59,75 @@ export interface IExecutionService {
    * @returns Promise that resolves when instructions are added
    */
   addComputeBudgetInstructions(transaction: Transaction): Promise<void>;
+
+  /**
+   * Build an unsigned v0 transaction, with compute budget instructions prepended
+   * @param instructions - Instructions in execution order
+   * @param payer - Fee payer
+   * @param lookupTables - Lookup tables to compile against (optional)
+   * @param recentBlockhash - Blockhash to use (default: latest)
+   * @returns Transaction ready for signing
+   */
+  buildVersionedTx(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    lookupTables?: AddressLookupTableAccount[],
+    recentBlockhash?: string
+  ): Promise<VersionedTransaction>;
+
+  /**
+   * Create an address lookup table owned by the authority and fill it
+   * @param authority - Table authority and fee payer
+   * @param addresses - Addresses to store
+   * @returns Lookup table address
+   */
+  createLookupTable(authority: Keypair, addresses: PublicKey[]): Promise<PublicKey>;
+
+  /**
+   * Add addresses to a lookup table, skipping ones it already holds
+   * @param authority - Table authority and fee payer
+   * @param lookupTable - Lookup table address
+   * @param addresses - Addresses to add
+   */
+  extendLookupTable(authority: Keypair, lookupTable: PublicKey, addresses: PublicKey[]): Promise<void>;
+
+  /**
+   * Fetch lookup tables for compiling v0 messages (missing tables are skipped)
+   * @param addresses - Lookup table addresses
+   * @returns Lookup table accounts
+   */
+  fetchLookupTables(addresses: PublicKey[]): Promise<AddressLookupTableAccount[]>;
+
+  /**
+   * Move a lookup table towards closing: deactivate it, then close it once the
+   * deactivation has cooled down (call again until it returns true)
+   * @param authority - Table authority, receives the rent
+   * @param lookupTable - Lookup table address
+   * @returns True once the table is closed (or doesn't exist)
+   */
+  releaseLookupTable(authority: Keypair, lookupTable: PublicKey): Promise<boolean>;
+
+  /**
+   * Executes transactions that must land together
+   * Sent as one Jito bundle when bundles are configured, otherwise (or if the bundle
+   * doesn't land and fallback is enabled) sent one by one, stopping at the first failure
+   * @param transactions - Transactions in execution order (at most 4 in bundle mode)
+   * @param signer - Optional keypair to sign every transaction and pay the tip
+   * @param additionalSigners - Additional keypairs that sign every transaction
+   * @returns Bundle result with per-transaction signatures
+   */
+  executeBundle(
+    transactions: Transaction[],
+    signer?: Keypair,
+    additionalSigners?: Keypair[]
+  ): Promise<IBundleResult>;
+
+  /**
+   * Gets the last known status of a bundle sent by this service
+   * @param bundleId - Bundle ID returned by the block engine
+   * @returns Bundle result, or undefined if the bundle isn't tracked
+   */
+  getBundleStatus(bundleId: string): IBundleResult | undefined;
 }
 
 /**
@@ -93,6 +170,52 @@ export interface IExecutionResult {
   error?: string;             // Error message if failed
 }
 
+/**
+ * How a bundle's transactions were submitted
+ */
+export enum BundleMode {
+  Bundle = 'bundle',          // Atomic Jito bundle
+  Sequential = 'sequential'   // One transaction at a time
+}
+
+/**
+ * Status of a bundle, as reported by the block engine
+ */
+export enum BundleStatus {
+  Pending = 'pending',        // Sent, not landed yet
+  Landed = 'landed',          // All transactions landed
+  Failed = 'failed',          // Rejected or dropped - none of the transactions landed
+  Invalid = 'invalid',        // Unknown to the block engine (expired or never accepted)
+  Timeout = 'timeout'         // Still not landed when we stopped polling
+}
+
+/**
+ * Result of executing a group of transactions
+ */
+export interface IBundleResult {
+  bundleId: string | null;    // Block engine bundle ID (null if never accepted as a bundle)
+  mode: BundleMode;           // How the transactions were finally submitted
+  status: ExecutionStatus;    // Overall outcome
+  bundleStatus?: BundleStatus; // Last block engine status (bundle mode only)
+  signatures: string[];       // Signatures of the caller's transactions, in order
+  results: IExecutionResult[]; // Per-transaction results (sequential mode only)
+  timestamp: number;          // Last update timestamp (ms)
+  error?: string;             // Error message if failed
+}
+
+/**
+ * Jito block engine settings for bundle submission
+ */
+export interface IBundleConfig {
+  blockEngineUrl: string;     // Block engine base URL (e.g. https://mainnet.block-engine.jito.wtf)
+  uuid?: string;              // Optional Jito UUID for rate limits (sent as x-jito-auth)
+  tipLamports: number;        // Tip paid by the signer in a trailing tip transaction
+  tipAccounts?: string[];     // Tip accounts (fetched from the block engine if omitted)
+  statusPollIntervalMs?: number; // How often to poll bundle status (default 1000)
+  statusTimeoutMs?: number;   // How long to wait for the bundle to land (default 30000)
+  fallbackToSequential?: boolean; // Send one by one if the bundle doesn't land (default true)
+}
+
 /**
  * Configuration for transaction execution
  */
@@ -104,6 +227,7 @@ export interface IExecutionConfig {
   priorityFeeMode?: PriorityFeeMode;  // Priority fee strategy
   maxPriorityFeeLamports?: number;  // Max priority fee in microlamports per CU (default 25000)
   computeUnitLimit?: number;  // Override compute unit limit (default auto-calculated)
+  bundle?: IBundleConfig;     // Jito bundle submission (executeBundle sends sequentially without it)
 }
 
 /**
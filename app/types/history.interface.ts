@@ -121,6 +121,7 @@ export interface ICmbTradeHistory {
   amountOut: Decimal;
   feeAmount?: Decimal;
   txSignature?: string;
+  eventIndex?: number;              // Position of the CondSwap among the transaction's CondSwap events
   price?: Decimal;
   marketCapUsd?: Decimal;
 }
@@ -0,0 +1,117 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ScheduledTaskType } from './scheduler.interface';
+
+/**
+ * Lifecycle states of a persisted job
+ */
+export enum JobStatus {
+  Pending = 'pending',              // Waiting for run_at
+  Running = 'running',              // Leased by a worker
+  Completed = 'completed',          // Finished (one-time job ran, or periodic job reported done)
+  Dead = 'dead',                    // Exceeded max attempts - needs manual retry
+  Cancelled = 'cancelled',          // Cancelled before completion
+}
+
+/**
+ * What a job handler wants the queue to do after a successful run
+ */
+export enum JobRunResult {
+  Continue = 'continue',            // Periodic jobs run again after their interval
+  Done = 'done',                    // Mark the job completed
+}
+
+/**
+ * A job stored in qm_jobs
+ */
+export interface IJob {
+  id: number;
+  jobKey: string;                               // Unique key, e.g. twap-{moderatorId}-{proposalId}
+  type: ScheduledTaskType;
+  moderatorId: number;
+  proposalId: number;
+  payload: Record<string, unknown>;             // Type-specific data (e.g. spotPoolAddress)
+  status: JobStatus;
+  intervalMs: number | null;                    // Null for one-time jobs
+  runAt: number;                                // Next run time in milliseconds
+  attempts: number;                             // Consecutive failed (or in-flight) attempts
+  maxAttempts: number;                          // Attempts before the job is dead-lettered
+  lastError: string | null;
+  lockedBy: string | null;                      // Worker holding the lease
+  leaseExpiresAt: number | null;
+  lastRunAt: number | null;
+  completedAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Parameters for enqueueing a job
+ */
+export interface IEnqueueJobParams {
+  jobKey: string;
+  type: ScheduledTaskType;
+  moderatorId: number;
+  proposalId: number;
+  payload?: Record<string, unknown>;
+  intervalMs?: number | null;                   // Omit for one-time jobs
+  runAt: number;                                // First run time in milliseconds
+  maxAttempts?: number;
+}
+
+/**
+ * Filters for listing jobs
+ */
+export interface IJobFilter {
+  status?: JobStatus;
+  type?: ScheduledTaskType;
+  moderatorId?: number;
+  proposalId?: number;
+  limit?: number;
+}
+
+/**
+ * Job counts grouped by type and status
+ */
+export interface IJobSummary {
+  type: ScheduledTaskType;
+  status: JobStatus;
+  count: number;
+}
+
+/**
+ * Runs a leased job
+ * @param job - The leased job
+ * @returns Whether a periodic job should keep running
+ * @throws Error to have the queue retry the job with backoff
+ */
+export type JobHandler = (job: IJob) => Promise<JobRunResult>;
+
+/**
+ * Tunables for the job queue worker
+ */
+export interface IJobQueueConfig {
+  pollIntervalMs: number;                       // How often to look for due jobs
+  leaseMs: number;                              // Lease length (renewed while the handler runs)
+  maxConcurrency: number;                       // Max jobs running at once in this process
+  retryBaseDelayMs: number;                     // First retry delay (doubles per attempt)
+  retryMaxDelayMs: number;                      // Upper bound on retry delay
+  defaultMaxAttempts: number;                   // Attempts before dead-lettering
+}
@@ -21,6 +21,7 @@ import { PublicKey, Keypair } from '@solana/web3.js';
 import { BN } from '@coral-xyz/anchor';
 import { Commitment } from './execution.interface';
 import { IProposal } from './proposal.interface';
+import { IProposalEvent, ProposalLifecycleState } from './proposal-lifecycle.interface';
 import { ITWAPConfig } from './twap-oracle.interface';
 import { PersistenceService } from '@app/services/persistence.service';
 import { PoolType } from '../../src/config/pools';
@@ -32,6 +33,7 @@ export enum ProposalStatus {
   Uninitialized = 'Uninitialized',  // Proposal created but not yet initialized on-chain
   Pending = 'Pending',              // Proposal is active and voting is ongoing
   Finalized = 'Finalized',          // Proposal has been finalized
+  Cancelled = 'Cancelled',          // Proposal was halted without a winner (conditionals merge back 1:1)
 }
 
 /**
@@ -124,6 +126,22 @@ export interface IModeratorConfig {
   commitment?: Commitment;                     // Optional commitment level (defaults to 'confirmed')
   jitoUuid?: string;                           // Optional Jito UUID for bundle submissions (mainnet only)
   dammWithdrawalPercentage?: number;           // DAMM liquidity withdrawal percentage (0-50, defaults to 12)
+  maxConcurrentProposals?: number;             // Max active proposals per pool (defaults to 3)
+}
+
+/**
+ * Liquidity a pool can still lend to new proposals
+ * The pool's withdrawalPercentage caps all outstanding withdrawals and is split
+ * evenly across the concurrent proposal slots
+ */
+export interface IWithdrawalCapacity {
+  poolAddress: string;
+  maxConcurrentProposals: number;               // Max active proposals per pool
+  activeProposals: number;                      // Pending proposals currently using the pool
+  capPercentage: number;                        // Cap on total outstanding withdrawals (pool withdrawalPercentage)
+  outstandingPercentage: number;                // Sum of withdrawals not yet deposited back
+  availablePercentage: number;                  // Cap minus outstanding withdrawals
+  nextWithdrawalPercentage: number;             // Percentage the next proposal withdraws (0 = no capacity)
 }
 
 /**
@@ -162,6 +180,44 @@ export interface IModerator {
    */
   finalizeProposal(id: number): Promise<[ProposalStatus, number | null]>;
 
+  /**
+   * Computes how much liquidity a new proposal may withdraw from a pool
+   * @param poolAddress - Pool address (DAMM or DLMM)
+   * @returns Withdrawal capacity for the pool
+   */
+  getWithdrawalCapacity(poolAddress: string): Promise<IWithdrawalCapacity>;
+
+  /**
+   * Cancels a pending proposal without picking a winner
+   * Stops scheduled tasks, removes AMM liquidity and leaves the vault active so
+   * conditional tokens can be merged back 1:1
+   * @param id - The ID of the proposal to cancel
+   * @param reason - Why the proposal was cancelled (persisted with the proposal)
+   * @returns The resulting proposal status
+   */
+  cancelProposal(id: number, reason: string): Promise<ProposalStatus>;
+
+  /**
+   * Re-runs the finalization steps a proposal hasn't completed
+   * @param id - The ID of the proposal
+   * @returns The lifecycle state reached
+   */
+  resumeFinalization(id: number): Promise<ProposalLifecycleState>;
+
+  /**
+   * Gets a proposal's current lifecycle state
+   * @param id - The ID of the proposal
+   * @returns Current lifecycle state
+   */
+  getLifecycleState(id: number): Promise<ProposalLifecycleState>;
+
+  /**
+   * Gets a proposal's recorded lifecycle transitions, oldest first
+   * @param id - The ID of the proposal
+   * @returns Lifecycle events
+   */
+  getProposalEvents(id: number): Promise<IProposalEvent[]>;
+
   /**
    * Gets a proposal by ID from database (always fresh data)
    * @param id - Proposal ID
@@ -174,4 +230,10 @@ export interface IModerator {
    * @param proposal - The proposal to save
    */
   saveProposal(proposal: IProposal): Promise<void>;
+
+  /**
+   * Save only a proposal's TWAP oracle state, leaving status and everything else untouched
+   * @param proposal - The proposal whose oracle was cranked
+   */
+  saveTWAPState(proposal: IProposal): Promise<void>;
 }
\ No newline at end of file
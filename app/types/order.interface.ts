@@ -0,0 +1,91 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Decimal } from 'decimal.js';
+
+/**
+ * When an order fires, relative to its trigger price
+ * Limit orders fire on a better price (buy at or below, sell at or above),
+ * stop orders on a worse one (buy at or above, sell at or below)
+ */
+export enum OrderType {
+  Limit = 'limit',
+  Stop = 'stop',
+}
+
+/**
+ * How the keeper is allowed to execute an order
+ */
+export enum OrderExecutionMode {
+  DurableNonce = 'durable-nonce',               // User pre-signed a durable-nonce swap; keeper only broadcasts it
+  Delegate = 'delegate',                        // User approved the keeper as delegate of the input token account
+}
+
+export enum OrderStatus {
+  Open = 'open',                                // Waiting for the trigger price
+  Executing = 'executing',                      // Claimed by the keeper, swap in flight
+  Filled = 'filled',
+  Cancelled = 'cancelled',
+  Expired = 'expired',                          // Proposal ended before the order fired
+  Failed = 'failed',                            // Swap can no longer be sent (see error)
+}
+
+/**
+ * A limit or stop order on a conditional market, as stored in qm_orders
+ * Amounts are raw token amounts; prices are quote per base, like recorded prices
+ */
+export interface IOrder {
+  id: number;
+  moderatorId: number;
+  proposalId: number;
+  market: number;
+  wallet: string;
+  orderType: OrderType;
+  executionMode: OrderExecutionMode;
+  isBaseToQuote: boolean;                       // true: sell base for quote, false: buy base with quote
+  amountIn: string;
+  minAmountOut: string;                         // Output enforced on-chain
+  triggerPrice: Decimal;
+  status: OrderStatus;
+  attempts: number;                             // Sends that didn't fill
+  txSignature: string | null;
+  error: string | null;
+  expiresAt: number;                            // Proposal end
+  filledAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Data needed to place an order
+ */
+export interface INewOrder {
+  moderatorId: number;
+  proposalId: number;
+  market: number;
+  wallet: string;
+  orderType: OrderType;
+  executionMode: OrderExecutionMode;
+  isBaseToQuote: boolean;
+  amountIn: string;
+  minAmountOut: string;
+  triggerPrice: Decimal;
+  signedTransaction: string | null;             // Base64, durable-nonce orders only
+  expiresAt: number;
+}
@@ -64,6 +64,10 @@ export interface IProposalDB {
   spot_pool_address?: string;
   total_supply: number;
 
+  // Cancellation details (only set when cancelled)
+  cancellation_reason?: string | null;
+  cancelled_at?: Date | null;
+
   updated_at: Date;
 }
 
@@ -81,6 +85,7 @@ export interface IModeratorStateDB {
     authority: string;
     rpcUrl: string;
     dammWithdrawalPercentage?: number;
+    maxConcurrentProposals?: number;
   };
   protocol_name?: string;
   updated_at: Date;
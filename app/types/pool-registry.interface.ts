@@ -0,0 +1,53 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { PoolMetadata } from '../../src/config/pools';
+
+/**
+ * Changes recorded in qm_pool_audit_log
+ */
+export enum PoolAuditAction {
+  PoolCreated = 'pool.created',
+  PoolUpdated = 'pool.updated',
+  PoolDeleted = 'pool.deleted',
+  WalletAdded = 'wallet.added',
+  WalletRemoved = 'wallet.removed',
+}
+
+/**
+ * A whitelist or pool metadata change
+ */
+export interface IPoolAuditEntry {
+  id: number;
+  action: PoolAuditAction;
+  poolAddress: string;
+  wallet: string | null;                        // Set for wallet changes
+  actor: string;                                // Name of the API key that made the change
+  before: PoolMetadata | null;                  // Pool metadata before the change (pool changes only)
+  after: PoolMetadata | null;                   // Pool metadata after the change (pool changes only)
+  createdAt: number;
+}
+
+/**
+ * Filters for reading the audit log
+ */
+export interface IPoolAuditFilter {
+  poolAddress?: string;
+  limit?: number;
+}
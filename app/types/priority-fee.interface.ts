@@ -0,0 +1,41 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Compute unit prices (microlamports per CU) at the percentiles the oracle reports
+ */
+export interface IPriorityFeePercentiles {
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  p99: number;
+}
+
+/**
+ * Priority fee recommendation for a set of writable accounts
+ */
+export interface IPriorityFeeEstimate {
+  microLamports: number;                        // Recommended compute unit price
+  percentile: number;                           // Auto-tuned percentile the recommendation is taken at
+  percentiles: IPriorityFeePercentiles;         // Of the most contended account (or the whole cluster)
+  samples: number;                              // Non-zero fees the estimate is based on
+  accounts: string[];                           // Tracked accounts the estimate covers (empty = cluster-wide)
+  landingRate: number | null;                   // Share of recent dynamic-fee transactions that landed
+}
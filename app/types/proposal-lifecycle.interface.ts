@@ -0,0 +1,75 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Fine-grained lifecycle state of a proposal
+ * ProposalStatus stays the coarse public status; this tracks which operational
+ * step a proposal has reached so a stuck proposal can be diagnosed and resumed.
+ */
+export enum ProposalLifecycleState {
+  Uninitialized = 'Uninitialized',
+  Initializing = 'Initializing',                      // Vaults, withdrawal and AMMs being set up
+  Pending = 'Pending',                                // Trading
+  Finalizing = 'Finalizing',                          // Final TWAP crank and AMM liquidity removal
+  LiquidityRemoved = 'LiquidityRemoved',              // All AMMs closed
+  VaultsFinalized = 'VaultsFinalized',                // Winner resolved on-chain and winnings redeemed
+  DepositedBack = 'DepositedBack',                    // Spot pool withdrawal returned (or none needed)
+  Settled = 'Settled',                                // Slash recorded if applicable - terminal
+  Cancelled = 'Cancelled',                            // Cancelled while pending, liquidity removed
+
+  // Failed sub-states - the step named failed and can be retried
+  InitializationFailed = 'InitializationFailed',
+  LiquidityRemovalFailed = 'LiquidityRemovalFailed',
+  VaultFinalizationFailed = 'VaultFinalizationFailed',
+  DepositBackFailed = 'DepositBackFailed',
+  SettlementFailed = 'SettlementFailed',
+}
+
+/**
+ * A persisted lifecycle transition (qm_proposal_events)
+ */
+export interface IProposalEvent {
+  id: number;
+  moderatorId: number;
+  proposalId: number;
+  fromState: ProposalLifecycleState | null;           // Null for the first event
+  toState: ProposalLifecycleState;
+  error: string | null;                               // Set when entering a failed sub-state
+  details: Record<string, unknown> | null;            // Step-specific context (signatures, winner, ...)
+  createdAt: number;                                  // Milliseconds
+}
+
+/**
+ * A lifecycle transition to record, decided from the proposal's current state
+ */
+export interface IProposalTransition {
+  toState: ProposalLifecycleState;
+  error?: string;                                     // Failure message when entering a failed sub-state
+  details?: Record<string, unknown>;                  // Step-specific context
+}
+
+/**
+ * Called by a proposal when it completes a lifecycle step
+ * @param state - The state the proposal just reached
+ * @param details - Step-specific context to record with the transition
+ */
+export type ProposalLifecycleListener = (
+  state: ProposalLifecycleState,
+  details?: Record<string, unknown>
+) => Promise<void>;
@@ -17,12 +17,13 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { PublicKey, Keypair } from '@solana/web3.js';
+import { PublicKey, Keypair, Transaction, VersionedTransaction } from '@solana/web3.js';
 import { BN } from '@coral-xyz/anchor';
 import { IAMM, IAMMSerializedData } from './amm.interface';
-import { ITWAPOracle, ITWAPConfig, ITWAPOracleSerializedData } from './twap-oracle.interface';
+import { ITWAPOracle, ITWAPConfig, ITWAPOracleSerializedData, ITWAPResolution } from './twap-oracle.interface';
 import { ProposalStatus } from './moderator.interface';
 import { IExecutionService } from './execution.interface';
+import { ProposalLifecycleListener } from './proposal-lifecycle.interface';
 import { LoggerService } from '../services/logger.service';
 import { VaultClient, VaultType } from '@zcomb/vault-sdk';
 
@@ -35,6 +36,24 @@ export interface IProposalStatusInfo {
   winningMarketLabel: string | null;
   winningBaseConditionalMint: PublicKey | null;
   winningQuoteConditionalMint: PublicKey | null;
+  resolution: ITWAPResolution | null;           // TWAP margin details explaining the winner (null if uninitialized or cancelled)
+  cancellation: IProposalCancellation | null;   // Cancellation details (null unless cancelled)
+}
+
+/**
+ * Details recorded when a proposal is cancelled
+ */
+export interface IProposalCancellation {
+  reason: string;                               // Why the proposal was cancelled
+  cancelledAt: number;                          // Cancellation timestamp in milliseconds
+}
+
+/**
+ * Underlying tokens returned to the authority wallet by redeeming or merging conditional tokens
+ */
+export interface IProposalReturnedAmounts {
+  base: BN;
+  quote: BN;
 }
 
 /**
@@ -99,10 +118,82 @@ export interface IProposal {
 
   /**
    * Finalizes the proposal based on TWAP results
-   * Determines winner by highest TWAP index
+   * Determines winner using the TWAP oracle's resolution mode
+   * Status only becomes Finalized once the vaults are finalized, so a failed
+   * finalization can be retried (AMMs already closed are skipped)
+   * @param onStep - Notified after liquidity removal and vault finalization (optional)
    * @returns Tuple of [status, winningMarketIndex | null]
+   * @throws Error if any AMM still holds liquidity or vault finalization fails
    */
-  finalize(): Promise<[ProposalStatus, number | null]>;
+  finalize(onStep?: ProposalLifecycleListener): Promise<[ProposalStatus, number | null]>;
+
+  /**
+   * Cancels the proposal without picking a winner
+   * Removes AMM liquidity and merges the authority's conditional tokens back,
+   * leaving the vault active so users can merge theirs back 1:1
+   * @param reason - Why the proposal was cancelled
+   * @returns The resulting proposal status
+   * @throws Error if the proposal is not pending
+   */
+  cancel(reason: string): Promise<ProposalStatus>;
+
+  /**
+   * Deactivates and later closes the proposal's address lookup table once trading is over
+   * Closing has to wait for the deactivation to cool down, so call again until it returns true
+   * @returns True once the table is closed (or the proposal never had one)
+   * @throws Error if the proposal is still pending
+   */
+  releaseLookupTable(): Promise<boolean>;
+
+  /**
+   * Takes the underlying tokens redeemed or merged back to the authority since the last call
+   * The caller records them so deposit-back only moves this proposal's tokens
+   * @returns Base and quote amounts, or null if nothing was returned
+   */
+  takeReturnedAmounts(): IProposalReturnedAmounts | null;
+
+  /**
+   * Builds a basket trade backing one market against all others
+   * Splits quote through the vault and buys the chosen market's base with it; if base is
+   * supplied, splits it too and sells it on every other market. All legs go into one
+   * v0 transaction, each swap bounded by its own minimum out.
+   * @param user - User's public key (fee payer and signer)
+   * @param market - Market index to back
+   * @param quoteAmount - Quote tokens to split and spend on the chosen market
+   * @param baseAmount - Base tokens to split and sell on the other markets (0 to skip)
+   * @param slippageBps - Slippage tolerance per swap in basis points
+   * @returns Unsigned transaction and a quote covering every leg
+   * @throws Error if the proposal is not pending, the market is invalid, both amounts are zero,
+   * or the basket doesn't fit in one transaction
+   */
+  buildBasketTx(
+    user: PublicKey,
+    market: number,
+    quoteAmount: BN,
+    baseAmount: BN,
+    slippageBps?: number
+  ): Promise<IBasketTrade>;
+
+  /**
+   * Finds the best route from an underlying token to a target position
+   * Candidates send 0%, 25%, 50%, 75% or 100% of the input through the spot pool (if any)
+   * and the rest through the conditional markets; the one with the largest output after fees wins.
+   * With a market, the conditional part is split and swapped on that market, and spot output is split.
+   * Without one, it is split and swapped on every market, spending only what each market
+   * needs to match the shallowest one, and the common output is merged back to the underlying token.
+   * @param isBaseToQuote - Direction (true: base->quote, false: quote->base)
+   * @param amountIn - Underlying input tokens
+   * @param market - Market whose conditional output is wanted, or null for the underlying token
+   * @param slippageBps - Slippage tolerance per swap in basis points
+   * @returns Route quote with every leg's expected output and price impact
+   * @throws Error if the proposal is not pending, the market is invalid, or the amount is zero
+   */
+  quoteRoute(
+    isBaseToQuote: boolean,
+    amountIn: BN,
+    market: number | null,
+    slippageBps?: number
+  ): Promise<IRouteQuote>;
 
   /**
    * Serializes the proposal state for persistence
@@ -118,6 +209,116 @@ export interface IProposal {
   deriveVaultPDA(vaultType: VaultType): PublicKey;
 }
 
+/**
+ * Basket leg splitting tokens through a vault (every market receives the amount)
+ */
+export interface IBasketDepositLeg {
+  type: 'deposit';
+  vaultType: VaultType;
+  amount: BN;
+}
+
+/**
+ * Basket leg swapping on one market
+ */
+export interface IBasketSwapLeg {
+  type: 'swap';
+  market: number;
+  isBaseToQuote: boolean;
+  amountIn: BN;
+  expectedAmountOut: BN;
+  minAmountOut: BN;                             // Enforced on-chain
+  priceImpact: number;
+}
+
+export type IBasketLeg = IBasketDepositLeg | IBasketSwapLeg;
+
+/**
+ * Conditional tokens a basket trade leaves the user with on one market
+ */
+export interface IBasketPosition {
+  market: number;
+  expectedBase: BN;
+  minBase: BN;
+  expectedQuote: BN;
+  minQuote: BN;
+}
+
+/**
+ * Quote covering every leg of a basket trade (raw token amounts)
+ */
+export interface IBasketQuote {
+  market: number;                               // Market being backed
+  quoteAmount: BN;
+  baseAmount: BN;
+  slippageBps: number;
+  legs: IBasketLeg[];
+  positions: IBasketPosition[];
+}
+
+/**
+ * Unsigned basket transaction (every leg, atomic) and its quote
+ */
+export interface IBasketTrade {
+  transaction: VersionedTransaction;
+  quote: IBasketQuote;
+}
+
+/**
+ * Route leg splitting tokens into, or merging them out of, every market through a vault
+ */
+export interface IRouteVaultLeg {
+  type: 'split' | 'merge';
+  vaultType: VaultType;
+  amount: BN;
+  minAmount: BN;                                // Merges are limited by the worst-case swap output
+}
+
+/**
+ * Route leg swapping on one market
+ */
+export interface IRouteSwapLeg {
+  type: 'swap';
+  market: number;
+  isBaseToQuote: boolean;
+  amountIn: BN;
+  expectedAmountOut: BN;                        // After the pool's fees
+  minAmountOut: BN;
+  fee: BN;                                      // Fees the pool charges on this leg
+  priceImpact: number;
+}
+
+/**
+ * Route leg swapping the underlying tokens on the proposal's spot pool
+ */
+export interface IRouteSpotLeg {
+  type: 'spot';
+  pool: string;                                 // Spot pool address
+  isBaseToQuote: boolean;
+  amountIn: BN;
+  expectedAmountOut: BN;                        // After the pool's fees
+  minAmountOut: BN;
+  fee: BN;
+  priceImpact: number;
+}
+
+export type IRouteLeg = IRouteVaultLeg | IRouteSwapLeg | IRouteSpotLeg;
+
+/**
+ * Best route found for a target position (raw token amounts)
+ * Part or all of the input may go through the spot pool; any conditional part is split first.
+ */
+export interface IRouteQuote {
+  market: number | null;                        // Target market, null for the underlying token
+  isBaseToQuote: boolean;
+  amountIn: BN;
+  expectedAmountOut: BN;
+  minAmountOut: BN;
+  slippageBps: number;
+  legs: IRouteLeg[];
+  unspent: BN[];                                // Conditional input left on each market
+}
+
 /**
  * Serialized proposal data structure for persistence
  */
@@ -156,6 +357,9 @@ export interface IProposalSerializedData {
   // Serialized components
   AMMData: IAMMSerializedData[];
   twapOracleData: ITWAPOracleSerializedData;
+
+  // Cancellation details (only set when cancelled)
+  cancellation?: IProposalCancellation;
 }
 
 /**
@@ -0,0 +1,40 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * An RPC endpoint in the pool
+ */
+export interface IRpcEndpointConfig {
+  url: string;
+  weight: number;                               // Relative chance of serving requests among healthy endpoints
+}
+
+/**
+ * Health of an RPC endpoint as tracked by the pool
+ */
+export interface IRpcEndpointHealth {
+  host: string;                                 // URL host only (URLs may contain API keys)
+  weight: number;
+  healthy: boolean;
+  latencyMs: number | null;                     // Moving average of successful requests
+  slot: number | null;                          // Last slot seen by the health check
+  slotLag: number | null;                       // Slots behind the most advanced endpoint
+  consecutiveErrors: number;
+  cooldownUntil: number | null;                 // Skipped until then after repeated errors (ms)
+}
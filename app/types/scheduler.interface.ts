@@ -28,17 +28,9 @@ export enum ScheduledTaskType {
   /** Periodic AMM price recording */
   PriceRecord = 'price-record',
   /** Periodic spot market price recording */
-  SpotPriceRecord = 'spot-price-record'
-}
-
-export interface IScheduledTask {
-  id: string;
-  type: ScheduledTaskType;
-  moderatorId: number;
-  proposalId: number;
-  interval?: number;
-  nextRunTime: number;
-  timer?: NodeJS.Timeout;
+  SpotPriceRecord = 'spot-price-record',
+  /** Periodic lookup table release after a proposal ends, until the table is closed */
+  LookupTableClose = 'lookup-table-close'
 }
 
 export interface ISchedulerService {
@@ -48,7 +40,7 @@ export interface ISchedulerService {
    * @param proposalId - The proposal ID to crank TWAP for
    * @param intervalMs - Interval between cranks in milliseconds (default: 60000 = 1 minute)
    */
-  scheduleTWAPCranking(moderatorId: number, proposalId: number, intervalMs?: number): void;
+  scheduleTWAPCranking(moderatorId: number, proposalId: number, intervalMs?: number): Promise<void>;
 
   /**
    * Schedules automatic finalization for a proposal
@@ -56,7 +48,7 @@ export interface ISchedulerService {
    * @param proposalId - The proposal ID to finalize
    * @param finalizeAt - Timestamp when to finalize the proposal
    */
-  scheduleProposalFinalization(moderatorId: number, proposalId: number, finalizeAt: number): void;
+  scheduleProposalFinalization(moderatorId: number, proposalId: number, finalizeAt: number): Promise<void>;
 
   /**
    * Schedules automatic price recording for a proposal
@@ -64,7 +56,7 @@ export interface ISchedulerService {
    * @param proposalId - The proposal ID to record prices for
    * @param intervalMs - Interval between recordings in milliseconds (default: 60000 = 1 minute)
    */
-  schedulePriceRecording(moderatorId: number, proposalId: number, intervalMs?: number): void;
+  schedulePriceRecording(moderatorId: number, proposalId: number, intervalMs?: number): Promise<void>;
 
   /**
    * Schedules automatic spot price recording for a proposal
@@ -73,34 +65,46 @@ export interface ISchedulerService {
    * @param spotPoolAddress - The Meteora pool address for the spot market
    * @param intervalMs - Interval between recordings in milliseconds (default: 60000 = 1 minute)
    */
-  scheduleSpotPriceRecording(moderatorId: number, proposalId: number, spotPoolAddress: string, intervalMs?: number): void;
+  scheduleSpotPriceRecording(moderatorId: number, proposalId: number, spotPoolAddress: string, intervalMs?: number): Promise<void>;
+
+  /**
+   * Schedules closing a finished proposal's address lookup table
+   * @param moderatorId - The moderator ID that owns the proposal
+   * @param proposalId - The proposal ID
+   */
+  scheduleLookupTableClose(moderatorId: number, proposalId: number): Promise<void>;
 
   /**
    * Cancels a scheduled task
    * @param taskId - The task ID to cancel
    */
-  cancelTask(taskId: string): void;
+  cancelTask(taskId: string): Promise<void>;
 
   /**
    * Cancels all tasks for a specific proposal
    * @param moderatorId - The moderator ID that owns the proposal
    * @param proposalId - The proposal ID
    */
-  cancelProposalTasks(moderatorId: number, proposalId: number): void;
+  cancelProposalTasks(moderatorId: number, proposalId: number): Promise<void>;
+
+  /**
+   * Starts running due jobs in this process
+   */
+  start(): void;
 
   /**
-   * Stops all scheduled tasks
+   * Stops running jobs in this process (jobs stay persisted)
    */
   stopAll(): void;
 
   /**
-   * Gets information about all active tasks
+   * Gets information about all pending and running tasks
    */
-  getActiveTasks(): Array<{
+  getActiveTasks(): Promise<Array<{
     id: string;
     type: string;
     moderatorId: number;
     proposalId: number;
     nextRunTime: number;
-  }>;
+  }>>;
 }
\ No newline at end of file
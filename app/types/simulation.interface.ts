@@ -0,0 +1,53 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * A simulated transaction as seen by its signer
+ */
+export interface ISimulationResult {
+  success: boolean;
+  signer: string;                               // Wallet whose balances are reported
+  error: ISimulationError | null;               // Decoded failure (null on success)
+  feeLamports: number;                          // Signature fees plus priority fee
+  computeUnits: number | null;                  // Units consumed (null if the RPC didn't report them)
+  balanceChanges: ISimulatedBalanceChange[];    // Only accounts whose balance changed
+  logs: string[];
+}
+
+/**
+ * A balance of the signer before and after the simulated transaction (raw units)
+ */
+export interface ISimulatedBalanceChange {
+  account: string;                              // Wallet (SOL) or token account address
+  mint: string | null;                          // Null for SOL
+  decimals: number;
+  preAmount: string;
+  postAmount: string;
+  change: string;                               // postAmount - preAmount, signed
+}
+
+/**
+ * Why a simulated transaction failed
+ */
+export interface ISimulationError {
+  code: string;                                 // Program error name, or the RPC error when it can't be decoded
+  message: string;                              // Human-readable explanation
+  instructionIndex: number | null;              // Failing instruction (null for transaction-level errors)
+  programId: string | null;                     // Program of the failing instruction
+}
@@ -0,0 +1,52 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+
+/**
+ * Outcome of a submitted transaction (qm_transactions.status)
+ */
+export enum TrackedTransactionStatus {
+  Pending = 'pending',                          // Sent, not yet confirmed
+  Confirmed = 'confirmed',                      // Landed and succeeded
+  Failed = 'failed',                            // Landed and failed on-chain
+  Expired = 'expired',                          // Blockhash expired (or nonce advanced) before it landed
+}
+
+/**
+ * Durable nonce a transaction was signed with instead of a recent blockhash
+ */
+export interface IDurableNonce {
+  nonceAccount: PublicKey;
+  nonce: string;                                // Nonce value (the transaction's blockhash)
+}
+
+/**
+ * A transaction submitted through the tracker
+ */
+export interface ITrackedTransaction {
+  signature: string;
+  status: TrackedTransactionStatus;
+  lastValidBlockHeight: number;
+  broadcasts: number;                           // Sends including rebroadcasts
+  rebuiltFrom: string | null;                   // Expired transaction this one replaced
+  durableNonce: IDurableNonce | null;           // Set for durable-nonce transactions, which never expire by height
+  confirmedSlot: number | null;
+  error: string | null;
+}
@@ -20,6 +20,58 @@
 import { Decimal } from 'decimal.js';
 import { IAMM } from './amm.interface';
 
+/**
+ * Minimal price source the oracle reads from
+ * AMMs in production, recorded price feeds when replaying offline
+ */
+export type ITWAPPriceSource = Pick<IAMM, 'fetchPrice'>;
+
+/**
+ * Clock used by the oracle (milliseconds since epoch)
+ * Defaults to Date.now; replays inject a fake clock
+ */
+export type TWAPClock = () => number;
+
+/**
+ * How the oracle picks a winning market from the final TWAPs
+ */
+export enum TWAPResolutionMode {
+  /** Market with the highest TWAP wins */
+  Highest = 'highest',
+  /** A non-default market (index > 0) must beat market 0 (status quo) by passThresholdBps to win */
+  StatusQuoThreshold = 'status-quo-threshold',
+}
+
+/**
+ * Strategy used to limit how far an observation may move per update
+ */
+export enum TWAPClampMode {
+  /** maxChange is an absolute price delta */
+  Absolute = 'absolute',
+  /** maxChange is in basis points of the last observation */
+  Percent = 'percent',
+  /** maxChange is the maximum |ln(price / lastObservation)| per update */
+  LogSpace = 'log-space',
+}
+
+/**
+ * Observation clamp configuration
+ */
+export interface ITWAPClampConfig {
+  mode: TWAPClampMode;                          // How maxChange is interpreted
+  maxChange: number;                            // Maximum change per update (units depend on mode)
+}
+
+/**
+ * Per-market record of how often clamping fired
+ */
+export interface ITWAPClampStats {
+  updates: number;                              // Observation updates evaluated
+  clamped: number;                              // Updates where the observation was clamped
+  lastClampedAt: number | null;                 // Timestamp of the most recent clamp (ms)
+  maxSuppressedBps: number;                     // Largest gap between price and clamped observation, in bps of price
+}
+
 /**
  * Configuration for TWAP oracle
  */
@@ -29,6 +81,22 @@ export interface ITWAPConfig {
   twapStartDelay: number;                       // Delay in milliseconds before TWAP starts recording
   passThresholdBps: number;                     // Basis points threshold for proposal to pass
   minUpdateInterval: number;                    // Minimum interval between TWAP updates in milliseconds
+  resolutionMode?: TWAPResolutionMode;          // Outcome resolution mode (defaults to Highest)
+  clamp?: ITWAPClampConfig | null;              // Clamp strategy (overrides twapMaxObservationChangePerUpdate when set)
+}
+
+/**
+ * Result of resolving a proposal outcome from TWAPs
+ * Records the margin so callers can explain why a market won
+ */
+export interface ITWAPResolution {
+  mode: TWAPResolutionMode;                     // Resolution mode that was applied
+  winningIndex: number;                         // Index of the winning market
+  winningTwap: Decimal;                         // TWAP of the winning market
+  leadingChallengerIndex: number | null;        // Highest non-default market (null if markets < 2)
+  statusQuoTwap: Decimal;                       // TWAP of market 0 (status quo)
+  marginBps: number | null;                     // Leading challenger's margin over status quo in bps (null if status quo TWAP is 0)
+  requiredMarginBps: number;                    // Margin a challenger needed to win (0 in Highest mode)
 }
 
 /**
@@ -42,6 +110,8 @@ export interface ITWAPOracle {
   readonly twapStartDelay: number;                      // Start delay in milliseconds (immutable)
   readonly passThresholdBps: number;                    // Pass threshold in basis points (immutable)
   readonly minUpdateInterval: number;                   // Minimum interval between updates in milliseconds (immutable)
+  readonly resolutionMode: TWAPResolutionMode;          // Outcome resolution mode (immutable)
+  readonly clamp: ITWAPClampConfig | null;              // Effective clamp strategy (null = no limit) (immutable)
   readonly createdAt: number;                           // Creation timestamp in milliseconds (immutable)
   readonly finalizedAt: number;                         // Finalization timestamp in milliseconds (immutable)
   readonly markets: number;                             // Number of markets (2-5 inclusive) (immutable)
@@ -50,19 +120,25 @@ export interface ITWAPOracle {
    * Sets the AMMs for the oracle to track
    * Must be called before any other oracle operations
    * Should be in-order of the markets
-   * @param AMMs - Array of AMM instances
+   * @param AMMs - Array of AMM instances (or other price sources)
    * @throws Error if AMMs have already been set or count doesn't match markets
    */
-  setAMMs(AMMs: IAMM[]): void;
+  setAMMs(AMMs: ITWAPPriceSource[]): void;
 
   /**
    * Updates TWAP observations and aggregations based on current AMM prices
    * Respects start delay, finalization time, and minimum update interval
-   * Observations are clamped by twapMaxObservationChangePerUpdate
+   * Observations are clamped by the configured clamp strategy
    * @throws Error if AMMs are not set
    */
   crankTWAP(): Promise<void>;
 
+  /**
+   * Gets per-market clamp statistics
+   * @returns Array of clamp stats (one per market)
+   */
+  getClampStats(): ITWAPClampStats[];
+
   /**
    * Fetches current TWAP prices and aggregations for all markets
    * @returns Object containing:
@@ -82,6 +158,14 @@ export interface ITWAPOracle {
    */
   fetchHighestTWAPIndex(): number;
 
+  /**
+   * Resolves the winning market according to the configured resolution mode
+   * In StatusQuoThreshold mode a challenger must beat market 0 by passThresholdBps
+   * @returns Resolution with winning index and margin details
+   * @throws Error if AMMs are not set
+   */
+  resolveOutcome(): ITWAPResolution;
+
   /**
    * Serializes the TWAP oracle state for persistence
    * @returns Serialized TWAP oracle data that can be saved to database
@@ -100,6 +184,8 @@ export interface ITWAPOracleSerializedData {
   twapStartDelay: number;
   passThresholdBps: number;
   minUpdateInterval: number;
+  resolutionMode?: TWAPResolutionMode;          // Absent on oracles serialized before resolution modes existed
+  clamp?: ITWAPClampConfig | null;              // Absent on oracles serialized before clamp strategies existed
   createdAt: number;
   finalizedAt: number;
 
@@ -107,6 +193,7 @@ export interface ITWAPOracleSerializedData {
   observations: Decimal[];
   aggregations: Decimal[];
   lastUpdateTime: number;
+  clampStats?: ITWAPClampStats[];               // Absent on oracles serialized before clamp stats existed
 
   // Markets
   markets: number;
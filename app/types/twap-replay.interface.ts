@@ -0,0 +1,69 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Decimal } from 'decimal.js';
+import { ITWAPConfig, ITWAPResolution, ITWAPClampStats } from './twap-oracle.interface';
+
+/**
+ * Single recorded price used as replay input (one row of qm_price_history)
+ */
+export interface ITWAPReplayPricePoint {
+  timestamp: number;                            // Time the price was recorded (ms)
+  market: number;                               // Market index (0+)
+  price: Decimal.Value;                         // Recorded AMM price
+}
+
+/**
+ * Proposal timeline and recorded prices to replay
+ */
+export interface ITWAPReplayInput {
+  proposalId: number;                           // ID of the proposal being replayed
+  markets: number;                              // Number of markets
+  createdAt: number;                            // Proposal creation timestamp (ms)
+  finalizedAt: number;                          // Proposal end timestamp (ms)
+  prices: ITWAPReplayPricePoint[];              // Recorded prices (any order)
+}
+
+/**
+ * Options controlling how the replay drives the oracle
+ */
+export interface ITWAPReplayOptions {
+  crankInterval?: number;                       // Time between cranks in ms (defaults to minUpdateInterval, at least 1000)
+}
+
+/**
+ * Named TWAP config variant to compare in a backtest
+ */
+export interface ITWAPReplayVariant {
+  name: string;                                 // Label shown in reports
+  config: ITWAPConfig;                          // Full TWAP config to replay with
+}
+
+/**
+ * Outcome of replaying a proposal with one TWAP config
+ */
+export interface ITWAPReplayResult {
+  name?: string;                                // Variant label (if replayed as a variant)
+  config: ITWAPConfig;                          // TWAP config used
+  cranks: number;                               // Number of cranks performed
+  twaps: Decimal[];                             // Final TWAP per market
+  observations: Decimal[];                      // Final observation per market
+  resolution: ITWAPResolution;                  // Winner and margin details
+  clampStats: ITWAPClampStats[];                // Per-market clamp stats
+}
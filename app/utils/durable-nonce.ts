@@ -0,0 +1,60 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { PublicKey, SystemProgram, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { IDurableNonce } from '../types/transaction-tracker.interface';
+
+/** System program instruction index of AdvanceNonceAccount */
+const SYSTEM_ADVANCE_NONCE_INSTRUCTION = 4;
+
+/**
+ * Reads the durable nonce a transaction uses in place of a recent blockhash
+ * The first instruction must be a system AdvanceNonceAccount; in v0 messages the nonce
+ * account has to be a static key, as the runtime requires.
+ * @param transaction - Legacy or v0 transaction
+ * @returns Nonce account and the nonce value the transaction was signed with, or null
+ */
+export function getDurableNonce(transaction: Transaction | VersionedTransaction): IDurableNonce | null {
+  let programId: PublicKey | undefined;
+  let nonceAccount: PublicKey | undefined;
+  let data: Uint8Array | undefined;
+  let nonce: string | null | undefined;
+
+  if (transaction instanceof VersionedTransaction) {
+    const { staticAccountKeys, compiledInstructions, recentBlockhash } = transaction.message;
+    const first = compiledInstructions[0];
+    programId = first && staticAccountKeys[first.programIdIndex];
+    nonceAccount = first && staticAccountKeys[first.accountKeyIndexes[0]];
+    data = first?.data;
+    nonce = recentBlockhash;
+  } else {
+    const first = transaction.instructions[0];
+    programId = first?.programId;
+    nonceAccount = first?.keys[0]?.pubkey;
+    data = first?.data;
+    nonce = transaction.recentBlockhash;
+  }
+
+  const isAdvance = programId?.equals(SystemProgram.programId) === true &&
+    data !== undefined &&
+    data.length >= 4 &&
+    Buffer.from(data).readUInt32LE(0) === SYSTEM_ADVANCE_NONCE_INSTRUCTION;
+
+  return isAdvance && nonceAccount && nonce ? { nonceAccount, nonce } : null;
+}
@@ -0,0 +1,119 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  PROPOSAL_LIFECYCLE_TRANSITIONS,
+  canTransition,
+  getFailureState,
+  inferLifecycleState,
+  isFailureState,
+} from './proposal-lifecycle';
+import { ProposalStatus } from '../types/moderator.interface';
+import { ProposalLifecycleState as S } from '../types/proposal-lifecycle.interface';
+
+describe('canTransition', () => {
+  it('allows the happy path from creation to settlement', () => {
+    const path = [
+      S.Initializing, S.Pending, S.Finalizing, S.LiquidityRemoved,
+      S.VaultsFinalized, S.DepositedBack, S.Settled,
+    ];
+    let from: S | null = null;
+    for (const to of path) {
+      expect(canTransition(from, to), `${from} -> ${to}`).toBe(true);
+      from = to;
+    }
+  });
+
+  it('treats a proposal without events as uninitialized', () => {
+    expect(canTransition(null, S.Initializing)).toBe(true);
+    expect(canTransition(null, S.Pending)).toBe(false);
+  });
+
+  it('rejects skipping steps and moving backwards', () => {
+    expect(canTransition(S.Pending, S.VaultsFinalized)).toBe(false);
+    expect(canTransition(S.VaultsFinalized, S.Pending)).toBe(false);
+    expect(canTransition(S.Finalizing, S.Cancelled)).toBe(false);
+  });
+
+  it('only cancels pending proposals, then settles them', () => {
+    expect(canTransition(S.Pending, S.Cancelled)).toBe(true);
+    expect(canTransition(S.Cancelled, S.DepositedBack)).toBe(true);
+    expect(canTransition(S.Cancelled, S.Finalizing)).toBe(false);
+  });
+
+  it('retries failed finalization steps from Finalizing', () => {
+    expect(canTransition(S.LiquidityRemovalFailed, S.Finalizing)).toBe(true);
+    expect(canTransition(S.VaultFinalizationFailed, S.Finalizing)).toBe(true);
+    expect(canTransition(S.LiquidityRemoved, S.Finalizing)).toBe(true);
+  });
+
+  it('lets failed sub-states fail again', () => {
+    for (const state of Object.values(S).filter(isFailureState)) {
+      if (state === S.InitializationFailed) continue;
+      expect(canTransition(state, state), state).toBe(true);
+    }
+  });
+
+  it('has no way out of terminal states', () => {
+    expect(PROPOSAL_LIFECYCLE_TRANSITIONS[S.Settled]).toEqual([]);
+    expect(PROPOSAL_LIFECYCLE_TRANSITIONS[S.InitializationFailed]).toEqual([]);
+  });
+});
+
+describe('getFailureState', () => {
+  it('maps each step to its failed sub-state', () => {
+    expect(getFailureState(S.Initializing)).toBe(S.InitializationFailed);
+    expect(getFailureState(S.Finalizing)).toBe(S.LiquidityRemovalFailed);
+    expect(getFailureState(S.LiquidityRemoved)).toBe(S.VaultFinalizationFailed);
+    expect(getFailureState(S.VaultsFinalized)).toBe(S.DepositBackFailed);
+    expect(getFailureState(S.Cancelled)).toBe(S.DepositBackFailed);
+    expect(getFailureState(S.DepositedBack)).toBe(S.SettlementFailed);
+  });
+
+  it('returns null for states no step leaves by failing', () => {
+    expect(getFailureState(S.Pending)).toBeNull();
+    expect(getFailureState(S.Settled)).toBeNull();
+  });
+
+  it('only returns failures the state machine allows', () => {
+    for (const state of Object.values(S)) {
+      const failure = getFailureState(state);
+      if (failure) {
+        expect(canTransition(state, failure), `${state} -> ${failure}`).toBe(true);
+      }
+    }
+  });
+});
+
+describe('isFailureState', () => {
+  it('recognizes failed sub-states', () => {
+    expect(isFailureState(S.DepositBackFailed)).toBe(true);
+    expect(isFailureState(S.DepositedBack)).toBe(false);
+  });
+});
+
+describe('inferLifecycleState', () => {
+  it('maps coarse statuses of proposals without events', () => {
+    expect(inferLifecycleState(ProposalStatus.Pending)).toBe(S.Pending);
+    expect(inferLifecycleState(ProposalStatus.Finalized)).toBe(S.VaultsFinalized);
+    expect(inferLifecycleState(ProposalStatus.Cancelled)).toBe(S.Cancelled);
+    expect(inferLifecycleState(ProposalStatus.Uninitialized)).toBe(S.Uninitialized);
+  });
+});
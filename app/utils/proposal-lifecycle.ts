@@ -0,0 +1,108 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ProposalStatus } from '../types/moderator.interface';
+import { ProposalLifecycleState } from '../types/proposal-lifecycle.interface';
+
+const S = ProposalLifecycleState;
+
+/**
+ * Allowed lifecycle transitions
+ * A failed sub-state may be re-entered (repeated failure) or left by retrying its step.
+ * Finalization failures retry from Finalizing since liquidity removal skips closed AMMs.
+ * LiquidityRemoved may also go back to Finalizing when an attempt was interrupted mid-step.
+ */
+export const PROPOSAL_LIFECYCLE_TRANSITIONS: Record<ProposalLifecycleState, ProposalLifecycleState[]> = {
+  [S.Uninitialized]: [S.Initializing],
+  [S.Initializing]: [S.Pending, S.InitializationFailed],
+  [S.InitializationFailed]: [],
+  [S.Pending]: [S.Finalizing, S.Cancelled],
+  [S.Finalizing]: [S.LiquidityRemoved, S.LiquidityRemovalFailed],
+  [S.LiquidityRemovalFailed]: [S.Finalizing, S.LiquidityRemovalFailed],
+  [S.LiquidityRemoved]: [S.VaultsFinalized, S.VaultFinalizationFailed, S.Finalizing],
+  [S.VaultFinalizationFailed]: [S.Finalizing, S.VaultFinalizationFailed],
+  [S.VaultsFinalized]: [S.DepositedBack, S.DepositBackFailed],
+  [S.Cancelled]: [S.DepositedBack, S.DepositBackFailed],
+  [S.DepositBackFailed]: [S.DepositedBack, S.DepositBackFailed],
+  [S.DepositedBack]: [S.Settled, S.SettlementFailed],
+  [S.SettlementFailed]: [S.Settled, S.SettlementFailed],
+  [S.Settled]: [],
+};
+
+/**
+ * Failed sub-state entered when the step leaving a state fails
+ */
+const FAILURE_STATES: Partial<Record<ProposalLifecycleState, ProposalLifecycleState>> = {
+  [S.Initializing]: S.InitializationFailed,
+  [S.Finalizing]: S.LiquidityRemovalFailed,
+  [S.LiquidityRemovalFailed]: S.LiquidityRemovalFailed,
+  [S.LiquidityRemoved]: S.VaultFinalizationFailed,
+  [S.VaultFinalizationFailed]: S.VaultFinalizationFailed,
+  [S.VaultsFinalized]: S.DepositBackFailed,
+  [S.Cancelled]: S.DepositBackFailed,
+  [S.DepositBackFailed]: S.DepositBackFailed,
+  [S.DepositedBack]: S.SettlementFailed,
+  [S.SettlementFailed]: S.SettlementFailed,
+};
+
+/**
+ * Checks whether a lifecycle transition is allowed
+ * @param from - Current state (null if the proposal has no events yet)
+ * @param to - Target state
+ * @returns True if the transition is allowed
+ */
+export function canTransition(from: ProposalLifecycleState | null, to: ProposalLifecycleState): boolean {
+  return PROPOSAL_LIFECYCLE_TRANSITIONS[from ?? S.Uninitialized].includes(to);
+}
+
+/**
+ * Returns the failed sub-state for the step that leaves a state
+ * @param state - State the proposal was in when the step failed
+ * @returns Failed sub-state, or null if no step leaves the state
+ */
+export function getFailureState(state: ProposalLifecycleState): ProposalLifecycleState | null {
+  return FAILURE_STATES[state] ?? null;
+}
+
+/**
+ * Whether a state is a failed sub-state
+ * @param state - Lifecycle state
+ * @returns True if the state marks a failed step
+ */
+export function isFailureState(state: ProposalLifecycleState): boolean {
+  return state.endsWith('Failed');
+}
+
+/**
+ * Best-effort lifecycle state for proposals created before lifecycle events were recorded
+ * @param status - The proposal's coarse status
+ * @returns Equivalent lifecycle state
+ */
+export function inferLifecycleState(status: ProposalStatus): ProposalLifecycleState {
+  switch (status) {
+    case ProposalStatus.Pending:
+      return S.Pending;
+    case ProposalStatus.Finalized:
+      return S.VaultsFinalized;
+    case ProposalStatus.Cancelled:
+      return S.Cancelled;
+    default:
+      return S.Uninitialized;
+  }
+}
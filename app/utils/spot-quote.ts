@@ -0,0 +1,98 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { BN } from '@coral-xyz/anchor';
+import { CpAmm, SwapMode } from '@meteora-ag/cp-amm-sdk';
+import DLMM from '@meteora-ag/dlmm';
+import { PoolMetadata } from '../../src/config/pools';
+
+/**
+ * Exact-in quote on a spot pool (raw token amounts)
+ */
+export interface ISpotQuote {
+  amountOut: BN;                                // After the pool's fees
+  minAmountOut: BN;
+  fee: BN;                                      // Trading plus protocol fees
+  priceImpact: number;
+}
+
+/** Quotes one direction of a spot pool against the state it was loaded with */
+export type SpotQuoter = (amountIn: BN, slippageBps: number) => ISpotQuote;
+
+/**
+ * Loads a spot pool (DAMM v2 or DLMM) once so several input amounts can be quoted against it
+ * @param connection - Solana connection
+ * @param pool - Registered pool metadata
+ * @param isBaseToQuote - Direction (true: base->quote, false: quote->base)
+ * @returns Quote function for the direction
+ */
+export async function loadSpotQuoter(
+  connection: Connection,
+  pool: PoolMetadata,
+  isBaseToQuote: boolean
+): Promise<SpotQuoter> {
+  const address = new PublicKey(pool.poolAddress);
+  const inputMint = new PublicKey(isBaseToQuote ? pool.baseMint : pool.quoteMint);
+
+  if (pool.poolType === 'dlmm') {
+    const dlmm = await DLMM.create(connection, address);
+    const swapForY = dlmm.lbPair.tokenXMint.equals(inputMint);
+    const binArrays = await dlmm.getBinArrayForSwap(swapForY);
+    return (amountIn, slippageBps) => {
+      const quote = dlmm.swapQuote(amountIn, swapForY, new BN(slippageBps), binArrays);
+      return {
+        amountOut: quote.outAmount,
+        minAmountOut: quote.minOutAmount,
+        fee: quote.fee.add(quote.protocolFee),
+        priceImpact: quote.priceImpact.toNumber(),
+      };
+    };
+  }
+
+  const cpAmm = new CpAmm(connection);
+  const poolState = await cpAmm.fetchPoolState(address);
+  const currentSlot = await connection.getSlot();
+  const blockTime = await connection.getBlockTime(currentSlot);
+  if (!blockTime) {
+    throw new Error('Failed to get block time');
+  }
+  const baseIsA = poolState.tokenAMint.toBase58() === pool.baseMint;
+
+  return (amountIn, slippageBps) => {
+    const quote = cpAmm.getQuote2({
+      inputTokenMint: inputMint,
+      slippage: slippageBps / 10000,
+      // Pools activate by slot or by timestamp
+      currentPoint: new BN(poolState.activationType ? blockTime : currentSlot),
+      poolState,
+      tokenADecimal: baseIsA ? pool.baseDecimals : pool.quoteDecimals,
+      tokenBDecimal: baseIsA ? pool.quoteDecimals : pool.baseDecimals,
+      hasReferral: false,
+      swapMode: SwapMode.ExactIn,
+      amountIn,
+    });
+    return {
+      amountOut: quote.outputAmount,
+      minAmountOut: quote.minimumAmountOut ?? quote.outputAmount,
+      fee: quote.claimingFee.add(quote.protocolFee).add(quote.compoundingFee).add(quote.referralFee),
+      priceImpact: quote.priceImpact.toNumber(),
+    };
+  };
+}
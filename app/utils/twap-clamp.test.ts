@@ -0,0 +1,113 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Decimal } from 'decimal.js';
+import { createTWAPClampStrategy, resolveClampConfig } from './twap-clamp';
+import { TWAPClampMode } from '../types/twap-oracle.interface';
+
+const d = (value: Decimal.Value) => new Decimal(value);
+
+describe('resolveClampConfig', () => {
+  it('prefers an explicit clamp over the legacy max change', () => {
+    const clamp = { mode: TWAPClampMode.Percent, maxChange: 500 };
+    expect(resolveClampConfig(clamp, 10)).toBe(clamp);
+  });
+
+  it('maps the legacy max change to absolute mode', () => {
+    expect(resolveClampConfig(undefined, 10)).toEqual({ mode: TWAPClampMode.Absolute, maxChange: 10 });
+  });
+
+  it('returns null when nothing limits observations', () => {
+    expect(resolveClampConfig(null, null)).toBeNull();
+  });
+});
+
+describe('createTWAPClampStrategy', () => {
+  it('passes prices through without a config', () => {
+    const clamp = createTWAPClampStrategy(null);
+    expect(clamp(d(1), d(1000)).toString()).toBe('1000');
+  });
+
+  it('rejects a negative maxChange', () => {
+    expect(() => createTWAPClampStrategy({ mode: TWAPClampMode.Absolute, maxChange: -1 })).toThrow();
+  });
+
+  it('rejects an unknown mode', () => {
+    expect(() => createTWAPClampStrategy({ mode: 'bogus' as TWAPClampMode, maxChange: 1 })).toThrow(/Unknown TWAP clamp mode/);
+  });
+
+  describe('absolute', () => {
+    const clamp = createTWAPClampStrategy({ mode: TWAPClampMode.Absolute, maxChange: 2 });
+
+    it('limits moves to maxChange in either direction', () => {
+      expect(clamp(d(10), d(20)).toString()).toBe('12');
+      expect(clamp(d(10), d(1)).toString()).toBe('8');
+    });
+
+    it('keeps moves within maxChange', () => {
+      expect(clamp(d(10), d(11.5)).toString()).toBe('11.5');
+    });
+
+    it('never goes below zero', () => {
+      expect(clamp(d(1), d(0)).toString()).toBe('0');
+    });
+  });
+
+  describe('percent', () => {
+    // 10% of the last observation
+    const clamp = createTWAPClampStrategy({ mode: TWAPClampMode.Percent, maxChange: 1000 });
+
+    it('scales the limit with the last observation', () => {
+      expect(clamp(d(100), d(200)).toString()).toBe('110');
+      expect(clamp(d(0.001), d(0.002)).toString()).toBe('0.0011');
+      expect(clamp(d(100), d(50)).toString()).toBe('90');
+    });
+
+    it('keeps moves within the limit', () => {
+      expect(clamp(d(100), d(95)).toString()).toBe('95');
+    });
+
+    it('passes the price through when the last observation is not positive', () => {
+      expect(clamp(d(0), d(5)).toString()).toBe('5');
+    });
+  });
+
+  describe('log-space', () => {
+    const maxLogChange = Math.log(2);
+    const clamp = createTWAPClampStrategy({ mode: TWAPClampMode.LogSpace, maxChange: maxLogChange });
+
+    it('limits up and down moves to the same ratio', () => {
+      expect(clamp(d(10), d(100)).toNumber()).toBeCloseTo(20, 10);
+      expect(clamp(d(10), d(1)).toNumber()).toBeCloseTo(5, 10);
+    });
+
+    it('keeps moves within the ratio', () => {
+      expect(clamp(d(10), d(15)).toString()).toBe('15');
+    });
+
+    it('takes the maximum step down on a drop to zero', () => {
+      expect(clamp(d(10), d(0)).toNumber()).toBeCloseTo(5, 10);
+    });
+
+    it('passes the price through when the last observation is not positive', () => {
+      expect(clamp(d(0), d(5)).toString()).toBe('5');
+    });
+  });
+});
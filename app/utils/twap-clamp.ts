@@ -0,0 +1,116 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Decimal } from 'decimal.js';
+import { ITWAPClampConfig, TWAPClampMode } from '../types/twap-oracle.interface';
+
+/**
+ * Moves an observation towards a price, limited by a clamp strategy
+ * @param lastObservation - Previous observation
+ * @param price - Current AMM price
+ * @returns New observation
+ */
+export type TWAPClampStrategy = (lastObservation: Decimal, price: Decimal) => Decimal;
+
+/**
+ * Resolves the effective clamp config for a TWAP config
+ * An explicit clamp wins; otherwise twapMaxObservationChangePerUpdate maps to Absolute mode
+ * @param clamp - Explicit clamp config (optional)
+ * @param twapMaxObservationChangePerUpdate - Legacy absolute max change (null = no limit)
+ * @returns Clamp config, or null if observations are unclamped
+ */
+export function resolveClampConfig(
+  clamp: ITWAPClampConfig | null | undefined,
+  twapMaxObservationChangePerUpdate: number | null
+): ITWAPClampConfig | null {
+  if (clamp) {
+    return clamp;
+  }
+  if (twapMaxObservationChangePerUpdate === null) {
+    return null;
+  }
+  return { mode: TWAPClampMode.Absolute, maxChange: twapMaxObservationChangePerUpdate };
+}
+
+/**
+ * Creates a clamp strategy from a clamp config
+ * Percent and LogSpace modes scale with the last observation, so a single config
+ * works for both low- and high-priced tokens. Both pass the price through when the
+ * last observation is not positive, since there is no scale to clamp against.
+ * @param config - Clamp config (null = no limit)
+ * @returns Clamp strategy
+ * @throws Error if maxChange is negative or the mode is unknown
+ */
+export function createTWAPClampStrategy(config: ITWAPClampConfig | null): TWAPClampStrategy {
+  if (!config) {
+    return (_last, price) => price;
+  }
+
+  if (config.maxChange < 0) {
+    throw new Error('Clamp maxChange must be non-negative');
+  }
+
+  switch (config.mode) {
+    case TWAPClampMode.Absolute: {
+      const maxChange = new Decimal(config.maxChange);
+      return (last, price) => {
+        if (price.gt(last)) {
+          return Decimal.min(price, last.add(maxChange));
+        }
+        return Decimal.max(price, Decimal.max(0, last.sub(maxChange)));
+      };
+    }
+
+    case TWAPClampMode.Percent: {
+      const fraction = new Decimal(config.maxChange).div(10000);
+      return (last, price) => {
+        if (last.lte(0)) {
+          return price;
+        }
+        const maxChange = last.mul(fraction);
+        if (price.gt(last)) {
+          return Decimal.min(price, last.add(maxChange));
+        }
+        return Decimal.max(price, Decimal.max(0, last.sub(maxChange)));
+      };
+    }
+
+    case TWAPClampMode.LogSpace: {
+      const maxLogChange = new Decimal(config.maxChange);
+      return (last, price) => {
+        if (last.lte(0)) {
+          return price;
+        }
+        if (price.lte(0)) {
+          // A drop to zero is infinitely far in log space - take the maximum step down
+          return last.div(maxLogChange.exp());
+        }
+        const logChange = price.div(last).ln();
+        if (logChange.abs().lte(maxLogChange)) {
+          return price;
+        }
+        const bounded = logChange.isPositive() ? maxLogChange : maxLogChange.neg();
+        return last.mul(bounded.exp());
+      };
+    }
+
+    default:
+      throw new Error(`Unknown TWAP clamp mode: ${(config as ITWAPClampConfig).mode}`);
+  }
+}
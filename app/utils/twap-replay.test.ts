@@ -0,0 +1,104 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { replayTWAP, replayTWAPVariants } from './twap-replay';
+import { ITWAPConfig, TWAPClampMode } from '../types/twap-oracle.interface';
+import { ITWAPReplayInput } from '../types/twap-replay.interface';
+
+const config: ITWAPConfig = {
+  initialTwapValue: 1,
+  twapMaxObservationChangePerUpdate: null,
+  twapStartDelay: 0,
+  passThresholdBps: 0,
+  minUpdateInterval: 1000,
+};
+
+const input: ITWAPReplayInput = {
+  proposalId: 1,
+  markets: 2,
+  createdAt: 0,
+  finalizedAt: 10_000,
+  prices: [
+    { timestamp: 0, market: 0, price: 2 },
+    { timestamp: 3_500, market: 1, price: 3 },
+    { timestamp: 1_000, market: 1, price: 1.5 },
+  ],
+};
+
+describe('replayTWAP', () => {
+  it('cranks at every interval before the end of the proposal', async () => {
+    expect((await replayTWAP(input, config)).cranks).toBe(9);
+    expect((await replayTWAP(input, config, { crankInterval: 2_000 })).cranks).toBe(4);
+  });
+
+  it('feeds each market the latest price recorded at or before the crank', async () => {
+    const result = await replayTWAP(input, config);
+    expect(result.observations.map(obs => obs.toString())).toEqual(['2', '3']);
+    expect(result.resolution.winningIndex).toBe(1);
+  });
+
+  it('ignores prices recorded after the last crank and for unknown markets', async () => {
+    const result = await replayTWAP({
+      ...input,
+      prices: [
+        ...input.prices,
+        { timestamp: 9_500, market: 0, price: 100 },
+        { timestamp: 0, market: 2, price: 100 },
+        { timestamp: 0, market: -1, price: 100 },
+      ],
+    }, config);
+    expect(result.observations.map(obs => obs.toString())).toEqual(['2', '3']);
+  });
+
+  it('is deterministic', async () => {
+    const first = await replayTWAP(input, config);
+    const second = await replayTWAP({ ...input, prices: [...input.prices].reverse() }, config);
+    expect(second.twaps.map(twap => twap.toString())).toEqual(first.twaps.map(twap => twap.toString()));
+    expect(second.resolution.winningIndex).toBe(first.resolution.winningIndex);
+  });
+
+  it('reports how often the clamp fired per market', async () => {
+    const result = await replayTWAP(input, {
+      ...config,
+      clamp: { mode: TWAPClampMode.Absolute, maxChange: 0.1 },
+    });
+    // Market 0 climbs 0.1 per crank towards 2 and never reaches it
+    expect(result.observations[0].toString()).toBe('1.9');
+    expect(result.clampStats[0]).toMatchObject({ updates: 9, clamped: 9, lastClampedAt: 9_000 });
+    expect(result.clampStats[0].maxSuppressedBps).toBeCloseTo(4500);
+    expect(result.clampStats[1].clamped).toBeGreaterThan(0);
+  });
+
+  it('rejects an empty timeline', async () => {
+    await expect(replayTWAP({ ...input, finalizedAt: input.createdAt }, config)).rejects.toThrow(/finalizedAt/);
+  });
+});
+
+describe('replayTWAPVariants', () => {
+  it('replays every variant in order with its name', async () => {
+    const results = await replayTWAPVariants(input, [
+      { name: 'unclamped', config },
+      { name: 'clamped', config: { ...config, twapMaxObservationChangePerUpdate: 0.1 } },
+    ]);
+    expect(results.map(result => result.name)).toEqual(['unclamped', 'clamped']);
+    expect(results[0].clampStats[0].clamped).toBe(0);
+    expect(results[1].twaps[1].lt(results[0].twaps[1])).toBe(true);
+  });
+});
@@ -0,0 +1,128 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Decimal } from 'decimal.js';
+import { TWAPOracle } from '../twap-oracle';
+import { ITWAPConfig, ITWAPPriceSource } from '../types/twap-oracle.interface';
+import {
+  ITWAPReplayInput,
+  ITWAPReplayOptions,
+  ITWAPReplayResult,
+  ITWAPReplayVariant,
+} from '../types/twap-replay.interface';
+
+/**
+ * Price source that serves the most recently replayed price for one market
+ */
+class ReplayPriceFeed implements ITWAPPriceSource {
+  constructor(public price: Decimal) {}
+
+  async fetchPrice(): Promise<Decimal> {
+    return this.price;
+  }
+}
+
+/**
+ * Replays recorded prices through a TWAPOracle with a fake clock
+ * Cranks at a fixed interval between createdAt and finalizedAt, feeding each market
+ * the latest price recorded at or before the crank time (initialTwapValue before the first).
+ * Deterministic: the same input and config always produce the same result.
+ * @param input - Proposal timeline and recorded prices
+ * @param config - TWAP config to replay with
+ * @param options - Replay options
+ * @returns Final TWAPs, winner, and clamp stats
+ * @throws Error if the timeline or crank interval is invalid
+ */
+export async function replayTWAP(
+  input: ITWAPReplayInput,
+  config: ITWAPConfig,
+  options: ITWAPReplayOptions = {}
+): Promise<ITWAPReplayResult> {
+  if (input.finalizedAt <= input.createdAt) {
+    throw new Error('finalizedAt must be after createdAt');
+  }
+
+  const crankInterval = options.crankInterval ?? Math.max(config.minUpdateInterval, 1000);
+  if (crankInterval <= 0) {
+    throw new Error('crankInterval must be positive');
+  }
+
+  let now = input.createdAt;
+  const oracle = new TWAPOracle(
+    input.proposalId,
+    config,
+    input.markets,
+    input.createdAt,
+    input.finalizedAt,
+    () => now
+  );
+
+  const feeds = Array(input.markets).fill(null).map(() => new ReplayPriceFeed(new Decimal(config.initialTwapValue)));
+  oracle.setAMMs(feeds);
+
+  const prices = input.prices
+    .filter(point => point.market >= 0 && point.market < input.markets)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  let cursor = 0;
+  let cranks = 0;
+  for (let t = input.createdAt + crankInterval; t < input.finalizedAt; t += crankInterval) {
+    while (cursor < prices.length && prices[cursor].timestamp <= t) {
+      feeds[prices[cursor].market].price = new Decimal(prices[cursor].price);
+      cursor++;
+    }
+
+    now = t;
+    await oracle.crankTWAP();
+    cranks++;
+  }
+
+  // Evaluate at the end of the proposal, as finalization does
+  now = input.finalizedAt;
+  const { twaps } = oracle.fetchTWAPs();
+
+  return {
+    config,
+    cranks,
+    twaps,
+    observations: oracle.serialize().observations.map(obs => new Decimal(obs)),
+    resolution: oracle.resolveOutcome(),
+    clampStats: oracle.getClampStats(),
+  };
+}
+
+/**
+ * Replays the same recorded prices against several TWAP configs
+ * @param input - Proposal timeline and recorded prices
+ * @param variants - Named configs to compare
+ * @param options - Replay options applied to every variant
+ * @returns One result per variant, in order
+ */
+export async function replayTWAPVariants(
+  input: ITWAPReplayInput,
+  variants: ITWAPReplayVariant[],
+  options: ITWAPReplayOptions = {}
+): Promise<ITWAPReplayResult[]> {
+  const results: ITWAPReplayResult[] = [];
+  for (const variant of variants) {
+    const result = await replayTWAP(input, variant.config, options);
+    results.push({ ...result, name: variant.name });
+  }
+  return results;
+}
@@ -0,0 +1,186 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import os from 'os';
+import { getPool } from '@app/utils/database';
+import { logError } from './logger';
+
+// A leader that stops renewing loses the lease after LEASE_TTL_MS; followers take over on their next renewal
+const LEASE_TTL_MS = 20_000;
+const RENEW_INTERVAL_MS = 5_000;
+// A renewal slower than this is abandoned by the database rather than left holding up the next one
+const RENEW_TIMEOUT_MS = 4_000;
+
+export interface LeaderElectionEvents {
+  'elected': () => void;
+  'demoted': () => void;
+}
+
+/**
+ * Elects one monitor instance as leader through a lease row (cmb_monitor_leases).
+ * The leader renews its lease every few seconds; when it stops (crash, network
+ * partition, shutdown) another instance acquires the expired lease.
+ *
+ * Only the leader cranks TWAPs, runs finalization and writes history. Followers keep
+ * serving SSE and history. An instance created with campaign=false (listen-only)
+ * never becomes leader.
+ *
+ * Emits 'elected' and 'demoted' when leadership changes.
+ */
+export class LeaderElection extends EventEmitter {
+  readonly holderId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+  private leader = false;
+  private leaseExpiresAt = 0;
+  private renewing = false;
+  private renewTimer: NodeJS.Timeout | null = null;
+  private expiryTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private campaign = true,
+    private leaseName = 'monitor'
+  ) {
+    super();
+  }
+
+  /** True only while our lease is still valid by the local clock, even if a renewal is stuck */
+  get isLeader() {
+    return this.leader && Date.now() < this.leaseExpiresAt;
+  }
+
+  /** Try to acquire the lease now, then keep renewing or retrying */
+  async start() {
+    if (!this.campaign) {
+      console.log('[Leader] Not campaigning (listen-only)');
+      return;
+    }
+
+    await this.renew();
+    this.renewTimer = setInterval(() => void this.renew(), RENEW_INTERVAL_MS);
+    console.log(`[Leader] Started as ${this.holderId} (${this.leader ? 'leader' : 'follower'})`);
+  }
+
+  /** Stop campaigning and release the lease so a follower takes over immediately */
+  async stop() {
+    if (this.renewTimer) {
+      clearInterval(this.renewTimer);
+      this.renewTimer = null;
+    }
+    this.clearExpiryTimer();
+    if (!this.leader) return;
+
+    this.setLeader(false);
+    try {
+      await getPool().query(
+        'DELETE FROM cmb_monitor_leases WHERE name = $1 AND holder_id = $2',
+        [this.leaseName, this.holderId]
+      );
+    } catch (e) {
+      // The lease expires on its own
+      console.error('[Leader] Failed to release lease:', e);
+    }
+  }
+
+  /** Acquire the lease if free or expired, or extend it if we hold it */
+  private async renew() {
+    // Renewals never overlap; a stuck one is covered by the local expiry timer
+    if (this.renewing) return;
+    this.renewing = true;
+    const requestedAt = Date.now();
+
+    try {
+      const result = await this.queryWithTimeout(
+        `INSERT INTO cmb_monitor_leases (name, holder_id, expires_at)
+         VALUES ($1, $2, NOW() + $3::integer * INTERVAL '1 millisecond')
+         ON CONFLICT (name) DO UPDATE
+         SET holder_id = EXCLUDED.holder_id,
+             expires_at = EXCLUDED.expires_at,
+             acquired_at = CASE WHEN cmb_monitor_leases.holder_id = EXCLUDED.holder_id
+                                THEN cmb_monitor_leases.acquired_at ELSE NOW() END
+         WHERE cmb_monitor_leases.holder_id = EXCLUDED.holder_id
+            OR cmb_monitor_leases.expires_at < NOW()
+         RETURNING holder_id`,
+        [this.leaseName, this.holderId, LEASE_TTL_MS]
+      );
+
+      const held = (result.rowCount ?? 0) > 0;
+      if (held) {
+        // Measured from before the request, so our view of the lease never outlives the database's
+        this.leaseExpiresAt = requestedAt + LEASE_TTL_MS;
+        this.scheduleExpiry();
+      }
+      this.setLeader(held);
+    } catch (e) {
+      // Without the database we can't renew; keep leading only while the last lease is safely valid
+      const errMsg = e instanceof Error ? e.message : String(e);
+      console.error('[Leader] Lease renewal failed:', errMsg);
+      if (this.leader && Date.now() >= this.leaseExpiresAt - RENEW_INTERVAL_MS) {
+        logError('server', { type: 'leader_election', holderId: this.holderId, error: `Stepped down: ${errMsg}` }, { severity: 'warning' });
+        this.setLeader(false);
+      }
+    } finally {
+      this.renewing = false;
+    }
+  }
+
+  /** Run a statement on its own connection with a statement timeout */
+  private async queryWithTimeout(text: string, values: unknown[]) {
+    const client = await getPool().connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`SET LOCAL statement_timeout = ${RENEW_TIMEOUT_MS}`);
+      const result = await client.query(text, values);
+      await client.query('COMMIT');
+      return result;
+    } catch (e) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Step down when the lease runs out without a renewal having extended it */
+  private scheduleExpiry() {
+    this.clearExpiryTimer();
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      if (!this.leader) return;
+      logError('server', { type: 'leader_election', holderId: this.holderId, error: 'Stepped down: lease expired before renewal' }, { severity: 'warning' });
+      this.setLeader(false);
+    }, Math.max(0, this.leaseExpiresAt - Date.now()));
+  }
+
+  private clearExpiryTimer() {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  private setLeader(leader: boolean) {
+    if (leader === this.leader) return;
+
+    this.leader = leader;
+    console.log(`[Leader] ${this.holderId} ${leader ? 'elected leader' : 'is now a follower'}`);
+    this.emit(leader ? 'elected' : 'demoted');
+  }
+}
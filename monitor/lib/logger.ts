@@ -17,79 +17,190 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import fs from 'fs';
-import path from 'path';
+import { getPool } from '@app/utils/database';
 
-const LOGS_DIR = path.join(__dirname, '..', 'logs');
+export const ERROR_SERVICES = ['lifecycle', 'server', 'twap', 'price'] as const;
+export type ErrorService = (typeof ERROR_SERVICES)[number];
 
-// Ensure logs directory exists
-if (!fs.existsSync(LOGS_DIR)) {
-  fs.mkdirSync(LOGS_DIR, { recursive: true });
+export const ERROR_SEVERITIES = ['warning', 'error', 'critical'] as const;
+export type ErrorSeverity = (typeof ERROR_SEVERITIES)[number];
+
+/** An error row from cmb_monitor_errors */
+export interface MonitorError {
+  id: number;
+  service: ErrorService;
+  severity: ErrorSeverity;
+  action: string | null;
+  proposalPda: string | null;
+  message: string;
+  details: Record<string, any>;
+  flowId: number | null;      // Lifecycle flow that produced the error
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  createdAt: string;
+}
+
+/** A lifecycle finalization flow run from cmb_lifecycle_flows */
+export interface LifecycleFlow {
+  id: number;
+  proposalPda: string;
+  success: boolean;
+  results: Record<string, any>;
+  startedAt: string;
+  completedAt: string;
+}
+
+export interface ErrorQuery {
+  service?: ErrorService;
+  severity?: ErrorSeverity;
+  proposalPda?: string;
+  action?: string;
+  acknowledged?: boolean;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
 }
 
-export const LOG_FILES = ['lifecycle', 'server', 'twap', 'price'] as const;
-export type LogFile = (typeof LOG_FILES)[number];
+export interface LogErrorOptions {
+  severity?: ErrorSeverity;  // Default: error
+  flowId?: number;
+}
 
 /**
- * Append a JSON error entry to the specified log file.
+ * Store an error in cmb_monitor_errors.
+ * `action` (or `type`), `proposalPda` and `error` are stored in their own columns,
+ * everything else in `details`. Never throws: if the database is unavailable the
+ * entry goes to the process log instead.
+ * @returns The error ID, or null if it couldn't be stored
  */
-export function logError(file: LogFile, data: Record<string, any>) {
-  const entry = {
-    timestamp: new Date().toISOString(),
-    ...data,
-  };
+export async function logError(
+  service: ErrorService,
+  data: Record<string, any>,
+  options: LogErrorOptions = {}
+): Promise<number | null> {
+  const { action, type, proposalPda, error, ...details } = data;
 
-  const filePath = path.join(LOGS_DIR, `${file}.jsonl`);
-  const line = JSON.stringify(entry, null, 2) + '\n';
-  fs.appendFileSync(filePath, line);
+  try {
+    const result = await getPool().query(
+      `INSERT INTO cmb_monitor_errors (service, severity, action, proposal_pda, message, details, flow_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [
+        service,
+        options.severity ?? 'error',
+        action ?? type ?? null,
+        proposalPda ?? null,
+        error !== undefined ? String(error) : 'Unknown error',
+        details,
+        options.flowId ?? null,
+      ]
+    );
+    return result.rows[0].id;
+  } catch (e) {
+    console.error(`[Logger] Failed to store ${service} error:`, e instanceof Error ? e.message : e, JSON.stringify(data));
+    return null;
+  }
 }
 
 /**
- * Read all entries from a log file.
+ * Query errors, newest first
+ * @returns One page of errors and the total number matching the filters
  */
-export function readErrors(file: LogFile): Record<string, any>[] {
-  const filePath = path.join(LOGS_DIR, `${file}.jsonl`);
-
-  if (!fs.existsSync(filePath)) return [];
-
-  const content = fs.readFileSync(filePath, 'utf-8');
-  const entries: Record<string, any>[] = [];
-
-  // Parse JSONL (each entry may be multi-line due to pretty printing)
-  let buffer = '';
-  let braceCount = 0;
-
-  for (const char of content) {
-    buffer += char;
-    if (char === '{') braceCount++;
-    if (char === '}') braceCount--;
-
-    if (braceCount === 0 && buffer.trim()) {
-      try {
-        entries.push(JSON.parse(buffer.trim()));
-      } catch {
-        // Skip malformed entries
-      }
-      buffer = '';
-    }
+export async function queryErrors(query: ErrorQuery): Promise<{ errors: MonitorError[]; total: number }> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  const where = (condition: string, value: any) => {
+    params.push(value);
+    conditions.push(condition.replace('?', `$${params.length}`));
+  };
+
+  if (query.service) where('service = ?', query.service);
+  if (query.severity) where('severity = ?', query.severity);
+  if (query.proposalPda) where('proposal_pda = ?', query.proposalPda);
+  if (query.action) where('action = ?', query.action);
+  if (query.acknowledged !== undefined) {
+    conditions.push(query.acknowledged ? 'acknowledged_at IS NOT NULL' : 'acknowledged_at IS NULL');
   }
+  if (query.from) where('created_at >= ?', query.from);
+  if (query.to) where('created_at <= ?', query.to);
 
-  return entries;
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const pool = getPool();
+
+  const [rows, count] = await Promise.all([
+    pool.query(
+      `SELECT * FROM cmb_monitor_errors ${whereClause}
+       ORDER BY id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, query.limit, query.offset]
+    ),
+    pool.query(`SELECT COUNT(*) AS total FROM cmb_monitor_errors ${whereClause}`, params),
+  ]);
+
+  return {
+    errors: rows.rows.map(rowToError),
+    total: Number(count.rows[0].total),
+  };
 }
 
 /**
- * Clear a log file.
+ * Get an error with the lifecycle flow that produced it (if any)
  */
-export function clearErrors(file: LogFile) {
-  const filePath = path.join(LOGS_DIR, `${file}.jsonl`);
-  if (fs.existsSync(filePath)) {
-    fs.unlinkSync(filePath);
-  }
+export async function getError(id: number): Promise<(MonitorError & { flow: LifecycleFlow | null }) | null> {
+  const result = await getPool().query(
+    `SELECT e.*,
+            f.proposal_pda AS flow_proposal_pda, f.success AS flow_success, f.results AS flow_results,
+            f.started_at AS flow_started_at, f.completed_at AS flow_completed_at
+     FROM cmb_monitor_errors e
+     LEFT JOIN cmb_lifecycle_flows f ON f.id = e.flow_id
+     WHERE e.id = $1`,
+    [id]
+  );
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  return {
+    ...rowToError(row),
+    flow: row.flow_id !== null
+      ? {
+          id: row.flow_id,
+          proposalPda: row.flow_proposal_pda,
+          success: row.flow_success,
+          results: row.flow_results,
+          startedAt: new Date(row.flow_started_at).toISOString(),
+          completedAt: new Date(row.flow_completed_at).toISOString(),
+        }
+      : null,
+  };
 }
 
 /**
- * Get path to logs directory.
+ * Acknowledge errors (already acknowledged ones are left unchanged)
+ * @returns Number of errors acknowledged
  */
-export function getLogsDir() {
-  return LOGS_DIR;
+export async function acknowledgeErrors(ids: number[], acknowledgedBy: string | null): Promise<number> {
+  const result = await getPool().query(
+    `UPDATE cmb_monitor_errors
+     SET acknowledged_at = NOW(), acknowledged_by = $2
+     WHERE id = ANY($1::int[]) AND acknowledged_at IS NULL`,
+    [ids, acknowledgedBy]
+  );
+  return result.rowCount ?? 0;
+}
+
+function rowToError(row: any): MonitorError {
+  return {
+    id: row.id,
+    service: row.service,
+    severity: row.severity,
+    action: row.action,
+    proposalPda: row.proposal_pda,
+    message: row.message,
+    details: row.details,
+    flowId: row.flow_id,
+    acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at).toISOString() : null,
+    acknowledgedBy: row.acknowledged_by,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
 }
@@ -0,0 +1,165 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { SSEManager } from './sse';
+
+/** Fake response that records the events written to it */
+function fakeResponse() {
+  const writes: string[] = [];
+  const res = {
+    setHeader: vi.fn(),
+    flushHeaders: vi.fn(),
+    write: (chunk: string) => writes.push(chunk),
+    end: vi.fn(),
+  } as unknown as Response;
+  const events = () => writes
+    .filter((chunk) => chunk.includes('event: '))
+    .map((chunk) => ({
+      id: /^id: (\d+)$/m.exec(chunk)?.[1],
+      event: /^event: (\w+)$/m.exec(chunk)![1],
+      data: JSON.parse(/^data: (.*)$/m.exec(chunk)![1]),
+    }));
+  return { res, events };
+}
+
+function fakeRequest(query: Record<string, string> = {}, headers: Record<string, string> = {}) {
+  return Object.assign(new EventEmitter(), {
+    query,
+    header: (name: string) => headers[name],
+  }) as unknown as Request;
+}
+
+describe('SSEManager', () => {
+  let sse: SSEManager;
+
+  afterEach(() => sse.closeAll());
+
+  function connect(query?: Record<string, string>, headers?: Record<string, string>) {
+    const { res, events } = fakeResponse();
+    const client = sse.connect(fakeRequest(query, headers), res);
+    return { client, events };
+  }
+
+  it('broadcasts only events that pass every filter', () => {
+    sse = new SSEManager();
+    const { events } = connect({ proposal: 'P1', type: 'COND_SWAP,PRICE_UPDATE', trader: 'T1' });
+
+    sse.broadcast('COND_SWAP', { proposalPda: 'P1', trader: 'T1' });
+    sse.broadcast('COND_SWAP', { proposalPda: 'P1', trader: 'T2' });
+    sse.broadcast('COND_SWAP', { proposalPda: 'P2', trader: 'T1' });
+    sse.broadcast('TWAP_UPDATE', { proposalPda: 'P1' });
+
+    expect(events().map((e) => e.data)).toEqual([{ proposalPda: 'P1', trader: 'T1' }]);
+  });
+
+  it('replays missed events after Last-Event-ID in order, filtered', () => {
+    sse = new SSEManager();
+    sse.broadcast('PRICE_UPDATE', { proposalPda: 'P1', price: 1 });
+    const lastSeen = sse.lastEventId;
+    sse.broadcast('TWAP_UPDATE', { proposalPda: 'P1', twap: 2 });
+    sse.broadcast('PRICE_UPDATE', { proposalPda: 'P2', price: 3 });
+    sse.broadcast('PRICE_UPDATE', { proposalPda: 'P1', price: 4 });
+
+    const { client, events } = connect({ proposal: 'P1' }, { 'Last-Event-ID': String(lastSeen) });
+    sse.replay(client);
+
+    expect(events().map((e) => e.data)).toEqual([
+      { proposalPda: 'P1', twap: 2 },
+      { proposalPda: 'P1', price: 4 },
+    ]);
+    expect(events().map((e) => Number(e.id))).toEqual([lastSeen + 1, lastSeen + 3]);
+  });
+
+  it('falls back to the lastEventId query param', () => {
+    sse = new SSEManager();
+    const lastSeen = sse.lastEventId;
+    sse.broadcast('PRICE_UPDATE', { price: 1 });
+
+    const { client, events } = connect({ lastEventId: String(lastSeen) });
+    sse.replay(client);
+
+    expect(events().map((e) => e.event)).toEqual(['PRICE_UPDATE']);
+  });
+
+  it('does not replay without a usable Last-Event-ID', () => {
+    sse = new SSEManager();
+    sse.broadcast('PRICE_UPDATE', { price: 1 });
+
+    const queries: Record<string, string>[] = [{}, { lastEventId: '' }, { lastEventId: 'abc' }];
+    for (const query of queries) {
+      const { client, events } = connect(query);
+      expect(client.lastEventId).toBeNull();
+      sse.replay(client);
+      expect(events()).toEqual([]);
+    }
+  });
+
+  it('sends RESYNC when the missed events predate startup', () => {
+    sse = new SSEManager();
+    sse.broadcast('PRICE_UPDATE', { price: 1 });
+
+    const { client, events } = connect({ type: 'PRICE_UPDATE' }, { 'Last-Event-ID': '1' });
+    sse.replay(client);
+
+    expect(events().map((e) => e.event)).toEqual(['RESYNC', 'PRICE_UPDATE']);
+  });
+
+  it('sends RESYNC when missed events were evicted from the buffer', () => {
+    sse = new SSEManager();
+    const lastSeen = sse.lastEventId;
+    for (let i = 0; i < 501; i++) {
+      sse.broadcast('PRICE_UPDATE', { price: i });
+    }
+
+    const { client, events } = connect({}, { 'Last-Event-ID': String(lastSeen) });
+    sse.replay(client);
+
+    const replayed = events();
+    expect(replayed[0].event).toBe('RESYNC');
+    expect(replayed).toHaveLength(501);
+    expect(replayed[1].data).toEqual({ price: 1 });
+  });
+
+  it('ignores evictions of event types the client filters out', () => {
+    sse = new SSEManager();
+    const lastSeen = sse.lastEventId;
+    for (let i = 0; i < 501; i++) {
+      sse.broadcast('PRICE_UPDATE', { price: i });
+    }
+    sse.broadcast('COND_SWAP', { trader: 'T1' });
+
+    const { client, events } = connect({ type: 'COND_SWAP' }, { 'Last-Event-ID': String(lastSeen) });
+    sse.replay(client);
+
+    expect(events().map((e) => e.event)).toEqual(['COND_SWAP']);
+  });
+
+  it('sends nothing to an up-to-date client', () => {
+    sse = new SSEManager();
+    sse.broadcast('PRICE_UPDATE', { price: 1 });
+
+    const { client, events } = connect({}, { 'Last-Event-ID': String(sse.lastEventId) });
+    sse.replay(client);
+
+    expect(events()).toEqual([]);
+  });
+});
@@ -19,6 +19,42 @@
 
 import { Response, Request } from 'express';
 
+/** Events kept per event type for Last-Event-ID replay */
+const REPLAY_BUFFER_SIZE = 500;
+
+/**
+ * Server-side filters parsed from the /events query string.
+ * Each filter is a set of accepted values; an unset filter accepts everything.
+ */
+export interface SSEFilter {
+  proposals?: Set<string>;  // ?proposal=<pda>[,<pda>]
+  types?: Set<string>;      // ?type=COND_SWAP[,PRICE_UPDATE]
+  traders?: Set<string>;    // ?trader=<wallet>[,<wallet>]
+}
+
+interface BufferedEvent {
+  id: number;
+  event: string;
+  data: any;
+}
+
+/** Parse a comma-separated query param into a set (undefined when absent or empty) */
+const parseList = (value: unknown): Set<string> | undefined => {
+  const values = (Array.isArray(value) ? value : [value])
+    .filter((v): v is string => typeof v === 'string')
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+  return values.length > 0 ? new Set(values) : undefined;
+};
+
+/** Parse an event ID (null when absent, empty or not a non-negative integer) */
+const parseEventId = (value: unknown): number | null => {
+  if (typeof value !== 'string' || !/^\d+$/.test(value.trim())) return null;
+  const id = Number(value);
+  return Number.isSafeInteger(id) ? id : null;
+};
+
 /**
  * Wrapper around Express Response for SSE connections.
  * Handles protocol details so consumers just call send().
@@ -28,7 +64,9 @@ export class SSEClient {
 
   constructor(
     private res: Response,
-    private id: string
+    private id: string,
+    readonly filter: SSEFilter = {},
+    readonly lastEventId: number | null = null
   ) {
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
@@ -36,9 +74,19 @@ export class SSEClient {
     res.flushHeaders();
   }
 
-  /** Send an event to the client */
-  send(event: string, data: any) {
-    this.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  /** Send an event to the client (with an id, the browser resends it as Last-Event-ID on reconnect) */
+  send(event: string, data: any, eventId?: number) {
+    const idLine = eventId !== undefined ? `id: ${eventId}\n` : '';
+    this.res.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /** Whether an event passes this client's filters */
+  accepts(event: string, data: any): boolean {
+    const { proposals, types, traders } = this.filter;
+    if (types && !types.has(event)) return false;
+    if (proposals && !proposals.has(data?.proposalPda)) return false;
+    if (traders && !traders.has(data?.trader)) return false;
+    return true;
   }
 
   /** Send a keepalive comment (prevents connection timeout) */
@@ -67,15 +115,34 @@ export class SSEClient {
 
 /**
  * Manages multiple SSE client connections.
- * Handles connection lifecycle and broadcasting.
+ * Handles connection lifecycle, broadcasting and replay.
+ *
+ * Broadcast events get monotonic IDs. IDs start at the startup time in ms, so they keep
+ * increasing across restarts unless the monitor averages more than one event per ms.
  */
 export class SSEManager {
   private clients = new Set<SSEClient>();
   private idCounter = 0;
-
-  /** Create a new SSE client from an Express request */
+  private eventId = Date.now();
+  // Events up to this ID are not buffered: sent before startup, or evicted (per event type)
+  private readonly startEventId = this.eventId;
+  private evictedUpTo = new Map<string, number>();
+  private buffers = new Map<string, BufferedEvent[]>();
+
+  /**
+   * Create a new SSE client from an Express request.
+   * Filters come from the query string (proposal, type, trader); the replay position from
+   * the Last-Event-ID header, or the lastEventId query param for the first connection.
+   */
   connect(req: Request, res: Response): SSEClient {
-    const client = new SSEClient(res, `sse-${++this.idCounter}`);
+    const filter: SSEFilter = {
+      proposals: parseList(req.query.proposal),
+      types: parseList(req.query.type),
+      traders: parseList(req.query.trader),
+    };
+    const lastEventId = parseEventId(req.header('Last-Event-ID')) ?? parseEventId(req.query.lastEventId);
+
+    const client = new SSEClient(res, `sse-${++this.idCounter}`, filter, lastEventId);
     client.startKeepalive();
     this.clients.add(client);
 
@@ -91,9 +158,72 @@ export class SSEManager {
     return client;
   }
 
-  /** Broadcast an event to all connected clients */
+  /** Broadcast an event to every client whose filters accept it */
   broadcast(event: string, data: any) {
-    this.clients.forEach((client) => client.send(event, data));
+    const id = ++this.eventId;
+
+    let buffer = this.buffers.get(event);
+    if (!buffer) {
+      buffer = [];
+      this.buffers.set(event, buffer);
+    }
+    buffer.push({ id, event, data });
+    if (buffer.length > REPLAY_BUFFER_SIZE) {
+      this.evictedUpTo.set(event, buffer.shift()!.id);
+    }
+
+    this.clients.forEach((client) => {
+      if (client.accepts(event, data)) client.send(event, data, id);
+    });
+  }
+
+  /**
+   * Send a client the buffered events it missed (those after its Last-Event-ID), oldest first.
+   * When some of the missed events are no longer buffered (evicted, or sent before a restart),
+   * a RESYNC event tells the client to refetch state; the buffered ones are replayed after it.
+   */
+  replay(client: SSEClient) {
+    if (client.lastEventId === null) return;
+
+    if (this.hasGap(client)) {
+      client.send('RESYNC', { lastEventId: client.lastEventId, timestamp: Date.now() });
+      console.log(`[SSE] ${client.clientId} missed events that are no longer buffered, sent RESYNC`);
+    }
+
+    const missed: BufferedEvent[] = [];
+    for (const buffer of this.buffers.values()) {
+      for (const buffered of buffer) {
+        if (buffered.id > client.lastEventId && client.accepts(buffered.event, buffered.data)) {
+          missed.push(buffered);
+        }
+      }
+    }
+    missed.sort((a, b) => a.id - b.id);
+    missed.forEach((buffered) => client.send(buffered.event, buffered.data, buffered.id));
+
+    if (missed.length > 0) {
+      console.log(`[SSE] Replayed ${missed.length} events to ${client.clientId}`);
+    }
+  }
+
+  /** Whether events after the client's Last-Event-ID that it would accept are gone from the buffers */
+  private hasGap(client: SSEClient): boolean {
+    const lastEventId = client.lastEventId;
+    if (lastEventId === null || lastEventId >= this.eventId) return false;
+    if (lastEventId < this.startEventId) return true;
+
+    // Evicted events are only known by type, so any evicted type the client accepts counts
+    for (const [event, evictedUpTo] of this.evictedUpTo) {
+      if (lastEventId < evictedUpTo && (!client.filter.types || client.filter.types.has(event))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** ID of the most recent broadcast event */
+  get lastEventId() {
+    return this.eventId;
   }
 
   /** Close all connections */
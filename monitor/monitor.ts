@@ -18,7 +18,7 @@
  */
 
 import { EventEmitter } from 'events';
-import { Connection, PublicKey, Keypair, Logs } from '@solana/web3.js';
+import { Connection, PublicKey, Keypair, Logs, ConfirmedSignatureInfo } from '@solana/web3.js';
 import { AnchorProvider, Wallet, BorshCoder, EventParser, BN } from '@coral-xyz/anchor';
 import {
   FutarchyClient,
@@ -53,7 +53,9 @@ interface CondSwapEvent {
 }
 import { FutarchyIDL, AmmIDL } from '@zcomb/programs-sdk/dist/generated/idls';
 import { getPool } from '@app/utils/database';
+import { RpcPool } from '@app/services/rpc-pool.service';
 import { logError } from './lib/logger';
+import { LeaderElection } from './lib/leader';
 import { callApi, ApiProposal, AllProposalsResponse } from './lib/api';
 
 export interface MonitoredProposal {
@@ -87,6 +89,15 @@ export interface SwapEvent {
   amountOut: BN;
   feeAmount: BN;
   txSignature: string;
+  eventIndex: number; // Position among the transaction's CondSwap events (same live and backfilled)
+  timestamp: number; // Block time (ms) for backfilled swaps, receive time for live ones
+  backfilled: boolean;
+}
+
+export interface SubscriptionHealth {
+  programId: string;
+  lastEventAt: number;          // Last live log notification (or subscription start)
+  lastMissedAt: number | null;  // Block time of the newest transaction only found by backfill
 }
 
 export interface MonitorEvents {
@@ -95,10 +106,28 @@ export interface MonitorEvents {
   'swap': (swap: SwapEvent) => void;
 }
 
+interface ProgramCheckpoint {
+  slot: number;
+  signature: string;
+}
+
+// Backfill sweeps fill gaps left by websocket drops; the sweep interval bounds how late a missed event arrives
+const BACKFILL_INTERVAL_MS = 60_000;
+const SIGNATURE_PAGE_SIZE = 1000;
+// Longest gap a single sweep walks back through (per program)
+const MAX_BACKFILL_SIGNATURES = 20_000;
+const TRANSACTION_BATCH_SIZE = 25;
+// Signatures remembered per program for dedupe between live events and backfill
+const MAX_PROCESSED_SIGNATURES = 10_000;
+
 /**
  * Listens for ProposalLaunched/ProposalFinalized events on-chain and tracks
  * proposals from moderators registered in our database (cmb_daos table).
  * Emits 'proposal:added' and 'proposal:removed' events for other services.
+ *
+ * Live events come from onLogs subscriptions. A periodic backfill walks each program's
+ * signatures from its checkpoint (cmb_ingestion_checkpoints) to the tip and replays any
+ * transaction the subscriptions missed, so websocket drops and restarts leave no gaps.
  */
 export class Monitor extends EventEmitter {
   readonly monitored = new Map<string, MonitoredProposal>();
@@ -110,21 +139,51 @@ export class Monitor extends EventEmitter {
   private futarchySubId: number | null = null;
   private ammSubId: number | null = null;
 
+  // program ID -> newest signature up to which ingestion has no gaps
+  private checkpoints = new Map<string, ProgramCheckpoint>();
+  // program ID -> recently processed signatures (insertion ordered)
+  private processed = new Map<string, Set<string>>();
+  private backfillTimer: NodeJS.Timeout | null = null;
+  private backfilling = false;
+  private leaderTerm = 0;
+  private replayingAsLeader = false;  // Next backfill replays transactions that were seen live
+
+  // program ID -> subscription activity, for detecting silent subscriptions
+  private lastEventAt = new Map<string, number>();
+  private lastMissedAt = new Map<string, number>();
+
   // pool address -> proposal PDA (for fast swap lookups)
   private poolToProposal = new Map<string, string>();
 
-  constructor(rpcUrl: string) {
+  /**
+   * @param leader - Only the leader saves checkpoints, since only the leader records trades
+   */
+  constructor(private leader: LeaderElection) {
     super();
-    this.connection = new Connection(rpcUrl, 'confirmed');
+    this.connection = RpcPool.getInstance().getConnection();
     const wallet = new Wallet(Keypair.generate());
     const provider = new AnchorProvider(this.connection, wallet, { commitment: 'confirmed' });
 
     this.client = new FutarchyClient(provider);
     this.futarchyParser = new EventParser(FUTARCHY_PROGRAM_ID, new BorshCoder(FutarchyIDL as any));
     this.ammParser = new EventParser(AMM_PROGRAM_ID, new BorshCoder(AmmIDL as any));
+
+    // A new leader replays everything since the last saved checkpoint: swaps this instance
+    // saw as a follower were broadcast but not recorded (recording skips existing trades)
+    leader.on('elected', () => {
+      this.leaderTerm++;
+      this.replayingAsLeader = true;
+      this.checkpoints.clear();
+      this.processed.clear();
+      if (this.backfillTimer) void this.backfill();
+    });
   }
 
   async start() {
+    const startedAt = Date.now();
+    this.lastEventAt.set(FUTARCHY_PROGRAM_ID.toBase58(), startedAt);
+    this.lastEventAt.set(AMM_PROGRAM_ID.toBase58(), startedAt);
+
     // Listen for Futarchy events (ProposalLaunched, ProposalFinalized)
     this.futarchySubId = this.connection.onLogs(
       FUTARCHY_PROGRAM_ID,
@@ -140,6 +199,10 @@ export class Monitor extends EventEmitter {
       'confirmed'
     );
     console.log(`[Monitor] Listening for AMM events on ${AMM_PROGRAM_ID.toBase58()}`);
+
+    // Catch up on anything missed while the monitor was down, then keep sweeping for gaps
+    await this.backfill();
+    this.backfillTimer = setInterval(() => this.backfill(), BACKFILL_INTERVAL_MS);
   }
 
   /**
@@ -240,7 +303,7 @@ export class Monitor extends EventEmitter {
             name,
             proposalPda: proposalPdaStr,
             error: `Moderator mismatch: DAO has ${daoModerator.toBase58()}, proposal has ${moderatorPdaStr}`,
-          });
+          }, { severity: 'critical' });
           return;
         }
 
@@ -291,6 +354,10 @@ export class Monitor extends EventEmitter {
   }
 
   async stop() {
+    if (this.backfillTimer) {
+      clearInterval(this.backfillTimer);
+      this.backfillTimer = null;
+    }
     if (this.futarchySubId !== null) {
       await this.connection.removeOnLogsListener(this.futarchySubId);
       this.futarchySubId = null;
@@ -303,13 +370,23 @@ export class Monitor extends EventEmitter {
   }
 
   private handleFutarchyLogs(logs: Logs) {
-    if (logs.err) return;
+    this.lastEventAt.set(FUTARCHY_PROGRAM_ID.toBase58(), Date.now());
+    if (logs.err || !this.markProcessed(FUTARCHY_PROGRAM_ID, logs.signature)) return;
+    this.processFutarchyLogs(logs.logs);
+  }
+
+  private handleAmmLogs(logs: Logs) {
+    this.lastEventAt.set(AMM_PROGRAM_ID.toBase58(), Date.now());
+    if (logs.err || !this.markProcessed(AMM_PROGRAM_ID, logs.signature)) return;
+    this.processAmmLogs(logs.logs, logs.signature, Date.now(), false);
+  }
 
+  /** Resolves once launched proposals are tracked, so later swaps in a backfill find their pools */
+  private async processFutarchyLogs(logs: string[]) {
     try {
-      const events = this.futarchyParser.parseLogs(logs.logs);
-      for (const event of events) {
+      for (const event of this.futarchyParser.parseLogs(logs)) {
         if (event.name === 'ProposalLaunched') {
-          this.handleProposalLaunched(event.data as ProposalLaunchedEvent);
+          await this.handleProposalLaunched(event.data as ProposalLaunchedEvent);
         } else if (event.name === 'ProposalFinalized') {
           this.handleProposalFinalized(event.data as ProposalFinalizedEvent);
         }
@@ -319,14 +396,12 @@ export class Monitor extends EventEmitter {
     }
   }
 
-  private handleAmmLogs(logs: Logs) {
-    if (logs.err) return;
-
+  private processAmmLogs(logs: string[], txSignature: string, timestamp: number, backfilled: boolean) {
     try {
-      const events = this.ammParser.parseLogs(logs.logs);
-      for (const event of events) {
+      let eventIndex = 0;
+      for (const event of this.ammParser.parseLogs(logs)) {
         if (event.name === 'CondSwap') {
-          this.handleCondSwap(event.data as CondSwapEvent, logs.signature);
+          this.handleCondSwap(event.data as CondSwapEvent, txSignature, eventIndex++, timestamp, backfilled);
         }
       }
     } catch {
@@ -334,7 +409,180 @@ export class Monitor extends EventEmitter {
     }
   }
 
-  private handleCondSwap(data: CondSwapEvent, txSignature: string) {
+  /**
+   * Record a signature as processed for a program
+   * @returns False if it was already processed (live and backfill can both see it)
+   */
+  private markProcessed(programId: PublicKey, signature: string): boolean {
+    const key = programId.toBase58();
+    let signatures = this.processed.get(key);
+    if (!signatures) {
+      signatures = new Set();
+      this.processed.set(key, signatures);
+    }
+    if (signatures.has(signature)) return false;
+
+    signatures.add(signature);
+    if (signatures.size > MAX_PROCESSED_SIGNATURES) {
+      signatures.delete(signatures.values().next().value!);
+    }
+    return true;
+  }
+
+  // ==========================================================================
+  // Backfill
+  // ==========================================================================
+
+  /**
+   * Replay transactions the live subscriptions missed since each program's checkpoint.
+   * Both programs' transactions are replayed in slot order, so a proposal is tracked
+   * before its swaps and still tracked for swaps that preceded its finalization.
+   */
+  private async backfill() {
+    if (this.backfilling) return;
+    this.backfilling = true;
+    const term = this.leaderTerm;
+    const replaying = this.replayingAsLeader;
+
+    try {
+      const programs = [FUTARCHY_PROGRAM_ID, AMM_PROGRAM_ID];
+      const pending = new Map<string, { info: ConfirmedSignatureInfo; programs: PublicKey[] }>();
+      const tips = new Map<string, ConfirmedSignatureInfo>();
+
+      for (const programId of programs) {
+        const signatures = await this.fetchSignaturesSinceCheckpoint(programId);
+        if (signatures.length === 0) continue;
+        tips.set(programId.toBase58(), signatures[0]);
+
+        for (const info of signatures) {
+          if (info.err) continue;
+          const entry = pending.get(info.signature) ?? { info, programs: [] };
+          entry.programs.push(programId);
+          pending.set(info.signature, entry);
+        }
+      }
+
+      const missed = Array.from(pending.values())
+        .map((entry) => ({
+          ...entry,
+          programs: entry.programs.filter((programId) => !this.processed.get(programId.toBase58())?.has(entry.info.signature)),
+        }))
+        .filter((entry) => entry.programs.length > 0)
+        .sort((a, b) => a.info.slot - b.info.slot);
+
+      for (let i = 0; i < missed.length; i += TRANSACTION_BATCH_SIZE) {
+        const batch = missed.slice(i, i + TRANSACTION_BATCH_SIZE);
+        const transactions = await this.connection.getTransactions(
+          batch.map((entry) => entry.info.signature),
+          { commitment: 'confirmed', maxSupportedTransactionVersion: 0 }
+        );
+
+        for (let j = 0; j < batch.length; j++) {
+          const { info, programs: txPrograms } = batch[j];
+          const logs = transactions[j]?.meta?.logMessages;
+          if (!logs) throw new Error(`Transaction ${info.signature} not available`);
+
+          const timestamp = info.blockTime ? info.blockTime * 1000 : Date.now();
+          for (const programId of txPrograms) {
+            if (!this.markProcessed(programId, info.signature)) continue;
+            if (!replaying) {
+              const key = programId.toBase58();
+              this.lastMissedAt.set(key, Math.max(this.lastMissedAt.get(key) ?? 0, timestamp));
+            }
+            if (programId.equals(FUTARCHY_PROGRAM_ID)) {
+              await this.processFutarchyLogs(logs);
+            } else {
+              this.processAmmLogs(logs, info.signature, timestamp, true);
+            }
+          }
+        }
+      }
+
+      if (missed.length > 0) {
+        console.log(`[Monitor] Backfilled ${missed.length} missed transactions`);
+      }
+
+      // Only advance checkpoints once everything up to the tips has been replayed
+      // (and not if leadership changed meanwhile: the sweep started from a follower's checkpoints)
+      if (term !== this.leaderTerm) return;
+      for (const [programId, tip] of tips) {
+        await this.saveCheckpoint(programId, { slot: tip.slot, signature: tip.signature });
+      }
+      if (replaying) this.replayingAsLeader = false;
+    } catch (e) {
+      console.error('[Monitor] Backfill failed:', e);
+      logError('server', { type: 'backfill', error: String(e) });
+    } finally {
+      this.backfilling = false;
+    }
+  }
+
+  /**
+   * Signatures for a program newer than its checkpoint, newest first.
+   * Without a checkpoint there is no known gap, so only the tip is returned (to start one).
+   */
+  private async fetchSignaturesSinceCheckpoint(programId: PublicKey): Promise<ConfirmedSignatureInfo[]> {
+    const checkpoint = await this.loadCheckpoint(programId.toBase58());
+    if (!checkpoint) {
+      return this.connection.getSignaturesForAddress(programId, { limit: 1 }, 'confirmed');
+    }
+
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+    while (signatures.length < MAX_BACKFILL_SIGNATURES) {
+      const page = await this.connection.getSignaturesForAddress(
+        programId,
+        { until: checkpoint.signature, before, limit: SIGNATURE_PAGE_SIZE },
+        'confirmed'
+      );
+      signatures.push(...page);
+      if (page.length < SIGNATURE_PAGE_SIZE) return signatures;
+      before = page[page.length - 1].signature;
+    }
+
+    logError('server', {
+      type: 'backfill',
+      programId: programId.toBase58(),
+      error: `Gap since slot ${checkpoint.slot} exceeds ${MAX_BACKFILL_SIGNATURES} signatures - older events skipped`,
+    }, { severity: 'critical' });
+    return signatures.slice(0, MAX_BACKFILL_SIGNATURES);
+  }
+
+  private async loadCheckpoint(programId: string): Promise<ProgramCheckpoint | null> {
+    const cached = this.checkpoints.get(programId);
+    if (cached) return cached;
+
+    const result = await getPool().query(
+      'SELECT last_slot, last_signature FROM cmb_ingestion_checkpoints WHERE program_id = $1',
+      [programId]
+    );
+    if (result.rows.length === 0) return null;
+
+    const checkpoint = { slot: Number(result.rows[0].last_slot), signature: result.rows[0].last_signature };
+    this.checkpoints.set(programId, checkpoint);
+    return checkpoint;
+  }
+
+  private async saveCheckpoint(programId: string, checkpoint: ProgramCheckpoint) {
+    this.checkpoints.set(programId, checkpoint);
+    if (!this.leader.isLeader) return;
+
+    await getPool().query(
+      `INSERT INTO cmb_ingestion_checkpoints (program_id, last_slot, last_signature)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (program_id) DO UPDATE
+       SET last_slot = EXCLUDED.last_slot, last_signature = EXCLUDED.last_signature, updated_at = NOW()`,
+      [programId, checkpoint.slot, checkpoint.signature]
+    );
+  }
+
+  private handleCondSwap(
+    data: CondSwapEvent,
+    txSignature: string,
+    eventIndex: number,
+    timestamp: number,
+    backfilled: boolean
+  ) {
     console.log('[Monitor] CondSwap event:', JSON.stringify({
       pool: data.pool.toBase58(),
       trader: data.trader.toBase58(),
@@ -366,10 +614,13 @@ export class Monitor extends EventEmitter {
       amountOut: data.output_amount,
       feeAmount: data.fee_amount,
       txSignature,
+      eventIndex,
+      timestamp,
+      backfilled,
     };
 
     this.emit('swap', swap);
-    console.log(`[Monitor] Swap on ${proposal.name} pool ${market}: ${swap.trader.slice(0, 8)}...`);
+    console.log(`[Monitor] ${backfilled ? 'Backfilled swap' : 'Swap'} on ${proposal.name} pool ${market}: ${swap.trader.slice(0, 8)}...`);
   }
 
   private async isTrackedModerator(moderatorPda: string): Promise<boolean> {
@@ -392,6 +643,9 @@ export class Monitor extends EventEmitter {
 
     const proposalPdaStr = data.proposal.toBase58();
 
+    // Already tracked (loaded on startup, or seen both live and by backfill)
+    if (this.monitored.has(proposalPdaStr)) return;
+
     try {
       // Fetch proposal account
       const proposal = await this.client.fetchProposal(data.proposal);
@@ -423,7 +677,7 @@ export class Monitor extends EventEmitter {
             name,
             proposalPda: proposalPdaStr,
             error: `DAO is a child DAO - not supported`,
-          });
+          }, { severity: 'warning' });
           return;
         }
 
@@ -436,7 +690,7 @@ export class Monitor extends EventEmitter {
             name,
             proposalPda: proposalPdaStr,
             error: `Moderator mismatch: DAO has ${daoModerator.toBase58()}, proposal has ${moderatorPdaStr}`,
-          });
+          }, { severity: 'critical' });
           return;
         }
 
@@ -520,6 +774,18 @@ export class Monitor extends EventEmitter {
     }
   }
 
+  /**
+   * Live subscription activity per program. A subscription is likely silent when
+   * backfill keeps finding transactions newer than its last live event.
+   */
+  getSubscriptionHealth(): SubscriptionHealth[] {
+    return Array.from(this.lastEventAt, ([programId, lastEventAt]) => ({
+      programId,
+      lastEventAt,
+      lastMissedAt: this.lastMissedAt.get(programId) ?? null,
+    }));
+  }
+
   getMonitored() {
     return Array.from(this.monitored.values());
   }
@@ -26,12 +26,24 @@ dotenv.config();
 import express from 'express';
 import cors from 'cors';
 import { requireAdminKey } from './lib/middleware';
-import { logError, readErrors, clearErrors, LOG_FILES, LogFile } from './lib/logger';
+import {
+  logError,
+  queryErrors,
+  getError,
+  acknowledgeErrors,
+  ERROR_SERVICES,
+  ERROR_SEVERITIES,
+  ErrorService,
+  ErrorSeverity,
+} from './lib/logger';
 import { SSEManager } from './lib/sse';
+import { LeaderElection } from './lib/leader';
 import { Monitor } from './monitor';
 import { LifecycleService } from './services/lifecycle.service';
 import { TWAPService } from './services/twap.service';
 import { PriceService } from './services/price.service';
+import { AlertService } from './services/alert.service';
+import { RpcPool } from '@app/services/rpc-pool.service';
 import historyRoutes from './routes/history';
 
 // ============================================================================
@@ -61,10 +73,12 @@ app.use(cors());
 app.use(express.json());
 
 // SSE endpoint (public, no auth required)
+// Optional filters: ?proposal=<pda>&type=<event>&trader=<wallet> (comma-separated lists)
 const sse = new SSEManager();
 app.get('/events', (req, res) => {
   const client = sse.connect(req, res);
-  client.send('CONNECTED', { clientId: client.clientId });
+  client.send('CONNECTED', { clientId: client.clientId, lastEventId: sse.lastEventId });
+  sse.replay(client);
 });
 
 // History routes (public, no auth required)
@@ -77,10 +91,13 @@ if (!NO_AUTH) app.use(requireAdminKey);
 // Services
 // ============================================================================
 
+// Listen-only instances never lead, so they never crank, finalize or write
+const leader = new LeaderElection(!LISTEN_ONLY);
 let monitor: Monitor;
 let lifecycle: LifecycleService;
 let twap: TWAPService;
 let price: PriceService;
+let alerts: AlertService;
 
 // ============================================================================
 // Endpoints
@@ -90,6 +107,8 @@ let price: PriceService;
 app.get('/status', (_req, res) => {
   const proposals = monitor.getMonitored();
   res.json({
+    leader: leader.isLeader,
+    instance: leader.holderId,
     monitored: proposals.length,
     proposals: proposals.map((p) => ({
       pda: p.proposalPda,
@@ -100,34 +119,84 @@ app.get('/status', (_req, res) => {
   });
 });
 
-// GET /logs?file=lifecycle&limit=50 - Read error logs
-app.get('/logs', (req, res) => {
-  const file = req.query.file as string | undefined;
-  const limit = Math.min(Number(req.query.limit) || 50, 500);
+// GET /errors - Query stored errors, newest first
+// Filters: service, severity, proposal, action, acknowledged=true|false, from, to (ISO dates)
+// Pagination: limit (default 50, max 500), offset
+app.get('/errors', async (req, res) => {
+  const { service, severity, proposal, action, acknowledged, from, to } = req.query;
 
-  if (!file || !LOG_FILES.includes(file as LogFile)) {
-    return res.status(400).json({ error: 'Invalid file', valid: LOG_FILES });
+  if (service !== undefined && !ERROR_SERVICES.includes(service as ErrorService)) {
+    return res.status(400).json({ error: 'Invalid service', valid: ERROR_SERVICES });
+  }
+  if (severity !== undefined && !ERROR_SEVERITIES.includes(severity as ErrorSeverity)) {
+    return res.status(400).json({ error: 'Invalid severity', valid: ERROR_SEVERITIES });
   }
+  if (acknowledged !== undefined && acknowledged !== 'true' && acknowledged !== 'false') {
+    return res.status(400).json({ error: 'acknowledged must be true or false' });
+  }
+
+  const fromDate = typeof from === 'string' ? new Date(from) : undefined;
+  const toDate = typeof to === 'string' ? new Date(to) : undefined;
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return res.status(400).json({ error: 'Invalid from/to date' });
+  }
+
+  const limit = Math.min(Number(req.query.limit) || 50, 500);
+  const offset = Math.max(Number(req.query.offset) || 0, 0);
 
-  const entries = readErrors(file as LogFile);
-  const newest = entries.reverse().slice(0, limit);
-  res.json({ file, count: newest.length, entries: newest });
+  try {
+    const { errors, total } = await queryErrors({
+      service: service as ErrorService | undefined,
+      severity: severity as ErrorSeverity | undefined,
+      proposalPda: typeof proposal === 'string' ? proposal : undefined,
+      action: typeof action === 'string' ? action : undefined,
+      acknowledged: acknowledged === undefined ? undefined : acknowledged === 'true',
+      from: fromDate,
+      to: toDate,
+      limit,
+      offset,
+    });
+    res.json({ total, count: errors.length, limit, offset, errors });
+  } catch (error) {
+    console.error('[GET /errors] Failed to query errors:', error);
+    res.status(500).json({ error: 'Failed to query errors' });
+  }
 });
 
-// POST /clean?file=lifecycle - Clear error logs (specific or all)
-app.post('/clean', (req, res) => {
-  const file = req.query.file as string | undefined;
+// GET /errors/:id - One error, with the lifecycle flow that produced it
+app.get('/errors/:id', async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'Invalid error ID' });
+  }
 
-  if (file) {
-    if (!LOG_FILES.includes(file as LogFile)) {
-      return res.status(400).json({ error: 'Invalid file', valid: LOG_FILES });
-    }
-    clearErrors(file as LogFile);
-    return res.json({ cleared: [file] });
+  try {
+    const error = await getError(id);
+    if (!error) return res.status(404).json({ error: 'Error not found' });
+    res.json(error);
+  } catch (error) {
+    console.error('[GET /errors/:id] Failed to fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch error' });
   }
+});
 
-  LOG_FILES.forEach((f) => clearErrors(f));
-  res.json({ cleared: LOG_FILES });
+// POST /errors/ack - Acknowledge errors. Body: { ids: number[], by?: string }
+app.post('/errors/ack', async (req, res) => {
+  const { ids, by } = req.body ?? {};
+  if (!Array.isArray(ids) || ids.length === 0 || ids.length > 1000 || !ids.every((id) => Number.isInteger(id) && id > 0)) {
+    return res.status(400).json({ error: 'ids must be a non-empty array of error IDs (max 1000)' });
+  }
+  if (by !== undefined && (typeof by !== 'string' || by.length > 128)) {
+    return res.status(400).json({ error: 'by must be a string (max 128 characters)' });
+  }
+
+  try {
+    const acknowledged = await acknowledgeErrors(ids, by ?? null);
+    res.json({ acknowledged });
+  } catch (error) {
+    console.error('[POST /errors/ack] Failed to acknowledge errors:', error);
+    res.status(500).json({ error: 'Failed to acknowledge errors' });
+  }
 });
 
 // ============================================================================
@@ -149,12 +218,14 @@ const printStartupBanner = () => {
   console.log(`  Port:          ${PORT}`);
   console.log(`  Auth:          ${NO_AUTH ? 'disabled' : 'enabled'}`);
   console.log(`  Mode:          ${DEV ? 'development' : 'production'}`);
-  console.log(`  Listen-only:   ${LISTEN_ONLY ? 'enabled' : 'disabled'}\n`);
+  console.log(`  Listen-only:   ${LISTEN_ONLY ? 'enabled' : 'disabled'}`);
+  console.log(`  Alerts:        ${alerts.channelNames.join(', ') || 'disabled'}\n`);
 
   console.log('Endpoints:');
   console.log(`  GET  /status`);
-  console.log(`  GET  /logs?file={${LOG_FILES.join('|')}}`);
-  console.log(`  POST /clean?file={${LOG_FILES.join('|')}}`);
+  console.log(`  GET  /errors?service={${ERROR_SERVICES.join('|')}}&severity=&proposal=&acknowledged=&limit=&offset=`);
+  console.log(`  GET  /errors/:id`);
+  console.log(`  POST /errors/ack`);
   console.log(`  GET  /events (SSE)`);
   console.log(`  GET  /api/history/:pda/twap`);
   console.log(`  GET  /api/history/:pda/trades`);
@@ -168,11 +239,20 @@ const startServer = async () => {
   try {
     // ENV validation
     if (!process.env.DB_URL) throw Error('Missing DB_URL');
-    if (!process.env.SOLANA_RPC_URL) throw Error('Missing SOLANA_RPC_URL');
+    if (!process.env.SOLANA_RPC_URL && !process.env.SOLANA_RPC_URLS) throw Error('Missing SOLANA_RPC_URL or SOLANA_RPC_URLS');
     if (!NO_AUTH && !process.env.ADMIN_API_KEY) throw Error('Missing ADMIN_API_KEY');
 
+    // Track RPC endpoint health so requests avoid lagging or failing endpoints
+    RpcPool.getInstance().start();
+
+    // Campaign for leadership before any work starts, so a sole instance leads from the first tick
+    await leader.start();
+
+    // Alert channels, dedupe and quiet hours come from ALERT_* / SMTP_* env
+    alerts = new AlertService(leader);
+
     // Create monitor instance
-    monitor = new Monitor(process.env.SOLANA_RPC_URL);
+    monitor = new Monitor(leader);
 
     // Load existing pending proposals from API (blocking)
     await monitor.loadPendingProposals();
@@ -181,19 +261,22 @@ const startServer = async () => {
     await monitor.start();
 
     // Start lifecycle service
-    lifecycle = new LifecycleService(sse, LISTEN_ONLY);
+    lifecycle = new LifecycleService(sse, leader, alerts);
     lifecycle.start(monitor);
 
     // Start TWAP cranking service (skip in listen-only mode)
     if (!LISTEN_ONLY) {
-      twap = new TWAPService(sse);
+      twap = new TWAPService(sse, leader, alerts);
       twap.start(monitor);
     }
 
     // Start price SSE service
-    price = new PriceService(sse, process.env.SOLANA_RPC_URL, LISTEN_ONLY);
+    price = new PriceService(sse, leader);
     price.start(monitor);
 
+    // Start stuck proposal and silent subscription checks
+    alerts.start(monitor);
+
     app.listen(PORT, () => {
       printStartupBanner();
     });
@@ -209,17 +292,20 @@ const startServer = async () => {
 
 process.on('SIGINT', async () => {
   console.log('\nShutting down...');
+  alerts?.stop();
   price?.stop();
   twap?.stop();
   lifecycle?.stop();
   await monitor?.stop();
+  await leader.stop();
+  RpcPool.getInstance().stop();
   sse.closeAll();
   process.exit(0);
 });
 
 process.on('uncaughtException', (err) => {
   console.error('Uncaught exception:', err);
-  logError('server', { type: 'uncaught_exception', error: String(err), stack: err.stack });
+  logError('server', { type: 'uncaught_exception', error: String(err), stack: err.stack }, { severity: 'critical' });
 });
 
 process.on('unhandledRejection', (err) => {
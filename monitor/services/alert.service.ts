@@ -0,0 +1,392 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Monitor } from '../monitor';
+import { LeaderElection } from '../lib/leader';
+import nodemailer from 'nodemailer';
+import { logError, ErrorSeverity } from '../lib/logger';
+
+const CHECK_INTERVAL_MS = 60_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+export type AlertType =
+  | 'lifecycle_step_failed'
+  | 'proposal_stuck'
+  | 'twap_crank_failing'
+  | 'subscription_silent';
+
+export interface Alert {
+  type: AlertType;
+  severity: ErrorSeverity;
+  key: string;                  // Alerts with the same key are sent at most once per dedupe window
+  title: string;
+  message: string;
+  proposalPda?: string;
+  fields?: Record<string, string | number>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;              // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  pass?: string;
+}
+
+/** Minutes since midnight UTC, end exclusive; a window may wrap past midnight */
+interface QuietWindow {
+  start: number;
+  end: number;
+}
+
+export interface AlertConfig {
+  webhookUrl?: string;          // Generic JSON payload
+  discordWebhookUrl?: string;
+  telegram?: { botToken: string; chatId: string };
+  email?: { smtp: SmtpConfig; from: string; to: string[] };
+  dedupeWindowMs: number;
+  quietHours: QuietWindow[];    // Only critical alerts are sent during these windows
+  stuckGraceMs: number;         // How long after endTime a tracked proposal counts as stuck
+  twapFailureThreshold: number; // Consecutive failed cranks before alerting
+  subscriptionSilenceMs: number;
+}
+
+const parseMinutes = (value: string): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`Invalid time "${value}" in ALERT_QUIET_HOURS (expected HH:MM)`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+/**
+ * Parse quiet hours such as "22:00-07:00,12:00-13:00" (UTC)
+ */
+export function parseQuietHours(value: string | undefined): QuietWindow[] {
+  if (!value?.trim()) return [];
+  return value.split(',').map((window) => {
+    const [start, end] = window.split('-');
+    if (end === undefined) {
+      throw new Error(`Invalid window "${window}" in ALERT_QUIET_HOURS (expected HH:MM-HH:MM)`);
+    }
+    return { start: parseMinutes(start), end: parseMinutes(end) };
+  });
+}
+
+function isQuietTime(now: Date, windows: QuietWindow[]): boolean {
+  const minutes = now.getUTCHours() * 60 + now.getUTCMinutes();
+  return windows.some(({ start, end }) =>
+    start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+  );
+}
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Read alert configuration from the environment (see .env.example)
+ */
+export function alertConfigFromEnv(): AlertConfig {
+  const env = process.env;
+  return {
+    webhookUrl: env.ALERT_WEBHOOK_URL || undefined,
+    discordWebhookUrl: env.ALERT_DISCORD_WEBHOOK_URL || undefined,
+    telegram: env.ALERT_TELEGRAM_BOT_TOKEN && env.ALERT_TELEGRAM_CHAT_ID
+      ? { botToken: env.ALERT_TELEGRAM_BOT_TOKEN, chatId: env.ALERT_TELEGRAM_CHAT_ID }
+      : undefined,
+    email: env.SMTP_HOST && env.ALERT_EMAIL_FROM && env.ALERT_EMAIL_TO
+      ? {
+          smtp: {
+            host: env.SMTP_HOST,
+            port: numberFromEnv('SMTP_PORT', env.SMTP_SECURE === 'true' ? 465 : 587),
+            secure: env.SMTP_SECURE === 'true',
+            user: env.SMTP_USER || undefined,
+            pass: env.SMTP_PASS || undefined,
+          },
+          from: env.ALERT_EMAIL_FROM,
+          to: env.ALERT_EMAIL_TO.split(',').map((to) => to.trim()).filter(Boolean),
+        }
+      : undefined,
+    dedupeWindowMs: numberFromEnv('ALERT_DEDUPE_WINDOW_MS', 60 * 60_000),
+    quietHours: parseQuietHours(env.ALERT_QUIET_HOURS),
+    stuckGraceMs: numberFromEnv('ALERT_STUCK_GRACE_MS', 10 * 60_000),
+    twapFailureThreshold: numberFromEnv('ALERT_TWAP_FAILURE_THRESHOLD', 3),
+    subscriptionSilenceMs: numberFromEnv('ALERT_SUBSCRIPTION_SILENCE_MS', 10 * 60_000),
+  };
+}
+
+type Channel = { name: string; send: (alert: Alert, sentAt: Date) => Promise<void> };
+
+const dedupeKey = (channel: Channel, alert: Alert) => `${channel.name}:${alert.key}`;
+
+async function postJson(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+  }
+}
+
+/** Plain-text rendering shared by Telegram and email */
+function formatText(alert: Alert): string {
+  const fields = Object.entries(alert.fields ?? {}).map(([name, value]) => `${name}: ${value}`);
+  return [`[${alert.severity.toUpperCase()}] ${alert.title}`, '', alert.message, ...(fields.length ? ['', ...fields] : [])]
+    .join('\n');
+}
+
+const DISCORD_COLORS: Record<ErrorSeverity, number> = {
+  warning: 0xf1c40f,
+  error: 0xe67e22,
+  critical: 0xe74c3c,
+};
+
+/**
+ * Sends alerts to the configured channels (generic webhook, Discord, Telegram, email),
+ * dropping repeats of the same alert within the dedupe window and non-critical alerts
+ * during quiet hours. Also runs periodic checks for stuck proposals and silent
+ * RPC subscriptions. Step failures and failing cranks are reported by the services.
+ *
+ * Only the leader sends alerts about proposals, so several instances don't repeat them;
+ * subscription alerts are per instance.
+ */
+export class AlertService {
+  private monitor: Monitor | null = null;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private channels: Channel[];
+  // Channel and dedupe key -> when the alert was last delivered to that channel
+  private lastSent = new Map<string, number>();
+  // Channel and dedupe keys being delivered right now
+  private sending = new Set<string>();
+
+  constructor(
+    private leader: LeaderElection,
+    private config: AlertConfig = alertConfigFromEnv()
+  ) {
+    this.channels = this.buildChannels();
+  }
+
+  get twapFailureThreshold() {
+    return this.config.twapFailureThreshold;
+  }
+
+  /** Names of the configured channels */
+  get channelNames() {
+    return this.channels.map((channel) => channel.name);
+  }
+
+  /**
+   * Start periodic checks
+   */
+  start(monitor: Monitor) {
+    this.monitor = monitor;
+    if (this.channels.length === 0) {
+      console.log('[Alerts] No channels configured, alerts disabled');
+      return;
+    }
+
+    this.checkTimer = setInterval(() => void this.runChecks(), CHECK_INTERVAL_MS);
+    console.log(`[Alerts] Started (${this.channelNames.join(', ')})`);
+  }
+
+  stop() {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+    this.monitor = null;
+    console.log('[Alerts] Stopped');
+  }
+
+  /**
+   * Send an alert to every channel, unless it is a repeat or falls in quiet hours.
+   * Deduplication is per channel: a channel that failed to receive an alert gets it
+   * again next time, even if other channels already did.
+   * Never throws; delivery failures are logged.
+   */
+  async notify(alert: Alert): Promise<void> {
+    if (this.channels.length === 0) return;
+
+    const now = new Date();
+    if (alert.severity !== 'critical' && isQuietTime(now, this.config.quietHours)) {
+      console.log(`[Alerts] Quiet hours, suppressed: ${alert.title}`);
+      return;
+    }
+
+    const due = this.channels.filter((channel) => {
+      const key = dedupeKey(channel, alert);
+      const lastSent = this.lastSent.get(key);
+      return !this.sending.has(key) && (lastSent === undefined || now.getTime() - lastSent >= this.config.dedupeWindowMs);
+    });
+    if (due.length === 0) return;
+
+    const keys = due.map((channel) => dedupeKey(channel, alert));
+    keys.forEach((key) => this.sending.add(key));
+    let results: PromiseSettledResult<void>[];
+    try {
+      results = await Promise.allSettled(due.map((channel) => channel.send(alert, now)));
+    } finally {
+      keys.forEach((key) => this.sending.delete(key));
+    }
+
+    const delivered: string[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        this.lastSent.set(keys[i], now.getTime());
+        delivered.push(due[i].name);
+        return;
+      }
+      const errMsg = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      console.error(`[Alerts] ${due[i].name} delivery failed:`, errMsg);
+      logError('server', {
+        type: 'alert_delivery',
+        channel: due[i].name,
+        alert: alert.key,
+        proposalPda: alert.proposalPda,
+        error: errMsg,
+      }, { severity: 'warning' });
+    });
+
+    if (delivered.length === 0) {
+      console.error(`[Alerts] ${alert.type} not delivered to any channel: ${alert.title}`);
+      return;
+    }
+    console.log(`[Alerts] Sent ${alert.type} (${delivered.join(', ')}): ${alert.title}`);
+  }
+
+  private async runChecks() {
+    if (!this.monitor) return;
+    const now = Date.now();
+
+    // Forget dedupe entries that can no longer suppress anything
+    for (const [key, sentAt] of this.lastSent) {
+      if (now - sentAt >= this.config.dedupeWindowMs) this.lastSent.delete(key);
+    }
+
+    // Proposals leave the monitor when ProposalFinalized is seen (or their flow failed, which alerts
+    // on its own), so one still tracked well past its end time was never finalized
+    if (this.leader.isLeader) {
+      for (const proposal of this.monitor.getMonitored()) {
+        const overdueMs = now - proposal.endTime;
+        if (overdueMs <= this.config.stuckGraceMs) continue;
+        await this.notify({
+          type: 'proposal_stuck',
+          severity: 'critical',
+          key: `proposal_stuck:${proposal.proposalPda}`,
+          title: `Proposal still pending: ${proposal.name} #${proposal.proposalId}`,
+          message: `Ended ${Math.round(overdueMs / 60_000)} minutes ago and has not been finalized.`,
+          proposalPda: proposal.proposalPda,
+          fields: { proposal: proposal.proposalPda, endedAt: new Date(proposal.endTime).toISOString() },
+        });
+      }
+    }
+
+    for (const { programId, lastEventAt, lastMissedAt } of this.monitor.getSubscriptionHealth()) {
+      const silentMs = now - lastEventAt;
+      if (silentMs <= this.config.subscriptionSilenceMs || lastMissedAt === null || lastMissedAt <= lastEventAt) continue;
+      await this.notify({
+        type: 'subscription_silent',
+        severity: 'error',
+        key: `subscription_silent:${this.leader.holderId}:${programId}`,
+        title: `RPC subscription silent for ${programId}`,
+        message: `No live logs for ${Math.round(silentMs / 60_000)} minutes while backfill keeps finding transactions.`,
+        fields: {
+          instance: this.leader.holderId,
+          lastLiveEvent: new Date(lastEventAt).toISOString(),
+          lastMissedTransaction: new Date(lastMissedAt).toISOString(),
+        },
+      });
+    }
+  }
+
+  private buildChannels(): Channel[] {
+    const { webhookUrl, discordWebhookUrl, telegram, email } = this.config;
+    const channels: Channel[] = [];
+
+    if (webhookUrl) {
+      channels.push({
+        name: 'webhook',
+        send: (alert, sentAt) => postJson(webhookUrl, { ...alert, timestamp: sentAt.toISOString() }),
+      });
+    }
+
+    if (discordWebhookUrl) {
+      channels.push({
+        name: 'discord',
+        send: (alert, sentAt) => postJson(discordWebhookUrl, {
+          embeds: [{
+            title: alert.title.slice(0, 256),
+            description: alert.message.slice(0, 4000),
+            color: DISCORD_COLORS[alert.severity],
+            fields: Object.entries(alert.fields ?? {}).map(([name, value]) => ({
+              name,
+              value: String(value).slice(0, 1024),
+              inline: false,
+            })),
+            footer: { text: `${alert.severity} · ${alert.type}` },
+            timestamp: sentAt.toISOString(),
+          }],
+        }),
+      });
+    }
+
+    if (telegram) {
+      channels.push({
+        name: 'telegram',
+        send: (alert) => postJson(`https://api.telegram.org/bot${telegram.botToken}/sendMessage`, {
+          chat_id: telegram.chatId,
+          text: formatText(alert).slice(0, 4096),
+          disable_web_page_preview: true,
+        }),
+      });
+    }
+
+    if (email) {
+      const { host, port, secure, user, pass } = email.smtp;
+      const transport = nodemailer.createTransport({
+        host,
+        port,
+        secure,
+        auth: user ? { user, pass } : undefined,
+        requireTLS: Boolean(user),  // Never send credentials over an unencrypted connection
+        connectionTimeout: DELIVERY_TIMEOUT_MS,
+        greetingTimeout: DELIVERY_TIMEOUT_MS,
+        socketTimeout: DELIVERY_TIMEOUT_MS,
+      });
+      channels.push({
+        name: 'email',
+        send: async (alert) => {
+          await transport.sendMail({
+            from: email.from,
+            to: email.to,
+            subject: `[${alert.severity}] ${alert.title}`,
+            text: formatText(alert),
+          });
+        },
+      });
+    }
+
+    return channels;
+  }
+}
@@ -18,9 +18,12 @@
  */
 
 import { Monitor, MonitoredProposal } from '../monitor';
+import { getPool } from '@app/utils/database';
 import { logError } from '../lib/logger';
 import { callApi } from '../lib/api';
 import { SSEManager } from '../lib/sse';
+import { LeaderElection } from '../lib/leader';
+import { AlertService } from './alert.service';
 
 interface StepResult {
   success: boolean;
@@ -37,14 +40,20 @@ interface FlowResult {
 /**
  * Schedules and executes proposal finalization when proposals expire.
  * Calls the DAO API to finalize, redeem liquidity, and deposit back.
+ * Every instance schedules, but only the leader runs the flow; proposals that expire
+ * while this instance is a follower are finalized if it gets elected.
  */
 export class LifecycleService {
   private monitor: Monitor | null = null;
   private timers = new Map<string, NodeJS.Timeout>();
+  // Expired proposals left to the leader (proposal PDA -> proposal)
+  private overdue = new Map<string, MonitoredProposal>();
+  private onElected = () => this.runOverdue();
 
   constructor(
     private sse: SSEManager,
-    private listenOnly = false
+    private leader: LeaderElection,
+    private alerts: AlertService
   ) {}
 
   /**
@@ -53,18 +62,17 @@ export class LifecycleService {
   start(monitor: Monitor) {
     this.monitor = monitor;
 
-    // Schedule existing proposals (skip in listen-only mode)
-    if (!this.listenOnly) {
-      for (const proposal of monitor.getMonitored()) {
-        this.scheduleFinalization(proposal);
-      }
+    // Schedule existing proposals
+    for (const proposal of monitor.getMonitored()) {
+      this.scheduleFinalization(proposal);
     }
 
+    // Take over finalization of proposals that expired under the previous leader
+    this.leader.on('elected', this.onElected);
+
     // Listen for new proposals
     monitor.on('proposal:added', (proposal) => {
-      if (!this.listenOnly) {
-        this.scheduleFinalization(proposal);
-      }
+      this.scheduleFinalization(proposal);
       this.sse.broadcast('PROPOSAL_TRACKED', {
         proposalPda: proposal.proposalPda,
         proposalId: proposal.proposalId,
@@ -93,7 +101,7 @@ export class LifecycleService {
       });
     });
 
-    console.log(`[Lifecycle] Started${this.listenOnly ? ' (listen-only)' : ''}`);
+    console.log(`[Lifecycle] Started${this.leader.isLeader ? '' : ' (follower)'}`);
   }
 
   stop() {
@@ -101,6 +109,8 @@ export class LifecycleService {
       clearTimeout(timer);
     }
     this.timers.clear();
+    this.overdue.clear();
+    this.leader.off('elected', this.onElected);
     this.monitor = null;
     console.log('[Lifecycle] Stopped');
   }
@@ -110,6 +120,10 @@ export class LifecycleService {
 
     const timer = setTimeout(async () => {
       this.timers.delete(proposal.proposalPda);
+      if (!this.leader.isLeader) {
+        this.overdue.set(proposal.proposalPda, proposal);
+        return;
+      }
       await this.runFinalizationFlow(proposal);
     }, delay);
 
@@ -117,7 +131,16 @@ export class LifecycleService {
     console.log(`[Lifecycle] Scheduled finalization for ${proposal.proposalPda} in ${Math.round(delay / 1000)}s`);
   }
 
+  private runOverdue() {
+    for (const proposal of this.overdue.values()) {
+      console.log(`[Lifecycle] Taking over finalization for ${proposal.proposalPda}`);
+      void this.runFinalizationFlow(proposal);
+    }
+    this.overdue.clear();
+  }
+
   private cancelFinalization(pda: string) {
+    this.overdue.delete(pda);
     const timer = this.timers.get(pda);
     if (timer) {
       clearTimeout(timer);
@@ -128,6 +151,7 @@ export class LifecycleService {
 
   private async runFinalizationFlow(proposal: MonitoredProposal) {
     const { proposalPda } = proposal;
+    const startedAt = new Date();
     console.log(`[Lifecycle] Starting finalization flow for ${proposalPda}`);
 
     const results: FlowResult = {
@@ -177,15 +201,34 @@ export class LifecycleService {
       console.error(`[Lifecycle] Deposit-back failed for ${proposalPda}:`, e);
     }
 
-    // Log errors if any step failed
+    // Record the flow, and an error linked to it if any step failed
     const hasErrors = !results.finalize.success || !results.redeem.success || !results.depositBack.success;
+    const flowId = await this.recordFlow(proposalPda, !hasErrors, results, startedAt);
     if (hasErrors) {
-      logError('lifecycle', {
+      const failedSteps = (Object.keys(results) as (keyof FlowResult)[]).filter((step) => !results[step].success);
+      await logError('lifecycle', {
+        action: 'finalization_flow',
         name: proposal.name,
         proposalPda: proposal.proposalPda,
         proposalId: proposal.proposalId,
         moderatorPda: proposal.moderatorPda,
-        results,
+        error: `Failed steps: ${failedSteps.join(', ')}`,
+        // Full step results are on the linked flow; inline them only if it couldn't be stored
+        ...(flowId === null ? { results } : {}),
+      }, { severity: 'critical', flowId: flowId ?? undefined });
+
+      await this.alerts.notify({
+        type: 'lifecycle_step_failed',
+        severity: 'critical',
+        key: `lifecycle_step_failed:${proposalPda}`,
+        title: `Finalization failed: ${proposal.name} #${proposal.proposalId}`,
+        message: failedSteps.map((step) => `${step}: ${results[step].error}`).join('\n'),
+        proposalPda,
+        fields: {
+          proposal: proposalPda,
+          failedSteps: failedSteps.join(', '),
+          ...(flowId !== null ? { flowId } : {}),
+        },
       });
 
       // Remove proposal from monitor on error (stops TWAP cranking, price tracking, etc.)
@@ -195,4 +238,28 @@ export class LifecycleService {
 
     console.log(`[Lifecycle] Flow ${hasErrors ? 'completed with errors' : 'complete'} for ${proposalPda}`);
   }
+
+  /**
+   * Store a flow run in cmb_lifecycle_flows
+   * @returns The flow ID, or null if it couldn't be stored
+   */
+  private async recordFlow(
+    proposalPda: string,
+    success: boolean,
+    results: FlowResult,
+    startedAt: Date
+  ): Promise<number | null> {
+    try {
+      const result = await getPool().query(
+        `INSERT INTO cmb_lifecycle_flows (proposal_pda, success, results, started_at)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [proposalPda, success, results, startedAt]
+      );
+      return result.rows[0].id;
+    } catch (e) {
+      console.error(`[Lifecycle] Failed to record flow for ${proposalPda}:`, e);
+      return null;
+    }
+  }
 }
@@ -23,9 +23,11 @@ import { CpAmm, getPriceFromSqrtPrice, getTokenDecimals } from '@meteora-ag/cp-a
 import DLMM from '@meteora-ag/dlmm';
 import { Monitor, MonitoredProposal, SwapEvent } from '../monitor';
 import { SSEManager } from '../lib/sse';
+import { LeaderElection } from '../lib/leader';
 import { logError } from '../lib/logger';
 import { PoolType } from '@zcomb/programs-sdk';
 import { HistoryService } from '@app/services/history.service';
+import { RpcPool } from '@app/services/rpc-pool.service';
 import { Decimal } from 'decimal.js';
 
 /**
@@ -59,10 +61,9 @@ export class PriceService {
 
   constructor(
     private sse: SSEManager,
-    rpcUrl: string,
-    private listenOnly = false
+    private leader: LeaderElection
   ) {
-    this.connection = new Connection(rpcUrl, 'confirmed');
+    this.connection = RpcPool.getInstance().getConnection();
     this.cpAmm = new CpAmm(this.connection);
   }
 
@@ -84,7 +85,7 @@ export class PriceService {
       void this.startTracking(p);
     }
 
-    console.log(`[Price] Started${this.listenOnly ? ' (listen-only)' : ''}`);
+    console.log('[Price] Started');
   }
 
   /** Stop price tracking and cleanup */
@@ -121,7 +122,7 @@ export class PriceService {
         proposalPda: proposal.proposalPda,
         baseMint: proposal.baseMint,
         error: errMsg,
-      });
+      }, { severity: 'warning' });
     }
 
     this.proposalData.set(proposal.proposalPda, {
@@ -178,7 +179,7 @@ export class PriceService {
         action: 'fetch_damm_price',
         pool: poolAddress,
         error: errMsg,
-      });
+      }, { severity: 'warning' });
       return null;
     }
   }
@@ -198,7 +199,7 @@ export class PriceService {
         action: 'fetch_dlmm_price',
         pool: poolAddress,
         error: errMsg,
-      });
+      }, { severity: 'warning' });
       return null;
     }
   }
@@ -221,7 +222,7 @@ export class PriceService {
         action: 'fetch_futarchy_price',
         pool: poolAddress,
         error: errMsg,
-      });
+      }, { severity: 'warning' });
       return null;
     }
   }
@@ -270,8 +271,8 @@ export class PriceService {
   // ─── Event Handlers ──────────────────────────────────────────────
 
   private async onPriceChange(proposalPda: string, market: number, price: number, marketCapUsd: number) {
-    // Record to DB (skip in listen-only mode)
-    if (!this.listenOnly) {
+    // Record to DB (leader only)
+    if (this.leader.isLeader) {
       try {
         await HistoryService.recordCmbPrice({
           proposalPda,
@@ -307,18 +308,20 @@ export class PriceService {
       amountIn: swap.amountIn.toString(),
       amountOut: swap.amountOut.toString(),
       txSignature: swap.txSignature,
-      timestamp: Date.now(),
+      timestamp: swap.timestamp,
+      backfilled: swap.backfilled,
     });
 
     // 2. Fetch pool state and calculate price/market cap
-    const price = await this.fetchPoolPrice(swap.pool);
+    // (the current price says nothing about a backfilled swap, so those are recorded without one)
+    const price = swap.backfilled ? null : await this.fetchPoolPrice(swap.pool);
     const data = this.proposalData.get(swap.proposalPda);
     const marketCapUsd = price !== null
       ? price * (data?.totalSupply || 0) * this.solPrice
       : null;
 
-    // 3. Record trade to DB with price and market cap (skip in listen-only mode)
-    if (!this.listenOnly) {
+    // 3. Record trade to DB with price and market cap (leader only)
+    if (this.leader.isLeader) {
       try {
         await HistoryService.recordCmbTrade({
           proposalPda: swap.proposalPda,
@@ -329,6 +332,8 @@ export class PriceService {
           amountOut: new Decimal(swap.amountOut.toString()),
           feeAmount: new Decimal(swap.feeAmount.toString()),
           txSignature: swap.txSignature,
+          eventIndex: swap.eventIndex,
+          timestamp: swap.backfilled ? new Date(swap.timestamp) : undefined,
           price: price !== null ? new Decimal(price) : undefined,
           marketCapUsd: marketCapUsd !== null ? new Decimal(marketCapUsd) : undefined,
         });
@@ -20,6 +20,8 @@
 import { PublicKey } from '@solana/web3.js';
 import { Monitor, MonitoredProposal } from '../monitor';
 import { SSEManager } from '../lib/sse';
+import { LeaderElection } from '../lib/leader';
+import { AlertService } from './alert.service';
 import { logError } from '../lib/logger';
 import { callApi } from '../lib/api';
 import { HistoryService } from '@app/services/history.service';
@@ -52,12 +54,20 @@ interface PoolTWAP {
  * Cranks TWAP oracles every ~60 seconds for all pools of monitored proposals.
  * Uses the DAO API to execute cranks (API handles warmup and rate limiting).
  * Broadcasts TWAP_UPDATE events via SSE after each crank.
+ * Only the leader cranks and records; followers still broadcast.
+ * Alerts once a proposal's cranks have failed the configured number of times in a row.
  */
 export class TWAPService {
   private monitor: Monitor | null = null;
   private proposalTimers = new Map<string, NodeJS.Timeout>();
+  // Proposal PDA -> consecutive failed cranks
+  private crankFailures = new Map<string, number>();
 
-  constructor(private sse: SSEManager) {}
+  constructor(
+    private sse: SSEManager,
+    private leader: LeaderElection,
+    private alerts: AlertService
+  ) {}
 
   /**
    * Subscribe to monitor events and schedule TWAP cranking for all proposals
@@ -91,6 +101,7 @@ export class TWAPService {
       clearInterval(timer);
     }
     this.proposalTimers.clear();
+    this.crankFailures.clear();
     this.monitor = null;
     console.log('[TWAP] Stopped');
   }
@@ -112,7 +123,7 @@ export class TWAPService {
   }
 
   private async crankProposal(proposal: MonitoredProposal) {
-    if (!this.monitor) return;
+    if (!this.monitor || !this.leader.isLeader) return;
 
     try {
       const data = await callApi('/dao/crank-twap', { proposal_pda: proposal.proposalPda });
@@ -128,10 +139,15 @@ export class TWAPService {
       );
 
       // Log individual failures
-      for (const result of response.results) {
-        if (!result.signature && !result.skipped) {
-          console.error(`[TWAP] Pool ${result.pool} failed: ${result.reason}`);
-        }
+      const failures = response.results.filter((r) => !r.signature && !r.skipped);
+      for (const result of failures) {
+        console.error(`[TWAP] Pool ${result.pool} failed: ${result.reason}`);
+      }
+
+      if (failures.length > 0) {
+        await this.recordCrankFailure(proposal, failures.map((r) => `${r.pool}: ${r.reason}`).join('; '));
+      } else {
+        this.crankFailures.delete(proposal.proposalPda);
       }
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : String(error);
@@ -139,7 +155,7 @@ export class TWAPService {
       logError('twap', {
         action: 'crank',
         name: proposal.name,
-        proposal: proposal.proposalPda,
+        proposalPda: proposal.proposalPda,
         error: errMsg,
       });
 
@@ -147,10 +163,31 @@ export class TWAPService {
       if (errMsg.includes('not found') || errMsg.includes('finalized')) {
         console.log(`[TWAP] Proposal ${proposal.proposalPda} not found or finalized, stopping`);
         this.stopCranking(proposal.proposalPda);
+        return;
       }
+      await this.recordCrankFailure(proposal, errMsg);
     }
   }
 
+  /**
+   * Count a failed crank and alert when the count reaches the threshold
+   */
+  private async recordCrankFailure(proposal: MonitoredProposal, reason: string) {
+    const failures = (this.crankFailures.get(proposal.proposalPda) ?? 0) + 1;
+    this.crankFailures.set(proposal.proposalPda, failures);
+    if (failures < this.alerts.twapFailureThreshold) return;
+
+    await this.alerts.notify({
+      type: 'twap_crank_failing',
+      severity: 'error',
+      key: `twap_crank_failing:${proposal.proposalPda}`,
+      title: `TWAP cranks failing: ${proposal.name} #${proposal.proposalId}`,
+      message: `${failures} consecutive cranks failed. Last error: ${reason}`,
+      proposalPda: proposal.proposalPda,
+      fields: { proposal: proposal.proposalPda, consecutiveFailures: failures },
+    });
+  }
+
   private async fetchAndBroadcastTWAPs(proposal: MonitoredProposal) {
     if (!this.monitor) return;
 
@@ -182,7 +219,8 @@ export class TWAPService {
         timestamp: Date.now(),
       });
 
-      // Record to DB
+      // Record to DB (leader only)
+      if (!this.leader.isLeader) return;
       try {
         await HistoryService.recordCmbTWAP({
           proposalPda: proposal.proposalPda,
@@ -201,6 +239,7 @@ export class TWAPService {
     if (timer) {
       clearInterval(timer);
       this.proposalTimers.delete(proposalPda);
+      this.crankFailures.delete(proposalPda);
       console.log(`[TWAP] Stopped cranking for ${proposalPda}`);
     }
   }
@@ -27,12 +27,83 @@ CREATE TABLE IF NOT EXISTS cmb_trade_history (
   amount_in NUMERIC(20,10) NOT NULL,
   amount_out NUMERIC(20,10) NOT NULL,
   fee_amount NUMERIC(20,10),
-  tx_signature VARCHAR(128)
+  tx_signature VARCHAR(128),
+  event_index INTEGER  -- Position of the CondSwap among the transaction's CondSwap events
 );
 
+ALTER TABLE cmb_trade_history ADD COLUMN IF NOT EXISTS event_index INTEGER;
+
 CREATE INDEX IF NOT EXISTS idx_cmb_trade_history_proposal_timestamp
   ON cmb_trade_history(proposal_pda, timestamp DESC);
 
+-- Number trades recorded before event_index existed; the monitor stored each
+-- transaction's CondSwap events in order, so the row order is the event order
+UPDATE cmb_trade_history t
+  SET event_index = numbered.event_index
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY tx_signature ORDER BY id) - 1 AS event_index
+    FROM cmb_trade_history
+    WHERE tx_signature IS NOT NULL AND event_index IS NULL
+  ) numbered
+  WHERE t.id = numbered.id;
+
+-- Swaps can be seen both live and by backfill; keep one row per CondSwap event
+-- (a transaction can swap several times in the same market, so the market is not a key)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cmb_trade_history_signature_event
+  ON cmb_trade_history(tx_signature, event_index)
+  WHERE tx_signature IS NOT NULL;
+
+-- Ingestion checkpoints: newest signature per program up to which the monitor has no gaps
+CREATE TABLE IF NOT EXISTS cmb_ingestion_checkpoints (
+  program_id VARCHAR(64) PRIMARY KEY,
+  last_slot BIGINT NOT NULL,
+  last_signature VARCHAR(128) NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Monitor leader lease: only the holder of an unexpired lease cranks, finalizes and writes history
+CREATE TABLE IF NOT EXISTS cmb_monitor_leases (
+  name VARCHAR(64) PRIMARY KEY,
+  holder_id VARCHAR(128) NOT NULL,
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Monitor lifecycle flows: one row per finalization flow run, with each step's result
+CREATE TABLE IF NOT EXISTS cmb_lifecycle_flows (
+  id SERIAL PRIMARY KEY,
+  proposal_pda VARCHAR(64) NOT NULL,
+  success BOOLEAN NOT NULL,
+  results JSONB NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cmb_lifecycle_flows_proposal
+  ON cmb_lifecycle_flows(proposal_pda, started_at DESC);
+
+-- Monitor errors
+CREATE TABLE IF NOT EXISTS cmb_monitor_errors (
+  id SERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  service VARCHAR(32) NOT NULL CHECK (service IN ('lifecycle', 'server', 'twap', 'price')),
+  severity VARCHAR(16) NOT NULL CHECK (severity IN ('warning', 'error', 'critical')),
+  action VARCHAR(64),
+  proposal_pda VARCHAR(64),
+  message TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}',
+  flow_id INTEGER REFERENCES cmb_lifecycle_flows(id) ON DELETE SET NULL,
+  acknowledged_at TIMESTAMPTZ,
+  acknowledged_by VARCHAR(128)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cmb_monitor_errors_service_created
+  ON cmb_monitor_errors(service, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cmb_monitor_errors_proposal
+  ON cmb_monitor_errors(proposal_pda) WHERE proposal_pda IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_cmb_monitor_errors_unacknowledged
+  ON cmb_monitor_errors(created_at DESC) WHERE acknowledged_at IS NULL;
+
 -- TWAP History
 CREATE TABLE IF NOT EXISTS cmb_twap_history (
   id SERIAL PRIMARY KEY,
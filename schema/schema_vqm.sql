@@ -43,6 +43,8 @@ CREATE TABLE IF NOT EXISTS qm_proposals (
   spot_pool_address VARCHAR(64),
   total_supply BIGINT NOT NULL DEFAULT 1000000000,
   has_withdrawal BOOLEAN DEFAULT FALSE,
+  cancellation_reason TEXT,                   -- Set when a proposal is cancelled (status = 'Cancelled')
+  cancelled_at TIMESTAMPTZ,
   updated_at TIMESTAMPTZ DEFAULT NOW(),
 
   CONSTRAINT unique_qm_moderator_proposal UNIQUE (moderator_id, proposal_id),
@@ -50,6 +52,10 @@ CREATE TABLE IF NOT EXISTS qm_proposals (
     REFERENCES qm_moderators(id) ON DELETE CASCADE
 );
 
+-- Cancellation columns for databases created before proposal cancellation
+ALTER TABLE qm_proposals ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+ALTER TABLE qm_proposals ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
 -- Indexes for proposals
 CREATE INDEX IF NOT EXISTS idx_qm_proposals_moderator_status ON qm_proposals(moderator_id, status);
 CREATE INDEX IF NOT EXISTS idx_qm_proposals_moderator_created ON qm_proposals(moderator_id, created_at DESC);
@@ -123,6 +129,13 @@ CREATE INDEX IF NOT EXISTS idx_qm_trade_history_moderator_proposal_timestamp
 CREATE INDEX IF NOT EXISTS idx_qm_trade_history_moderator_proposal_market
   ON qm_trade_history(moderator_id, proposal_id, market);
 
+-- One row per swap transaction; drop duplicates recorded before the index existed
+DELETE FROM qm_trade_history a
+  USING qm_trade_history b
+  WHERE a.tx_signature = b.tx_signature AND a.id > b.id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_qm_trade_history_tx_signature
+  ON qm_trade_history(tx_signature);
+
 -- Update trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -190,6 +203,8 @@ CREATE TABLE IF NOT EXISTS qm_proposal_withdrawals (
   withdrawn_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW(),
   pool_address VARCHAR(64) NOT NULL,
+  returned_token_a VARCHAR(64),              -- Redeemed/merged back to the authority, owed to deposit-back
+  returned_token_b VARCHAR(64),
 
   CONSTRAINT fk_qm_proposal_withdrawals_moderator FOREIGN KEY (moderator_id)
     REFERENCES qm_moderators(id) ON DELETE CASCADE,
@@ -198,6 +213,10 @@ CREATE TABLE IF NOT EXISTS qm_proposal_withdrawals (
   CONSTRAINT unique_qm_withdrawal_request UNIQUE (withdrawal_request_id)
 );
 
+-- Returned amounts for databases created before per-proposal deposit-back (NULL = unknown)
+ALTER TABLE qm_proposal_withdrawals ADD COLUMN IF NOT EXISTS returned_token_a VARCHAR(64);
+ALTER TABLE qm_proposal_withdrawals ADD COLUMN IF NOT EXISTS returned_token_b VARCHAR(64);
+
 -- Index for proposal withdrawals
 CREATE INDEX IF NOT EXISTS idx_qm_proposal_withdrawals_needs_deposit
   ON qm_proposal_withdrawals(moderator_id, needs_deposit_back)
@@ -207,4 +226,266 @@ CREATE INDEX IF NOT EXISTS idx_qm_proposal_withdrawals_needs_deposit
 CREATE TRIGGER update_qm_proposal_withdrawals_updated_at
   BEFORE UPDATE ON qm_proposal_withdrawals
   FOR EACH ROW
-  EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
+  EXECUTE FUNCTION update_updated_at_column();
+-- Durable job queue for scheduled proposal tasks (TWAP cranks, price recording, finalization)
+-- Workers claim due jobs with a lease; expired leases are reclaimed by any instance
+CREATE TABLE IF NOT EXISTS qm_jobs (
+  id SERIAL PRIMARY KEY,
+  job_key VARCHAR(128) NOT NULL,             -- e.g. twap-{moderatorId}-{proposalId}
+  type VARCHAR(32) NOT NULL,
+  moderator_id INTEGER NOT NULL,
+  proposal_id INTEGER NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  status VARCHAR(16) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'dead', 'cancelled')),
+  interval_ms INTEGER,                       -- NULL for one-time jobs
+  run_at TIMESTAMPTZ NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  last_error TEXT,
+  locked_by VARCHAR(128),
+  lease_expires_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_qm_job_key UNIQUE (job_key),
+  CONSTRAINT fk_qm_jobs_moderator FOREIGN KEY (moderator_id)
+    REFERENCES qm_moderators(id) ON DELETE CASCADE
+);
+
+-- Indexes for claiming due jobs and expired leases
+CREATE INDEX IF NOT EXISTS idx_qm_jobs_due
+  ON qm_jobs(run_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_qm_jobs_lease
+  ON qm_jobs(lease_expires_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_qm_jobs_moderator_proposal
+  ON qm_jobs(moderator_id, proposal_id);
+
+-- Proposal lifecycle audit trail (one row per state transition)
+-- No FK to qm_proposals: initialization failures are recorded before the proposal row exists
+CREATE TABLE IF NOT EXISTS qm_proposal_events (
+  id SERIAL PRIMARY KEY,
+  moderator_id INTEGER NOT NULL,
+  proposal_id INTEGER NOT NULL,
+  from_state VARCHAR(32),                    -- NULL for the first event
+  to_state VARCHAR(32) NOT NULL,
+  error TEXT,                                -- Set when entering a failed sub-state
+  details JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fk_qm_proposal_events_moderator FOREIGN KEY (moderator_id)
+    REFERENCES qm_moderators(id) ON DELETE CASCADE
+);
+
+-- Index for reading a proposal's history and latest state
+CREATE INDEX IF NOT EXISTS idx_qm_proposal_events_moderator_proposal
+  ON qm_proposal_events(moderator_id, proposal_id, id DESC);
+
+-- API keys (only SHA-256 hashes of keys are stored)
+CREATE TABLE IF NOT EXISTS qm_api_keys (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(128) NOT NULL,
+  key_prefix VARCHAR(16) NOT NULL,           -- First characters of the key, for identification
+  key_hash CHAR(64) NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{}',       -- create-proposal, finalize, moderator-admin
+  expires_at TIMESTAMPTZ,                    -- NULL = never expires
+  revoked_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  rotated_from_id INTEGER REFERENCES qm_api_keys(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_qm_api_key_hash UNIQUE (key_hash)
+);
+
+-- Wallet sessions created from signed Solana messages (only token hashes are stored)
+CREATE TABLE IF NOT EXISTS qm_wallet_sessions (
+  id SERIAL PRIMARY KEY,
+  wallet VARCHAR(44) NOT NULL,
+  token_hash CHAR(64) NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_qm_wallet_session_token UNIQUE (token_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_qm_wallet_sessions_wallet ON qm_wallet_sessions(wallet);
+
+-- Nonces from signed auth messages, kept long enough to reject replays
+CREATE TABLE IF NOT EXISTS qm_auth_nonces (
+  nonce VARCHAR(128) PRIMARY KEY,
+  wallet VARCHAR(44) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qm_auth_nonces_created ON qm_auth_nonces(created_at);
+
+-- Pools that can host decision markets (served by PoolRegistryService)
+CREATE TABLE IF NOT EXISTS qm_pools (
+  pool_address VARCHAR(44) PRIMARY KEY,
+  ticker VARCHAR(32) NOT NULL,                  -- Lowercase; MANAGER_PRIVATE_KEY_<TICKER> uses the upper-case form
+  base_mint VARCHAR(44) NOT NULL,
+  quote_mint VARCHAR(44) NOT NULL,
+  base_decimals SMALLINT NOT NULL,
+  quote_decimals SMALLINT NOT NULL,
+  moderator_id INTEGER NOT NULL,
+  pool_type VARCHAR(8) NOT NULL,
+  withdrawal_percentage SMALLINT NOT NULL,
+  icon TEXT,
+  min_token_balance NUMERIC,                    -- Whole tokens required to create proposals (NULL = whitelist only)
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_qm_pool_ticker UNIQUE (ticker),
+  CONSTRAINT check_qm_pool_type CHECK (pool_type IN ('damm', 'dlmm')),
+  CONSTRAINT check_qm_pool_withdrawal_percentage CHECK (withdrawal_percentage BETWEEN 1 AND 50)
+);
+
+-- Wallets allowed to create proposals for a pool
+CREATE TABLE IF NOT EXISTS qm_pool_whitelist (
+  pool_address VARCHAR(44) NOT NULL REFERENCES qm_pools(pool_address) ON DELETE CASCADE,
+  wallet VARCHAR(44) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (pool_address, wallet)
+);
+
+-- Change history for qm_pools and qm_pool_whitelist (kept after a pool is deleted)
+CREATE TABLE IF NOT EXISTS qm_pool_audit_log (
+  id SERIAL PRIMARY KEY,
+  action VARCHAR(32) NOT NULL,
+  pool_address VARCHAR(44) NOT NULL,
+  wallet VARCHAR(44),
+  actor VARCHAR(128) NOT NULL,                  -- Name of the API key that made the change
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qm_pool_audit_log_pool ON qm_pool_audit_log(pool_address, id DESC);
+
+-- Seed pools and whitelists previously hardcoded in src/config/pools.ts
+INSERT INTO qm_pools (
+  pool_address, ticker, base_mint, quote_mint, base_decimals, quote_decimals,
+  moderator_id, pool_type, withdrawal_percentage, icon, min_token_balance
+) VALUES
+  ('7jbhVZcYqCRmciBcZzK8L5B96Pyw7i1SpXQFKBkzD3G2', 'zc', 'GVvPZpC6ymCoiHzYJ7CWZ8LhVn9tL2AUpRjSAsLh6jZC',
+   'So11111111111111111111111111111111111111112', 6, 9, 2, 'dlmm', 50,
+   'https://pbs.twimg.com/profile_images/1991222874401587200/V0ARKOcE_400x400.jpg', NULL),
+  ('2FCqTyvFcE4uXgRL1yh56riZ9vdjVgoP6yknZW3f8afX', 'oogway', 'C7MGcMnN8cXUkj8JQuMhkJZh6WqY2r8QnT3AUfKTkrix',
+   'So11111111111111111111111111111111111111112', 6, 9, 3, 'damm', 12,
+   'https://wsrv.nl/?w=128&h=128&default=1&url=https%3A%2F%2Folive-imaginative-aardvark-508.mypinata.cloud%2Fipfs%2FQmV4rzAgYREFBpDRyM5VmboewHUwS1Xu8ey2wrs9rJKcfE', NULL),
+  ('PS3rPSb49GnAkmh3tec1RQizgNSb1hUwPsYHGGuAy5r', 'surftest', 'E7xktmaFNM6vd4GKa8FrXwX7sA7hrLzToxc64foGq3iW',
+   'So11111111111111111111111111111111111111112', 9, 9, 4, 'damm', 12,
+   'https://arweave.net/r02Vz3jHG5_ZH0BrKbkIJOkF4LDcTTdLNljefYpJYJo', 5000000),
+  ('EC7MUufEpZcRZyXTFt16MMNLjJVnj9Vkku4UwdZ713Hx', 'testsurf', 'E7xktmaFNM6vd4GKa8FrXwX7sA7hrLzToxc64foGq3iW',
+   'So11111111111111111111111111111111111111112', 9, 9, 5, 'dlmm', 50,
+   'https://arweave.net/r02Vz3jHG5_ZH0BrKbkIJOkF4LDcTTdLNljefYpJYJo', NULL),
+  ('Ez1QYeC95xJRwPA9SR7YWC1H1Tj43exJr91QqKf8Puu1', 'surf', 'SurfwRjQQFV6P7JdhxSptf4CjWU8sb88rUiaLCystar',
+   'So11111111111111111111111111111111111111112', 9, 9, 6, 'damm', 12,
+   'https://arweave.net/r02Vz3jHG5_ZH0BrKbkIJOkF4LDcTTdLNljefYpJYJo', 5000000)
+ON CONFLICT DO NOTHING;
+
+INSERT INTO qm_pool_whitelist (pool_address, wallet) VALUES
+  -- ZC
+  ('7jbhVZcYqCRmciBcZzK8L5B96Pyw7i1SpXQFKBkzD3G2', '79TLv4oneDA1tDUSNXBxNCnemzNmLToBHYXnfZWDQNeP'),
+  ('7jbhVZcYqCRmciBcZzK8L5B96Pyw7i1SpXQFKBkzD3G2', 'BXc9g3zxbQhhfkLjxXbtSHrfd6MSFRdJo8pDQhW95QUw'),
+  ('7jbhVZcYqCRmciBcZzK8L5B96Pyw7i1SpXQFKBkzD3G2', 'FgACAue3FuWPrL7xSqXWtUdHLne52dvVsKyKxjwqPYtr'),
+  ('7jbhVZcYqCRmciBcZzK8L5B96Pyw7i1SpXQFKBkzD3G2', 'FtV94i2JvmaqsE1rBT72C9YR58wYJXt1ZjRmPb4tDvMK'),
+  -- OOGWAY
+  ('2FCqTyvFcE4uXgRL1yh56riZ9vdjVgoP6yknZW3f8afX', '79TLv4oneDA1tDUSNXBxNCnemzNmLToBHYXnfZWDQNeP'),
+  ('2FCqTyvFcE4uXgRL1yh56riZ9vdjVgoP6yknZW3f8afX', 'BXc9g3zxbQhhfkLjxXbtSHrfd6MSFRdJo8pDQhW95QUw'),
+  ('2FCqTyvFcE4uXgRL1yh56riZ9vdjVgoP6yknZW3f8afX', 'FgACAue3FuWPrL7xSqXWtUdHLne52dvVsKyKxjwqPYtr'),
+  -- SURFTEST
+  ('PS3rPSb49GnAkmh3tec1RQizgNSb1hUwPsYHGGuAy5r', 'FtV94i2JvmaqsE1rBT72C9YR58wYJXt1ZjRmPb4tDvMK'),
+  ('PS3rPSb49GnAkmh3tec1RQizgNSb1hUwPsYHGGuAy5r', '4GctbRKwsQjECaY1nL8HiqkgvEUAi8EyhU1ezNmhB3hg'),
+  -- TESTSURF
+  ('EC7MUufEpZcRZyXTFt16MMNLjJVnj9Vkku4UwdZ713Hx', '79TLv4oneDA1tDUSNXBxNCnemzNmLToBHYXnfZWDQNeP'),
+  ('EC7MUufEpZcRZyXTFt16MMNLjJVnj9Vkku4UwdZ713Hx', 'BXc9g3zxbQhhfkLjxXbtSHrfd6MSFRdJo8pDQhW95QUw'),
+  ('EC7MUufEpZcRZyXTFt16MMNLjJVnj9Vkku4UwdZ713Hx', 'FgACAue3FuWPrL7xSqXWtUdHLne52dvVsKyKxjwqPYtr'),
+  ('EC7MUufEpZcRZyXTFt16MMNLjJVnj9Vkku4UwdZ713Hx', 'FtV94i2JvmaqsE1rBT72C9YR58wYJXt1ZjRmPb4tDvMK'),
+  -- SURF
+  ('Ez1QYeC95xJRwPA9SR7YWC1H1Tj43exJr91QqKf8Puu1', '4GctbRKwsQjECaY1nL8HiqkgvEUAi8EyhU1ezNmhB3hg'),
+  ('Ez1QYeC95xJRwPA9SR7YWC1H1Tj43exJr91QqKf8Puu1', 'BV9MxX2veiQwLeWqwzPcMWPEhzV9r47G63b3W3qcDH7X')
+ON CONFLICT DO NOTHING;
+
+-- Limit and stop orders on conditional markets, executed by the API's order keeper
+CREATE TABLE IF NOT EXISTS qm_orders (
+  id SERIAL PRIMARY KEY,
+  moderator_id INTEGER NOT NULL,
+  proposal_id INTEGER NOT NULL,
+  market INTEGER NOT NULL CHECK (market >= 0),
+  wallet VARCHAR(44) NOT NULL,
+  order_type VARCHAR(16) NOT NULL
+    CHECK (order_type IN ('limit', 'stop')),
+  execution_mode VARCHAR(16) NOT NULL
+    CHECK (execution_mode IN ('durable-nonce', 'delegate')),
+  is_base_to_quote BOOLEAN NOT NULL,
+  amount_in NUMERIC(40, 0) NOT NULL,         -- Raw input amount
+  min_amount_out NUMERIC(40, 0) NOT NULL,    -- Raw output enforced on-chain
+  trigger_price DECIMAL(20, 10) NOT NULL,    -- Quote per base, like qm_price_history
+  signed_transaction TEXT,                   -- Base64, durable-nonce orders only
+  status VARCHAR(16) NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'executing', 'filled', 'cancelled', 'expired', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  tx_signature VARCHAR(88),
+  error TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,           -- Proposal end
+  filled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT qm_orders_signed_transaction_check
+    CHECK ((execution_mode = 'durable-nonce') = (signed_transaction IS NOT NULL)),
+  CONSTRAINT fk_qm_orders_moderator FOREIGN KEY (moderator_id)
+    REFERENCES qm_moderators(id) ON DELETE CASCADE,
+  CONSTRAINT fk_qm_orders_proposal FOREIGN KEY (moderator_id, proposal_id)
+    REFERENCES qm_proposals(moderator_id, proposal_id) ON DELETE CASCADE
+);
+
+-- Indexes for the keeper (open orders per market) and per-wallet listings
+CREATE INDEX IF NOT EXISTS idx_qm_orders_open
+  ON qm_orders(moderator_id, proposal_id, market) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_qm_orders_wallet
+  ON qm_orders(wallet, moderator_id, proposal_id);
+
+-- Update trigger for orders
+CREATE TRIGGER update_qm_orders_updated_at
+  BEFORE UPDATE ON qm_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Transactions submitted by the API, tracked until they confirm or their blockhash expires
+-- (durable-nonce transactions: until their nonce is advanced)
+CREATE TABLE IF NOT EXISTS qm_transactions (
+  id SERIAL PRIMARY KEY,
+  signature VARCHAR(88) NOT NULL UNIQUE,
+  status VARCHAR(16) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'confirmed', 'failed', 'expired')),
+  last_valid_block_height BIGINT NOT NULL,   -- Expires once the chain passes this height
+  broadcasts INTEGER NOT NULL DEFAULT 1,     -- Sends including rebroadcasts
+  rebuilt_from VARCHAR(88),                  -- Expired transaction this one re-signed with a fresh blockhash
+  nonce_account VARCHAR(44),                 -- Durable-nonce transactions only
+  nonce VARCHAR(44),                         -- Nonce value the transaction was signed with
+  confirmed_slot BIGINT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Durable-nonce tracking for existing databases
+ALTER TABLE qm_transactions ADD COLUMN IF NOT EXISTS nonce_account VARCHAR(44);
+ALTER TABLE qm_transactions ADD COLUMN IF NOT EXISTS nonce VARCHAR(44);
+
+-- Index for reconciling transactions left pending by a restart
+CREATE INDEX IF NOT EXISTS idx_qm_transactions_pending
+  ON qm_transactions(created_at) WHERE status = 'pending';
+
+-- Update trigger for transactions
+CREATE TRIGGER update_qm_transactions_updated_at
+  BEFORE UPDATE ON qm_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
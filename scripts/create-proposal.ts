@@ -38,7 +38,7 @@ async function createProposal() {
 
   if (!CREATOR_WALLET) {
     console.error('CREATOR_WALLET environment variable is required');
-    console.error('This wallet must be whitelisted in src/config/whitelist.ts');
+    console.error('This wallet must be whitelisted for the pool (POST /api/whitelist/pools/:poolAddress/wallets)');
     process.exit(1);
   }
 
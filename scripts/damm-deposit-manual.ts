@@ -29,7 +29,7 @@ import { Transaction } from '@solana/web3.js';
 import { DammService } from '@app/services/damm.service';
 import { ExecutionService } from '@app/services/execution.service';
 import { LoggerService } from '@app/services/logger.service';
-import { POOL_METADATA } from '../src/config/whitelist';
+import { PoolRegistryService } from '@app/services/pool-registry.service';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -56,7 +56,9 @@ async function dammDepositManual() {
   const logger = new LoggerService('damm-deposit-manual');
 
   // Get pool metadata if available
-  const poolMetadata = POOL_METADATA[poolAddress];
+  const poolRegistry = PoolRegistryService.getInstance();
+  await poolRegistry.refresh();
+  const poolMetadata = poolRegistry.getPoolMetadata(poolAddress);
   const poolName = poolMetadata?.ticker || 'Unknown';
 
   console.log(`\n🏦 DAMM Manual Deposit`);
@@ -65,7 +67,7 @@ async function dammDepositManual() {
   console.log(`   Token B: ${tokenBAmount.toLocaleString()} SOL`);
 
   if (!poolMetadata) {
-    console.warn('\n⚠️  Warning: Pool not found in POOL_METADATA. Proceeding anyway...');
+    console.warn('\n⚠️  Warning: Pool not found in pool registry. Proceeding anyway...');
   }
 
   // Load signer keypair
@@ -33,7 +33,7 @@ import { PersistenceService } from '@app/services/persistence.service';
 import { DammService } from '@app/services/damm.service';
 import { ExecutionService } from '@app/services/execution.service';
 import { LoggerService } from '@app/services/logger.service';
-import { POOL_METADATA } from '../src/config/whitelist';
+import { PoolRegistryService } from '@app/services/pool-registry.service';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -109,7 +109,9 @@ async function dammDeposit() {
   }
 
   // Get pool metadata for decimals
-  const poolMetadata = POOL_METADATA[metadata.poolAddress];
+  const poolRegistry = PoolRegistryService.getInstance();
+  await poolRegistry.refresh();
+  const poolMetadata = poolRegistry.getPoolMetadata(metadata.poolAddress);
   if (!poolMetadata) {
     console.error(`\n❌ Pool metadata not found for ${metadata.poolAddress}`);
     process.exit(1);
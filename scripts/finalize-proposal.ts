@@ -27,6 +27,12 @@ const MODERATOR_ID = 1; // Change this to target different moderators
 
 async function finalizeProposal(proposalId?: number) {
   const API_URL = process.env.API_URL || 'http://localhost:3000';
+  const API_KEY = process.env.API_KEY;
+  
+  if (!API_KEY) {
+    console.error('API_KEY environment variable is required');
+    process.exit(1);
+  }
   
   // Get proposal ID from command line argument or environment variable
   const id = proposalId ?? parseInt(process.argv[2] || '');
@@ -41,7 +47,8 @@ async function finalizeProposal(proposalId?: number) {
     const response = await fetch(`${API_URL}/api/proposals/${id}/finalize?moderatorId=${MODERATOR_ID}`, {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        'X-API-KEY': API_KEY
       }
     });
     
@@ -0,0 +1,138 @@
+#!/usr/bin/env tsx
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * TWAP Replay / Backtest Script
+ *
+ * Replays a proposal's recorded qm_price_history through TWAPOracle offline
+ * and reports the TWAPs and winner for the proposal's own TWAP config plus
+ * any variants, so TWAP parameters can be tuned before creating proposals.
+ *
+ * Usage: pnpm tsx scripts/twap-replay.ts <moderatorId> <proposalId> [variants.json] [crankIntervalMs]
+ *
+ * variants.json is an array of partial TWAP configs merged over the proposal's config:
+ *   [
+ *     { "name": "5% threshold", "twap": { "resolutionMode": "status-quo-threshold", "passThresholdBps": 500 } },
+ *     { "name": "2% log clamp", "twap": { "clamp": { "mode": "log-space", "maxChange": 0.02 } } }
+ *   ]
+ *
+ * Environment:
+ *   DB_URL - PostgreSQL connection string (required)
+ */
+
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+
+dotenv.config();
+
+import { PersistenceService } from '../app/services/persistence.service';
+import { HistoryService } from '../app/services/history.service';
+import { LoggerService } from '../app/services/logger.service';
+import { closePool } from '../app/utils/database';
+import { replayTWAPVariants } from '../app/utils/twap-replay';
+import { ITWAPConfig } from '../app/types/twap-oracle.interface';
+import { ITWAPReplayVariant } from '../app/types/twap-replay.interface';
+
+const MODERATOR_ID = parseInt(process.argv[2]);
+const PROPOSAL_ID = parseInt(process.argv[3]);
+const VARIANTS_FILE = process.argv[4] || '';
+const CRANK_INTERVAL = process.argv[5] ? parseInt(process.argv[5]) : undefined;
+
+interface VariantFileEntry {
+  name: string;
+  twap: Partial<ITWAPConfig>;
+}
+
+async function main() {
+  if (isNaN(MODERATOR_ID) || isNaN(PROPOSAL_ID)) {
+    console.error('Usage: pnpm tsx scripts/twap-replay.ts <moderatorId> <proposalId> [variants.json] [crankIntervalMs]');
+    process.exit(1);
+  }
+
+  const logger = new LoggerService('scripts').createChild('twap-replay');
+  const persistenceService = new PersistenceService(MODERATOR_ID, logger);
+
+  const proposalData = await persistenceService.loadProposalData(PROPOSAL_ID);
+  if (!proposalData) {
+    throw new Error(`Proposal ${PROPOSAL_ID} not found for moderator ${MODERATOR_ID}`);
+  }
+
+  const baseConfig: ITWAPConfig = typeof proposalData.twap_config === 'string'
+    ? JSON.parse(proposalData.twap_config)
+    : proposalData.twap_config;
+
+  const variants: ITWAPReplayVariant[] = [{ name: 'recorded config', config: baseConfig }];
+  if (VARIANTS_FILE) {
+    const entries = JSON.parse(fs.readFileSync(VARIANTS_FILE, 'utf-8')) as VariantFileEntry[];
+    for (const entry of entries) {
+      variants.push({ name: entry.name, config: { ...baseConfig, ...entry.twap } });
+    }
+  }
+
+  const history = await HistoryService.getPriceHistory(MODERATOR_ID, PROPOSAL_ID);
+  const createdAt = new Date(proposalData.created_at).getTime();
+  const finalizedAt = new Date(proposalData.finalized_at).getTime();
+  const labels = proposalData.market_labels || [];
+
+  console.log(`\n=== TWAP Replay: moderator ${MODERATOR_ID}, proposal ${PROPOSAL_ID} ===`);
+  console.log(`Title:   ${proposalData.title}`);
+  console.log(`Window:  ${new Date(createdAt).toISOString()} -> ${new Date(finalizedAt).toISOString()}`);
+  console.log(`Markets: ${proposalData.markets} (${labels.join(', ')})`);
+  console.log(`Prices:  ${history.length} recorded points\n`);
+
+  const results = await replayTWAPVariants(
+    {
+      proposalId: PROPOSAL_ID,
+      markets: proposalData.markets,
+      createdAt,
+      finalizedAt,
+      prices: history.map(point => ({
+        timestamp: new Date(point.timestamp).getTime(),
+        market: point.market,
+        price: point.price,
+      })),
+    },
+    variants,
+    { crankInterval: CRANK_INTERVAL }
+  );
+
+  for (const result of results) {
+    const { resolution } = result;
+    console.log(`--- ${result.name} ---`);
+    console.log(`  mode=${resolution.mode} thresholdBps=${result.config.passThresholdBps} ` +
+      `startDelay=${result.config.twapStartDelay}ms minUpdateInterval=${result.config.minUpdateInterval}ms ` +
+      `clamp=${JSON.stringify(result.config.clamp ?? result.config.twapMaxObservationChangePerUpdate)}`);
+    result.twaps.forEach((twap, i) => {
+      const stats = result.clampStats[i];
+      console.log(`  [${i}] ${(labels[i] || `Market ${i + 1}`).padEnd(16)} twap=${twap.toSignificantDigits(8).toString().padEnd(14)} ` +
+        `clamped=${stats.clamped}/${stats.updates} maxSuppressedBps=${stats.maxSuppressedBps.toFixed(1)}`);
+    });
+    const marginText = resolution.marginBps === null ? 'n/a' : `${resolution.marginBps.toFixed(1)}bps`;
+    console.log(`  winner: [${resolution.winningIndex}] ${labels[resolution.winningIndex] || ''} ` +
+      `(challenger margin ${marginText}, required ${resolution.requiredMarginBps}bps, ${result.cranks} cranks)\n`);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('TWAP replay failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
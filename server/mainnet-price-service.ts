@@ -20,6 +20,7 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import { CpAmm, PoolState, getPriceFromSqrtPrice, getTokenDecimals } from '@meteora-ag/cp-amm-sdk';
 import { Decimal } from 'decimal.js';
+import { RpcPool } from '../app/services/rpc-pool.service';
 
 interface AMMPriceData {
   tokenAddress: string;
@@ -35,8 +36,12 @@ export class MainnetPriceService {
   private priceCache: Map<string, AMMPriceData> = new Map();
   private CACHE_DURATION = 5000; // 5 seconds cache
 
-  constructor(rpcUrl: string = 'https://bernie-zo3q7f-fast-mainnet.helius-rpc.com') {
-    this.connection = new Connection(rpcUrl, 'confirmed');
+  constructor(rpcUrl?: string) {
+    const rpcPool = RpcPool.getInstance();
+    if (rpcUrl) {
+      rpcPool.addEndpoint(rpcUrl);
+    }
+    this.connection = rpcPool.getConnection();
     this.cpAmm = new CpAmm(this.connection);
   }
 
@@ -4,23 +4,32 @@ import { getAssociatedTokenAddress, getAccount, TOKEN_PROGRAM_ID } from '@solana
 /**
  * Whitelist configuration for multi-token decision markets
  *
- * This file re-exports pool configuration from the consolidated pools.ts
- * and provides helper functions for authorization checks.
+ * Pool metadata and whitelists are read from the PoolRegistryService snapshot,
+ * so changes made through the admin API apply without a restart.
  */
 
-import {
-  POOL_CONFIG,
-  POOL_WHITELIST as _POOL_WHITELIST,
-  POOL_METADATA as _POOL_METADATA,
-  PoolMetadata,
-  PoolType,
-} from './pools';
-
-// Re-export for backward compatibility
-export const POOL_WHITELIST = _POOL_WHITELIST;
-export const POOL_METADATA = _POOL_METADATA;
+import { PoolRegistryService } from '../../app/services/pool-registry.service';
+import { PoolMetadata, PoolType } from './pools';
+
 export type { PoolMetadata, PoolType };
 
+/**
+ * Get metadata for a pool
+ * @param poolAddress - The pool address
+ * @returns Pool metadata or undefined if the pool isn't registered
+ */
+export function getPoolMetadata(poolAddress: string): PoolMetadata | undefined {
+  return PoolRegistryService.getInstance().getPoolMetadata(poolAddress);
+}
+
+/**
+ * Get metadata for every registered pool
+ * @returns Array of pool metadata
+ */
+export function getAllPoolMetadata(): PoolMetadata[] {
+  return PoolRegistryService.getInstance().getAllPools();
+}
+
 /**
  * Get all pool addresses that a wallet is authorized to use
  * @param walletAddress - The connected wallet's public key
@@ -29,7 +38,7 @@ export type { PoolMetadata, PoolType };
 export function getPoolsForWallet(walletAddress: string): string[] {
   const authorizedPools: string[] = [];
 
-  for (const [poolAddress, authorizedWallets] of Object.entries(POOL_CONFIG.whitelist)) {
+  for (const [poolAddress, authorizedWallets] of Object.entries(PoolRegistryService.getInstance().getWhitelist())) {
     if (authorizedWallets.includes(walletAddress)) {
       authorizedPools.push(poolAddress);
     }
@@ -45,11 +54,7 @@ export function getPoolsForWallet(walletAddress: string): string[] {
  * @returns true if wallet is authorized for the pool
  */
 export function isWalletAuthorizedForPool(walletAddress: string, poolAddress: string): boolean {
-  const authorizedWallets = POOL_CONFIG.whitelist[poolAddress];
-  if (!authorizedWallets) {
-    return false;
-  }
-  return authorizedWallets.includes(walletAddress);
+  return PoolRegistryService.getInstance().getWhitelistedWallets(poolAddress).includes(walletAddress);
 }
 
 /**
@@ -68,7 +73,7 @@ export function isWalletWhitelisted(walletAddress: string): boolean {
  */
 export function getPoolByName(name: string): PoolMetadata | null {
   const lowerName = name.toLowerCase();
-  const pool = Object.values(POOL_CONFIG.metadata).find(
+  const pool = getAllPoolMetadata().find(
     p => p.ticker.toLowerCase() === lowerName
   );
   return pool || null;
@@ -131,7 +136,7 @@ export async function hasMinimumTokenBalance(
   walletAddress: string,
   poolAddress: string
 ): Promise<boolean> {
-  const poolMetadata = POOL_METADATA[poolAddress];
+  const poolMetadata = getPoolMetadata(poolAddress);
   if (!poolMetadata || poolMetadata.minTokenBalance === undefined) {
     return false; // No minimum balance configured = token auth not available
   }
@@ -186,7 +191,7 @@ export async function getAuthorizedPoolsAsync(
   const authorizedPools: AuthorizedPool[] = [];
 
   // Check each pool
-  for (const poolAddress of Object.keys(POOL_METADATA)) {
+  for (const { poolAddress } of getAllPoolMetadata()) {
     const result = await isWalletAuthorizedForPoolAsync(connection, walletAddress, poolAddress);
     if (result.isAuthorized && result.authMethod) {
       authorizedPools.push({ poolAddress, authMethod: result.authMethod });
@@ -0,0 +1,230 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NextFunction, Response } from 'express';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { AuthService } from '@app/services/auth.service';
+import { ApiKeyScope, IApiKey, IWalletSession } from '@app/types/auth.interface';
+import { AuthRequest, requireScope, requireWalletSession, verifySignedMessage } from './auth';
+
+const ENV_KEY = 'env-bootstrap-key';
+
+/** Minimal response that records the status and body */
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status: vi.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    }),
+    json: vi.fn((body: unknown) => {
+      res.body = body;
+      return res;
+    }),
+  };
+  return res as typeof res & Response;
+}
+
+function mockRequest(init: { headers?: Record<string, string>; query?: Record<string, string> } = {}): AuthRequest {
+  return { method: 'POST', path: '/test', headers: init.headers ?? {}, query: init.query ?? {} } as unknown as AuthRequest;
+}
+
+function apiKey(scopes: ApiKeyScope[]): IApiKey {
+  return {
+    id: 7,
+    name: 'ops',
+    keyPrefix: 'qmk_abcdefgh',
+    scopes,
+    expiresAt: null,
+    revokedAt: null,
+    lastUsedAt: null,
+    rotatedFromId: null,
+    createdAt: 0,
+  };
+}
+
+describe('auth middleware', () => {
+  let service: {
+    authenticateApiKey: ReturnType<typeof vi.fn>;
+    authenticateWalletSession: ReturnType<typeof vi.fn>;
+    consumeNonce: ReturnType<typeof vi.fn>;
+  };
+  let next: NextFunction;
+
+  beforeEach(() => {
+    vi.stubEnv('API_KEY', ENV_KEY);
+    service = {
+      authenticateApiKey: vi.fn(async () => null),
+      authenticateWalletSession: vi.fn(async () => null),
+      consumeNonce: vi.fn(async () => true),
+    };
+    vi.spyOn(AuthService, 'getInstance').mockReturnValue(service as unknown as AuthService);
+    next = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('requireScope', () => {
+    it('rejects keys sent in the query string', async () => {
+      const res = mockResponse();
+      await requireScope()(mockRequest({ query: { api_key: ENV_KEY } }), res, next);
+
+      expect(res.statusCode).toBe(400);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('requires a key', async () => {
+      const res = mockResponse();
+      await requireScope(ApiKeyScope.Finalize)(mockRequest(), res, next);
+
+      expect(res.statusCode).toBe(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('accepts the environment key with every scope', async () => {
+      const req = mockRequest({ headers: { 'x-api-key': ENV_KEY } });
+      await requireScope(ApiKeyScope.Finalize, ApiKeyScope.ModeratorAdmin)(req, mockResponse(), next);
+
+      expect(next).toHaveBeenCalledOnce();
+      expect(req.apiKey).toEqual({ id: null, name: 'env', scopes: Object.values(ApiKeyScope) });
+      expect(service.authenticateApiKey).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown keys', async () => {
+      const res = mockResponse();
+      await requireScope()(mockRequest({ headers: { 'x-api-key': 'qmk_unknown' } }), res, next);
+
+      expect(res.statusCode).toBe(403);
+      expect(res.body).toEqual({ error: 'Invalid API key' });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('rejects database keys that lack a required scope', async () => {
+      service.authenticateApiKey.mockResolvedValue(apiKey([ApiKeyScope.CreateProposal]));
+      const res = mockResponse();
+      await requireScope(ApiKeyScope.Finalize)(mockRequest({ headers: { 'x-api-key': 'qmk_key' } }), res, next);
+
+      expect(res.statusCode).toBe(403);
+      expect(res.body).toEqual({ error: 'API key lacks required scope', missing: [ApiKeyScope.Finalize] });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('accepts database keys with the required scopes', async () => {
+      service.authenticateApiKey.mockResolvedValue(apiKey([ApiKeyScope.Finalize, ApiKeyScope.CreateProposal]));
+      const req = mockRequest({ headers: { 'x-api-key': 'qmk_key' } });
+      await requireScope(ApiKeyScope.Finalize)(req, mockResponse(), next);
+
+      expect(next).toHaveBeenCalledOnce();
+      expect(req.apiKey).toEqual({ id: 7, name: 'ops', scopes: [ApiKeyScope.Finalize, ApiKeyScope.CreateProposal] });
+      expect(req.isAuthenticated).toBe(true);
+    });
+
+    it('fails closed when the key lookup throws', async () => {
+      service.authenticateApiKey.mockRejectedValue(new Error('database down'));
+      const res = mockResponse();
+      await requireScope()(mockRequest({ headers: { 'x-api-key': 'qmk_key' } }), res, next);
+
+      expect(res.statusCode).toBe(500);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireWalletSession', () => {
+    const session: IWalletSession = { id: 3, wallet: 'wallet', expiresAt: Date.now() + 60_000, createdAt: Date.now() };
+
+    it('requires a bearer token', async () => {
+      const res = mockResponse();
+      await requireWalletSession(mockRequest({ headers: { authorization: 'Basic abc' } }), res, next);
+
+      expect(res.statusCode).toBe(401);
+      expect(service.authenticateWalletSession).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown or expired sessions', async () => {
+      const res = mockResponse();
+      await requireWalletSession(mockRequest({ headers: { authorization: 'Bearer qms_old' } }), res, next);
+
+      expect(res.statusCode).toBe(401);
+      expect(service.authenticateWalletSession).toHaveBeenCalledWith('qms_old');
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('attaches the session to the request', async () => {
+      service.authenticateWalletSession.mockResolvedValue(session);
+      const req = mockRequest({ headers: { authorization: 'Bearer qms_live ' } });
+      await requireWalletSession(req, mockResponse(), next);
+
+      expect(service.authenticateWalletSession).toHaveBeenCalledWith('qms_live');
+      expect(req.walletSession).toBe(session);
+      expect(next).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('verifySignedMessage', () => {
+    const keypair = Keypair.generate();
+    const wallet = keypair.publicKey.toBase58();
+
+    function sign(fields: Record<string, unknown>) {
+      const message = JSON.stringify({ action: 'create-session', timestamp: Date.now(), nonce: 'nonce-123', ...fields });
+      const signature = bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), keypair.secretKey));
+      return { message, signature };
+    }
+
+    it('accepts a fresh message signed by the wallet and spends its nonce', async () => {
+      const { message, signature } = sign({});
+      const result = await verifySignedMessage(wallet, message, signature, 'create-session', '[test]');
+
+      expect('message' in result && result.message.nonce).toBe('nonce-123');
+      expect(service.consumeNonce).toHaveBeenCalledWith('nonce-123', wallet);
+    });
+
+    it('rejects another action, an expired timestamp or a short nonce', async () => {
+      for (const fields of [{ action: 'other' }, { timestamp: Date.now() - 10 * 60 * 1000 }, { nonce: 'short' }]) {
+        const { message, signature } = sign(fields);
+        const result = await verifySignedMessage(wallet, message, signature, 'create-session', '[test]');
+        expect(result).toMatchObject({ status: 400 });
+      }
+      expect(service.consumeNonce).not.toHaveBeenCalled();
+    });
+
+    it('rejects signatures from another wallet without spending the nonce', async () => {
+      const { message, signature } = sign({});
+      const other = Keypair.generate().publicKey.toBase58();
+      const result = await verifySignedMessage(other, message, signature, 'create-session', '[test]');
+
+      expect(result).toMatchObject({ status: 403 });
+      expect(service.consumeNonce).not.toHaveBeenCalled();
+    });
+
+    it('rejects a replayed nonce', async () => {
+      service.consumeNonce.mockResolvedValue(false);
+      const { message, signature } = sign({});
+      const result = await verifySignedMessage(wallet, message, signature, 'create-session', '[test]');
+
+      expect(result).toEqual({ status: 409, error: 'Message nonce already used' });
+    });
+  });
+});
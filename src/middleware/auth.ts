@@ -17,32 +17,209 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
+import * as crypto from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
 import { LoggerService } from '@app/services/logger.service';
+import { AuthService } from '@app/services/auth.service';
+import { ApiKeyScope, IAuthenticatedKey, IWalletSession } from '@app/types/auth.interface';
 import { Request, Response, NextFunction } from 'express';
 
 export interface AuthRequest extends Request {
   isAuthenticated?: boolean;
+  apiKey?: IAuthenticatedKey;                  // Set by requireApiKey / requireScope
+  walletSession?: IWalletSession;              // Set by requireWalletSession
 }
 
 const logger = new LoggerService('api').createChild('auth');
 
-export const requireApiKey = (req: AuthRequest, res: Response, next: NextFunction) => {
-  const apiKey = req.headers['x-api-key'] || req.query.api_key;
-  const validApiKey = process.env.API_KEY;
+/** Signed messages are accepted for 5 minutes around their timestamp */
+const SIGNED_MESSAGE_WINDOW_MS = 5 * 60 * 1000;
 
-  if (!validApiKey) {
-    logger.error('API_KEY not configured in environment variables');
-    return res.status(500).json({ error: 'Server configuration error' });
+/**
+ * JSON message a wallet signs to prove ownership
+ */
+export interface ISignedMessage {
+  action: string;
+  timestamp: number;                           // Milliseconds
+  nonce: string;                               // 8-128 characters, spent on first use
+}
+
+/**
+ * Constant-time comparison of the request key with the API_KEY environment key
+ */
+function matchesEnvApiKey(apiKey: string): boolean {
+  const envApiKey = process.env.API_KEY;
+  if (!envApiKey) {
+    return false;
   }
+  const a = Buffer.from(apiKey);
+  const b = Buffer.from(envApiKey);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Builds middleware that requires an API key in the x-api-key header with all of the given scopes
+ * Keys are looked up by hash in qm_api_keys. The API_KEY environment variable is still
+ * accepted as a bootstrap key with every scope, so the first database keys can be issued.
+ * Keys in the query string are rejected - they end up in logs and browser history.
+ * @param scopes - Scopes the key must have (none = any valid key)
+ * @returns Express middleware
+ */
+export const requireScope = (...scopes: ApiKeyScope[]) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (req.query.api_key !== undefined) {
+      return res.status(400).json({ error: 'API keys must be sent in the x-api-key header' });
+    }
+
+    const apiKey = req.headers['x-api-key'];
+    if (!apiKey || typeof apiKey !== 'string') {
+      return res.status(401).json({ error: 'API key required' });
+    }
+
+    try {
+      let authenticated: IAuthenticatedKey | null = null;
+      if (matchesEnvApiKey(apiKey)) {
+        authenticated = { id: null, name: 'env', scopes: Object.values(ApiKeyScope) };
+      } else {
+        const record = await AuthService.getInstance().authenticateApiKey(apiKey);
+        if (record) {
+          authenticated = { id: record.id, name: record.name, scopes: record.scopes };
+        }
+      }
 
-  if (!apiKey) {
-    return res.status(401).json({ error: 'API key required' });
+      if (!authenticated) {
+        return res.status(403).json({ error: 'Invalid API key' });
+      }
+
+      const missing = scopes.filter(scope => !authenticated.scopes.includes(scope));
+      if (missing.length > 0) {
+        logger.warn(`[${req.method} ${req.path}] API key missing scopes`, {
+          keyId: authenticated.id,
+          keyName: authenticated.name,
+          missing
+        });
+        return res.status(403).json({ error: 'API key lacks required scope', missing });
+      }
+
+      req.apiKey = authenticated;
+      req.isAuthenticated = true;
+      next();
+    } catch (error) {
+      logger.error(`[${req.method} ${req.path}] Failed to verify API key`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      res.status(500).json({ error: 'Failed to verify API key' });
+    }
+  };
+
+/**
+ * Verify a message signed by a wallet and spend its nonce
+ * The message must be JSON {"action","timestamp","nonce"} with the expected action and a
+ * timestamp within 5 minutes, and the signature (base58) must be the wallet's. Each nonce is
+ * accepted once, so a signed message can't be replayed.
+ * @param wallet - Wallet address that signed
+ * @param message - Signed message text
+ * @param signature - Base58 ed25519 signature
+ * @param action - Action the message must carry
+ * @param label - Route label for logs, e.g. '[POST /session]'
+ * @returns The parsed message, or the status and error to respond with
+ */
+export async function verifySignedMessage(
+  wallet: unknown,
+  message: unknown,
+  signature: unknown,
+  action: string,
+  label: string
+): Promise<{ message: ISignedMessage } | { status: number; error: string }> {
+  // Validate wallet address format (basic check)
+  if (typeof wallet !== 'string' || wallet.length < 32 || wallet.length > 44) {
+    return { status: 400, error: 'Invalid wallet address format' };
+  }
+  if (typeof message !== 'string' || typeof signature !== 'string') {
+    return { status: 400, error: 'message and signature must be strings' };
+  }
+
+  let parsed: ISignedMessage;
+  try {
+    parsed = JSON.parse(message);
+  } catch {
+    logger.warn(`${label} Invalid message format`);
+    return { status: 400, error: 'Invalid message format: must be valid JSON' };
   }
 
-  if (apiKey !== validApiKey) {
-    return res.status(403).json({ error: 'Invalid API key' });
+  if (parsed?.action !== action) {
+    return { status: 400, error: `Invalid message action: expected ${action}` };
   }
 
-  req.isAuthenticated = true;
-  next();
-};
\ No newline at end of file
+  if (typeof parsed.nonce !== 'string' || parsed.nonce.length < 8 || parsed.nonce.length > 128) {
+    return { status: 400, error: 'Invalid message nonce: must be 8-128 characters' };
+  }
+
+  if (typeof parsed.timestamp !== 'number' || Math.abs(Date.now() - parsed.timestamp) > SIGNED_MESSAGE_WINDOW_MS) {
+    logger.warn(`${label} Message expired`, {
+      messageAge: Math.abs(Date.now() - parsed.timestamp)
+    });
+    return { status: 400, error: 'Message expired: timestamp outside 5-minute window' };
+  }
+
+  try {
+    const isValid = nacl.sign.detached.verify(
+      new TextEncoder().encode(message),
+      bs58.decode(signature),
+      new PublicKey(wallet).toBytes()
+    );
+    if (!isValid) {
+      logger.warn(`${label} Invalid signature`, { wallet });
+      return { status: 403, error: 'Invalid signature: wallet ownership verification failed' };
+    }
+  } catch (error) {
+    logger.warn(`${label} Signature verification error`, {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return { status: 400, error: 'Signature verification failed' };
+  }
+
+  // Checked last so a bad request can't burn someone else's nonce
+  if (!(await AuthService.getInstance().consumeNonce(parsed.nonce, wallet))) {
+    logger.warn(`${label} Nonce already used`, { wallet });
+    return { status: 409, error: 'Message nonce already used' };
+  }
+
+  return { message: parsed };
+}
+
+/**
+ * Requires any valid API key, regardless of scope
+ */
+export const requireApiKey = requireScope();
+
+/**
+ * Requires a wallet session token in the Authorization header (Bearer <token>)
+ * Sessions are created by POST /auth/session with a signed Solana message
+ */
+export const requireWalletSession = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const authorization = req.headers.authorization;
+  if (!authorization || !authorization.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Wallet session required' });
+  }
+
+  try {
+    const session = await AuthService.getInstance().authenticateWalletSession(
+      authorization.slice('Bearer '.length).trim()
+    );
+    if (!session) {
+      return res.status(401).json({ error: 'Invalid or expired wallet session' });
+    }
+
+    req.walletSession = session;
+    req.isAuthenticated = true;
+    next();
+  } catch (error) {
+    logger.error(`[${req.method} ${req.path}] Failed to verify wallet session`, {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({ error: 'Failed to verify wallet session' });
+  }
+};
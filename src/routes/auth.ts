@@ -0,0 +1,235 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router } from 'express';
+import { AuthRequest, requireScope, requireWalletSession, verifySignedMessage } from '../middleware/auth';
+import { AuthService } from '../../app/services/auth.service';
+import { LoggerService } from '../../app/services/logger.service';
+import { ApiKeyScope } from '../../app/types/auth.interface';
+
+const router = Router();
+const logger = new LoggerService('api').createChild('auth');
+
+/** Action a wallet must sign to open a session */
+const SESSION_ACTION = 'create-session';
+/** Max rotation grace period (7 days) */
+const MAX_GRACE_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * POST /api/auth/session
+ * Open a wallet session by signing a JSON message
+ * Body: { wallet, message, signature } where message is
+ * {"action":"create-session","timestamp":<ms>,"nonce":"<random>"} and signature is base58
+ */
+router.post('/session', async (req, res, next) => {
+  try {
+    const { wallet, message, signature } = req.body;
+
+    if (!wallet || !message || !signature) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        required: ['wallet', 'message', 'signature']
+      });
+    }
+
+    // Each signed message opens at most one session
+    const verified = await verifySignedMessage(wallet, message, signature, SESSION_ACTION, '[POST /session]');
+    if ('error' in verified) {
+      return res.status(verified.status).json({ error: verified.error });
+    }
+
+    const { token, session } = await AuthService.getInstance().createWalletSession(wallet);
+
+    res.status(201).json({
+      token,
+      wallet: session.wallet,
+      expiresAt: session.expiresAt
+    });
+  } catch (error) {
+    logger.error('[POST /session] Failed to create wallet session', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+/**
+ * GET /api/auth/session
+ * Return the wallet behind the session token
+ */
+router.get('/session', requireWalletSession, (req: AuthRequest, res) => {
+  res.json({
+    wallet: req.walletSession!.wallet,
+    expiresAt: req.walletSession!.expiresAt
+  });
+});
+
+/**
+ * DELETE /api/auth/session
+ * End the current wallet session
+ */
+router.delete('/session', requireWalletSession, async (req: AuthRequest, res, next) => {
+  try {
+    await AuthService.getInstance().revokeWalletSession(req.walletSession!.id);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('[DELETE /session] Failed to revoke wallet session', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+// API key management is admin-only
+const requireAdmin = requireScope(ApiKeyScope.ModeratorAdmin);
+
+/**
+ * GET /api/auth/keys
+ * List API keys (hashes are never returned)
+ */
+router.get('/keys', requireAdmin, async (_req, res, next) => {
+  try {
+    const keys = await AuthService.getInstance().listApiKeys();
+    res.json({ keys, count: keys.length });
+  } catch (error) {
+    logger.error('[GET /keys] Failed to list API keys', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/keys
+ * Issue an API key. The plaintext key is only returned in this response.
+ * Body: { name, scopes: string[], expiresAt?: number (ms) }
+ */
+router.post('/keys', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { name, scopes, expiresAt } = req.body;
+
+    if (!name || typeof name !== 'string' || name.length > 128) {
+      return res.status(400).json({ error: 'name is required (max 128 characters)' });
+    }
+
+    const allowedScopes = Object.values(ApiKeyScope);
+    if (!Array.isArray(scopes) || scopes.length === 0 || scopes.some(scope => !allowedScopes.includes(scope))) {
+      return res.status(400).json({
+        error: 'scopes must be a non-empty array of allowed scopes',
+        allowed: allowedScopes
+      });
+    }
+
+    if (expiresAt !== undefined && expiresAt !== null && (typeof expiresAt !== 'number' || expiresAt <= Date.now())) {
+      return res.status(400).json({ error: 'expiresAt must be a future timestamp in milliseconds' });
+    }
+
+    const issued = await AuthService.getInstance().createApiKey(
+      name,
+      Array.from(new Set(scopes as ApiKeyScope[])),
+      expiresAt ?? null
+    );
+
+    logger.info('[POST /keys] API key issued', {
+      id: issued.apiKey.id,
+      name,
+      scopes: issued.apiKey.scopes,
+      issuedBy: req.apiKey?.name
+    });
+
+    res.status(201).json(issued);
+  } catch (error) {
+    logger.error('[POST /keys] Failed to issue API key', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/keys/:id/rotate
+ * Replace a key; the old key keeps working for the grace period
+ * Body: { gracePeriodMs?: number } (default 0, max 7 days)
+ */
+router.post('/keys/:id/rotate', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id < 0) {
+      return res.status(400).json({ error: 'Invalid key ID' });
+    }
+
+    const gracePeriodMs = req.body?.gracePeriodMs ?? 0;
+    if (typeof gracePeriodMs !== 'number' || gracePeriodMs < 0 || gracePeriodMs > MAX_GRACE_PERIOD_MS) {
+      return res.status(400).json({ error: `gracePeriodMs must be between 0 and ${MAX_GRACE_PERIOD_MS}` });
+    }
+
+    const issued = await AuthService.getInstance().rotateApiKey(id, gracePeriodMs);
+    if (!issued) {
+      return res.status(404).json({ error: 'API key not found, revoked or expired' });
+    }
+
+    logger.info('[POST /keys/:id/rotate] API key rotated', {
+      oldId: id,
+      newId: issued.apiKey.id,
+      gracePeriodMs,
+      rotatedBy: req.apiKey?.name
+    });
+
+    res.status(201).json(issued);
+  } catch (error) {
+    logger.error('[POST /keys/:id/rotate] Failed to rotate API key', {
+      keyId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/auth/keys/:id
+ * Revoke a key immediately
+ */
+router.delete('/keys/:id', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id < 0) {
+      return res.status(400).json({ error: 'Invalid key ID' });
+    }
+
+    const revoked = await AuthService.getInstance().revokeApiKey(id);
+    if (!revoked) {
+      return res.status(404).json({ error: 'API key not found or already revoked' });
+    }
+
+    logger.info('[DELETE /keys/:id] API key revoked', {
+      id,
+      revokedBy: req.apiKey?.name
+    });
+
+    res.json({ success: true, id });
+  } catch (error) {
+    logger.error('[DELETE /keys/:id] Failed to revoke API key', {
+      keyId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,63 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router } from 'express';
+import { PublicKey } from '@solana/web3.js';
+import { PriorityFeeService } from '../../app/services/priority-fee.service';
+import { LoggerService } from '../../app/services/logger.service';
+
+const router = Router();
+const logger = new LoggerService('api').createChild('fees');
+
+/** Max accounts per estimate (matches getRecentPrioritizationFees) */
+const MAX_ACCOUNTS = 128;
+
+/**
+ * GET /api/fees/priority?accounts=<address>,<address>
+ * Recommended compute unit price for a transaction writing to the given accounts
+ * Only accounts the oracle already tracks (pools and vaults the server trades) are
+ * used; without any, the estimate is cluster-wide. Requests never add tracked accounts.
+ */
+router.get('/priority', async (req, res, next) => {
+  try {
+    const raw = typeof req.query.accounts === 'string' ? req.query.accounts : '';
+    const addresses = raw.split(',').map(a => a.trim()).filter(a => a.length > 0);
+
+    if (addresses.length > MAX_ACCOUNTS) {
+      return res.status(400).json({ error: `At most ${MAX_ACCOUNTS} accounts are allowed` });
+    }
+
+    let accounts: PublicKey[];
+    try {
+      accounts = addresses.map(address => new PublicKey(address));
+    } catch {
+      return res.status(400).json({ error: 'Invalid account address' });
+    }
+
+    const estimate = await PriorityFeeService.getInstance().getEstimate(accounts);
+    res.json(estimate);
+  } catch (error) {
+    logger.error('[GET /priority] Failed to estimate priority fee', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+export default router;
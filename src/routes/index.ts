@@ -28,6 +28,11 @@ import whitelistRoutes from './whitelist';
 import stakersRoutes from './stakers';
 import proposalRequestsRoutes from './proposal-requests';
 import statsRoutes from './stats';
+import jobRoutes from './jobs';
+import authRoutes from './auth';
+import orderRoutes from './orders';
+import simulateRoutes from './simulate';
+import feeRoutes from './fees';
 import { SolPriceService } from '../../app/services/sol-price.service';
 
 const router = Router();
@@ -58,5 +63,10 @@ router.use('/whitelist', whitelistRoutes);
 router.use('/stakers', stakersRoutes);
 router.use('/proposal-requests', proposalRequestsRoutes);
 router.use('/stats', statsRoutes);
+router.use('/jobs', jobRoutes);
+router.use('/auth', authRoutes);
+router.use('/orders', orderRoutes);
+router.use('/simulate', simulateRoutes);
+router.use('/fees', feeRoutes);
 
 export default router;
\ No newline at end of file
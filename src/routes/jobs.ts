@@ -0,0 +1,151 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router } from 'express';
+import { requireScope } from '../middleware/auth';
+import { SchedulerService } from '../../app/services/scheduler.service';
+import { LoggerService } from '../../app/services/logger.service';
+import { JobStatus } from '../../app/types/job-queue.interface';
+import { ScheduledTaskType } from '../../app/types/scheduler.interface';
+import { ApiKeyScope } from '../../app/types/auth.interface';
+
+const router = Router();
+const logger = new LoggerService('api').createChild('jobs');
+
+// All job endpoints are admin-only
+router.use(requireScope(ApiKeyScope.ModeratorAdmin));
+
+/**
+ * List jobs with optional filters
+ * Query: status, type, moderatorId, proposalId, limit (default 100, max 1000)
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const { status, type, moderatorId, proposalId, limit } = req.query;
+
+    if (status && !Object.values(JobStatus).includes(status as JobStatus)) {
+      return res.status(400).json({
+        error: 'Invalid status',
+        allowed: Object.values(JobStatus)
+      });
+    }
+
+    if (type && !Object.values(ScheduledTaskType).includes(type as ScheduledTaskType)) {
+      return res.status(400).json({
+        error: 'Invalid type',
+        allowed: Object.values(ScheduledTaskType)
+      });
+    }
+
+    const parsedLimit = limit ? parseInt(limit as string, 10) : 100;
+    if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 1000) {
+      return res.status(400).json({ error: 'Invalid limit: must be between 1 and 1000' });
+    }
+
+    const jobs = await SchedulerService.getInstance().jobQueue.listJobs({
+      status: status as JobStatus | undefined,
+      type: type as ScheduledTaskType | undefined,
+      moderatorId: moderatorId !== undefined ? parseInt(moderatorId as string, 10) : undefined,
+      proposalId: proposalId !== undefined ? parseInt(proposalId as string, 10) : undefined,
+      limit: parsedLimit
+    });
+
+    res.json({
+      jobs,
+      count: jobs.length
+    });
+  } catch (error) {
+    logger.error('[GET /] Failed to list jobs', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+/**
+ * Job counts grouped by type and status
+ */
+router.get('/summary', async (_req, res, next) => {
+  try {
+    const summary = await SchedulerService.getInstance().jobQueue.getSummary();
+    res.json({ summary });
+  } catch (error) {
+    logger.error('[GET /summary] Failed to fetch job summary', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+/**
+ * Get a single job
+ */
+router.get('/:id', async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id < 0) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await SchedulerService.getInstance().jobQueue.getJob(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    logger.error('[GET /:id] Failed to fetch job', {
+      jobId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+/**
+ * Retry a dead-lettered or cancelled job immediately
+ */
+router.post('/:id/retry', async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id < 0) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await SchedulerService.getInstance().jobQueue.retry(id);
+    if (!job) {
+      return res.status(409).json({ error: 'Job not found or not in a retryable state (dead or cancelled)' });
+    }
+
+    logger.info('[POST /:id/retry] Job requeued', {
+      jobId: id,
+      jobKey: job.jobKey
+    });
+
+    res.json(job);
+  } catch (error) {
+    logger.error('[POST /:id/retry] Failed to retry job', {
+      jobId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,350 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router } from 'express';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { BN } from '@coral-xyz/anchor';
+import { Decimal } from 'decimal.js';
+import { requireModeratorId, getProposalId, getModerator } from '../middleware/validation';
+import { AuthRequest, requireWalletSession } from '../middleware/auth';
+import { OrderService } from '../../app/services/order.service';
+import { LoggerService } from '@app/services/logger.service';
+import { AMMState, IAMM } from '../../app/types/amm.interface';
+import { ProposalStatus } from '../../app/types/moderator.interface';
+import { OrderExecutionMode, OrderType } from '../../app/types/order.interface';
+
+const router = Router();
+const logger = new LoggerService('api').createChild('orders');
+
+// Orders are always placed against an explicit moderator by a signed-in wallet
+router.use(requireModeratorId);
+router.use(requireWalletSession);
+
+/**
+ * Loads a market that is still trading, for placing orders
+ * @param moderatorId - The moderator ID
+ * @param proposalId - The proposal ID
+ * @param market - Market index
+ * @returns The market's AMM and the proposal end time, or an error for the client
+ */
+async function getTradingMarket(
+  moderatorId: number,
+  proposalId: number,
+  market: unknown
+): Promise<{ amm: IAMM; expiresAt: number } | { status: number; error: string }> {
+  const proposal = await getModerator(moderatorId).getProposal(proposalId);
+  if (!proposal) {
+    return { status: 404, error: 'Proposal not found' };
+  }
+
+  if (proposal.getStatus().status !== ProposalStatus.Pending || Date.now() >= proposal.finalizedAt) {
+    return { status: 400, error: 'Proposal is no longer trading' };
+  }
+
+  const amms = proposal.getAMMs();
+  if (typeof market !== 'number' || !Number.isInteger(market) || market < 0 || market >= amms.length) {
+    return { status: 400, error: `Invalid market index. Must be 0-${amms.length - 1}` };
+  }
+
+  if (amms[market].state !== AMMState.Trading) {
+    return { status: 400, error: 'Market is not trading' };
+  }
+
+  return { amm: amms[market], expiresAt: proposal.finalizedAt };
+}
+
+/**
+ * Parses a positive raw token amount
+ * @returns The amount, or null if invalid
+ */
+function parseAmount(value: unknown): BN | null {
+  if ((typeof value !== 'string' && typeof value !== 'number') || !/^\d+$/.test(String(value))) {
+    return null;
+  }
+  const amount = new BN(String(value));
+  return amount.gtn(0) ? amount : null;
+}
+
+/**
+ * List the session wallet's orders on a proposal
+ * GET /:id
+ */
+router.get('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const proposalId = getProposalId(req);
+    const orders = await OrderService.getInstance().listOrders(
+      req.moderatorId,
+      proposalId,
+      req.walletSession!.wallet
+    );
+    res.json({ orders, count: orders.length });
+  } catch (error) {
+    logger.error('[GET /:id] Failed to list orders', {
+      error: error instanceof Error ? error.message : String(error),
+      proposalId: req.params.id
+    });
+    next(error);
+  }
+});
+
+/**
+ * Build a transaction approving the order keeper to spend from the wallet's input token account
+ * POST /:id/buildApprovalTx
+ *
+ * A token account has one delegate allowance, so the approval covers this order plus
+ * the wallet's other open delegate orders in the same market and direction.
+ *
+ * Body:
+ * - market: number - Market index
+ * - isBaseToQuote: boolean - Direction of the order
+ * - amountIn: string - Raw input amount of the new order
+ */
+router.post('/:id/buildApprovalTx', async (req: AuthRequest, res, next) => {
+  try {
+    const moderatorId = req.moderatorId;
+    const proposalId = getProposalId(req);
+    const wallet = req.walletSession!.wallet;
+    const { market, isBaseToQuote, amountIn } = req.body;
+
+    const keeper = OrderService.getInstance().getKeeper();
+    if (!keeper) {
+      return res.status(503).json({ error: 'Delegate orders are not enabled' });
+    }
+
+    if (typeof isBaseToQuote !== 'boolean') {
+      return res.status(400).json({ error: 'Invalid field type: isBaseToQuote must be a boolean' });
+    }
+
+    const amount = parseAmount(amountIn);
+    if (!amount) {
+      return res.status(400).json({ error: 'Invalid amountIn: must be a positive integer string' });
+    }
+
+    const target = await getTradingMarket(moderatorId, proposalId, market);
+    if ('error' in target) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    const owner = new PublicKey(wallet);
+    const mint = isBaseToQuote ? target.amm.baseMint : target.amm.quoteMint;
+    const committed = await OrderService.getInstance().getDelegatedAmount(
+      moderatorId, proposalId, market, wallet, isBaseToQuote
+    );
+    const total = committed.add(amount);
+
+    const transaction = await OrderService.getInstance().buildApprovalTx(owner, mint, total);
+
+    logger.info('[POST /:id/buildApprovalTx] Approval transaction built', {
+      proposalId,
+      market,
+      wallet,
+      amount: total.toString()
+    });
+
+    res.json({
+      transaction: transaction.serialize({ requireAllSignatures: false }).toString('base64'),
+      delegate: keeper.publicKey.toBase58(),
+      amount: total.toString(),
+      message: 'Approval transaction built successfully. User must sign and send it before placing the order.'
+    });
+  } catch (error) {
+    logger.error('[POST /:id/buildApprovalTx] Failed to build approval transaction', {
+      error: error instanceof Error ? error.message : String(error),
+      proposalId: req.params.id,
+      market: req.body.market
+    });
+    next(error);
+  }
+});
+
+/**
+ * Place a limit or stop order
+ * POST /:id
+ *
+ * Limit orders fire when the market price reaches the trigger price or better,
+ * stop orders when it reaches the trigger price or worse. Open orders expire when the
+ * proposal ends.
+ *
+ * Body:
+ * - market: number - Market index
+ * - orderType: 'limit' | 'stop'
+ * - triggerPrice: string - Price in quote per base
+ * - executionMode: 'durable-nonce' | 'delegate'
+ * durable-nonce:
+ * - transaction: string - Base64 legacy or v0 swap transaction signed by the wallet, whose first
+ *   instruction advances a durable nonce (direction and amounts are read from it)
+ * delegate (after the approval from buildApprovalTx has landed):
+ * - isBaseToQuote: boolean - Direction of the swap
+ * - amountIn: string - Raw input amount
+ * - slippageBps?: number - Tolerance below the trigger price (default: 50 = 0.5%)
+ */
+router.post('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const moderatorId = req.moderatorId;
+    const proposalId = getProposalId(req);
+    const wallet = req.walletSession!.wallet;
+    const { market, orderType, triggerPrice, executionMode } = req.body;
+
+    if (!Object.values(OrderType).includes(orderType)) {
+      return res.status(400).json({ error: 'Invalid orderType', allowed: Object.values(OrderType) });
+    }
+
+    if (!Object.values(OrderExecutionMode).includes(executionMode)) {
+      return res.status(400).json({ error: 'Invalid executionMode', allowed: Object.values(OrderExecutionMode) });
+    }
+
+    let price: Decimal;
+    try {
+      price = new Decimal(triggerPrice);
+    } catch {
+      return res.status(400).json({ error: 'Invalid triggerPrice: must be a positive number' });
+    }
+    if (!price.isFinite() || price.lte(0)) {
+      return res.status(400).json({ error: 'Invalid triggerPrice: must be a positive number' });
+    }
+
+    const target = await getTradingMarket(moderatorId, proposalId, market);
+    if ('error' in target) {
+      return res.status(target.status).json({ error: target.error });
+    }
+    const { amm, expiresAt } = target;
+    const orderService = OrderService.getInstance();
+
+    let isBaseToQuote: boolean;
+    let amountIn: BN;
+    let minAmountOut: BN;
+    let signedTransaction: string | null = null;
+
+    if (executionMode === OrderExecutionMode.DurableNonce) {
+      if (typeof req.body.transaction !== 'string') {
+        return res.status(400).json({ error: 'transaction is required for durable-nonce orders' });
+      }
+
+      try {
+        const tx = VersionedTransaction.deserialize(Buffer.from(req.body.transaction, 'base64'));
+        const swap = await amm.decodeSwapTx(tx);
+        if (swap.trader.toBase58() !== wallet) {
+          return res.status(403).json({ error: 'Swap is not from the session wallet' });
+        }
+        await orderService.verifyDurableNonceTx(tx);
+
+        isBaseToQuote = swap.isBaseToQuote;
+        amountIn = swap.amountIn;
+        minAmountOut = swap.minAmountOut;
+        signedTransaction = Buffer.from(tx.serialize()).toString('base64');
+      } catch (error) {
+        logger.warn('[POST /:id] Invalid order transaction', {
+          proposalId,
+          wallet,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        return res.status(400).json({
+          error: `Invalid transaction: ${error instanceof Error ? error.message : String(error)}`
+        });
+      }
+    } else {
+      const { slippageBps = 50 } = req.body;
+      if (typeof req.body.isBaseToQuote !== 'boolean') {
+        return res.status(400).json({ error: 'Invalid field type: isBaseToQuote must be a boolean' });
+      }
+      if (typeof slippageBps !== 'number' || slippageBps < 0 || slippageBps >= 10000) {
+        return res.status(400).json({ error: 'Invalid slippageBps: must be between 0 and 9999' });
+      }
+
+      const amount = parseAmount(req.body.amountIn);
+      if (!amount) {
+        return res.status(400).json({ error: 'Invalid amountIn: must be a positive integer string' });
+      }
+
+      isBaseToQuote = req.body.isBaseToQuote;
+      amountIn = amount;
+
+      const committed = await orderService.getDelegatedAmount(moderatorId, proposalId, market, wallet, isBaseToQuote);
+      const problem = await orderService.checkDelegation(
+        new PublicKey(wallet),
+        isBaseToQuote ? amm.baseMint : amm.quoteMint,
+        committed.add(amountIn)
+      );
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      minAmountOut = orderService.getMinAmountOut(amm, isBaseToQuote, amountIn, price, slippageBps);
+    }
+
+    const order = await orderService.createOrder({
+      moderatorId,
+      proposalId,
+      market,
+      wallet,
+      orderType,
+      executionMode,
+      isBaseToQuote,
+      amountIn: amountIn.toString(),
+      minAmountOut: minAmountOut.toString(),
+      triggerPrice: price,
+      signedTransaction,
+      expiresAt,
+    });
+
+    res.status(201).json({ order });
+  } catch (error) {
+    logger.error('[POST /:id] Failed to place order', {
+      error: error instanceof Error ? error.message : String(error),
+      proposalId: req.params.id,
+      market: req.body.market
+    });
+    next(error);
+  }
+});
+
+/**
+ * Cancel one of the session wallet's open orders
+ * DELETE /:id/:orderId
+ */
+router.delete('/:id/:orderId', async (req: AuthRequest, res, next) => {
+  try {
+    const proposalId = getProposalId(req);
+    const orderId = parseInt(req.params.orderId);
+    if (isNaN(orderId) || orderId < 0) {
+      return res.status(400).json({ error: 'Invalid order ID' });
+    }
+
+    const order = await OrderService.getInstance().cancelOrder(
+      req.moderatorId,
+      proposalId,
+      orderId,
+      req.walletSession!.wallet
+    );
+    if (!order) {
+      return res.status(404).json({ error: 'Open order not found' });
+    }
+
+    res.json({ order });
+  } catch (error) {
+    logger.error('[DELETE /:id/:orderId] Failed to cancel order', {
+      error: error instanceof Error ? error.message : String(error),
+      proposalId: req.params.id,
+      orderId: req.params.orderId
+    });
+    next(error);
+  }
+});
+
+export default router;
@@ -18,18 +18,14 @@
  */
 
 import { Router } from 'express';
-import { Connection, PublicKey } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import { CpAmm, getPriceFromSqrtPrice } from '@meteora-ag/cp-amm-sdk';
 import { LoggerService } from '../../app/services/logger.service';
+import { RpcPool } from '../../app/services/rpc-pool.service';
 
 const router = Router();
 const logger = new LoggerService('api').createChild('pools');
 
-// Get Solana connection
-const getRpcUrl = () => {
-  return process.env.SOLANA_RPC_URL || 'https://api.devnet.solana.com';
-};
-
 /**
  * Get current price from a Meteora pool
  * GET /api/pools/:poolAddress/price
@@ -66,7 +62,7 @@ router.get('/:poolAddress/price', async (req, res, next) => {
     });
 
     // Initialize connection and CP-AMM SDK
-    const connection = new Connection(getRpcUrl(), 'confirmed');
+    const connection = RpcPool.getInstance().getConnection();
     const cpAmm = new CpAmm(connection);
 
     // Fetch pool state
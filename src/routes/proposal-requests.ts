@@ -18,15 +18,16 @@
  */
 
 import { Router } from 'express';
-import { PublicKey } from '@solana/web3.js';
-import bs58 from 'bs58';
-import nacl from 'tweetnacl';
+import { verifySignedMessage } from '../middleware/auth';
 import { getPool } from '../../app/utils/database';
 import { LoggerService } from '../../app/services/logger.service';
 
 const router = Router();
 const logger = new LoggerService('api').createChild('proposal-requests');
 
+/** Action a wallet must sign to submit a request */
+const REQUEST_ACTION = 'propose';
+
 /**
  * POST /api/proposal-requests
  * Submit a new proposal request (for non-whitelisted users)
@@ -60,54 +61,15 @@ router.post('/', async (req, res) => {
       });
     }
 
-    // Validate wallet address format (basic check)
-    if (typeof submitterWallet !== 'string' || submitterWallet.length < 32 || submitterWallet.length > 44) {
-      return res.status(400).json({ error: 'Invalid wallet address format' });
-    }
-
     // Validate choices is an array
     if (!Array.isArray(choices) || choices.length === 0) {
       return res.status(400).json({ error: 'Choices must be a non-empty array' });
     }
 
-    // Verify message timestamp (5-minute window to prevent replay attacks)
-    let parsedMessage: { action: string; timestamp: number; nonce: string };
-    try {
-      parsedMessage = JSON.parse(message);
-    } catch {
-      logger.warn('[POST /] Invalid message format');
-      return res.status(400).json({ error: 'Invalid message format: must be valid JSON' });
-    }
-
-    const FIVE_MINUTES = 5 * 60 * 1000;
-    if (Math.abs(Date.now() - parsedMessage.timestamp) > FIVE_MINUTES) {
-      logger.warn('[POST /] Message expired', {
-        messageAge: Math.abs(Date.now() - parsedMessage.timestamp)
-      });
-      return res.status(400).json({ error: 'Message expired: timestamp outside 5-minute window' });
-    }
-
-    // Verify signature to prove wallet ownership
-    try {
-      const messageBytes = new TextEncoder().encode(message);
-      const signatureBytes = bs58.decode(signature);
-      const publicKey = new PublicKey(submitterWallet);
-
-      const isValid = nacl.sign.detached.verify(
-        messageBytes,
-        signatureBytes,
-        publicKey.toBytes()
-      );
-
-      if (!isValid) {
-        logger.warn('[POST /] Invalid signature', { submitterWallet });
-        return res.status(403).json({ error: 'Invalid signature: wallet ownership verification failed' });
-      }
-    } catch (error) {
-      logger.warn('[POST /] Signature verification error', {
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return res.status(400).json({ error: 'Signature verification failed' });
+    // Verify wallet ownership; each signed message submits at most one request
+    const verified = await verifySignedMessage(submitterWallet, message, signature, REQUEST_ACTION, '[POST /]');
+    if ('error' in verified) {
+      return res.status(verified.status).json({ error: verified.error });
     }
 
     logger.info('[POST /] Signature verified', { submitterWallet });
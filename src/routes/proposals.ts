@@ -18,9 +18,9 @@
  */
 
 import { Router } from 'express';
-import { requireApiKey } from '../middleware/auth';
+import { requireScope } from '../middleware/auth';
 import { attachModerator, requireModeratorId, getModerator } from '../middleware/validation';
-import { Transaction, PublicKey, Connection } from '@solana/web3.js';
+import { Transaction, PublicKey } from '@solana/web3.js';
 import { getMint } from '@solana/spl-token';
 import BN from 'bn.js';
 import bs58 from 'bs58';
@@ -29,19 +29,22 @@ import { PersistenceService } from '../../app/services/persistence.service';
 import { IProposalDB } from '../../app/types/persistence.interface';
 import { RouterService } from '@app/services/router.service';
 import { LoggerService } from '../../app/services/logger.service';
+import { RpcPool } from '../../app/services/rpc-pool.service';
 import { ProposalStatus } from '../../app/types/moderator.interface';
-import { POOL_METADATA, getAuthorizedPoolsAsync, AuthMethod } from '../config/whitelist';
+import { getPoolMetadata, getAuthorizedPoolsAsync, AuthMethod } from '../config/whitelist';
 import { VaultType } from '@zcomb/vault-sdk';
 import { normalizeWithdrawBuildResponse, calculateMarketPriceFromAmounts } from '../../app/utils/pool-api.utils';
+import { resolveTWAPOutcome } from '../../app/twap-oracle';
+import { inferLifecycleState } from '../../app/utils/proposal-lifecycle';
+import { ProposalLifecycleState } from '../../app/types/proposal-lifecycle.interface';
+import { ApiKeyScope } from '../../app/types/auth.interface';
+import { TWAPResolutionMode, TWAPClampMode, ITWAPClampConfig } from '../../app/types/twap-oracle.interface';
 
 const routerService = RouterService.getInstance();
 const logger = new LoggerService('api').createChild('proposals');
 
 // Solana connection for authorization checks
-const rpcUrl = process.env.HELIUS_API_KEY
-  ? `https://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`
-  : process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
-const authConnection = new Connection(rpcUrl, 'confirmed');
+const authConnection = RpcPool.getInstance().getConnection();
 
 // Type definition for creating a proposal
 export interface CreateProposalRequest {
@@ -61,6 +64,8 @@ export interface CreateProposalRequest {
     twapStartDelay: number;
     passThresholdBps: number;
     minUpdateInterval: number;
+    resolutionMode?: TWAPResolutionMode;
+    clamp?: ITWAPClampConfig | null;
   };
   amm?: {
     initialBaseAmount: string;
@@ -133,7 +138,7 @@ router.get('/all', async (_req, res, next) => {
 
       for (const p of proposals) {
         const poolAddress = p.spotPoolAddress || null;
-        const poolMeta = poolAddress ? POOL_METADATA[poolAddress] : null;
+        const poolMeta = poolAddress ? getPoolMetadata(poolAddress) : null;
 
         allProposals.push({
           id: p.id,
@@ -211,7 +216,7 @@ router.get('/', async (req, res, next) => {
         baseDecimals: p.config.baseDecimals,
         quoteDecimals: p.config.quoteDecimals,
         poolAddress: p.config.spotPoolAddress || null,
-        poolName: p.config.spotPoolAddress? (POOL_METADATA[p.config.spotPoolAddress]?.ticker || 'unknown') : 'unknown',
+        poolName: p.config.spotPoolAddress? (getPoolMetadata(p.config.spotPoolAddress)?.ticker || 'unknown') : 'unknown',
         vaultPDA: p.deriveVaultPDA(VaultType.Base).toBase58(),
       };
     });
@@ -329,6 +334,8 @@ router.get('/:id', async (req, res, next) => {
 
     const statusInfo = proposal.getStatus();
     const serialized = proposal.serialize();
+    const lifecycleState = await persistenceService.getLifecycleState(id)
+      ?? inferLifecycleState(statusInfo.status);
 
     const response = {
       moderatorId,
@@ -336,10 +343,21 @@ router.get('/:id', async (req, res, next) => {
       title: proposal.config.title,
       description: proposal.config.description,
       status: statusInfo.status,
+      lifecycleState,
       winningMarketIndex: statusInfo.winningMarketIndex,
       winningMarketLabel: statusInfo.winningMarketLabel,
       winningBaseConditionalMint: statusInfo.winningBaseConditionalMint?.toString() ?? null,
       winningQuoteConditionalMint: statusInfo.winningQuoteConditionalMint?.toString() ?? null,
+      resolution: statusInfo.resolution ? {
+        mode: statusInfo.resolution.mode,
+        winningTwap: statusInfo.resolution.winningTwap.toString(),
+        statusQuoTwap: statusInfo.resolution.statusQuoTwap.toString(),
+        leadingChallengerIndex: statusInfo.resolution.leadingChallengerIndex,
+        marginBps: statusInfo.resolution.marginBps,
+        requiredMarginBps: statusInfo.resolution.requiredMarginBps,
+      } : null,
+      passThresholdBps: proposal.config.twap.passThresholdBps,
+      cancellation: statusInfo.cancellation,
       createdAt: proposal.config.createdAt,
       finalizedAt: proposal.finalizedAt,
       proposalLength: proposal.config.proposalLength,
@@ -373,9 +391,42 @@ router.get('/:id', async (req, res, next) => {
   }
 });
 
+/**
+ * Lifecycle audit trail for a proposal (admin-only, events include step errors)
+ */
+router.get('/:id/events', requireScope(ApiKeyScope.ModeratorAdmin), async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    const moderatorId = req.moderatorId;
+
+    if (isNaN(id) || id < 0) {
+      logger.warn('[GET /:id/events] Invalid proposal ID', {
+        providedId: req.params.id
+      });
+      return res.status(400).json({ error: 'Invalid proposal ID' });
+    }
+
+    const persistenceService = new PersistenceService(moderatorId, logger.createChild('persistence'));
+    const events = await persistenceService.getProposalEvents(id);
+
+    res.json({
+      moderatorId,
+      proposalId: id,
+      lifecycleState: events.length > 0 ? events[events.length - 1].toState : null,
+      events
+    });
+  } catch (error) {
+    logger.error('[GET /:id/events] Failed to fetch proposal events', {
+      proposalId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
 
 // For creating proposals, we should require explicit moderatorId for clarity
-router.post('/', requireApiKey, requireModeratorId, async (req, res, next) => {
+router.post('/', requireScope(ApiKeyScope.CreateProposal), requireModeratorId, async (req, res, next) => {
   try {
     const moderatorId = req.moderatorId;
     const body = req.body as CreateProposalRequest;
@@ -385,27 +436,6 @@ router.post('/', requireApiKey, requireModeratorId, async (req, res, next) => {
       return res.status(404).json({ error: 'Moderator not found' });
     }
 
-    // Check for existing active proposal (only one allowed per moderator/pool at a time)
-    const persistenceService = new PersistenceService(moderatorId, logger.createChild('persistence'));
-    const existingProposals = await persistenceService.loadAllProposals();
-    const activeProposal = existingProposals.find(p => p.getStatus().status === ProposalStatus.Pending);
-
-    if (activeProposal) {
-      logger.warn('[POST /] Active proposal already exists', {
-        moderatorId,
-        activeProposalId: activeProposal.config.id,
-        activeProposalTitle: activeProposal.config.title,
-      });
-      return res.status(409).json({
-        error: 'An active proposal already exists for this pool',
-        activeProposal: {
-          id: activeProposal.config.id,
-          title: activeProposal.config.title,
-          createdAt: activeProposal.config.createdAt,
-        },
-      });
-    }
-
     // Validate required fields - title, description, proposalLength, creatorWallet required
     if (!body.title || !body.description || !body.proposalLength || !body.creatorWallet) {
       logger.warn('[POST /] Missing required fields', {
@@ -475,7 +505,7 @@ router.post('/', requireApiKey, requireModeratorId, async (req, res, next) => {
       authMethod = authorizedPools[0].authMethod;
     }
 
-    const poolMetadata = POOL_METADATA[poolAddress];
+    const poolMetadata = getPoolMetadata(poolAddress);
 
     if (!poolMetadata) {
       logger.error('[POST /] Pool metadata not configured', { poolAddress });
@@ -569,6 +599,45 @@ router.post('/', requireApiKey, requireModeratorId, async (req, res, next) => {
       creatorWallet
     });
 
+    // Validate optional resolution settings
+    const passThresholdBps = body.twap?.passThresholdBps ?? 0;
+    const resolutionMode = body.twap?.resolutionMode ?? TWAPResolutionMode.Highest;
+    if (!Object.values(TWAPResolutionMode).includes(resolutionMode)) {
+      logger.warn('[POST /] Invalid resolution mode', {
+        resolutionMode,
+        moderatorId
+      });
+      return res.status(400).json({
+        error: 'Invalid twap.resolutionMode',
+        allowed: Object.values(TWAPResolutionMode)
+      });
+    }
+    if (!Number.isFinite(passThresholdBps) || passThresholdBps < 0 || passThresholdBps > 10000) {
+      logger.warn('[POST /] Invalid pass threshold', {
+        passThresholdBps,
+        moderatorId
+      });
+      return res.status(400).json({
+        error: 'Invalid twap.passThresholdBps: must be between 0 and 10000'
+      });
+    }
+
+    const clamp = body.twap?.clamp ?? null;
+    if (clamp && (
+      !Object.values(TWAPClampMode).includes(clamp.mode) ||
+      !Number.isFinite(clamp.maxChange) ||
+      clamp.maxChange < 0
+    )) {
+      logger.warn('[POST /] Invalid clamp config', {
+        clamp,
+        moderatorId
+      });
+      return res.status(400).json({
+        error: 'Invalid twap.clamp: mode must be one of the allowed modes and maxChange must be non-negative',
+        allowedModes: Object.values(TWAPClampMode)
+      });
+    }
+
     // Validate markets count
     if (body.markets && (body.markets < 2 || body.markets > 8)) {
       logger.warn('[POST /] Invalid markets count', {
@@ -580,8 +649,20 @@ router.post('/', requireApiKey, requireModeratorId, async (req, res, next) => {
       });
     }
 
-    // Get withdrawal percentage from pool config
-    const withdrawalPercentage = poolMetadata.withdrawalPercentage;
+    // Split the pool's withdrawal cap across concurrent proposals
+    // Moderator.createProposal re-checks this before confirming the withdrawal
+    const capacity = await moderator.getWithdrawalCapacity(poolAddress);
+    if (capacity.nextWithdrawalPercentage <= 0) {
+      logger.warn('[POST /] Pool has no withdrawal capacity left', {
+        moderatorId,
+        ...capacity
+      });
+      return res.status(409).json({
+        error: 'Pool has reached its limit of concurrent proposals or withdrawn liquidity',
+        capacity
+      });
+    }
+    const withdrawalPercentage = capacity.nextWithdrawalPercentage;
 
     // Step 1: Build withdrawal transaction (confirmation happens in Proposal.initialize())
     // Route to correct endpoint based on pool type (DAMM vs DLMM)
@@ -656,11 +737,7 @@ router.post('/', requireApiKey, requireModeratorId, async (req, res, next) => {
     const initialQuoteAmount = withdrawBuildData.transferred.tokenB;
 
     // Step 2: Fetch total supply using pool metadata
-    const heliusApiKey = process.env.HELIUS_API_KEY;
-    const rpcUrl = heliusApiKey
-      ? `https://mainnet.helius-rpc.com/?api-key=${heliusApiKey}`
-      : moderator.config.rpcEndpoint;
-    const connection = new Connection(rpcUrl, 'confirmed');
+    const connection = RpcPool.getInstance().getConnection();
     const mintPublicKey = new PublicKey(poolMetadata.baseMint);
     const mintInfo = await getMint(connection, mintPublicKey);
     const totalSupply = Math.floor(Number(mintInfo.supply) / Math.pow(10, mintInfo.decimals));
@@ -701,8 +778,10 @@ router.post('/', requireApiKey, requireModeratorId, async (req, res, next) => {
         initialTwapValue: ammPrice,
         twapMaxObservationChangePerUpdate: null,
         twapStartDelay: 0,
-        passThresholdBps: 0,
-        minUpdateInterval: 6000 // 6 seconds
+        passThresholdBps,
+        minUpdateInterval: 6000, // 6 seconds
+        resolutionMode,
+        clamp,
       },
       amm: {
         initialBaseAmount: new BN(initialBaseAmount),
@@ -738,7 +817,8 @@ router.post('/', requireApiKey, requireModeratorId, async (req, res, next) => {
       description: proposal.config.description,
       status: proposal.getStatus().status,
       createdAt: proposal.config.createdAt,
-      finalizedAt: proposal.finalizedAt
+      finalizedAt: proposal.finalizedAt,
+      withdrawalPercentage
     });
   } catch (error) {
     logger.error('[POST /] Failed to create DM', {
@@ -750,7 +830,7 @@ router.post('/', requireApiKey, requireModeratorId, async (req, res, next) => {
   }
 });
 
-router.post('/:id/finalize', requireModeratorId, async (req, res, next) => {
+router.post('/:id/finalize', requireScope(ApiKeyScope.Finalize), requireModeratorId, async (req, res, next) => {
   try {
     const moderatorId = req.moderatorId;
     const moderator = getModerator(moderatorId);
@@ -798,6 +878,165 @@ router.post('/:id/finalize', requireModeratorId, async (req, res, next) => {
   }
 });
 
+/**
+ * Re-run only the finalization steps that didn't complete (admin-only)
+ * Completed steps are detected from lifecycle events and on-chain state and skipped
+ */
+router.post('/:id/finalize/resume', requireScope(ApiKeyScope.Finalize), requireModeratorId, async (req, res, next) => {
+  try {
+    const moderatorId = req.moderatorId;
+    const moderator = getModerator(moderatorId);
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id) || id < 0) {
+      logger.warn('[POST /:id/finalize/resume] Invalid proposal ID', {
+        providedId: req.params.id
+      });
+      return res.status(400).json({ error: 'Invalid proposal ID' });
+    }
+
+    // Get proposal from database (always fresh data)
+    const proposal = await moderator.getProposal(id);
+
+    if (!proposal) {
+      logger.warn('[POST /:id/finalize/resume] Proposal not found', {
+        proposalId: id,
+        moderatorId
+      });
+      return res.status(404).json({ error: 'Proposal not found' });
+    }
+
+    const previousState = await moderator.getLifecycleState(id);
+    const status = proposal.getStatus().status;
+    if (
+      status === ProposalStatus.Uninitialized ||
+      (status === ProposalStatus.Pending && Date.now() < proposal.finalizedAt)
+    ) {
+      return res.status(409).json({
+        error: `Proposal #${id} cannot be finalized yet`,
+        status,
+        lifecycleState: previousState
+      });
+    }
+
+    if (previousState === ProposalLifecycleState.Settled) {
+      return res.json({
+        moderatorId,
+        id,
+        previousState,
+        lifecycleState: previousState,
+        message: `Proposal #${id} is already settled`
+      });
+    }
+
+    try {
+      const lifecycleState = await moderator.resumeFinalization(id);
+
+      logger.info('[POST /:id/finalize/resume] Finalization resumed', {
+        proposalId: id,
+        moderatorId,
+        previousState,
+        lifecycleState
+      });
+
+      res.json({
+        moderatorId,
+        id,
+        previousState,
+        lifecycleState,
+        message: `Proposal #${id} resumed from ${previousState} to ${lifecycleState}`
+      });
+    } catch (stepError) {
+      // The failed step is recorded in the lifecycle; report where the proposal is stuck
+      const lifecycleState = await moderator.getLifecycleState(id);
+      logger.error('[POST /:id/finalize/resume] Finalization step failed', {
+        proposalId: id,
+        moderatorId,
+        previousState,
+        lifecycleState,
+        error: stepError instanceof Error ? stepError.message : String(stepError)
+      });
+      res.status(500).json({
+        error: stepError instanceof Error ? stepError.message : String(stepError),
+        previousState,
+        lifecycleState
+      });
+    }
+  } catch (error) {
+    logger.error('[POST /:id/finalize/resume] Failed to resume finalization', {
+      proposalId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+router.post('/:id/cancel', requireScope(ApiKeyScope.ModeratorAdmin), requireModeratorId, async (req, res, next) => {
+  try {
+    const moderatorId = req.moderatorId;
+    const moderator = getModerator(moderatorId);
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id) || id < 0) {
+      logger.warn('[POST /:id/cancel] Invalid proposal ID', {
+        providedId: req.params.id
+      });
+      return res.status(400).json({ error: 'Invalid proposal ID' });
+    }
+
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    if (!reason) {
+      return res.status(400).json({ error: 'A cancellation reason is required' });
+    }
+
+    // Get proposal from database (always fresh data)
+    const proposal = await moderator.getProposal(id);
+
+    if (!proposal) {
+      logger.warn('[POST /:id/cancel] Proposal not found', {
+        proposalId: id,
+        moderatorId
+      });
+      return res.status(404).json({ error: 'Proposal not found' });
+    }
+
+    const currentStatus = proposal.getStatus().status;
+    if (currentStatus !== ProposalStatus.Pending && currentStatus !== ProposalStatus.Cancelled) {
+      logger.warn('[POST /:id/cancel] Proposal cannot be cancelled', {
+        proposalId: id,
+        moderatorId,
+        status: currentStatus
+      });
+      return res.status(409).json({
+        error: `Proposal #${id} cannot be cancelled with status: ${currentStatus}`
+      });
+    }
+
+    const status = await moderator.cancelProposal(id, reason);
+
+    logger.info('[POST /:id/cancel] Proposal cancelled', {
+      proposalId: id,
+      moderatorId,
+      status,
+      reason
+    });
+
+    res.json({
+      moderatorId,
+      id,
+      status,
+      reason,
+      message: `Proposal #${id} cancelled`
+    });
+  } catch (error) {
+    logger.error('[POST /:id/cancel] Failed to cancel proposal', {
+      proposalId: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
 /**
  * Helper function to build and send market status response from raw DB data
  * Uses raw database data without full proposal deserialization (no authority keypair required)
@@ -851,20 +1090,29 @@ function sendMarketStatusResponseFromDB(
     };
   });
 
-  // Find leading option (highest TWAP)
+  // Find leading option using the proposal's resolution mode (cancelled proposals have none)
+  const isCancelled = proposalData.status === ProposalStatus.Cancelled;
   let leadingOption = null;
-  if (options.length > 0) {
-    const leading = options.reduce((max: any, opt: any) => opt.twap > max.twap ? opt : max);
+  if (options.length > 0 && !isCancelled) {
+    const resolution = resolveTWAPOutcome(
+      options.map((opt: any) => opt.twap),
+      twapData.passThresholdBps ?? 0,
+      twapData.resolutionMode
+    );
+    const leading = options[resolution.winningIndex];
     leadingOption = {
       index: leading.index,
       label: leading.label,
-      twap: leading.twap
+      twap: leading.twap,
+      marginBps: resolution.marginBps,
+      requiredMarginBps: resolution.requiredMarginBps
     };
   }
 
   // Map status to user-friendly format
   const status = proposalData.status === ProposalStatus.Pending ? 'live' :
                  proposalData.status === ProposalStatus.Finalized ? 'completed' :
+                 isCancelled ? 'cancelled' :
                  proposalData.status;
 
   const createdAt = proposalData.created_at ? new Date(proposalData.created_at).getTime() : null;
@@ -888,7 +1136,8 @@ function sendMarketStatusResponseFromDB(
     endsAt,
     finalizedAt,
     options,
-    leadingOption
+    leadingOption,
+    cancellationReason: proposalData.cancellation_reason ?? null
   });
 }
 
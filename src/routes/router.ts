@@ -18,7 +18,8 @@
  */
 
 import { Router } from 'express';
-import { requireApiKey } from '../middleware/auth';
+import { requireScope } from '../middleware/auth';
+import { ApiKeyScope } from '../../app/types/auth.interface';
 import { RouterService } from '../../app/services/router.service';
 import { PublicKey, Keypair } from '@solana/web3.js';
 import { LoggerService } from '../../app/services/logger.service';
@@ -84,7 +85,7 @@ router.get('/moderators', async (_req, res, next) => {
 /**
  * Create a new moderator (requires authentication)
  */
-router.post('/moderators', requireApiKey, async (req, res, next) => {
+router.post('/moderators', requireScope(ApiKeyScope.ModeratorAdmin), async (req, res, next) => {
   try {
     const {
       baseMint,
@@ -230,7 +231,7 @@ router.post('/moderators', requireApiKey, async (req, res, next) => {
  * Refresh the router service (requires authentication)
  * Reloads all moderators from the database
  */
-router.post('/refresh', requireApiKey, async (_req, res, next) => {
+router.post('/refresh', requireScope(ApiKeyScope.ModeratorAdmin), async (_req, res, next) => {
   try {
     const routerService = RouterService.getInstance();
 
@@ -0,0 +1,86 @@
+/*
+ * Copyright (C) 2025 Spice Finance Inc.
+ *
+ * This file is part of Z Combinator.
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router } from 'express';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { SimulationService } from '../../app/services/simulation.service';
+import { LoggerService } from '../../app/services/logger.service';
+
+const router = Router();
+const logger = new LoggerService('api').createChild('simulate');
+
+/**
+ * POST /api/simulate
+ * Preview what a built transaction will do before it is signed
+ * Accepts the output of any build route (swaps, baskets, orders, vault deposits/withdrawals)
+ *
+ * Body:
+ * - transaction: string - Base64 encoded transaction (legacy or v0, signed or not)
+ * - signer?: string - Wallet to report balance changes for (default: fee payer)
+ *
+ * Returns the signer's balance changes, fee, compute units, logs and a decoded error.
+ * A transaction that would fail is still a 200 with success: false.
+ */
+router.post('/', async (req, res, next) => {
+  try {
+    const { transaction, signer } = req.body;
+
+    if (!transaction || typeof transaction !== 'string') {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        required: ['transaction'],
+        optional: ['signer']
+      });
+    }
+
+    let tx: VersionedTransaction;
+    try {
+      tx = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+    } catch {
+      return res.status(400).json({ error: 'Invalid transaction: must be a base64 encoded transaction' });
+    }
+
+    let signerPubkey: PublicKey | undefined;
+    if (signer !== undefined) {
+      try {
+        signerPubkey = new PublicKey(signer);
+      } catch {
+        return res.status(400).json({ error: 'Invalid signer public key' });
+      }
+    }
+
+    const result = await SimulationService.getInstance().simulate(tx, signerPubkey);
+
+    if (!result.success) {
+      logger.info('[POST /] Simulation failed', {
+        signer: result.signer,
+        error: result.error?.code
+      });
+    }
+
+    res.json(result);
+  } catch (error) {
+    logger.error('[POST /] Failed to simulate transaction', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    next(error);
+  }
+});
+
+export default router;
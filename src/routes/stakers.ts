@@ -18,12 +18,13 @@
  */
 
 import { Router } from 'express';
-import { Connection, PublicKey } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import bs58 from 'bs58';
 import { getPool } from '../../app/utils/database';
 import { SolPriceService } from '../../app/services/sol-price.service';
 import { ZcPriceService } from '../../app/services/zc-price.service';
-import { POOL_METADATA } from '../config/pools';
+import { RpcPool } from '../../app/services/rpc-pool.service';
+import { getAllPoolMetadata } from '../config/whitelist';
 
 const router = Router();
 
@@ -43,17 +44,10 @@ const USER_STAKE_UNBONDING_SHARES_OFFSET = 48;
 let volumeCache: { data: any; timestamp: number } | null = null;
 const CACHE_TTL = 30000; // 30 seconds
 
-// Build moderatorId -> ticker map from POOL_METADATA
-const MODERATOR_TICKER_MAP: Record<number, string> = Object.values(POOL_METADATA).reduce(
-  (acc, meta) => {
-    acc[meta.moderatorId] = meta.ticker.toUpperCase();
-    return acc;
-  },
-  {} as Record<number, string>
-);
-
+// Look up the ticker in the live pool registry so renamed or added pools show up without a restart
 const getTickerForModerator = (moderatorId: number): string => {
-  return MODERATOR_TICKER_MAP[moderatorId] || `MOD${moderatorId}`;
+  const meta = getAllPoolMetadata().find(m => m.moderatorId === moderatorId);
+  return meta ? meta.ticker.toUpperCase() : `MOD${moderatorId}`;
 };
 
 /**
@@ -68,8 +62,7 @@ router.get('/volume', async (_req, res) => {
     }
 
     // Get ALL UserStake accounts from the staking vault program
-    const rpcUrl = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
-    const connection = new Connection(rpcUrl, 'confirmed');
+    const connection = RpcPool.getInstance().getConnection();
 
     // Query UserStake accounts by discriminator
     const userStakeAccounts = await connection.getProgramAccounts(PROGRAM_ID, {
@@ -159,8 +152,7 @@ router.get('/trades', async (req, res) => {
     }
 
     // Get ALL UserStake accounts from the staking vault program
-    const rpcUrl = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
-    const connection = new Connection(rpcUrl, 'confirmed');
+    const connection = RpcPool.getInstance().getConnection();
 
     // Query UserStake accounts by discriminator
     const userStakeAccounts = await connection.getProgramAccounts(PROGRAM_ID, {
@@ -271,8 +263,7 @@ router.get('/list', async (req, res) => {
     }
 
     // Get ALL UserStake accounts from the staking vault program
-    const rpcUrl = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
-    const connection = new Connection(rpcUrl, 'confirmed');
+    const connection = RpcPool.getInstance().getConnection();
 
     // Fetch VaultState to get exchange rate (total_assets / total_shares)
     const [vaultState] = PublicKey.findProgramAddressSync(
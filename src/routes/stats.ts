@@ -18,12 +18,13 @@
  */
 
 import { Router } from 'express';
-import { Connection, PublicKey } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import bs58 from 'bs58';
 import { getPool } from '../../app/utils/database';
 import { SolPriceService } from '../../app/services/sol-price.service';
 import { ZcPriceService } from '../../app/services/zc-price.service';
-import { POOL_METADATA } from '../config/pools';
+import { RpcPool } from '../../app/services/rpc-pool.service';
+import { getAllPoolMetadata } from '../config/whitelist';
 
 const router = Router();
 
@@ -49,11 +50,11 @@ const SUMMARY_CACHE_TTL = 30000; // 30 seconds
 
 /**
  * GET /api/stats/projects
- * Returns list of integrated projects from POOL_METADATA
+ * Returns list of integrated projects from the pool registry
  */
 router.get('/projects', async (_req, res) => {
   try {
-    const projects = Object.values(POOL_METADATA)
+    const projects = getAllPoolMetadata()
       // Filter out test pools
       .filter(meta => !meta.ticker.toLowerCase().includes('test'))
       .map(meta => ({
@@ -271,9 +272,9 @@ router.get('/summary', async (req, res) => {
     // 7. Get global metrics (only when no moderator filter)
     let globalMetrics = undefined;
     if (modId === undefined) {
-      // Count active projects: ZC, SURF (from POOL_METADATA) + Star (futarchy)
+      // Count active projects: ZC, SURF (from the pool registry) + Star (futarchy)
       // This doesn't need RPC, so compute it separately to ensure it always works
-      const poolProjects = Object.values(POOL_METADATA)
+      const poolProjects = getAllPoolMetadata()
         .filter(meta => meta.moderatorId === 2 || meta.moderatorId === 6)
         .length;
       const futarchyProjects = 1; // Star
@@ -423,8 +424,7 @@ async function getStakerParticipation(
   zcPrice: number
 ): Promise<{ volumeUsd: number; count: number; participatingCount: number }> {
   try {
-    const rpcUrl = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
-    const connection = new Connection(rpcUrl, 'confirmed');
+    const connection = RpcPool.getInstance().getConnection();
 
     // Get all staker addresses
     const userStakeAccounts = await connection.getProgramAccounts(PROGRAM_ID, {
@@ -508,8 +508,7 @@ async function getStakingMetrics(): Promise<{
       return globalStatsCache.data;
     }
 
-    const rpcUrl = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
-    const connection = new Connection(rpcUrl, 'confirmed');
+    const connection = RpcPool.getInstance().getConnection();
 
     // Fetch VaultState for staking data
     const [vaultState] = PublicKey.findProgramAddressSync(
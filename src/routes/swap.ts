@@ -19,12 +19,13 @@
 
 import { Router } from 'express';
 import { requireModeratorId, getProposalId, getModerator } from '../middleware/validation';
-import { PublicKey, Transaction } from '@solana/web3.js';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
 import { BN } from '@coral-xyz/anchor';
-import { IAMM } from '../../app/types/amm.interface';
+import { IAMM, ISignedSwap, ISwapResult } from '../../app/types/amm.interface';
 import { HistoryService } from '../../app/services/history.service';
 import { LoggerService } from '@app/services/logger.service';
 import { Decimal } from 'decimal.js';
+import { VaultType } from '@zcomb/vault-sdk';
 
 const router = Router();
 const logger = new LoggerService('api').createChild('swap');
@@ -152,7 +153,7 @@ router.post('/:id/buildSwapTx', async (req, res, next) => {
     });
 
     res.json({
-      transaction: transaction.serialize({ requireAllSignatures: false }).toString('base64'),
+      transaction: Buffer.from(transaction.serialize()).toString('base64'),
       expectedAmountOut: quote.swapOutAmount.toString(),
       message: 'Swap transaction built successfully. User must sign before execution.'
     });
@@ -169,14 +170,18 @@ router.post('/:id/buildSwapTx', async (req, res, next) => {
 /**
  * Execute a pre-signed swap transaction
  * POST /:id/executeSwapTx
- * 
+ *
+ * The signed swap is decoded before it is sent. If the claimed user, direction or
+ * input amount don't match it, nothing is sent and 422 is returned. The recorded
+ * amounts are read from the confirmed transaction, not from the request body.
+ *
  * Body:
- * - transaction: string - Base64 encoded signed transaction
+ * - transaction: string - Base64 encoded signed transaction (legacy or v0)
  * - market: number - Market index (0, 1, 2, 3)
- * - user: string - User's public key (for trade logging)
+ * - user: string - User's public key (must be the swap payer)
  * - isBaseToQuote: boolean - Direction of swap
- * - amountIn: string - Amount of input tokens
- * - amountOut: string - Amount of output tokens (optional, can be calculated)
+ * - amountIn: string - Amount of input tokens (raw units)
+ * - amountOut?: string - Ignored; the output amount is read from the chain
  */
 router.post('/:id/executeSwapTx', async (req, res, next) => {
   try {
@@ -184,7 +189,7 @@ router.post('/:id/executeSwapTx', async (req, res, next) => {
     const proposalId = getProposalId(req);
 
     // Validate request body
-    const { transaction, market, user, isBaseToQuote, amountIn, amountOut } = req.body;
+    const { transaction, market, user, isBaseToQuote, amountIn } = req.body;
     if (!transaction || market === undefined || !user || isBaseToQuote === undefined || !amountIn) {
       logger.warn('[POST /:id/executeSwapTx] Missing required fields', {
         proposalId,
@@ -192,8 +197,7 @@ router.post('/:id/executeSwapTx', async (req, res, next) => {
       });
       return res.status(400).json({
         error: 'Missing required fields',
-        required: ['transaction', 'market', 'user', 'isBaseToQuote', 'amountIn'],
-        optional: ['amountOut']
+        required: ['transaction', 'market', 'user', 'isBaseToQuote', 'amountIn']
       });
     }
 
@@ -208,11 +212,66 @@ router.post('/:id/executeSwapTx', async (req, res, next) => {
       });
     }
 
+    if (typeof isBaseToQuote !== 'boolean') {
+      return res.status(400).json({
+        error: 'Invalid field type: isBaseToQuote must be a boolean'
+      });
+    }
+
+    if (!/^\d+$/.test(String(amountIn))) {
+      return res.status(400).json({
+        error: 'Invalid amountIn: must be a non-negative integer string (raw token units)'
+      });
+    }
+
     // Get the appropriate AMM
     const amm = await getAMM(moderatorId, proposalId, market);
 
-    // Deserialize the transaction
-    const tx = Transaction.from(Buffer.from(transaction, 'base64'));
+    // Deserialize the transaction (legacy and v0 wire formats are both accepted)
+    let tx: VersionedTransaction;
+    let swap: ISignedSwap;
+    try {
+      tx = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+      swap = await amm.decodeSwapTx(tx);
+    } catch (decodeError) {
+      logger.warn('[POST /:id/executeSwapTx] Invalid swap transaction', {
+        proposalId,
+        market,
+        error: decodeError instanceof Error ? decodeError.message : String(decodeError)
+      });
+      return res.status(400).json({
+        error: `Invalid transaction: ${decodeError instanceof Error ? decodeError.message : String(decodeError)}`
+      });
+    }
+
+    // Reject claims that don't match the signed swap before anything is sent
+    const mismatches: string[] = [];
+    if (swap.trader.toBase58() !== user) {
+      mismatches.push('user');
+    }
+    if (swap.isBaseToQuote !== isBaseToQuote) {
+      mismatches.push('isBaseToQuote');
+    }
+    if (!swap.amountIn.eq(new BN(String(amountIn)))) {
+      mismatches.push('amountIn');
+    }
+    if (mismatches.length > 0) {
+      logger.warn('[POST /:id/executeSwapTx] Swap does not match request, not sent', {
+        proposalId,
+        market,
+        mismatches,
+        claimed: { user, isBaseToQuote, amountIn: String(amountIn) },
+        signed: {
+          user: swap.trader.toBase58(),
+          isBaseToQuote: swap.isBaseToQuote,
+          amountIn: swap.amountIn.toString()
+        }
+      });
+      return res.status(422).json({
+        error: 'Swap does not match request',
+        mismatches
+      });
+    }
 
     // Execute the swap
     const signature = await amm.executeSwapTx(tx);
@@ -228,48 +287,59 @@ router.post('/:id/executeSwapTx', async (req, res, next) => {
         signature
       });
     }
-    
-    // Log trade to history (required parameters are now validated above)
+
+    // Read the amounts that actually moved on-chain
+    let swapResult: ISwapResult;
     try {
+      swapResult = await amm.fetchSwapResult(signature);
+    } catch (verifyError) {
+      logger.error('[POST /:id/executeSwapTx] Failed to read swap result on-chain, trade not recorded', {
+        error: verifyError instanceof Error ? verifyError.message : String(verifyError),
+        proposalId,
+        market,
+        signature
+      });
+      return res.json({
+        signature,
+        status: 'success',
+        tradeRecorded: false,
+        message: `Swap executed successfully on ${market} market`
+      });
+    }
+
+    // Log trade to history using the verified amounts
+    let tradeRecorded = false;
+    try {
+      // Convert raw amounts to human-readable amounts using token decimals
+      const inputDecimals = swapResult.isBaseToQuote ? amm.baseDecimals : amm.quoteDecimals;
+      const outputDecimals = swapResult.isBaseToQuote ? amm.quoteDecimals : amm.baseDecimals;
+      const amountInDecimal = new Decimal(swapResult.amountIn.toString()).div(Math.pow(10, inputDecimals));
+      const amountOutDecimal = new Decimal(swapResult.amountOut.toString()).div(Math.pow(10, outputDecimals));
+
       // Get current price for the trade (in SOL)
       // WebSocket will enrich with market cap USD for clients
       let currentPriceInSol: Decimal;
       try {
         currentPriceInSol = await amm.fetchPrice();
       } catch {
-        // If we can't fetch price, estimate from amounts
-        if (amountOut) {
-          const inAmount = new Decimal(amountIn);
-          const outAmount = new Decimal(amountOut);
-          currentPriceInSol = isBaseToQuote ? outAmount.div(inAmount) : inAmount.div(outAmount);
-        } else {
-          currentPriceInSol = new Decimal(0); // fallback
-        }
+        // If we can't fetch price, use the trade's execution price
+        currentPriceInSol = swapResult.isBaseToQuote
+          ? amountOutDecimal.div(amountInDecimal)
+          : amountInDecimal.div(amountOutDecimal);
       }
 
-      // Convert raw amounts to human-readable amounts using token decimals
-      const baseDecimals = amm.baseDecimals;
-      const quoteDecimals = amm.quoteDecimals;
-
-      // Determine which decimals to use based on trade direction
-      const inputDecimals = isBaseToQuote ? baseDecimals : quoteDecimals;
-      const outputDecimals = isBaseToQuote ? quoteDecimals : baseDecimals;
-
-      // Convert to human-readable amounts
-      const amountInDecimal = new Decimal(amountIn).div(Math.pow(10, inputDecimals));
-      const amountOutDecimal = amountOut ? new Decimal(amountOut).div(Math.pow(10, outputDecimals)) : new Decimal(0);
-
       await HistoryService.recordTrade({
         moderatorId,
         proposalId,
         market,
-        userAddress: user,
-        isBaseToQuote: isBaseToQuote,
+        userAddress: swapResult.trader.toBase58(),
+        isBaseToQuote: swapResult.isBaseToQuote,
         amountIn: amountInDecimal,
         amountOut: amountOutDecimal,
         price: currentPriceInSol,
         txSignature: signature,
       });
+      tradeRecorded = true;
 
       logger.info('[POST /:id/executeSwapTx] Trade logged to history', {
         proposalId,
@@ -313,6 +383,8 @@ router.post('/:id/executeSwapTx', async (req, res, next) => {
     res.json({
       signature,
       status: 'success',
+      tradeRecorded,
+      amountOut: swapResult.amountOut.toString(),
       message: `Swap executed successfully on ${market} market`
     });
   } catch (error) {
@@ -325,6 +397,137 @@ router.post('/:id/executeSwapTx', async (req, res, next) => {
   }
 });
 
+/**
+ * Build a basket trade backing one market against the others
+ * POST /:id/buildBasketTx
+ *
+ * Splits quote into conditionals through the vault and buys the chosen market's base.
+ * If baseAmount is given, it is split too and sold on every other market.
+ * Every leg is in one transaction, so the basket lands entirely or not at all.
+ * Baskets that don't fit in one transaction are rejected.
+ *
+ * Body:
+ * - user: string - User's public key
+ * - market: number - Market index to back
+ * - quoteAmount: string - Quote tokens to split and spend on the chosen market
+ * - baseAmount?: string - Base tokens to split and sell on the other markets (default: 0)
+ * - slippageBps?: number - Optional slippage tolerance per swap in basis points (default: 50 = 0.5%)
+ */
+router.post('/:id/buildBasketTx', async (req, res, next) => {
+  try {
+    const moderatorId = req.moderatorId;
+    const proposalId = getProposalId(req);
+
+    const { user, market, quoteAmount, baseAmount = '0', slippageBps } = req.body;
+
+    if (!user || market === undefined || quoteAmount === undefined) {
+      logger.warn('[POST /:id/buildBasketTx] Missing required fields', {
+        proposalId,
+        receivedFields: Object.keys(req.body)
+      });
+      return res.status(400).json({
+        error: 'Missing required fields',
+        required: ['user', 'market', 'quoteAmount'],
+        optional: ['baseAmount', 'slippageBps']
+      });
+    }
+
+    if (typeof market !== 'number' || market < 0) {
+      logger.warn('[POST /:id/buildBasketTx] Invalid market', {
+        proposalId,
+        market
+      });
+      return res.status(400).json({
+        error: 'Invalid market: must be a non-negative number (market index)'
+      });
+    }
+
+    if (!/^\d+$/.test(String(quoteAmount)) || !/^\d+$/.test(String(baseAmount))) {
+      logger.warn('[POST /:id/buildBasketTx] Invalid amounts', {
+        proposalId,
+        quoteAmount,
+        baseAmount
+      });
+      return res.status(400).json({
+        error: 'Invalid amounts: quoteAmount and baseAmount must be non-negative integer strings'
+      });
+    }
+
+    if (slippageBps !== undefined && (typeof slippageBps !== 'number' || slippageBps < 0)) {
+      logger.warn('[POST /:id/buildBasketTx] Invalid slippageBps', {
+        proposalId,
+        slippageBps
+      });
+      return res.status(400).json({
+        error: 'Invalid slippageBps: must be a positive number'
+      });
+    }
+
+    const proposal = await getModerator(moderatorId).getProposal(proposalId);
+    if (!proposal) {
+      throw new Error('Proposal not found');
+    }
+
+    const { transaction, quote } = await proposal.buildBasketTx(
+      new PublicKey(user),
+      market,
+      new BN(String(quoteAmount)),
+      new BN(String(baseAmount)),
+      slippageBps
+    );
+
+    logger.info('[POST /:id/buildBasketTx] Basket transaction built', {
+      proposalId,
+      market,
+      user,
+      quoteAmount: String(quoteAmount),
+      baseAmount: String(baseAmount),
+      legs: quote.legs.length
+    });
+
+    res.json({
+      transaction: Buffer.from(transaction.serialize()).toString('base64'),
+      quote: {
+        market: quote.market,
+        quoteAmount: quote.quoteAmount.toString(),
+        baseAmount: quote.baseAmount.toString(),
+        slippageBps: quote.slippageBps,
+        legs: quote.legs.map(leg => leg.type === 'deposit'
+          ? {
+              type: leg.type,
+              vaultType: leg.vaultType === VaultType.Base ? 'base' : 'quote',
+              amount: leg.amount.toString()
+            }
+          : {
+              type: leg.type,
+              market: leg.market,
+              isBaseToQuote: leg.isBaseToQuote,
+              amountIn: leg.amountIn.toString(),
+              expectedAmountOut: leg.expectedAmountOut.toString(),
+              minAmountOut: leg.minAmountOut.toString(),
+              priceImpact: leg.priceImpact
+            }
+        ),
+        positions: quote.positions.map(position => ({
+          market: position.market,
+          expectedBase: position.expectedBase.toString(),
+          minBase: position.minBase.toString(),
+          expectedQuote: position.expectedQuote.toString(),
+          minQuote: position.minQuote.toString()
+        }))
+      },
+      message: 'Basket transaction built successfully. User must sign and execute it.'
+    });
+  } catch (error) {
+    logger.error('[POST /:id/buildBasketTx] Failed to build basket transaction', {
+      error: error instanceof Error ? error.message : String(error),
+      proposalId: req.params.id,
+      market: req.body.market
+    });
+    next(error);
+  }
+});
+
 /**
  * Get quote from conditional AMM
  * GET /:id/:market/quote
@@ -449,4 +652,149 @@ router.get('/:id/:market/quote', async (req, res, next) => {
   }
 });
 
+/**
+ * Get the best route from an underlying token to a target position
+ * GET /:id/route
+ *
+ * With a market, the input is split through the vault and swapped on that market.
+ * Without one, it is split, swapped on every market and the output merged back, so the
+ * trade is spread across all pools instead of pushing one. Routes that send part or all of
+ * the input through the proposal's spot pool are quoted too; the largest output after fees wins.
+ *
+ * Query params:
+ * - isBaseToQuote: boolean - Direction (true: base->quote, false: quote->base)
+ * - amountIn: string - Amount of underlying input tokens (as string to preserve precision)
+ * - market?: number - Market whose conditional output is wanted (omit for the underlying token)
+ * - slippageBps?: number - Optional slippage tolerance per swap in basis points (default: 50 = 0.5%)
+ */
+router.get('/:id/route', async (req, res, next) => {
+  try {
+    const moderatorId = req.moderatorId;
+    const proposalId = getProposalId(req);
+
+    const { isBaseToQuote, amountIn, market, slippageBps } = req.query;
+
+    if (isBaseToQuote === undefined || !amountIn) {
+      logger.warn('[GET /:id/route] Missing required query params', {
+        proposalId,
+        receivedParams: Object.keys(req.query)
+      });
+      return res.status(400).json({
+        error: 'Missing required query parameters',
+        required: ['isBaseToQuote', 'amountIn'],
+        optional: ['market', 'slippageBps']
+      });
+    }
+
+    const direction = isBaseToQuote === 'true';
+
+    const targetMarket = market !== undefined ? parseInt(market as string) : null;
+    if (targetMarket !== null && (isNaN(targetMarket) || targetMarket < 0)) {
+      logger.warn('[GET /:id/route] Invalid market', {
+        proposalId,
+        market
+      });
+      return res.status(400).json({
+        error: 'Invalid market: must be a non-negative number (market index)'
+      });
+    }
+
+    if (!/^\d+$/.test(String(amountIn)) || new BN(String(amountIn)).isZero()) {
+      return res.status(400).json({
+        error: 'Amount must be a positive integer string'
+      });
+    }
+
+    const slippage = slippageBps ? parseInt(slippageBps as string) : 50;
+    if (isNaN(slippage) || slippage < 0) {
+      logger.warn('[GET /:id/route] Invalid slippageBps', {
+        proposalId,
+        slippageBps
+      });
+      return res.status(400).json({
+        error: 'Invalid slippageBps: must be a positive number'
+      });
+    }
+
+    const proposal = await getModerator(moderatorId).getProposal(proposalId);
+    if (!proposal) {
+      throw new Error('Proposal not found');
+    }
+
+    let route;
+    try {
+      route = await proposal.quoteRoute(direction, new BN(String(amountIn)), targetMarket, slippage);
+    } catch (quoteError: any) {
+      // Handle specific AMM errors gracefully
+      if (quoteError.message?.includes('Amount out must be greater than 0')
+        || quoteError.message?.includes('Amount too small')) {
+        return res.status(400).json({
+          error: 'Amount too small - would result in zero output'
+        });
+      }
+      throw quoteError;
+    }
+
+    logger.info('[GET /:id/route] Route found', {
+      proposalId,
+      market: targetMarket,
+      isBaseToQuote: direction,
+      amountIn: String(amountIn),
+      expectedAmountOut: route.expectedAmountOut.toString(),
+      legs: route.legs.length
+    });
+
+    res.json({
+      proposalId,
+      market: route.market,
+      isBaseToQuote: route.isBaseToQuote,
+      amountIn: route.amountIn.toString(),
+      expectedAmountOut: route.expectedAmountOut.toString(),
+      minAmountOut: route.minAmountOut.toString(),
+      slippageBps: route.slippageBps,
+      legs: route.legs.map(leg => {
+        switch (leg.type) {
+          case 'swap':
+            return {
+              type: leg.type,
+              market: leg.market,
+              isBaseToQuote: leg.isBaseToQuote,
+              amountIn: leg.amountIn.toString(),
+              expectedAmountOut: leg.expectedAmountOut.toString(),
+              minAmountOut: leg.minAmountOut.toString(),
+              fee: leg.fee.toString(),
+              priceImpact: leg.priceImpact
+            };
+          case 'spot':
+            return {
+              type: leg.type,
+              pool: leg.pool,
+              isBaseToQuote: leg.isBaseToQuote,
+              amountIn: leg.amountIn.toString(),
+              expectedAmountOut: leg.expectedAmountOut.toString(),
+              minAmountOut: leg.minAmountOut.toString(),
+              fee: leg.fee.toString(),
+              priceImpact: leg.priceImpact
+            };
+          default:
+            return {
+              type: leg.type,
+              vaultType: leg.vaultType === VaultType.Base ? 'base' : 'quote',
+              amount: leg.amount.toString(),
+              minAmount: leg.minAmount.toString()
+            };
+        }
+      }),
+      unspent: route.unspent.map(amount => amount.toString())
+    });
+  } catch (error) {
+    logger.error('[GET /:id/route] Failed to find route', {
+      error: error instanceof Error ? error.message : String(error),
+      proposalId: req.params.id,
+      market: req.query.market
+    });
+    next(error);
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,24 +1,25 @@
 import { Router } from 'express';
-import { Connection } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import {
-  getPoolsForWallet,
-  POOL_METADATA,
+  getPoolMetadata,
+  getAllPoolMetadata,
   getPoolByName,
-  isWalletAuthorizedForPool,
   getAuthorizedPoolsAsync,
   isWalletAuthorizedForPoolAsync,
   AuthMethod,
+  PoolMetadata,
 } from '../config/whitelist';
+import { AuthRequest, requireScope } from '../middleware/auth';
 import { LoggerService } from '../../app/services/logger.service';
+import { PoolRegistryService } from '../../app/services/pool-registry.service';
+import { RpcPool } from '../../app/services/rpc-pool.service';
+import { ApiKeyScope } from '../../app/types/auth.interface';
 
 // Zcombinator API URL for DAO lookups
 const ZCOMBINATOR_API_URL = process.env.ZCOMBINATOR_API_URL || 'https://api.zcombinator.io';
 
-// Initialize Solana connection for token balance checks
-const rpcUrl = process.env.HELIUS_API_KEY
-  ? `https://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`
-  : process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
-const connection = new Connection(rpcUrl, 'confirmed');
+// Solana connection for token balance checks
+const connection = RpcPool.getInstance().getConnection();
 
 const logger = new LoggerService('api').createChild('whitelist');
 const router = Router();
@@ -42,7 +43,7 @@ interface ZcombinatorDAO {
 
 /**
  * Look up a DAO from zcombinator by name
- * Returns pool metadata in the same format as POOL_METADATA
+ * Returns pool metadata in the same format as the pool registry
  */
 async function getZcombinatorDaoByName(name: string): Promise<{
   poolAddress: string;
@@ -142,7 +143,7 @@ router.get('/check', async (req, res, next) => {
     // Build response with pool metadata and auth method
     const poolsWithMetadata = authorizedPools.map(({ poolAddress, authMethod }) => ({
       poolAddress,
-      metadata: POOL_METADATA[poolAddress] || null,
+      metadata: getPoolMetadata(poolAddress) || null,
       authMethod,
     }));
 
@@ -177,7 +178,7 @@ router.get('/check', async (req, res, next) => {
  */
 router.get('/pools', async (req, res, next) => {
   try {
-    const pools = Object.values(POOL_METADATA);
+    const pools = getAllPoolMetadata();
 
     logger.debug('[GET /pools] Fetched pool list', {
       poolCount: pools.length,
@@ -276,4 +277,317 @@ router.get('/pool/:name', async (req, res, next) => {
   }
 });
 
+// ============================================================================
+// Admin: pool metadata, whitelists and audit log
+// ============================================================================
+
+const requireAdmin = requireScope(ApiKeyScope.ModeratorAdmin);
+
+/**
+ * Check that a string is a valid Solana public key
+ */
+function isValidAddress(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a full pool metadata object
+ * @returns Error message, or null if valid
+ */
+function validatePoolMetadata(meta: Partial<PoolMetadata>): string | null {
+  if (!isValidAddress(meta.poolAddress)) return 'poolAddress must be a valid public key';
+  if (typeof meta.ticker !== 'string' || !/^[a-z0-9]{1,32}$/.test(meta.ticker)) {
+    return 'ticker must be 1-32 lowercase letters or digits';
+  }
+  if (!isValidAddress(meta.baseMint)) return 'baseMint must be a valid public key';
+  if (!isValidAddress(meta.quoteMint)) return 'quoteMint must be a valid public key';
+  for (const field of ['baseDecimals', 'quoteDecimals'] as const) {
+    const decimals = meta[field];
+    if (typeof decimals !== 'number' || !Number.isInteger(decimals) || decimals < 0 || decimals > 18) {
+      return `${field} must be an integer between 0 and 18`;
+    }
+  }
+  if (typeof meta.moderatorId !== 'number' || !Number.isInteger(meta.moderatorId) || meta.moderatorId < 0) {
+    return 'moderatorId must be a non-negative integer';
+  }
+  if (meta.poolType !== 'damm' && meta.poolType !== 'dlmm') return "poolType must be 'damm' or 'dlmm'";
+  if (
+    typeof meta.withdrawalPercentage !== 'number' ||
+    !Number.isInteger(meta.withdrawalPercentage) ||
+    meta.withdrawalPercentage < 1 ||
+    meta.withdrawalPercentage > 50
+  ) {
+    return 'withdrawalPercentage must be an integer between 1 and 50';
+  }
+  if (meta.icon !== undefined && typeof meta.icon !== 'string') return 'icon must be a string';
+  if (meta.minTokenBalance !== undefined && (typeof meta.minTokenBalance !== 'number' || meta.minTokenBalance < 0)) {
+    return 'minTokenBalance must be a non-negative number';
+  }
+  return null;
+}
+
+/**
+ * Pick pool metadata fields from a request body (unknown fields are dropped)
+ * Explicit nulls clear the optional icon and minTokenBalance fields
+ */
+function pickPoolMetadata(body: any): Partial<PoolMetadata> {
+  const fields: Array<keyof PoolMetadata> = [
+    'poolAddress', 'ticker', 'baseMint', 'quoteMint', 'baseDecimals', 'quoteDecimals',
+    'moderatorId', 'poolType', 'withdrawalPercentage', 'icon', 'minTokenBalance',
+  ];
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (body?.[field] !== undefined) {
+      picked[field] = body[field] === null ? undefined : body[field];
+    }
+  }
+  return picked as Partial<PoolMetadata>;
+}
+
+/**
+ * Return the name of the key that made an admin change
+ */
+function getActor(req: AuthRequest): string {
+  return req.apiKey?.name ?? 'unknown';
+}
+
+/**
+ * Check whether another pool already uses a ticker
+ */
+function isTickerTaken(ticker: string, poolAddress: string): boolean {
+  return getAllPoolMetadata().some(p => p.ticker === ticker && p.poolAddress !== poolAddress);
+}
+
+/**
+ * POST /api/whitelist/pools
+ * Register a pool
+ * Body: full pool metadata (see PoolMetadata)
+ */
+router.post('/pools', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const metadata = pickPoolMetadata(req.body);
+    const validationError = validatePoolMetadata(metadata);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (getPoolMetadata(metadata.poolAddress!)) {
+      return res.status(409).json({ error: 'Pool already registered', poolAddress: metadata.poolAddress });
+    }
+    if (isTickerTaken(metadata.ticker!, metadata.poolAddress!)) {
+      return res.status(409).json({ error: 'Ticker already in use', ticker: metadata.ticker });
+    }
+
+    const pool = await PoolRegistryService.getInstance().upsertPool(metadata as PoolMetadata, getActor(req));
+
+    logger.info('[POST /pools] Pool registered', {
+      poolAddress: pool.poolAddress,
+      ticker: pool.ticker,
+      actor: getActor(req)
+    });
+
+    res.status(201).json({ pool });
+  } catch (error) {
+    logger.error('[POST /pools] Failed to register pool', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/whitelist/pools/:poolAddress
+ * Update a pool's metadata
+ * Body: any pool metadata fields except poolAddress (null clears icon/minTokenBalance)
+ */
+router.put('/pools/:poolAddress', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { poolAddress } = req.params;
+    const existing = getPoolMetadata(poolAddress);
+    if (!existing) {
+      return res.status(404).json({ error: 'Pool not found', poolAddress });
+    }
+
+    const updates = pickPoolMetadata(req.body);
+    if (updates.poolAddress !== undefined && updates.poolAddress !== poolAddress) {
+      return res.status(400).json({ error: 'poolAddress cannot be changed' });
+    }
+
+    const merged: Partial<PoolMetadata> = { ...existing, poolAddress };
+    for (const field of ['icon', 'minTokenBalance'] as const) {
+      if (req.body?.[field] === null) {
+        delete merged[field];
+      }
+    }
+    Object.assign(merged, Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    ));
+
+    const validationError = validatePoolMetadata(merged);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    if (isTickerTaken(merged.ticker!, poolAddress)) {
+      return res.status(409).json({ error: 'Ticker already in use', ticker: merged.ticker });
+    }
+
+    const pool = await PoolRegistryService.getInstance().upsertPool(merged as PoolMetadata, getActor(req));
+
+    logger.info('[PUT /pools/:poolAddress] Pool updated', {
+      poolAddress,
+      actor: getActor(req)
+    });
+
+    res.json({ pool });
+  } catch (error) {
+    logger.error('[PUT /pools/:poolAddress] Failed to update pool', {
+      poolAddress: req.params.poolAddress,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/whitelist/pools/:poolAddress
+ * Remove a pool and its whitelist
+ */
+router.delete('/pools/:poolAddress', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { poolAddress } = req.params;
+    const deleted = await PoolRegistryService.getInstance().deletePool(poolAddress, getActor(req));
+    if (!deleted) {
+      return res.status(404).json({ error: 'Pool not found', poolAddress });
+    }
+
+    logger.info('[DELETE /pools/:poolAddress] Pool removed', {
+      poolAddress,
+      actor: getActor(req)
+    });
+
+    res.json({ success: true, poolAddress });
+  } catch (error) {
+    logger.error('[DELETE /pools/:poolAddress] Failed to remove pool', {
+      poolAddress: req.params.poolAddress,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    next(error);
+  }
+});
+
+/**
+ * GET /api/whitelist/pools/:poolAddress/wallets
+ * List the wallets whitelisted for a pool
+ */
+router.get('/pools/:poolAddress/wallets', requireAdmin, (req, res) => {
+  const { poolAddress } = req.params;
+  if (!getPoolMetadata(poolAddress)) {
+    return res.status(404).json({ error: 'Pool not found', poolAddress });
+  }
+
+  const wallets = PoolRegistryService.getInstance().getWhitelistedWallets(poolAddress);
+  res.json({ poolAddress, wallets, count: wallets.length });
+});
+
+/**
+ * POST /api/whitelist/pools/:poolAddress/wallets
+ * Whitelist a wallet for a pool
+ * Body: { wallet }
+ */
+router.post('/pools/:poolAddress/wallets', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { poolAddress } = req.params;
+    const { wallet } = req.body ?? {};
+
+    if (!isValidAddress(wallet)) {
+      return res.status(400).json({ error: 'wallet must be a valid public key' });
+    }
+    if (!getPoolMetadata(poolAddress)) {
+      return res.status(404).json({ error: 'Pool not found', poolAddress });
+    }
+
+    const added = await PoolRegistryService.getInstance().addWhitelistedWallet(poolAddress, wallet, getActor(req));
+    if (!added) {
+      return res.status(409).json({ error: 'Wallet already whitelisted', poolAddress, wallet });
+    }
+
+    logger.info('[POST /pools/:poolAddress/wallets] Wallet whitelisted', {
+      poolAddress,
+      wallet,
+      actor: getActor(req)
+    });
+
+    res.status(201).json({ success: true, poolAddress, wallet });
+  } catch (error) {
+    logger.error('[POST /pools/:poolAddress/wallets] Failed to whitelist wallet', {
+      poolAddress: req.params.poolAddress,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/whitelist/pools/:poolAddress/wallets/:wallet
+ * Remove a wallet from a pool's whitelist
+ */
+router.delete('/pools/:poolAddress/wallets/:wallet', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { poolAddress, wallet } = req.params;
+    const removed = await PoolRegistryService.getInstance().removeWhitelistedWallet(poolAddress, wallet, getActor(req));
+    if (!removed) {
+      return res.status(404).json({ error: 'Wallet not whitelisted for pool', poolAddress, wallet });
+    }
+
+    logger.info('[DELETE /pools/:poolAddress/wallets/:wallet] Wallet removed from whitelist', {
+      poolAddress,
+      wallet,
+      actor: getActor(req)
+    });
+
+    res.json({ success: true, poolAddress, wallet });
+  } catch (error) {
+    logger.error('[DELETE /pools/:poolAddress/wallets/:wallet] Failed to remove wallet', {
+      poolAddress: req.params.poolAddress,
+      wallet: req.params.wallet,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    next(error);
+  }
+});
+
+/**
+ * GET /api/whitelist/audit
+ * Read the pool and whitelist change log, newest first
+ *
+ * Query params (optional):
+ *   - poolAddress: Only changes to this pool
+ *   - limit: Max entries (default 100, max 1000)
+ */
+router.get('/audit', requireAdmin, async (req, res, next) => {
+  try {
+    const poolAddress = typeof req.query.poolAddress === 'string' ? req.query.poolAddress : undefined;
+    const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string) : 100;
+    if (isNaN(limit) || limit < 1 || limit > 1000) {
+      return res.status(400).json({ error: 'limit must be between 1 and 1000' });
+    }
+
+    const entries = await PoolRegistryService.getInstance().getAuditLog({ poolAddress, limit });
+    res.json({ entries, count: entries.length });
+  } catch (error) {
+    logger.error('[GET /audit] Failed to read audit log', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    next(error);
+  }
+});
+
 export default router;
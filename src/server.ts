@@ -28,6 +28,11 @@ import cors from 'cors';
 import routes from './routes';
 import { errorHandler } from './middleware/errorHandler';
 import RouterService from '../app/services/router.service';
+import { SchedulerService } from '../app/services/scheduler.service';
+import { PoolRegistryService } from '../app/services/pool-registry.service';
+import { RpcPool } from '../app/services/rpc-pool.service';
+import { PriorityFeeService } from '../app/services/priority-fee.service';
+import { TransactionTrackerService } from '../app/services/transaction-tracker.service';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -42,6 +47,17 @@ app.use(errorHandler);
 const startServer = async () => {
   try {
     console.log('Starting server ...');
+    // Track RPC endpoint health so requests avoid lagging or failing endpoints
+    RpcPool.getInstance().start();
+
+    // Load pool metadata and whitelists (needed for manager keypairs), then keep them in sync
+    const poolRegistry = PoolRegistryService.getInstance();
+    await poolRegistry.refresh();
+    poolRegistry.start();
+
+    // Sample priority fees for spot pools and the accounts transactions use most
+    PriorityFeeService.getInstance().start();
+
     // Load moderators from database
     const router = RouterService.getInstance();
     await router.loadModerators();
@@ -49,6 +65,14 @@ const startServer = async () => {
     // Recover and reschedule tasks for pending proposals
     await router.recoverPendingProposals();
 
+    // Settle transactions a previous run was still tracking (non-fatal)
+    await TransactionTrackerService.getInstance().reconcilePending().catch(error => {
+      console.error('Failed to reconcile pending transactions:', error);
+    });
+
+    // Start running persisted jobs (TWAP cranks, price recording, finalization)
+    SchedulerService.getInstance().start();
+
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
 
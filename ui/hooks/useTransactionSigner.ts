@@ -19,7 +19,7 @@
 
 import { useCallback } from 'react';
 import { useConnectedStandardWallets } from '@privy-io/react-auth/solana';
-import { Transaction } from '@solana/web3.js';
+import { Transaction, VersionedTransaction } from '@solana/web3.js';
 
 /**
  * Hook that provides transaction and message signing using Privy's wallet standard interface.
@@ -33,7 +33,7 @@ export function useTransactionSigner() {
   const { wallets } = useConnectedStandardWallets();
 
   const signTransaction = useCallback(
-    async (transaction: Transaction): Promise<Transaction> => {
+    async <T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> => {
       // Get the first available wallet
       const wallet = wallets[0];
 
@@ -42,15 +42,19 @@ export function useTransactionSigner() {
       }
 
       // Serialize the transaction to Uint8Array
-      const serializedTx = transaction.serialize({ requireAllSignatures: false });
+      const serializedTx = transaction instanceof VersionedTransaction
+        ? transaction.serialize()
+        : transaction.serialize({ requireAllSignatures: false });
 
       // Sign the transaction using the standard wallet interface
       const result = await wallet.signTransaction({ transaction: serializedTx });
 
-      // Deserialize the signed transaction back to a Transaction object
-      const signedTransaction = Transaction.from(result.signedTransaction);
+      // Deserialize the signed transaction back into the format it was given in
+      const signedTransaction = transaction instanceof VersionedTransaction
+        ? VersionedTransaction.deserialize(result.signedTransaction)
+        : Transaction.from(result.signedTransaction);
 
-      return signedTransaction;
+      return signedTransaction as T;
     },
     [wallets]
   );
@@ -26,7 +26,7 @@ import { PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js'
 import { BN } from '@coral-xyz/anchor';
 import { FutarchyClient, VaultType } from '@zcomb/programs-sdk';
 import { getAssociatedTokenAddress, getAccount, createAssociatedTokenAccountInstruction, ASSOCIATED_TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import { createFutarchyClient, createReadOnlyFutarchyClient, getConnection, getTokenProgramForMint } from './utils';
+import { createFutarchyClient, createReadOnlyFutarchyClient, getConnection, getPriorityFeeInstruction, getTokenProgramForMint } from './utils';
 
 // Re-export VaultType from programs-sdk
 export { VaultType } from '@zcomb/programs-sdk';
@@ -389,14 +389,22 @@ export async function executeSwapWithSlippage(
   // The SDK expects slippagePercent, not basis points
   const slippagePercent = slippageBps / 100;
 
-  const { builder } = await client.amm.swapWithSlippage(
-    userPublicKey,
-    poolPDA,
-    swapAToB,
-    inputBN,
-    slippagePercent,
-    { autoCreateTokenAccounts: true }
-  );
+  const [{ builder }, priorityFeeIx] = await Promise.all([
+    client.amm.swapWithSlippage(
+      userPublicKey,
+      poolPDA,
+      swapAToB,
+      inputBN,
+      slippagePercent,
+      { autoCreateTokenAccounts: true }
+    ),
+    getPriorityFeeInstruction([poolPDA]),
+  ]);
+
+  // Price the swap by recent fees on the pool
+  if (priorityFeeIx) {
+    builder.preInstructions([priorityFeeIx]);
+  }
 
   const signature = await builder.rpc();
 
@@ -17,15 +17,19 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Connection, PublicKey, Transaction } from '@solana/web3.js';
+import { ComputeBudgetProgram, Connection, PublicKey, Transaction, TransactionInstruction, VersionedTransaction } from '@solana/web3.js';
 import { AnchorProvider, Wallet } from '@coral-xyz/anchor';
 import { VaultClient } from '@zcomb/vault-sdk';
 import * as futarchy from '@zcomb/programs-sdk';
 import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
 
-export type SignTransaction = (tx: Transaction) => Promise<Transaction>;
+/** Signs legacy and v0 transactions, returning the same format it was given */
+export type SignTransaction = <T extends Transaction | VersionedTransaction>(tx: T) => Promise<T>;
 
 const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || 'https://api.mainnet-beta.solana.com';
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+/** Ceiling on the oracle's compute unit price, in microlamports (same default as the server) */
+const MAX_PRIORITY_FEE = Number(process.env.NEXT_PUBLIC_MAX_PRIORITY_FEE) || 25000;
 
 /**
  * Create a Solana connection
@@ -34,6 +38,31 @@ export function getConnection(): Connection {
   return new Connection(RPC_URL, 'confirmed');
 }
 
+/**
+ * Build a compute unit price instruction from the API's priority fee oracle
+ * The price is capped at NEXT_PUBLIC_MAX_PRIORITY_FEE.
+ * Returns null if the oracle can't be reached, leaving the transaction at the default fee
+ */
+export async function getPriorityFeeInstruction(accounts: PublicKey[]): Promise<TransactionInstruction | null> {
+  try {
+    const query = accounts.map(account => account.toBase58()).join(',');
+    const response = await fetch(`${API_BASE_URL}/api/fees/priority?accounts=${encodeURIComponent(query)}`);
+    if (!response.ok) {
+      return null;
+    }
+    const { microLamports } = await response.json();
+    if (!(microLamports > 0)) {
+      return null;
+    }
+    return ComputeBudgetProgram.setComputeUnitPrice({
+      microLamports: Math.min(Math.floor(microLamports), MAX_PRIORITY_FEE)
+    });
+  } catch (error) {
+    console.warn('Failed to fetch priority fee:', error);
+    return null;
+  }
+}
+
 /**
  * Adapter to wrap a Privy/wallet signTransaction function into an Anchor-compatible Wallet
  * This creates a wallet that can sign transactions but doesn't have a keypair
@@ -17,9 +17,10 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { PublicKey, Transaction } from '@solana/web3.js';
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
 import toast from 'react-hot-toast';
 import { buildApiUrl } from './api-utils';
+import type { SignTransaction } from './programs/utils';
 import { fetchUserBalanceForWinningMint as fetchUserBalanceOld, redeemWinnings as redeemWinningsOld, VaultType } from './programs/vault';
 import { fetchUserBalanceForWinningMint as fetchUserBalanceFutarchy, redeemWinnings as redeemWinningsFutarchy, executeSwapWithSlippage } from './programs/futarchy';
 
@@ -31,7 +32,7 @@ export interface OpenPositionConfig {
   inputToken: 'quote' | 'base';  // Which conditional token we're selling
   inputAmount: string;  // Amount of conditional tokens to sell
   userAddress: string;
-  signTransaction: (transaction: Transaction) => Promise<Transaction>;
+  signTransaction: SignTransaction;
   baseDecimals: number;  // Required - decimals for the base token
   quoteDecimals: number; // Required - decimals for the quote token
   tokenSymbol: string;  // Display symbol for the base token (e.g., 'ZC')
@@ -204,7 +205,7 @@ async function executeMarketSwap(
   isBaseToQuote: boolean,
   amountIn: string,
   userAddress: string,
-  signTransaction: (transaction: Transaction) => Promise<Transaction>,
+  signTransaction: SignTransaction,
   moderatorId?: number
 ): Promise<void> {
 
@@ -232,8 +233,8 @@ async function executeMarketSwap(
 
   const swapTxData = await buildSwapResponse.json();
 
-  // Sign the swap transaction
-  const swapTx = Transaction.from(Buffer.from(swapTxData.transaction, 'base64'));
+  // Sign the swap transaction (built as a v0 transaction)
+  const swapTx = VersionedTransaction.deserialize(Buffer.from(swapTxData.transaction, 'base64'));
   const signedSwapTx = await signTransaction(swapTx);
 
   // Execute the signed swap transaction
@@ -243,7 +244,7 @@ async function executeMarketSwap(
       'Content-Type': 'application/json'
     },
     body: JSON.stringify({
-      transaction: Buffer.from(signedSwapTx.serialize({ requireAllSignatures: false })).toString('base64'),
+      transaction: Buffer.from(signedSwapTx.serialize()).toString('base64'),
       market: market,
       user: userAddress,
       isBaseToQuote: isBaseToQuote,
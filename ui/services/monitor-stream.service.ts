@@ -72,6 +72,8 @@ class MonitorStreamService {
   private reconnectAttempts = 0;
   private readonly maxReconnectAttempts = 5;
   private readonly reconnectDelay = 3000;
+  // ID of the last event received, so a reconnect replays what was missed
+  private lastEventId: string | null = null;
 
   // Subscription maps: proposalPda -> Set of callbacks
   private priceSubscribers = new Map<string, Set<PriceCallback>>();
@@ -86,7 +88,12 @@ class MonitorStreamService {
       return; // Already connected
     }
 
-    const url = `${getMonitorUrl()}/events`;
+    // Only the events this service handles; the server replays anything after lastEventId
+    const params = new URLSearchParams({ type: 'PRICE_UPDATE,COND_SWAP,TWAP_UPDATE' });
+    if (this.lastEventId) {
+      params.set('lastEventId', this.lastEventId);
+    }
+    const url = `${getMonitorUrl()}/events?${params}`;
 
     try {
       this.eventSource = new EventSource(url);
@@ -118,6 +125,7 @@ class MonitorStreamService {
       this.eventSource.addEventListener('PRICE_UPDATE', (event: MessageEvent) => {
         try {
           const data = JSON.parse(event.data);
+          this.lastEventId = event.lastEventId || this.lastEventId;
           this.handlePriceUpdate(data);
         } catch (error) {
           console.error('[MonitorStream] Failed to parse PRICE_UPDATE:', error);
@@ -127,6 +135,7 @@ class MonitorStreamService {
       this.eventSource.addEventListener('COND_SWAP', (event: MessageEvent) => {
         try {
           const data = JSON.parse(event.data);
+          this.lastEventId = event.lastEventId || this.lastEventId;
           this.handleTradeUpdate(data);
         } catch (error) {
           console.error('[MonitorStream] Failed to parse COND_SWAP:', error);
@@ -136,6 +145,7 @@ class MonitorStreamService {
       this.eventSource.addEventListener('TWAP_UPDATE', (event: MessageEvent) => {
         try {
           const data = JSON.parse(event.data);
+          this.lastEventId = event.lastEventId || this.lastEventId;
           this.handleTWAPUpdate(data);
         } catch (error) {
           console.error('[MonitorStream] Failed to parse TWAP_UPDATE:', error);
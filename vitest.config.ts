@@ -0,0 +1,18 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@app': path.resolve(__dirname, 'app'),
+      '@src': path.resolve(__dirname, 'src'),
+    },
+  },
+  test: {
+    include: ['{app,src,monitor,scripts}/**/*.test.ts'],
+    env: {
+      LOG_TO_CONSOLE: 'false',
+      LOG_TO_FILE: 'false',
+    },
+  },
+});